@@ -0,0 +1,29 @@
+-- AlterEnum
+ALTER TYPE "MessageStatus" ADD VALUE 'queued';
+ALTER TYPE "MessageStatus" ADD VALUE 'sent';
+ALTER TYPE "MessageStatus" ADD VALUE 'delivered';
+ALTER TYPE "MessageStatus" ADD VALUE 'read';
+
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "error_code" VARCHAR(50),
+ADD COLUMN "status_updated_at" TIMESTAMPTZ;
+
+-- CreateTable
+CREATE TABLE "message_status_events" (
+    "id" UUID NOT NULL,
+    "message_id" UUID NOT NULL,
+    "status" "MessageStatus" NOT NULL,
+    "provider_status" VARCHAR(50),
+    "error_code" VARCHAR(50),
+    "error_message" TEXT,
+    "occurred_at" TIMESTAMPTZ NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_status_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "message_status_events_message_id_occurred_at_idx" ON "message_status_events"("message_id", "occurred_at");
+
+-- AddForeignKey
+ALTER TABLE "message_status_events" ADD CONSTRAINT "message_status_events_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
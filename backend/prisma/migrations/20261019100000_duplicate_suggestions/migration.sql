@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "DuplicateSuggestionStatus" AS ENUM ('pending', 'dismissed');
+
+-- CreateTable
+CREATE TABLE "duplicate_suggestions" (
+    "id" UUID NOT NULL,
+    "customer_id" UUID NOT NULL,
+    "candidate_id" UUID NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "reasons" JSONB NOT NULL DEFAULT '[]',
+    "status" "DuplicateSuggestionStatus" NOT NULL DEFAULT 'pending',
+    "reviewed_by" UUID,
+    "reviewed_at" TIMESTAMPTZ,
+    "scored_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "duplicate_suggestions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "duplicate_suggestions_customer_id_candidate_id_key" ON "duplicate_suggestions"("customer_id", "candidate_id");
+
+-- CreateIndex
+CREATE INDEX "duplicate_suggestions_status_score_idx" ON "duplicate_suggestions"("status", "score" DESC);
+
+-- CreateIndex
+CREATE INDEX "duplicate_suggestions_candidate_id_idx" ON "duplicate_suggestions"("candidate_id");
+
+-- AddForeignKey
+ALTER TABLE "duplicate_suggestions" ADD CONSTRAINT "duplicate_suggestions_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "duplicate_suggestions" ADD CONSTRAINT "duplicate_suggestions_candidate_id_fkey" FOREIGN KEY ("candidate_id") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
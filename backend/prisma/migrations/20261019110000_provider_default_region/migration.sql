@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "providers" ADD COLUMN "default_region" VARCHAR(2);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "providers" ADD COLUMN "owned_addresses" TEXT[] DEFAULT ARRAY[]::TEXT[];
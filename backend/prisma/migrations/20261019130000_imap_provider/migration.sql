@@ -0,0 +1,22 @@
+-- AlterEnum
+ALTER TYPE "ProviderType" ADD VALUE 'imap';
+
+-- CreateTable
+CREATE TABLE "mailbox_sync_states" (
+    "id" UUID NOT NULL,
+    "provider_id" UUID NOT NULL,
+    "mailbox" VARCHAR(255) NOT NULL,
+    "uid_validity" BIGINT,
+    "last_uid" BIGINT NOT NULL DEFAULT 0,
+    "last_synced_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "mailbox_sync_states_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mailbox_sync_states_provider_id_mailbox_key" ON "mailbox_sync_states"("provider_id", "mailbox");
+
+-- AddForeignKey
+ALTER TABLE "mailbox_sync_states" ADD CONSTRAINT "mailbox_sync_states_provider_id_fkey" FOREIGN KEY ("provider_id") REFERENCES "providers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
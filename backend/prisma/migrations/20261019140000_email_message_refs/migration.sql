@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "email_message_refs" (
+    "id" UUID NOT NULL,
+    "message_id" VARCHAR(512) NOT NULL,
+    "conversation_id" UUID NOT NULL,
+    "normalized_subject" VARCHAR(255),
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "email_message_refs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_message_refs_message_id_conversation_id_key" ON "email_message_refs"("message_id", "conversation_id");
+
+-- CreateIndex
+CREATE INDEX "email_message_refs_conversation_id_idx" ON "email_message_refs"("conversation_id");
+
+-- CreateIndex
+CREATE INDEX "email_message_refs_normalized_subject_created_at_idx" ON "email_message_refs"("normalized_subject", "created_at" DESC);
+
+-- AddForeignKey
+ALTER TABLE "email_message_refs" ADD CONSTRAINT "email_message_refs_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "ParticipantRole" AS ENUM ('from', 'to', 'cc', 'bcc', 'reply_to');
+
+-- CreateTable
+CREATE TABLE "message_participants" (
+    "id" UUID NOT NULL,
+    "message_id" UUID NOT NULL,
+    "role" "ParticipantRole" NOT NULL,
+    "address" VARCHAR(255) NOT NULL,
+    "display_name" VARCHAR(255),
+    "customer_id" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_participants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_participants_message_id_role_address_key" ON "message_participants"("message_id", "role", "address");
+
+-- CreateIndex
+CREATE INDEX "message_participants_customer_id_idx" ON "message_participants"("customer_id");
+
+-- AddForeignKey
+ALTER TABLE "message_participants" ADD CONSTRAINT "message_participants_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_participants" ADD CONSTRAINT "message_participants_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
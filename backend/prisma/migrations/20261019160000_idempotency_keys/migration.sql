@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "IdempotencyStatus" AS ENUM ('in_progress', 'completed');
+
+-- CreateTable
+CREATE TABLE "idempotency_keys" (
+    "key" VARCHAR(64) NOT NULL,
+    "status" "IdempotencyStatus" NOT NULL DEFAULT 'in_progress',
+    "message_id" UUID,
+    "locked_by" VARCHAR(64),
+    "locked_until" TIMESTAMPTZ,
+    "expires_at" TIMESTAMPTZ NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "idempotency_keys_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "idempotency_keys_expires_at_idx" ON "idempotency_keys"("expires_at");
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "message_hash" VARCHAR(64);
+
+-- Backfill from the copy previously kept in provider_meta
+UPDATE "messages" SET "message_hash" = "provider_meta"->>'messageHash' WHERE "provider_meta" ? 'messageHash';
+
+-- CreateIndex
+CREATE INDEX "messages_message_hash_timestamp_idx" ON "messages"("message_hash", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "messages_from_identifier_to_identifier_timestamp_idx" ON "messages"("from_identifier", "to_identifier", "timestamp");
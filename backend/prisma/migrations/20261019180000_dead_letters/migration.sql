@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "DeadLetterStatus" AS ENUM ('retrying', 'dead', 'replayed', 'discarded');
+
+-- CreateTable
+CREATE TABLE "dead_letters" (
+    "id" UUID NOT NULL,
+    "provider_id" UUID NOT NULL,
+    "provider_message_id" VARCHAR(255) NOT NULL,
+    "raw_message" JSONB NOT NULL,
+    "error_code" VARCHAR(50) NOT NULL,
+    "error_message" TEXT NOT NULL,
+    "failed_stage" VARCHAR(50),
+    "attempts" JSONB NOT NULL DEFAULT '[]',
+    "attempt_count" INTEGER NOT NULL DEFAULT 0,
+    "status" "DeadLetterStatus" NOT NULL DEFAULT 'retrying',
+    "resolved_message_id" UUID,
+    "resolved_by" UUID,
+    "resolved_at" TIMESTAMPTZ,
+    "last_failed_at" TIMESTAMPTZ NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "dead_letters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "dead_letters_provider_id_provider_message_id_key" ON "dead_letters"("provider_id", "provider_message_id");
+
+-- CreateIndex
+CREATE INDEX "dead_letters_status_error_code_idx" ON "dead_letters"("status", "error_code");
+
+-- CreateIndex
+CREATE INDEX "dead_letters_status_last_failed_at_idx" ON "dead_letters"("status", "last_failed_at" DESC);
+
+-- AddForeignKey
+ALTER TABLE "dead_letters" ADD CONSTRAINT "dead_letters_provider_id_fkey" FOREIGN KEY ("provider_id") REFERENCES "providers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
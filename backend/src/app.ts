@@ -15,12 +15,16 @@ import {
   validatePayloadSize,
   requestTimeout
 } from './middleware/security.js';
+import { recordHttpMetrics } from './middleware/metrics.js';
 
 const app = express();
 
 // Trust proxy for accurate client IPs
 app.set('trust proxy', 1);
 
+// Request counts and latency for /metrics; registered first so every response is measured
+app.use(recordHttpMetrics);
+
 // Request timeout
 app.use(requestTimeout(30000)); // 30 seconds
 
@@ -62,12 +66,17 @@ app.use(cors({
   exposedHeaders: ['X-CSRF-Token']
 }));
 
-// General API rate limiting
-app.use('/api/', apiRateLimit);
-
 // Logging
 app.use(pinoHttp({ logger }));
 
+// Provider webhooks are mounted ahead of rate limiting, sanitization and body
+// parsing: they need the untouched raw body for signature verification
+import webhookRoutes from './routes/webhooks';
+app.use('/api/v1/webhooks', webhookRoutes);
+
+// General API rate limiting
+app.use('/api/', apiRateLimit);
+
 // Cookie parsing
 app.use(cookieParser());
 
@@ -119,11 +128,29 @@ app.get('/health', (req, res) => {
 // Import routes
 import authRoutes from './routes/auth';
 import customerRoutes from './routes/customers';
+import identityRoutes from './routes/identities';
+import conversationRoutes from './routes/conversations';
+import messageRoutes from './routes/messages';
+import attachmentRoutes from './routes/attachments';
+import providerRoutes from './routes/providers';
+import deadLetterRoutes from './routes/dead-letters';
+import ingestionRoutes from './routes/ingestion';
+import metricsRoutes from './routes/metrics';
 import { handleValidationError } from './middleware/validation';
 
 // API routes with enhanced security
 app.use('/api/v1/auth', authRateLimit, authRoutes); // Strict rate limiting for auth
 app.use('/api/v1/customers', customerRoutes);
+app.use('/api/v1/identities', identityRoutes);
+app.use('/api/v1/conversations', conversationRoutes);
+app.use('/api/v1/messages', messageRoutes);
+app.use('/api/v1/attachments', attachmentRoutes);
+app.use('/api/v1/providers', providerRoutes);
+app.use('/api/v1/dead-letters', deadLetterRoutes);
+app.use('/api/v1/ingestion', ingestionRoutes);
+
+// Prometheus scrapes outside the API namespace, with its own key or IP allowlist
+app.use('/metrics', metricsRoutes);
 
 app.get('/api/v1', (req, res) => {
   res.json({ 
@@ -58,10 +58,69 @@ const configSchema = z.object({
   // Audit
   AUDIT_RETENTION_DAYS: z.string().default('2555').transform(Number),
   PII_ENCRYPTION_KEY: z.string().min(32).optional(),
+  PII_ENCRYPTION_KEY_VERSION: z.string().regex(/^\d+$/).default('1').transform(Number),
+  // Retired keys kept for decryption only, as "version:key" pairs separated by commas
+  PII_ENCRYPTION_PREVIOUS_KEYS: z.string().optional(),
+
+  // Provider APIs (overridable for sandboxes and local fakes)
+  TWILIO_API_BASE_URL: z.string().url().default('https://api.twilio.com'),
+  META_GRAPH_API_BASE_URL: z.string().url().default('https://graph.facebook.com/v18.0'),
+  GOOGLE_OAUTH_TOKEN_URL: z.string().url().default('https://oauth2.googleapis.com/token'),
+  GMAIL_API_BASE_URL: z.string().url().default('https://gmail.googleapis.com/gmail/v1'),
+  PROVIDER_REQUEST_TIMEOUT_MS: z.string().default('10000').transform(Number),
+  // Messenger and Instagram media is only downloaded from these domains and their subdomains
+  META_MEDIA_HOSTS: z.string().default('fbsbx.com,fbcdn.net,cdninstagram.com'),
+
+  // Attachment storage: local filesystem or an S3-compatible bucket
+  STORAGE_DRIVER: z.enum(['local', 's3']).default('local'),
+  STORAGE_LOCAL_DIR: z.string().default('storage'),
+  S3_ENDPOINT: z.string().url().optional().or(z.literal('').transform(() => undefined)),
+  S3_BUCKET: z.string().optional(),
+  S3_ACCESS_KEY: z.string().optional(),
+  S3_SECRET_KEY: z.string().optional(),
+  S3_REGION: z.string().default('us-east-1'),
+  MEDIA_MAX_BYTES: z.string().default('26214400').transform(Number),
+  THUMBNAIL_MAX_DIMENSION: z.string().default('320').transform(Number),
+  // poppler's pdftoppm renders PDF first pages for previews
+  PDF_RENDERER_PATH: z.string().default('pdftoppm'),
+
+  // Phone numbers written without a country code are read as national numbers of this region
+  PHONE_DEFAULT_REGION: z.string().regex(/^[A-Za-z]{2}$/, 'must be an ISO 3166-1 alpha-2 code').default('US')
+    .transform(value => value.toUpperCase()),
+
+  // Messages where neither party is one of the provider's owned addresses: store flagged, or refuse
+  INGESTION_UNOWNED_ADDRESS_POLICY: z.enum(['flag', 'reject']).default('flag'),
+  // A processed message's idempotency key is remembered this long; a worker's claim on one lapses after the lock TTL
+  INGESTION_IDEMPOTENCY_TTL_SECONDS: z.string().default('604800').transform(Number),
+  INGESTION_IDEMPOTENCY_LOCK_TTL_SECONDS: z.string().default('300').transform(Number),
+
+  // IMAP providers: mailboxes are re-read on this interval, and pushed through IDLE in between
+  IMAP_POLL_INTERVAL_MS: z.string().default('60000').transform(Number),
+  IMAP_SYNC_BATCH_SIZE: z.string().default('50').transform(Number),
+  // How far back the first sync of a mailbox (or one whose UIDVALIDITY changed) reaches
+  IMAP_INITIAL_SYNC_DAYS: z.string().default('30').transform(Number),
+
+  // Prometheus scrapes /metrics with this key (X-API-Key or a bearer token) or from one of these comma-separated IPs
+  METRICS_API_KEY: z.string().min(32).optional().or(z.literal('').transform(() => undefined)),
+  METRICS_ALLOWED_IPS: z.string().optional(),
 });
 
 const env = configSchema.parse(process.env);
 
+function parseKeyring(value?: string): Record<number, string> {
+  const keyring: Record<number, string> = {};
+  for (const entry of (value || '').split(',').map(part => part.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const version = Number(entry.slice(0, separator));
+    const key = entry.slice(separator + 1);
+    if (separator <= 0 || !Number.isInteger(version) || key.length < 32) {
+      throw new Error('PII_ENCRYPTION_PREVIOUS_KEYS entries must be "version:key" with keys of at least 32 characters');
+    }
+    keyring[version] = key;
+  }
+  return keyring;
+}
+
 export const config = {
   nodeEnv: env.NODE_ENV,
   port: env.PORT,
@@ -101,6 +160,58 @@ export const config = {
   
   audit: {
     retentionDays: env.AUDIT_RETENTION_DAYS,
-    piiEncryptionKey: env.PII_ENCRYPTION_KEY
+    piiEncryptionKey: env.PII_ENCRYPTION_KEY,
+    piiEncryptionKeyVersion: env.PII_ENCRYPTION_KEY_VERSION,
+    previousPiiEncryptionKeys: parseKeyring(env.PII_ENCRYPTION_PREVIOUS_KEYS)
+  },
+
+  providers: {
+    twilioApiBaseUrl: env.TWILIO_API_BASE_URL.replace(/\/$/, ''),
+    metaGraphApiBaseUrl: env.META_GRAPH_API_BASE_URL.replace(/\/$/, ''),
+    googleOAuthTokenUrl: env.GOOGLE_OAUTH_TOKEN_URL,
+    gmailApiBaseUrl: env.GMAIL_API_BASE_URL.replace(/\/$/, ''),
+    requestTimeoutMs: env.PROVIDER_REQUEST_TIMEOUT_MS,
+    metaMediaHosts: env.META_MEDIA_HOSTS.split(',').map(host => host.trim().toLowerCase()).filter(Boolean)
+  },
+
+  storage: {
+    driver: env.STORAGE_DRIVER,
+    localDir: env.STORAGE_LOCAL_DIR,
+    maxMediaBytes: env.MEDIA_MAX_BYTES,
+    s3: {
+      endpoint: env.S3_ENDPOINT?.replace(/\/$/, ''),
+      bucket: env.S3_BUCKET,
+      accessKey: env.S3_ACCESS_KEY,
+      secretKey: env.S3_SECRET_KEY,
+      region: env.S3_REGION
+    }
+  },
+
+  thumbnails: {
+    maxDimension: env.THUMBNAIL_MAX_DIMENSION,
+    pdfRendererPath: env.PDF_RENDERER_PATH
+  },
+
+  phone: {
+    defaultRegion: env.PHONE_DEFAULT_REGION
+  },
+
+  ingestion: {
+    unownedAddressPolicy: env.INGESTION_UNOWNED_ADDRESS_POLICY,
+    idempotency: {
+      ttlSeconds: env.INGESTION_IDEMPOTENCY_TTL_SECONDS,
+      lockTtlSeconds: env.INGESTION_IDEMPOTENCY_LOCK_TTL_SECONDS
+    }
+  },
+
+  imap: {
+    pollIntervalMs: env.IMAP_POLL_INTERVAL_MS,
+    batchSize: env.IMAP_SYNC_BATCH_SIZE,
+    initialSyncDays: env.IMAP_INITIAL_SYNC_DAYS
+  },
+
+  metrics: {
+    apiKey: env.METRICS_API_KEY,
+    allowedIps: (env.METRICS_ALLOWED_IPS || '').split(',').map(ip => ip.trim()).filter(Boolean)
   }
 };
\ No newline at end of file
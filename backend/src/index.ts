@@ -1,11 +1,24 @@
 import app from './app.js';
 import { config } from './config/index.js';
 import { logger } from './lib/logger.js';
+import { redisManager } from './lib/redis.js';
+import { queueManager } from './lib/queue/manager.js';
 
 const port = config.port;
 
-app.listen(port, () => {
-  logger.info({ port }, 'Server started');
+// The API enqueues webhook and outbound message jobs, so queues must be ready before serving
+async function start(): Promise<void> {
+  await redisManager.connect();
+  await queueManager.initialize();
+
+  app.listen(port, () => {
+    logger.info({ port }, 'Server started');
+  });
+}
+
+start().catch((error) => {
+  logger.error({ error }, 'Server startup failed');
+  process.exit(1);
 });
 
-export default app;
\ No newline at end of file
+export default app;
@@ -0,0 +1,140 @@
+import { Attachment } from '@prisma/client';
+import { AttachmentModel } from '../models/attachment.js';
+import { MessageModel } from '../models/message.js';
+import { ProviderModel } from '../models/provider.js';
+import { getMediaFetcher } from './providers/media.js';
+import { getStorage, isStoredUrl } from './storage/index.js';
+import { queueManager } from './queue/manager.js';
+import { config } from '../config/index.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('attachment-fetch');
+
+export type AttachmentFetchErrorCode = 'ATTACHMENT_NOT_FOUND' | 'FETCH_NOT_SUPPORTED';
+
+export class AttachmentFetchError extends Error {
+  constructor(public code: AttachmentFetchErrorCode, message: string) {
+    super(message);
+    this.name = 'AttachmentFetchError';
+  }
+}
+
+export type AttachmentFetchOutcome = {
+  attachment: Attachment;
+  // True when the media was already in storage and nothing was downloaded
+  skipped: boolean;
+};
+
+// Provider filenames are untrusted; keep them to one readable path segment
+export const safeFilename = (filename: string): string =>
+  filename
+    .normalize('NFKD')
+    .replace(/[^\w.-]+/g, '_')
+    .replace(/^[._]+/, '')
+    .slice(0, 120) || 'attachment';
+
+/**
+ * Media type of an attachment, as recorded by the normalizer or the fetch
+ */
+export const attachmentContentType = (attachment: Pick<Attachment, 'metadata'>): string => {
+  const mimeType = (attachment.metadata as Record<string, unknown> | null)?.['mimeType'];
+  return typeof mimeType === 'string' && mimeType !== '' ? mimeType.toLowerCase() : 'application/octet-stream';
+};
+
+export type PreviewKind = 'image' | 'pdf';
+
+/**
+ * Which thumbnail, if any, can be made for media of this type
+ */
+export function previewKind(contentType: string): PreviewKind | null {
+  if (contentType === 'application/pdf') {
+    return 'pdf';
+  }
+  return contentType.startsWith('image/') ? 'image' : null;
+}
+
+export class AttachmentFetcher {
+  /**
+   * Download an attachment's media from its provider into storage and point the row at it
+   */
+  static async fetch(attachmentId: string): Promise<AttachmentFetchOutcome> {
+    const attachment = await AttachmentModel.findById(attachmentId);
+    if (!attachment) {
+      throw new AttachmentFetchError('ATTACHMENT_NOT_FOUND', `Attachment ${attachmentId} not found`);
+    }
+    if (isStoredUrl(attachment.storageUrl)) {
+      return { attachment, skipped: true };
+    }
+
+    const message = await MessageModel.findByIdOrThrow(attachment.messageId);
+    const fetchMedia = getMediaFetcher(message.provider.type);
+    if (!fetchMedia) {
+      throw new AttachmentFetchError(
+        'FETCH_NOT_SUPPORTED',
+        `Media fetching is not supported for ${message.provider.type} providers`
+      );
+    }
+
+    const metadata = (attachment.metadata || {}) as Record<string, unknown>;
+    const credentials = ProviderModel.getCredentials(message.provider);
+    const media = await fetchMedia(credentials, {
+      url: attachment.storageUrl,
+      metadata,
+      providerMessageId: message.providerMessageId,
+      ...(typeof metadata['mimeType'] === 'string' && { mimeType: metadata['mimeType'] }),
+      ...(attachment.filename && { filename: attachment.filename })
+    }, config.storage.maxMediaBytes);
+
+    const filename = safeFilename(media.filename);
+    const stored = await getStorage().put(
+      `attachments/${message.id}/${attachment.id}/${filename}`,
+      media.data,
+      media.contentType
+    );
+
+    const { fetchError: _fetchError, ...rest } = metadata;
+    const updated = await AttachmentModel.update(attachment.id, {
+      filename: media.filename,
+      size: stored.size,
+      storageUrl: stored.storageUrl,
+      metadata: {
+        ...rest,
+        sourceUrl: attachment.storageUrl,
+        mimeType: media.contentType,
+        sha256: media.sha256,
+        fetchedAt: new Date().toISOString()
+      } as Record<string, any>
+    });
+
+    logger.info({ attachmentId, messageId: message.id, storageUrl: stored.storageUrl, size: stored.size }, 'Attachment media stored');
+
+    if (previewKind(media.contentType)) {
+      try {
+        await queueManager.addAttachmentThumbnailJob({ attachmentId, messageId: message.id });
+      } catch (error) {
+        logger.error({ err: error, attachmentId }, 'Failed to queue attachment thumbnail');
+      }
+    }
+
+    return { attachment: updated, skipped: false };
+  }
+
+  /**
+   * Note a fetch that will not be retried on the row, leaving the provider reference in place
+   */
+  static async recordFailure(attachmentId: string, error: { code: string; message: string }): Promise<void> {
+    const attachment = await AttachmentModel.findById(attachmentId);
+    if (!attachment) {
+      return;
+    }
+
+    await AttachmentModel.update(attachmentId, {
+      metadata: {
+        ...((attachment.metadata || {}) as Record<string, any>),
+        fetchError: { ...error, failedAt: new Date().toISOString() }
+      }
+    });
+
+    logger.warn({ attachmentId, messageId: attachment.messageId, error }, 'Attachment fetch failed');
+  }
+}
@@ -0,0 +1,48 @@
+import { Request } from 'express';
+import { AuditEventModel, AuditMetadata } from '../models/audit.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('audit');
+
+export type AuditEntry = {
+  action: string;
+  resourceType: string;
+  resourceId?: string;
+  metadata?: AuditMetadata;
+};
+
+// Who performed an action, for audit events written inside a model transaction
+export type AuditActor = {
+  userId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+};
+
+export function auditActor(req: Request): AuditActor {
+  return {
+    userId: req.user?.id ?? null,
+    ipAddress: req.ip ?? null,
+    userAgent: req.get('User-Agent') ?? null
+  };
+}
+
+/**
+ * Record an audit event for the authenticated user behind the request.
+ * Failures are logged rather than thrown so auditing never undoes a
+ * mutation that has already been committed.
+ */
+export async function recordAudit(req: Request, entry: AuditEntry): Promise<void> {
+  try {
+    await AuditEventModel.record({
+      userId: req.user?.id,
+      action: entry.action,
+      resourceType: entry.resourceType,
+      resourceId: entry.resourceId,
+      ...(entry.metadata && { metadata: entry.metadata }),
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+  } catch (error) {
+    logger.error({ err: error, action: entry.action, resourceId: entry.resourceId }, 'Failed to record audit event');
+  }
+}
@@ -0,0 +1,390 @@
+import { Customer, Prisma } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { AuditActor } from './audit.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('customer-merge');
+
+export type CustomerMergeErrorCode =
+  | 'CUSTOMER_NOT_FOUND'
+  | 'SAME_CUSTOMER'
+  | 'IDENTITY_NOT_FOUND'
+  | 'MERGE_NOT_FOUND'
+  | 'MERGE_ALREADY_UNDONE';
+
+export class CustomerMergeError extends Error {
+  constructor(public code: CustomerMergeErrorCode, message: string) {
+    super(message);
+    this.name = 'CustomerMergeError';
+  }
+}
+
+export const MERGE_ACTION = 'customer.merge';
+
+// Stored as the merge AuditEvent's metadata; everything needed to undo it
+export type MergeRecord = {
+  sourceCustomer: {
+    id: string;
+    name: string;
+    displayName: string | null;
+    metadata: Prisma.JsonValue;
+    createdAt: string;
+  };
+  targetBefore: {
+    displayName: string | null;
+    metadata: Prisma.JsonValue;
+  };
+  targetAfter: {
+    displayName: string | null;
+    metadata: Prisma.JsonValue;
+  };
+  identityIds: string[];
+  messageIds: string[];
+  conversationIds: string[];
+  // Messages the source was copied on; absent from merges recorded before participants existed
+  participantIds?: string[];
+};
+
+export type MovedCounts = {
+  identities: number;
+  messages: number;
+  conversations: number;
+};
+
+export type MergeResult = {
+  mergeId: string;
+  customer: Customer;
+  moved: MovedCounts;
+};
+
+export type UndoMergeResult = {
+  customer: Customer;
+  targetCustomerId: string;
+  restored: MovedCounts;
+};
+
+export type SplitRequest = {
+  identityIds: string[];
+  name?: string;
+  displayName?: string;
+};
+
+export type SplitResult = {
+  customer: Customer;
+  sourceCustomerId: string;
+  moved: MovedCounts;
+  sharedConversationIds: string[];
+};
+
+// Merges can move a customer's entire history
+const TRANSACTION_OPTIONS = { maxWait: 5000, timeout: 60000 };
+
+const isJsonObject = (value: Prisma.JsonValue): value is Prisma.JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Combine customer metadata; keys already on the target win
+ */
+export function mergeMetadata(target: Prisma.JsonValue, source: Prisma.JsonValue): Prisma.JsonValue {
+  if (!isJsonObject(target) || !isJsonObject(source)) {
+    return isJsonObject(target) ? target : source ?? {};
+  }
+  return { ...source, ...target };
+}
+
+const sameJson = (a: Prisma.JsonValue, b: Prisma.JsonValue): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const auditData = (actor: AuditActor) => ({
+  userId: actor.userId,
+  ipAddress: actor.ipAddress,
+  userAgent: actor.userAgent
+});
+
+export class CustomerMerger {
+  /**
+   * Move every identity, message and conversation from the source customer into
+   * the target, then delete the source. The AuditEvent written in the same
+   * transaction is the merge record that undoMerge() reverses.
+   */
+  static async merge(targetId: string, sourceId: string, actor: AuditActor): Promise<MergeResult> {
+    if (targetId === sourceId) {
+      throw new CustomerMergeError('SAME_CUSTOMER', 'A customer cannot be merged into itself');
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const [target, source] = await Promise.all([
+        tx.customer.findUnique({ where: { id: targetId } }),
+        tx.customer.findUnique({ where: { id: sourceId } })
+      ]);
+      if (!target) {
+        throw new CustomerMergeError('CUSTOMER_NOT_FOUND', 'Target customer not found');
+      }
+      if (!source) {
+        throw new CustomerMergeError('CUSTOMER_NOT_FOUND', 'Source customer not found');
+      }
+
+      const [identities, messages, conversations, participants] = await Promise.all([
+        tx.identity.findMany({ where: { customerId: sourceId }, select: { id: true } }),
+        tx.message.findMany({ where: { customerId: sourceId }, select: { id: true } }),
+        tx.conversation.findMany({ where: { customerId: sourceId }, select: { id: true } }),
+        tx.messageParticipant.findMany({ where: { customerId: sourceId }, select: { id: true } })
+      ]);
+
+      await tx.identity.updateMany({ where: { customerId: sourceId }, data: { customerId: targetId } });
+      await tx.message.updateMany({ where: { customerId: sourceId }, data: { customerId: targetId } });
+      await tx.conversation.updateMany({ where: { customerId: sourceId }, data: { customerId: targetId } });
+      await tx.messageParticipant.updateMany({ where: { customerId: sourceId }, data: { customerId: targetId } });
+
+      const metadata = mergeMetadata(target.metadata, source.metadata);
+      const displayName = target.displayName ?? source.displayName;
+
+      const customer = await tx.customer.update({
+        where: { id: targetId },
+        data: { metadata: metadata as Prisma.InputJsonValue, displayName }
+      });
+
+      await tx.customer.delete({ where: { id: sourceId } });
+
+      const record: MergeRecord = {
+        sourceCustomer: {
+          id: source.id,
+          name: source.name,
+          displayName: source.displayName,
+          metadata: source.metadata,
+          createdAt: source.createdAt.toISOString()
+        },
+        targetBefore: { displayName: target.displayName, metadata: target.metadata },
+        targetAfter: { displayName: customer.displayName, metadata: customer.metadata },
+        identityIds: identities.map(identity => identity.id),
+        messageIds: messages.map(message => message.id),
+        conversationIds: conversations.map(conversation => conversation.id),
+        participantIds: participants.map(participant => participant.id)
+      };
+
+      const event = await tx.auditEvent.create({
+        data: {
+          ...auditData(actor),
+          action: MERGE_ACTION,
+          resourceType: 'customer',
+          resourceId: targetId,
+          metadata: record as unknown as Prisma.InputJsonObject
+        }
+      });
+
+      return {
+        mergeId: event.id,
+        customer,
+        moved: {
+          identities: identities.length,
+          messages: messages.length,
+          conversations: conversations.length
+        }
+      };
+    }, TRANSACTION_OPTIONS);
+
+    logger.info({ mergeId: result.mergeId, targetId, sourceId, ...result.moved }, 'Customers merged');
+
+    return result;
+  }
+
+  /**
+   * Recreate the merged-away customer and move back what the merge moved.
+   * Identities, messages and conversations that have since left the target are
+   * left where they are; the target's name fields and metadata are only
+   * restored if nobody has edited them since the merge.
+   */
+  static async undoMerge(mergeId: string, actor: AuditActor): Promise<UndoMergeResult> {
+    const result = await prisma.$transaction(async (tx) => {
+      const event = await tx.auditEvent.findUnique({ where: { id: mergeId } });
+      if (!event || event.action !== MERGE_ACTION || !event.resourceId) {
+        throw new CustomerMergeError('MERGE_NOT_FOUND', 'Merge record not found');
+      }
+
+      const record = event.metadata as unknown as MergeRecord;
+      const targetId = event.resourceId;
+
+      if (await tx.customer.findUnique({ where: { id: record.sourceCustomer.id } })) {
+        throw new CustomerMergeError('MERGE_ALREADY_UNDONE', 'This merge has already been undone');
+      }
+
+      const target = await tx.customer.findUnique({ where: { id: targetId } });
+      if (!target) {
+        throw new CustomerMergeError('CUSTOMER_NOT_FOUND', 'Target customer no longer exists');
+      }
+
+      const customer = await tx.customer.create({
+        data: {
+          id: record.sourceCustomer.id,
+          name: record.sourceCustomer.name,
+          displayName: record.sourceCustomer.displayName,
+          metadata: (record.sourceCustomer.metadata ?? {}) as Prisma.InputJsonValue,
+          createdAt: new Date(record.sourceCustomer.createdAt)
+        }
+      });
+
+      const moveBack = { where: { customerId: targetId }, data: { customerId: customer.id } };
+      const identities = await tx.identity.updateMany({
+        where: { ...moveBack.where, id: { in: record.identityIds } },
+        data: moveBack.data
+      });
+      const messages = await tx.message.updateMany({
+        where: { ...moveBack.where, id: { in: record.messageIds } },
+        data: moveBack.data
+      });
+      const conversations = await tx.conversation.updateMany({
+        where: { ...moveBack.where, id: { in: record.conversationIds } },
+        data: moveBack.data
+      });
+      await tx.messageParticipant.updateMany({
+        where: { ...moveBack.where, id: { in: record.participantIds ?? [] } },
+        data: moveBack.data
+      });
+
+      const untouched = target.displayName === record.targetAfter.displayName
+        && sameJson(target.metadata, record.targetAfter.metadata);
+      if (untouched) {
+        await tx.customer.update({
+          where: { id: targetId },
+          data: {
+            displayName: record.targetBefore.displayName,
+            metadata: (record.targetBefore.metadata ?? {}) as Prisma.InputJsonValue
+          }
+        });
+      }
+
+      const restored = {
+        identities: identities.count,
+        messages: messages.count,
+        conversations: conversations.count
+      };
+
+      await tx.auditEvent.create({
+        data: {
+          ...auditData(actor),
+          action: 'customer.merge_undo',
+          resourceType: 'customer',
+          resourceId: customer.id,
+          metadata: { mergeId, targetCustomerId: targetId, targetRestored: untouched, ...restored }
+        }
+      });
+
+      return { customer, targetCustomerId: targetId, restored };
+    }, TRANSACTION_OPTIONS);
+
+    logger.info({ mergeId, customerId: result.customer.id, ...result.restored }, 'Customer merge undone');
+
+    return result;
+  }
+
+  /**
+   * Move the selected identities, and the messages exchanged with them, out to a
+   * new customer. A conversation follows only when all of its messages moved;
+   * conversations that also hold messages for the remaining identities stay put
+   * and are reported as shared.
+   */
+  static async split(sourceId: string, request: SplitRequest, actor: AuditActor): Promise<SplitResult> {
+    const identityIds = Array.from(new Set(request.identityIds));
+
+    const result = await prisma.$transaction(async (tx) => {
+      const source = await tx.customer.findUnique({ where: { id: sourceId } });
+      if (!source) {
+        throw new CustomerMergeError('CUSTOMER_NOT_FOUND', 'Customer not found');
+      }
+
+      const identities = await tx.identity.findMany({
+        where: { id: { in: identityIds }, customerId: sourceId },
+        orderBy: [{ linkedAt: 'asc' }, { id: 'asc' }]
+      });
+      if (identities.length !== identityIds.length) {
+        throw new CustomerMergeError('IDENTITY_NOT_FOUND', 'All identities must belong to this customer');
+      }
+
+      const customer = await tx.customer.create({
+        data: {
+          name: request.name ?? identities[0]!.rawValue,
+          displayName: request.displayName ?? null,
+          metadata: {}
+        }
+      });
+
+      await tx.identity.updateMany({
+        where: { id: { in: identityIds } },
+        data: { customerId: customer.id, linkedAt: new Date() }
+      });
+
+      // The customer's side of a message is its sender when inbound and its recipient when outbound
+      const addresses = identities.map(identity => identity.value);
+      const messages = await tx.message.findMany({
+        where: {
+          customerId: sourceId,
+          OR: [
+            { direction: 'inbound', fromIdentifier: { in: addresses, mode: 'insensitive' } },
+            { direction: 'outbound', toIdentifier: { in: addresses, mode: 'insensitive' } }
+          ]
+        },
+        select: { id: true, conversationId: true }
+      });
+      const messageIds = messages.map(message => message.id);
+
+      await tx.message.updateMany({
+        where: { id: { in: messageIds } },
+        data: { customerId: customer.id }
+      });
+
+      // Copies of other customers' messages follow the addresses they were sent to
+      await tx.messageParticipant.updateMany({
+        where: { customerId: sourceId, address: { in: addresses, mode: 'insensitive' } },
+        data: { customerId: customer.id }
+      });
+
+      const touchedConversationIds = Array.from(new Set(
+        messages.map(message => message.conversationId).filter((id): id is string => id !== null)
+      ));
+      const remaining = await tx.message.findMany({
+        where: { conversationId: { in: touchedConversationIds }, customerId: sourceId },
+        select: { conversationId: true },
+        distinct: ['conversationId']
+      });
+      const sharedConversationIds = remaining
+        .map(message => message.conversationId)
+        .filter((id): id is string => id !== null);
+      const conversationIds = touchedConversationIds.filter(id => !sharedConversationIds.includes(id));
+
+      await tx.conversation.updateMany({
+        where: { id: { in: conversationIds }, customerId: sourceId },
+        data: { customerId: customer.id }
+      });
+
+      await tx.auditEvent.create({
+        data: {
+          ...auditData(actor),
+          action: 'customer.split',
+          resourceType: 'customer',
+          resourceId: customer.id,
+          metadata: {
+            sourceCustomerId: sourceId,
+            identityIds,
+            messageIds,
+            conversationIds,
+            sharedConversationIds
+          }
+        }
+      });
+
+      return {
+        customer,
+        sourceCustomerId: sourceId,
+        moved: {
+          identities: identities.length,
+          messages: messageIds.length,
+          conversations: conversationIds.length
+        },
+        sharedConversationIds
+      };
+    }, TRANSACTION_OPTIONS);
+
+    logger.info({ sourceId, customerId: result.customer.id, ...result.moved }, 'Customer split');
+
+    return result;
+  }
+}
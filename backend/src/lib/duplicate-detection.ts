@@ -0,0 +1,296 @@
+import { IdentityType } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { IdentityResolver } from './ingestion/identity-resolver.js';
+import { DuplicateSuggestionModel, DuplicateReason, ScoredPair } from '../models/duplicate-suggestion.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('duplicate-detection');
+
+export type ScanCustomer = {
+  id: string;
+  name: string;
+  displayName: string | null;
+  identities: Array<{ type: IdentityType; value: string; rawValue: string }>;
+};
+
+export type DuplicateScanOptions = {
+  minScore?: number;
+  batchSize?: number;
+};
+
+export type DuplicateScanReport = {
+  customersScanned: number;
+  candidates: number;
+  created: number;
+  updated: number;
+  skippedDismissed: number;
+  removed: number;
+};
+
+// How much each kind of evidence contributes; scores combine as independent signals
+const PHONE_WEIGHT = 0.9;
+const EMAIL_LOCAL_PART_WEIGHT = 0.6;
+const NAME_WEIGHT = 0.5;
+
+const MIN_NAME_SIMILARITY = 0.85;
+
+// Shared inboxes and switchboards link unrelated people; groups this large are not evidence
+const MAX_GROUP_SIZE = 25;
+const MAX_NAME_BLOCK_SIZE = 200;
+
+const GENERIC_LOCAL_PARTS = new Set([
+  'admin', 'billing', 'contact', 'hello', 'help', 'info', 'mail', 'noreply',
+  'no-reply', 'office', 'sales', 'support', 'team'
+]);
+
+const pairKey = (a: string, b: string): [string, string] => (a < b ? [a, b] : [b, a]);
+
+/**
+ * Last ten digits of a phone identity, so +1 555… and 555… compare equal
+ */
+export function phoneDigitsKey(value: string): string | null {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 7) {
+    return null;
+  }
+  return digits.length > 10 ? digits.slice(-10) : digits;
+}
+
+/**
+ * Mailbox name without plus-addressing, or null for role accounts like support@
+ */
+export function emailLocalPart(value: string): { localPart: string; domain: string } | null {
+  const [local, domain] = value.toLowerCase().split('@');
+  if (!local || !domain) {
+    return null;
+  }
+  const localPart = local.split('+')[0]!;
+  if (localPart.length < 3 || GENERIC_LOCAL_PARTS.has(localPart)) {
+    return null;
+  }
+  return { localPart, domain };
+}
+
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+}
+
+/**
+ * Sørensen–Dice coefficient over character bigrams
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return a === '' ? 0 : 1;
+  }
+  if (a.length < 2 || b.length < 2) {
+    return 0;
+  }
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.slice(i, i + 2);
+    const count = bigrams.get(bigram) ?? 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (a.length + b.length - 2);
+}
+
+/**
+ * The person's name as far as we know it: what staff entered, otherwise what
+ * the resolver would suggest from an email address or social handle. Names the
+ * resolver filled in from a phone number or address are ignored.
+ */
+export function customerName(customer: ScanCustomer): string | null {
+  const entered = [customer.displayName, customer.name]
+    .find(name => name && /[a-z]/i.test(name) && !name.includes('@'));
+  if (entered) {
+    return normalizeName(entered) || null;
+  }
+
+  for (const identity of customer.identities) {
+    const suggested = IdentityResolver.extractNameFromContact({
+      identifier: identity.value,
+      normalizedValue: identity.value,
+      rawValue: identity.rawValue,
+      type: identity.type
+    });
+    if (suggested) {
+      return normalizeName(suggested) || null;
+    }
+  }
+
+  return null;
+}
+
+export function combineScore(reasons: DuplicateReason[]): number {
+  const miss = reasons.reduce((product, reason) => product * (1 - reason.weight), 1);
+  return Math.round((1 - miss) * 1000) / 1000;
+}
+
+export class DuplicateDetector {
+  /**
+   * Pairs of customers that look like the same person, with the evidence for each
+   */
+  static findCandidates(customers: ScanCustomer[]): ScoredPair[] {
+    const reasons = new Map<string, DuplicateReason[]>();
+    const addReason = (a: string, b: string, reason: DuplicateReason) => {
+      if (a === b) {
+        return;
+      }
+      const key = pairKey(a, b).join(':');
+      const existing = reasons.get(key) ?? [];
+      if (!existing.some(known => known.type === reason.type)) {
+        existing.push(reason);
+      }
+      reasons.set(key, existing);
+    };
+
+    const byPhone = new Map<string, Set<string>>();
+    const byLocalPart = new Map<string, Array<{ customerId: string; domain: string }>>();
+    const byNameBlock = new Map<string, Set<string>>();
+    const names = new Map<string, string>();
+
+    for (const customer of customers) {
+      for (const identity of customer.identities) {
+        if (identity.type === 'phone') {
+          const key = phoneDigitsKey(identity.value);
+          if (key) {
+            byPhone.set(key, (byPhone.get(key) ?? new Set()).add(customer.id));
+          }
+        } else if (identity.type === 'email') {
+          const email = emailLocalPart(identity.value);
+          if (email) {
+            const group = byLocalPart.get(email.localPart) ?? [];
+            group.push({ customerId: customer.id, domain: email.domain });
+            byLocalPart.set(email.localPart, group);
+          }
+        }
+      }
+
+      const name = customerName(customer);
+      if (name) {
+        names.set(customer.id, name);
+        for (const token of new Set(name.split(' '))) {
+          const block = token.slice(0, 3);
+          byNameBlock.set(block, (byNameBlock.get(block) ?? new Set()).add(customer.id));
+        }
+      }
+    }
+
+    for (const [digits, ids] of byPhone) {
+      if (ids.size > MAX_GROUP_SIZE) continue;
+      const members = Array.from(ids);
+      members.forEach((a, i) => members.slice(i + 1).forEach(b =>
+        addReason(a, b, { type: 'phone_digits', detail: `Phone numbers ending ${digits.slice(-4)} match`, weight: PHONE_WEIGHT })
+      ));
+    }
+
+    for (const [localPart, members] of byLocalPart) {
+      if (members.length > MAX_GROUP_SIZE) continue;
+      members.forEach((a, i) => members.slice(i + 1).forEach(b => {
+        if (a.domain !== b.domain) {
+          addReason(a.customerId, b.customerId, {
+            type: 'email_local_part',
+            detail: `${localPart}@${a.domain} and ${localPart}@${b.domain}`,
+            weight: EMAIL_LOCAL_PART_WEIGHT
+          });
+        }
+      }));
+    }
+
+    const compared = new Set<string>();
+    for (const ids of byNameBlock.values()) {
+      if (ids.size > MAX_NAME_BLOCK_SIZE) continue;
+      const members = Array.from(ids);
+      members.forEach((a, i) => members.slice(i + 1).forEach(b => {
+        const key = pairKey(a, b).join(':');
+        if (compared.has(key)) return;
+        compared.add(key);
+
+        const similarity = nameSimilarity(names.get(a)!, names.get(b)!);
+        if (similarity >= MIN_NAME_SIMILARITY) {
+          addReason(a, b, {
+            type: 'similar_name',
+            detail: `"${names.get(a)}" and "${names.get(b)}" (${Math.round(similarity * 100)}% similar)`,
+            weight: Math.round(NAME_WEIGHT * similarity * 1000) / 1000
+          });
+        }
+      }));
+    }
+
+    return Array.from(reasons.entries()).map(([key, pairReasons]) => {
+      const [customerId, candidateId] = key.split(':') as [string, string];
+      return { customerId, candidateId, reasons: pairReasons, score: combineScore(pairReasons) };
+    });
+  }
+
+  /**
+   * Score every customer against every other and refresh the review queue
+   */
+  static async scan(options: DuplicateScanOptions = {}): Promise<DuplicateScanReport> {
+    const { minScore = 0.5, batchSize = 1000 } = options;
+    const startedAt = new Date();
+
+    const customers: ScanCustomer[] = [];
+    let cursor: string | undefined;
+    for (;;) {
+      const batch = await prisma.customer.findMany({
+        select: {
+          id: true,
+          name: true,
+          displayName: true,
+          identities: { select: { type: true, value: true, rawValue: true } }
+        },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 })
+      });
+      customers.push(...batch);
+      if (batch.length < batchSize) break;
+      cursor = batch[batch.length - 1]!.id;
+    }
+
+    const candidates = this.findCandidates(customers).filter(pair => pair.score >= minScore);
+
+    const report: DuplicateScanReport = {
+      customersScanned: customers.length,
+      candidates: candidates.length,
+      created: 0,
+      updated: 0,
+      skippedDismissed: 0,
+      removed: 0
+    };
+
+    for (const pair of candidates) {
+      const outcome = await DuplicateSuggestionModel.record(pair, startedAt);
+      if (outcome === 'created') report.created++;
+      else if (outcome === 'updated') report.updated++;
+      else report.skippedDismissed++;
+    }
+
+    report.removed = await DuplicateSuggestionModel.deleteStale(startedAt);
+
+    logger.info(report, 'Duplicate customer scan completed');
+
+    return report;
+  }
+}
@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const PREFIX = 'enc';
+
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+/**
+ * Derive a 256-bit key from the configured key material
+ */
+function deriveKey(secret: string): Buffer {
+  return crypto.createHash('sha256').update(secret, 'utf8').digest();
+}
+
+function getKey(version: number): Buffer {
+  if (version === config.audit.piiEncryptionKeyVersion && config.audit.piiEncryptionKey) {
+    return deriveKey(config.audit.piiEncryptionKey);
+  }
+
+  const previous = config.audit.previousPiiEncryptionKeys[version];
+  if (previous) {
+    return deriveKey(previous);
+  }
+
+  throw new EncryptionError(`No PII encryption key configured for version ${version}`);
+}
+
+/**
+ * Whether a stored value was produced by encryptSecret
+ */
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(`${PREFIX}:v`);
+}
+
+/**
+ * Encrypt a secret with the current key.
+ * Output format: enc:v<version>:<iv>:<auth tag>:<ciphertext> (base64 parts)
+ */
+export function encryptSecret(plaintext: string): string {
+  if (!config.audit.piiEncryptionKey) {
+    throw new EncryptionError('PII_ENCRYPTION_KEY is not configured');
+  }
+
+  const version = config.audit.piiEncryptionKeyVersion;
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(version), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [
+    PREFIX,
+    `v${version}`,
+    iv.toString('base64'),
+    tag.toString('base64'),
+    ciphertext.toString('base64')
+  ].join(':');
+}
+
+/**
+ * Decrypt a value produced by encryptSecret using the key version it names.
+ * Values without the encryption prefix are legacy plaintext and returned as-is.
+ */
+export function decryptSecret(value: string): string {
+  if (!isEncrypted(value)) {
+    return value;
+  }
+
+  const [, versionPart, ivPart, tagPart, dataPart] = value.split(':');
+  const version = Number(versionPart?.slice(1));
+  if (!Number.isInteger(version) || !ivPart || !tagPart || dataPart === undefined) {
+    throw new EncryptionError('Malformed encrypted value');
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, getKey(version), Buffer.from(ivPart, 'base64'));
+    decipher.setAuthTag(Buffer.from(tagPart, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(dataPart, 'base64')),
+      decipher.final()
+    ]).toString('utf8');
+  } catch (error) {
+    if (error instanceof EncryptionError) {
+      throw error;
+    }
+    throw new EncryptionError('Failed to decrypt value');
+  }
+}
+
+/**
+ * Whether a value should be re-encrypted with the current key
+ */
+export function needsReencryption(value: string): boolean {
+  return !isEncrypted(value) || !value.startsWith(`${PREFIX}:v${config.audit.piiEncryptionKeyVersion}:`);
+}
+
+/**
+ * The value under the current key: plaintext and values written with a retired key
+ * are encrypted afresh, current ones are returned unchanged
+ */
+export function reencryptSecret(value: string): string {
+  return needsReencryption(value) ? encryptSecret(decryptSecret(value)) : value;
+}
@@ -0,0 +1,309 @@
+import { ImapFlow, FetchMessageObject, ExistsEvent } from 'imapflow';
+import { Provider } from '@prisma/client';
+import { MailboxSyncStateModel } from '../models/mailbox-sync-state.js';
+import { ProviderModel } from '../models/provider.js';
+import { mailServerSettings, createImapClient, MailServerSettings } from './providers/imap.js';
+import { queueManager } from './queue/manager.js';
+import { ImapMessagePayload } from './ingestion/types.js';
+import { config } from '../config/index.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('imap-sync');
+
+export type MailboxSyncOptions = {
+  // The provider's sent mailbox: its messages are our own mail
+  sent?: boolean;
+};
+
+export type MailboxSyncResult = {
+  mailbox: string;
+  uidValidity: string;
+  // Messages handed to ingestion by this run
+  enqueued: number;
+  lastUid: number;
+  // No checkpoint applied: first sync, or the server changed UIDVALIDITY
+  fullResync: boolean;
+};
+
+const initialSyncSince = (): Date =>
+  new Date(Date.now() - config.imap.initialSyncDays * 24 * 60 * 60 * 1000);
+
+export class MailboxSyncer {
+  /**
+   * Hand every message past the mailbox's checkpoint to ingestion, a batch at a time,
+   * moving the checkpoint after each batch. UIDs are only comparable under one
+   * UIDVALIDITY; when it changes the mailbox is read again from the initial window
+   * and message-ID idempotency drops what was already ingested.
+   */
+  static async syncMailbox(
+    client: ImapFlow,
+    providerId: string,
+    mailbox: string,
+    options: MailboxSyncOptions = {}
+  ): Promise<MailboxSyncResult> {
+    const lock = await client.getMailboxLock(mailbox, { readOnly: true });
+
+    try {
+      if (!client.mailbox) {
+        throw new Error(`Mailbox ${mailbox} could not be opened`);
+      }
+
+      const { uidValidity, uidNext } = client.mailbox;
+      const state = await MailboxSyncStateModel.find(providerId, mailbox);
+      const fullResync = !state || state.uidValidity !== uidValidity;
+      const lastUid = fullResync ? 0 : Number(state.lastUid);
+
+      if (state && fullResync) {
+        logger.warn(
+          { providerId, mailbox, previous: state.uidValidity?.toString(), current: uidValidity.toString() },
+          'Mailbox UIDVALIDITY changed, resyncing'
+        );
+      }
+
+      const found = fullResync
+        ? await client.search({ since: initialSyncSince() }, { uid: true })
+        : await client.search({ uid: `${lastUid + 1}:*` }, { uid: true });
+      // "n:*" matches the newest message even when its UID is below n
+      const pending = (found || []).filter(uid => uid > lastUid).sort((a, b) => a - b);
+
+      let checkpoint = lastUid;
+      for (let start = 0; start < pending.length; start += config.imap.batchSize) {
+        const batch = pending.slice(start, start + config.imap.batchSize);
+        const messages = await client.fetchAll(
+          batch,
+          { uid: true, source: true, envelope: true, internalDate: true, flags: true },
+          { uid: true }
+        );
+
+        for (const message of messages.sort((a, b) => a.uid - b.uid)) {
+          await this.enqueue(providerId, mailbox, uidValidity, message, options);
+        }
+
+        checkpoint = batch[batch.length - 1]!;
+        await MailboxSyncStateModel.saveCheckpoint(providerId, mailbox, { uidValidity, lastUid: BigInt(checkpoint) });
+      }
+
+      // Everything below UIDNEXT was seen by the search, including mail older than the initial window
+      const seenUpTo = Math.max(checkpoint, uidNext ? uidNext - 1 : 0);
+      if (fullResync || seenUpTo > checkpoint) {
+        await MailboxSyncStateModel.saveCheckpoint(providerId, mailbox, { uidValidity, lastUid: BigInt(seenUpTo) });
+      }
+
+      if (pending.length > 0) {
+        logger.info({ providerId, mailbox, enqueued: pending.length, lastUid: seenUpTo }, 'Mailbox synced');
+      }
+
+      return {
+        mailbox,
+        uidValidity: uidValidity.toString(),
+        enqueued: pending.length,
+        lastUid: seenUpTo,
+        fullResync
+      };
+    } finally {
+      lock.release();
+    }
+  }
+
+  /**
+   * One pass over all of a provider's mailboxes on a connection of its own
+   */
+  static async syncProvider(provider: Provider): Promise<MailboxSyncResult[]> {
+    const credentials = ProviderModel.getCredentials(provider);
+    const client = createImapClient(credentials);
+    client.on('error', error => logger.warn({ providerId: provider.id, error: error.message }, 'IMAP connection error'));
+
+    await client.connect();
+    try {
+      const results: MailboxSyncResult[] = [];
+      for (const target of syncTargets(mailServerSettings(credentials))) {
+        results.push(await this.syncMailbox(client, provider.id, target.mailbox, { sent: target.sent }));
+      }
+      return results;
+    } finally {
+      await client.logout().catch(() => client.close());
+    }
+  }
+
+  private static async enqueue(
+    providerId: string,
+    mailbox: string,
+    uidValidity: bigint,
+    message: FetchMessageObject,
+    options: MailboxSyncOptions
+  ): Promise<void> {
+    if (!message.source) {
+      logger.warn({ providerId, mailbox, uid: message.uid }, 'Message returned without its source, skipped');
+      return;
+    }
+
+    const internalDate = message.internalDate ? new Date(message.internalDate) : undefined;
+    const payload: ImapMessagePayload = {
+      raw: message.source.toString('base64'),
+      mailbox,
+      uid: message.uid,
+      uidValidity: uidValidity.toString(),
+      ...(internalDate && { internalDate: internalDate.toISOString() }),
+      flags: [...(message.flags ?? [])],
+      ...(options.sent && { sent: true })
+    };
+
+    // The Message-ID names the same mail in every mailbox it is filed in
+    await queueManager.addMessageIngestionJob(
+      {
+        providerId,
+        providerMessageId: message.envelope?.messageId || `${mailbox}:${uidValidity}:${message.uid}`,
+        providerType: 'imap',
+        channel: 'email',
+        payload,
+        timestamp: (internalDate ?? new Date()).toISOString()
+      },
+      { jobId: `imap-${providerId}-${uidValidity}-${encodeURIComponent(mailbox)}-${message.uid}` }
+    );
+  }
+}
+
+type SyncTarget = { mailbox: string; sent: boolean };
+
+// The first configured mailbox goes last, so it stays selected and IDLE reports its new mail
+const syncTargets = (settings: MailServerSettings): SyncTarget[] => [
+  ...(settings.sentMailbox && !settings.mailboxes.includes(settings.sentMailbox)
+    ? [{ mailbox: settings.sentMailbox, sent: true }]
+    : []),
+  ...[...settings.mailboxes].reverse().map(mailbox => ({ mailbox, sent: mailbox === settings.sentMailbox }))
+];
+
+type ProviderWatch = {
+  providerId: string;
+  client: ImapFlow;
+  targets: SyncTarget[];
+  // Syncs on one connection run one after another
+  running: Promise<void>;
+};
+
+/**
+ * Keeps a connection open per active IMAP provider. Servers with IDLE push new mail
+ * for the selected mailbox as it arrives; every mailbox is also re-read on the poll
+ * interval, which is all servers without IDLE get. Connections that drop are
+ * reopened on the next interval.
+ */
+export class ImapWatcher {
+  private watches = new Map<string, ProviderWatch>();
+  private timer: NodeJS.Timeout | null = null;
+
+  async start(): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.refresh().catch(error => logger.error({ error }, 'IMAP poll failed'));
+    }, config.imap.pollIntervalMs);
+    await this.refresh();
+
+    logger.info({ providers: this.watches.size, pollIntervalMs: config.imap.pollIntervalMs }, 'IMAP watcher started');
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await Promise.all([...this.watches.keys()].map(providerId => this.unwatch(providerId)));
+  }
+
+  get watchedProviders(): string[] {
+    return [...this.watches.keys()];
+  }
+
+  private async refresh(): Promise<void> {
+    const providers = (await ProviderModel.list({ type: 'imap' })).filter(provider => provider.status !== 'inactive');
+    const active = new Set(providers.map(provider => provider.id));
+
+    for (const providerId of this.watches.keys()) {
+      if (!active.has(providerId)) {
+        await this.unwatch(providerId);
+      }
+    }
+
+    for (const provider of providers) {
+      const watch = this.watches.get(provider.id);
+      if (watch) {
+        this.sync(watch);
+        continue;
+      }
+
+      try {
+        await this.watch(provider);
+      } catch (error) {
+        logger.warn(
+          { providerId: provider.id, error: error instanceof Error ? error.message : error },
+          'Could not connect to IMAP provider'
+        );
+      }
+    }
+  }
+
+  private async watch(provider: Provider): Promise<void> {
+    const credentials = ProviderModel.getCredentials(provider);
+    const client = createImapClient(credentials);
+    client.on('error', error => logger.warn({ providerId: provider.id, error: error.message }, 'IMAP connection error'));
+
+    await client.connect();
+
+    const watch: ProviderWatch = {
+      providerId: provider.id,
+      client,
+      targets: syncTargets(mailServerSettings(credentials)),
+      running: Promise.resolve()
+    };
+    this.watches.set(provider.id, watch);
+
+    client.on('close', () => {
+      if (this.watches.get(provider.id) === watch) {
+        this.watches.delete(provider.id);
+      }
+    });
+    client.on('exists', (event: ExistsEvent) => {
+      if (event.count > event.prevCount) {
+        this.sync(watch, event.path);
+      }
+    });
+
+    logger.info({ providerId: provider.id, idle: client.capabilities.has('IDLE') }, 'Watching IMAP provider');
+    this.sync(watch);
+  }
+
+  private sync(watch: ProviderWatch, mailbox?: string): Promise<void> {
+    const targets = mailbox ? watch.targets.filter(target => target.mailbox === mailbox) : watch.targets;
+
+    watch.running = watch.running
+      .then(async () => {
+        for (const target of targets) {
+          await MailboxSyncer.syncMailbox(watch.client, watch.providerId, target.mailbox, { sent: target.sent });
+        }
+      })
+      .catch(error => {
+        logger.warn(
+          { providerId: watch.providerId, error: error instanceof Error ? error.message : error },
+          'IMAP sync failed'
+        );
+      });
+
+    return watch.running;
+  }
+
+  private async unwatch(providerId: string): Promise<void> {
+    const watch = this.watches.get(providerId);
+    if (!watch) {
+      return;
+    }
+
+    this.watches.delete(providerId);
+    await watch.running;
+    await watch.client.logout().catch(() => watch.client.close());
+  }
+}
+
+export const imapWatcher = new ImapWatcher();
@@ -0,0 +1,55 @@
+import { Attachment } from '@prisma/client';
+import { MessageModel } from '../../models/message.js';
+import { CallEvent } from './types.js';
+import { createLogger } from '../logger.js';
+
+const logger = createLogger('calls');
+
+export type CallUpdate = {
+  messageId: string;
+  // Recording attachments added by this callback, still pointing at the provider
+  attachments: Attachment[];
+};
+
+export class CallTracker {
+  /**
+   * Apply a later callback to the message already stored for its call. Returns null when
+   * the call is not stored yet, so the callback is ingested as the call's message.
+   */
+  static async applyCallEvent(providerId: string, event: CallEvent): Promise<CallUpdate | null> {
+    const message = await MessageModel.findByProviderMessageId(providerId, event.callSid);
+    if (!message) {
+      return null;
+    }
+
+    const recordingSid = event.recording?.metadata?.['recordingSid'];
+    const attachments = await MessageModel.recordCallEvent(message.id, {
+      occurredAt: event.timestamp.toISOString(),
+      ...(event.status && { status: event.status }),
+      ...(event.durationSeconds !== undefined && { durationSeconds: event.durationSeconds }),
+      ...(event.recording && typeof recordingSid === 'string' && {
+        recording: {
+          recordingSid,
+          type: event.recording.type,
+          storageUrl: event.recording.url,
+          ...(event.recording.filename && { filename: event.recording.filename }),
+          metadata: {
+            ...event.recording.metadata,
+            ...(event.recording.mimeType && { mimeType: event.recording.mimeType })
+          }
+        }
+      }),
+      ...(event.transcription && { transcription: event.transcription })
+    });
+
+    logger.info({
+      messageId: message.id,
+      callSid: event.callSid,
+      kind: event.kind,
+      status: event.status,
+      recordingsAdded: attachments.length
+    }, 'Call updated');
+
+    return { messageId: message.id, attachments };
+  }
+}
@@ -0,0 +1,219 @@
+import { Prisma } from '@prisma/client';
+import { DeadLetterModel, DeadLetterAttempt } from '../../models/dead-letter.js';
+import { MessageIngestionPipeline } from './pipeline.js';
+import { IngestionError, IngestionResult, RawProviderMessage } from './types.js';
+import { createLogger } from '../logger.js';
+
+const logger = createLogger('dead-letters');
+
+export type DeadLetterErrorCode = 'NOT_FOUND' | 'ALREADY_REPLAYED';
+
+export class DeadLetterError extends Error {
+  constructor(public code: DeadLetterErrorCode, message: string) {
+    super(message);
+    this.name = 'DeadLetterError';
+  }
+}
+
+export type QueueAttempt = {
+  jobId?: string;
+  attempt: number;
+  // The queue will try the message again
+  retrying: boolean;
+};
+
+export type DeadLetterEdit = {
+  payload?: Record<string, any>;
+  rawHeaders?: Record<string, string>;
+};
+
+export type DeadLetterReplayResult = {
+  id: string;
+  status: 'replayed' | 'failed';
+  messageId?: string;
+  error?: { code: string; message: string };
+};
+
+export type DeadLetterBulkReplayReport = {
+  errorCode: string;
+  replayed: number;
+  failed: number;
+  results: DeadLetterReplayResult[];
+};
+
+type Failure = {
+  errorCode: string;
+  errorMessage: string;
+  stage?: string;
+};
+
+const failureOf = (result: IngestionResult | undefined, error?: unknown): Failure => {
+  const stage = result?.processingMetrics.stagesFailed?.[0];
+
+  return {
+    errorCode: result?.error?.code ?? (error instanceof IngestionError ? error.code : 'UNKNOWN_ERROR'),
+    errorMessage: result?.error?.message ?? (error instanceof Error ? error.message : 'Unknown error'),
+    ...(stage && { stage })
+  };
+};
+
+// Dates become ISO strings, as they would on the queue
+const toJson = (rawMessage: RawProviderMessage): Prisma.InputJsonValue =>
+  JSON.parse(JSON.stringify(rawMessage));
+
+/**
+ * Failed ingestions are kept with their raw message, so they outlive the queue's failed
+ * set and can be inspected, corrected and replayed through the pipeline.
+ */
+export class DeadLetterQueue {
+  /**
+   * Record a failed queue attempt. Never throws: losing the record must not change how
+   * the job itself fails or retries.
+   */
+  static async recordFailure(
+    rawMessage: RawProviderMessage,
+    result: IngestionResult,
+    attempt: QueueAttempt
+  ): Promise<void> {
+    const failure = failureOf(result);
+
+    try {
+      await DeadLetterModel.recordFailure({
+        providerId: rawMessage.providerId,
+        providerMessageId: rawMessage.providerMessageId,
+        rawMessage: toJson(rawMessage),
+        errorCode: failure.errorCode,
+        errorMessage: failure.errorMessage,
+        ...(failure.stage && { failedStage: failure.stage }),
+        attempt: {
+          at: new Date().toISOString(),
+          source: 'queue',
+          ...failure,
+          ...(attempt.jobId && { jobId: attempt.jobId }),
+          attempt: attempt.attempt
+        },
+        retrying: attempt.retrying
+      });
+    } catch (error) {
+      logger.error({
+        providerId: rawMessage.providerId,
+        providerMessageId: rawMessage.providerMessageId,
+        error
+      }, 'Failed to record dead letter');
+    }
+  }
+
+  /**
+   * Close the entry of a message that went through on a later queue attempt
+   */
+  static async recordSuccess(rawMessage: RawProviderMessage, messageId?: string): Promise<void> {
+    try {
+      await DeadLetterModel.resolve(rawMessage.providerId, rawMessage.providerMessageId, {
+        ...(messageId && { messageId })
+      });
+    } catch (error) {
+      logger.error({
+        providerId: rawMessage.providerId,
+        providerMessageId: rawMessage.providerMessageId,
+        error
+      }, 'Failed to resolve dead letter');
+    }
+  }
+
+  /**
+   * Run the entry's raw message through the pipeline again, after applying any edit.
+   * A failure is added to the entry's attempts rather than thrown.
+   */
+  static async replay(
+    id: string,
+    options: { edit?: DeadLetterEdit; userId?: string; maxRetries?: number } = {}
+  ): Promise<DeadLetterReplayResult> {
+    const deadLetter = await DeadLetterModel.findById(id);
+    if (!deadLetter) {
+      throw new DeadLetterError('NOT_FOUND', 'Dead letter not found');
+    }
+    if (deadLetter.status === 'replayed') {
+      throw new DeadLetterError('ALREADY_REPLAYED', 'Dead letter has already been replayed');
+    }
+
+    let rawMessage = deadLetter.rawMessage as unknown as RawProviderMessage;
+    if (options.edit?.payload || options.edit?.rawHeaders) {
+      rawMessage = {
+        ...rawMessage,
+        ...(options.edit.payload && { payload: options.edit.payload }),
+        ...(options.edit.rawHeaders && { rawHeaders: options.edit.rawHeaders })
+      };
+      await DeadLetterModel.updateRawMessage(id, toJson(rawMessage));
+    }
+
+    try {
+      const result = await MessageIngestionPipeline.retryFailedMessage(rawMessage, {
+        ...(options.maxRetries !== undefined && { maxRetries: options.maxRetries })
+      });
+
+      await DeadLetterModel.resolve(deadLetter.providerId, deadLetter.providerMessageId, {
+        ...(result.messageId && { messageId: result.messageId }),
+        ...(options.userId && { userId: options.userId })
+      });
+
+      return {
+        id,
+        status: 'replayed',
+        ...(result.messageId && { messageId: result.messageId })
+      };
+    } catch (error) {
+      const lastResult = error instanceof IngestionError
+        ? error.details?.['lastResult'] as IngestionResult | undefined
+        : undefined;
+      const failure = failureOf(lastResult, error);
+
+      const attempt: DeadLetterAttempt = {
+        at: new Date().toISOString(),
+        source: 'replay',
+        ...failure
+      };
+      await DeadLetterModel.recordFailure({
+        providerId: deadLetter.providerId,
+        providerMessageId: deadLetter.providerMessageId,
+        rawMessage: toJson(rawMessage),
+        errorCode: failure.errorCode,
+        errorMessage: failure.errorMessage,
+        ...(failure.stage && { failedStage: failure.stage }),
+        attempt,
+        retrying: false
+      });
+
+      return {
+        id,
+        status: 'failed',
+        error: { code: failure.errorCode, message: failure.errorMessage }
+      };
+    }
+  }
+
+  /**
+   * Replay dead entries that failed with the error code, oldest first. Runs from a
+   * maintenance job; each entry gets a single attempt so the batch finishes promptly.
+   */
+  static async replayByErrorCode(
+    errorCode: string,
+    options: { providerId?: string; limit: number; userId?: string }
+  ): Promise<DeadLetterReplayResult[]> {
+    const ids = await DeadLetterModel.listDeadIds(errorCode, {
+      ...(options.providerId && { providerId: options.providerId }),
+      limit: options.limit
+    });
+
+    const results: DeadLetterReplayResult[] = [];
+    for (const id of ids) {
+      results.push(await this.replay(id, {
+        maxRetries: 1,
+        ...(options.userId && { userId: options.userId })
+      }));
+    }
+
+    return results;
+  }
+}
+
+export default DeadLetterQueue;
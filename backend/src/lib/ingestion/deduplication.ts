@@ -1,11 +1,17 @@
 import crypto from 'crypto';
 import { MessageModel } from '../../models/message.js';
+import { IdempotencyKeyModel } from '../../models/idempotency-key.js';
+import { redisManager, Redis } from '../redis.js';
+import { createLogger } from '../logger.js';
+import { config } from '../../config/index.js';
 import { 
   NormalizedMessage, 
   RawProviderMessage,
   IngestionError 
 } from './types.js';
 
+const logger = createLogger('deduplication');
+
 export interface DeduplicationOptions {
   checkProviderDuplicates?: boolean;
   checkContentDuplicates?: boolean;
@@ -22,6 +28,40 @@ export interface DuplicationCheckResult {
   reason?: string;
 }
 
+/**
+ * Character trigrams of the text, case and whitespace folded; each word is padded so
+ * its start and end count, as in pg_trgm
+ */
+export function contentTrigrams(text: string): Set<string> {
+  const trigrams = new Set<string>();
+
+  for (const word of text.toLowerCase().split(/\s+/)) {
+    if (!word) continue;
+
+    const padded = `  ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      trigrams.add(padded.slice(i, i + 3));
+    }
+  }
+
+  return trigrams;
+}
+
+/**
+ * Dice coefficient of two trigram sets: 1 for the same text, near 0 for unrelated text.
+ * Linear in the text length, unlike an edit distance.
+ */
+export function trigramSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1.0;
+
+  let shared = 0;
+  for (const trigram of a) {
+    if (b.has(trigram)) shared++;
+  }
+
+  return (2 * shared) / (a.size + b.size);
+}
+
 export class MessageDeduplicator {
   private static defaultOptions: Required<DeduplicationOptions> = {
     checkProviderDuplicates: true,
@@ -31,6 +71,12 @@ export class MessageDeduplicator {
     ignoreTimestampDifference: false
   };
 
+  // Busy pairs are compared against their most recent messages only
+  private static readonly SIMILARITY_CANDIDATE_LIMIT = 100;
+
+  // Short replies like "ok thanks" are meant to repeat; only longer bodies are compared
+  private static readonly SIMILARITY_MIN_TRIGRAMS = 20;
+
   static async checkForDuplicate(
     normalizedMessage: NormalizedMessage,
     rawMessage: RawProviderMessage,
@@ -120,31 +166,20 @@ export class MessageDeduplicator {
     message: NormalizedMessage,
     timeWindowMinutes: number
   ): Promise<DuplicationCheckResult> {
-    // Look for messages with the same hash within the time window
-    const timeWindow = new Date(Date.now() - (timeWindowMinutes * 60 * 1000));
-    
-    // We need to query messages with similar characteristics and check their providerMeta
-    // Since we don't have a messageHash field in the database, we'll need to implement this differently
-    // For now, we'll use a combination of from/to identifiers and body content
-    
-    const potentialDuplicates = await MessageModel.list({
-      from: timeWindow,
-      search: message.body,
-      limit: 20 // Limit to avoid performance issues
-    });
+    // Look for a message with the same hash within the time window around this one
+    const existingMessage = await MessageModel.findByMessageHash(
+      message.messageHash,
+      this.timeWindow(message.timestamp, timeWindowMinutes)
+    );
 
-    for (const existingMessage of potentialDuplicates.data) {
-      // Check if this message has the same hash in its providerMeta
-      const existingHash = (existingMessage.providerMeta as any)?.messageHash;
-      if (existingHash === message.messageHash) {
-        return {
-          isDuplicate: true,
-          duplicateType: 'content_hash',
-          existingMessageId: existingMessage.id,
-          confidence: 1.0,
-          reason: `Message with identical content hash found within ${timeWindowMinutes} minute window`
-        };
-      }
+    if (existingMessage) {
+      return {
+        isDuplicate: true,
+        duplicateType: 'content_hash',
+        existingMessageId: existingMessage.id,
+        confidence: 1.0,
+        reason: `Message with identical content hash found within ${timeWindowMinutes} minute window`
+      };
     }
 
     return {
@@ -159,7 +194,8 @@ export class MessageDeduplicator {
     similarityThreshold: number,
     timeWindowMinutes: number
   ): Promise<DuplicationCheckResult> {
-    if (!message.body || message.body.trim().length === 0) {
+    const trigrams = contentTrigrams(message.body || '');
+    if (trigrams.size < this.SIMILARITY_MIN_TRIGRAMS) {
       return {
         isDuplicate: false,
         duplicateType: 'none',
@@ -167,35 +203,37 @@ export class MessageDeduplicator {
       };
     }
 
-    const timeWindow = new Date(Date.now() - (timeWindowMinutes * 60 * 1000));
-    
-    // Find recent messages from/to the same contacts
-    const potentialDuplicates = await MessageModel.list({
-      from: timeWindow,
-      limit: 50
+    // Only what the same sender sent the same contact can be a copy; a reply is never one
+    const potentialDuplicates = await MessageModel.findSentBetween({
+      sender: message.from.normalizedValue,
+      recipient: message.to.normalizedValue,
+      direction: message.direction,
+      channel: message.channel,
+      ...this.timeWindow(message.timestamp, timeWindowMinutes),
+      limit: this.SIMILARITY_CANDIDATE_LIMIT
     });
 
-    for (const existingMessage of potentialDuplicates.data) {
+    let best: { id: string; similarity: number } | undefined;
+
+    for (const existingMessage of potentialDuplicates) {
       if (!existingMessage.body) continue;
 
-      // Check if from/to identifiers match (in either direction)
-      const sameContacts = this.haveSameContacts(message, existingMessage);
-      if (!sameContacts) continue;
-
-      // Calculate content similarity
-      const similarity = this.calculateContentSimilarity(message.body, existingMessage.body);
-      
-      if (similarity >= similarityThreshold) {
-        return {
-          isDuplicate: true,
-          duplicateType: 'similar_content',
-          existingMessageId: existingMessage.id,
-          confidence: similarity,
-          reason: `Message with ${Math.round(similarity * 100)}% similar content found within ${timeWindowMinutes} minute window`
-        };
+      const similarity = trigramSimilarity(trigrams, contentTrigrams(existingMessage.body));
+      if (similarity >= similarityThreshold && (!best || similarity > best.similarity)) {
+        best = { id: existingMessage.id, similarity };
       }
     }
 
+    if (best) {
+      return {
+        isDuplicate: true,
+        duplicateType: 'similar_content',
+        existingMessageId: best.id,
+        confidence: best.similarity,
+        reason: `Message with ${Math.round(best.similarity * 100)}% similar content found within ${timeWindowMinutes} minute window`
+      };
+    }
+
     return {
       isDuplicate: false,
       duplicateType: 'none',
@@ -203,61 +241,13 @@ export class MessageDeduplicator {
     };
   }
 
-  private static haveSameContacts(message1: NormalizedMessage, message2: any): boolean {
-    const m1From = message1.from.normalizedValue;
-    const m1To = message1.to.normalizedValue;
-    const m2From = message2.fromIdentifier;
-    const m2To = message2.toIdentifier;
-
-    // Check if contacts match in same direction
-    if (m1From === m2From && m1To === m2To) {
-      return true;
-    }
-
-    // Check if contacts match in reverse direction
-    if (m1From === m2To && m1To === m2From) {
-      return true;
-    }
-
-    return false;
-  }
-
-  private static calculateContentSimilarity(content1: string, content2: string): number {
-    // Simple similarity calculation using Levenshtein distance
-    const distance = this.levenshteinDistance(
-      content1.toLowerCase().trim(),
-      content2.toLowerCase().trim()
-    );
-    
-    const maxLength = Math.max(content1.length, content2.length);
-    if (maxLength === 0) return 1.0;
-    
-    return 1 - (distance / maxLength);
-  }
+  private static timeWindow(timestamp: Date, timeWindowMinutes: number): { from: Date; to: Date } {
+    const windowMs = timeWindowMinutes * 60 * 1000;
 
-  private static levenshteinDistance(str1: string, str2: string): number {
-    const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
-
-    for (let i = 0; i <= str1.length; i += 1) {
-      matrix[0][i] = i;
-    }
-
-    for (let j = 0; j <= str2.length; j += 1) {
-      matrix[j][0] = j;
-    }
-
-    for (let j = 1; j <= str2.length; j += 1) {
-      for (let i = 1; i <= str1.length; i += 1) {
-        const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
-        matrix[j][i] = Math.min(
-          matrix[j][i - 1] + 1, // deletion
-          matrix[j - 1][i] + 1, // insertion
-          matrix[j - 1][i - 1] + indicator, // substitution
-        );
-      }
-    }
-
-    return matrix[str2.length][str1.length];
+    return {
+      from: new Date(timestamp.getTime() - windowMs),
+      to: new Date(timestamp.getTime() + windowMs)
+    };
   }
 
   static generateContentFingerprint(message: NormalizedMessage): string {
@@ -322,11 +312,32 @@ export class MessageDeduplicator {
   }
 }
 
+export type IdempotencyClaim =
+  | { status: 'acquired'; token: string }
+  | { status: 'completed'; messageId: string }
+  | { status: 'in_progress' };
+
+type CachedIdempotencyKey =
+  | { status: 'in_progress'; owner: string }
+  | { status: 'completed'; messageId: string };
+
+const IDEMPOTENCY_KEY_PREFIX = 'ingestion:idempotency:';
+
+// Deletes the key only while it still holds the caller's lock
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Keys survive restarts and are shared by every worker: Postgres holds each key and
+ * decides who may process it, Redis answers the common repeat without a query. A key is
+ * claimed before processing and, once done, kept until its TTL runs out; a claim that
+ * is never completed or released lapses after the lock TTL so another worker can retry.
+ */
 export class IdempotencyManager {
-  private static processedMessages = new Map<string, string>();
-  private static readonly MAX_CACHE_SIZE = 10000;
-  private static readonly CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
-
   static generateIdempotencyKey(
     providerId: string,
     providerMessageId: string,
@@ -344,30 +355,127 @@ export class IdempotencyManager {
       .digest('hex');
   }
 
+  /**
+   * Claim the key for processing. The returned token completes or releases the claim;
+   * a key already processed returns its message and one another worker holds is refused.
+   */
+  static async acquire(idempotencyKey: string): Promise<IdempotencyClaim> {
+    const { ttlSeconds, lockTtlSeconds } = config.ingestion.idempotency;
+    const token = crypto.randomUUID();
+    const lock = JSON.stringify({ status: 'in_progress', owner: token });
+
+    const cached = await this.withRedis(async redis => {
+      const set = await redis.set(this.redisKey(idempotencyKey), lock, 'PX', lockTtlSeconds * 1000, 'NX');
+      return set === 'OK' ? null : this.parseCached(await redis.get(this.redisKey(idempotencyKey)));
+    }, null);
+
+    if (cached?.status === 'completed') {
+      return cached;
+    }
+    if (cached?.status === 'in_progress') {
+      return { status: 'in_progress' };
+    }
+
+    const now = Date.now();
+    const claimed = await IdempotencyKeyModel.claim(idempotencyKey, {
+      owner: token,
+      lockedUntil: new Date(now + lockTtlSeconds * 1000),
+      expiresAt: new Date(now + ttlSeconds * 1000)
+    });
+    if (claimed) {
+      return { status: 'acquired', token };
+    }
+
+    // Postgres knew the key when Redis didn't, e.g. after an eviction or a flush
+    await this.withRedis(redis => redis.eval(RELEASE_LOCK_SCRIPT, 1, this.redisKey(idempotencyKey), lock), null);
+
+    const record = await IdempotencyKeyModel.find(idempotencyKey);
+    if (record?.status === 'completed' && record.messageId) {
+      await this.cacheCompleted(idempotencyKey, record.messageId, record.expiresAt);
+      return { status: 'completed', messageId: record.messageId };
+    }
+
+    return { status: 'in_progress' };
+  }
+
   static async checkIdempotency(idempotencyKey: string): Promise<string | null> {
-    // First check in-memory cache
-    if (this.processedMessages.has(idempotencyKey)) {
-      return this.processedMessages.get(idempotencyKey)!;
+    const cached = await this.withRedis(
+      async redis => this.parseCached(await redis.get(this.redisKey(idempotencyKey))),
+      null
+    );
+    if (cached?.status === 'completed') {
+      return cached.messageId;
+    }
+
+    const record = await IdempotencyKeyModel.find(idempotencyKey);
+    if (record?.status !== 'completed' || !record.messageId || record.expiresAt <= new Date()) {
+      return null;
+    }
+
+    await this.cacheCompleted(idempotencyKey, record.messageId, record.expiresAt);
+    return record.messageId;
+  }
+
+  static async markAsProcessed(idempotencyKey: string, messageId: string): Promise<void> {
+    const expiresAt = new Date(Date.now() + config.ingestion.idempotency.ttlSeconds * 1000);
+
+    await IdempotencyKeyModel.complete(idempotencyKey, messageId, expiresAt);
+    await this.cacheCompleted(idempotencyKey, messageId, expiresAt);
+  }
+
+  /**
+   * Give up a claim without completing it, so a retry can take the key at once
+   */
+  static async release(idempotencyKey: string, token: string): Promise<void> {
+    const lock = JSON.stringify({ status: 'in_progress', owner: token });
+
+    await IdempotencyKeyModel.release(idempotencyKey, token);
+    await this.withRedis(redis => redis.eval(RELEASE_LOCK_SCRIPT, 1, this.redisKey(idempotencyKey), lock), null);
+  }
+
+  /**
+   * Redis expires its copies itself; this prunes the table
+   */
+  static async clearExpiredEntries(): Promise<number> {
+    return IdempotencyKeyModel.deleteExpired();
+  }
+
+  private static redisKey(idempotencyKey: string): string {
+    return `${IDEMPOTENCY_KEY_PREFIX}${idempotencyKey}`;
+  }
+
+  private static parseCached(value: string | null): CachedIdempotencyKey | null {
+    if (!value) {
+      return null;
     }
 
-    // Then check database (implementation would depend on having an idempotency table)
-    // For now, we'll rely on the provider message ID uniqueness constraint
-    return null;
+    try {
+      return JSON.parse(value) as CachedIdempotencyKey;
+    } catch {
+      return null;
+    }
   }
 
-  static markAsProcessed(idempotencyKey: string, messageId: string): void {
-    // Clean cache if it gets too large
-    if (this.processedMessages.size >= this.MAX_CACHE_SIZE) {
-      this.processedMessages.clear();
+  private static async cacheCompleted(idempotencyKey: string, messageId: string, expiresAt: Date): Promise<void> {
+    const ttlMs = expiresAt.getTime() - Date.now();
+    if (ttlMs <= 0) {
+      return;
     }
 
-    this.processedMessages.set(idempotencyKey, messageId);
+    const value = JSON.stringify({ status: 'completed', messageId });
+    await this.withRedis(redis => redis.set(this.redisKey(idempotencyKey), value, 'PX', ttlMs), null);
   }
 
-  static clearExpiredEntries(): void {
-    // In a real implementation, this would clean up based on timestamp
-    // For now, just clear the entire cache periodically
-    this.processedMessages.clear();
+  /**
+   * Redis is only a cache here: when it's down or not connected, Postgres decides alone
+   */
+  private static async withRedis<T>(operation: (redis: Redis) => Promise<T>, fallback: T): Promise<T> {
+    try {
+      return await operation(redisManager.getClient());
+    } catch (error) {
+      logger.warn({ error: error instanceof Error ? error.message : error }, 'Idempotency cache unavailable, using the database');
+      return fallback;
+    }
   }
 }
 
@@ -0,0 +1,144 @@
+import { MessageStatus } from '@prisma/client';
+import { MessageModel } from '../../models/message.js';
+import { NormalizerFactory } from './normalizers/index.js';
+import { RawProviderMessage, DeliveryStatusUpdate, IngestionError } from './types.js';
+import { createLogger } from '../logger.js';
+
+const logger = createLogger('delivery-status');
+
+export interface DeliveryStatusReport {
+  statusOnly: boolean;
+  applied: number;
+  recorded: number;
+  // Receipts naming a message that isn't one we sent
+  unknown: number;
+  // Our IDs of the messages the receipts belonged to
+  messageIds: string[];
+}
+
+type AppliedUpdate = {
+  outcome: 'applied' | 'recorded' | 'unknown' | 'missing';
+  messageId?: string;
+};
+
+// A receipt can beat the send job to storing the provider's message ID; failing lets the queue retry it
+const missingMessageError = (providerId: string, providerMessageIds: string[]): IngestionError =>
+  new IngestionError(
+    'MESSAGE_NOT_FOUND',
+    `Delivery receipt for ${providerMessageIds.join(', ')} arrived before the message was stored`,
+    providerId,
+    providerMessageIds[0],
+    { providerMessageIds }
+  );
+
+// How long a send may wait on the provider before its receipts stop being worth retrying
+const PENDING_SEND_WINDOW_MS = 10 * 60 * 1000;
+
+// Position in the delivery lifecycle; a receipt never moves a message backwards
+const LIFECYCLE_RANK: Record<MessageStatus, number> = {
+  received: 0,
+  processed: 0,
+  queued: 1,
+  sent: 2,
+  delivered: 3,
+  read: 4,
+  failed: 2
+};
+
+export class DeliveryStatusTracker {
+  /**
+   * Whether a status should replace the message's current one. Providers deliver
+   * receipts out of order, so "sent" after "delivered" is kept in history only.
+   * A failure can follow queued/sent but not a confirmed delivery.
+   */
+  static shouldApply(current: MessageStatus, next: MessageStatus): boolean {
+    if (current === next) {
+      return false;
+    }
+    if (next === 'failed') {
+      return LIFECYCLE_RANK[current] < LIFECYCLE_RANK.delivered;
+    }
+    return LIFECYCLE_RANK[next] > LIFECYCLE_RANK[current];
+  }
+
+  /**
+   * Apply one receipt; throws a MESSAGE_NOT_FOUND IngestionError when no message has its ID
+   * yet while a send through the provider is still waiting for one
+   */
+  static async applyUpdate(update: DeliveryStatusUpdate): Promise<'applied' | 'recorded' | 'unknown'> {
+    const { outcome } = await this.apply(update);
+    if (outcome === 'missing') {
+      throw missingMessageError(update.providerId, [update.providerMessageId]);
+    }
+    return outcome;
+  }
+
+  private static async apply(update: DeliveryStatusUpdate): Promise<AppliedUpdate> {
+    const message = await MessageModel.findByProviderMessageId(update.providerId, update.providerMessageId);
+    if (!message) {
+      // Without a send still waiting on its ID, the receipt is for a message another tool sent
+      const since = new Date(Date.now() - PENDING_SEND_WINDOW_MS);
+      if (await MessageModel.hasPendingSend(update.providerId, since)) {
+        return { outcome: 'missing' };
+      }
+      logger.debug({ providerId: update.providerId, providerMessageId: update.providerMessageId }, 'Status update for a message we did not send');
+      return { outcome: 'unknown' };
+    }
+    if (message.direction !== 'outbound') {
+      logger.debug({ providerId: update.providerId, providerMessageId: update.providerMessageId }, 'Status update for an inbound message');
+      return { outcome: 'unknown' };
+    }
+
+    const apply = this.shouldApply(message.status, update.status);
+
+    await MessageModel.recordStatusEvent(message.id, {
+      status: update.status,
+      providerStatus: update.providerStatus,
+      occurredAt: update.timestamp,
+      ...(update.errorCode && { errorCode: update.errorCode }),
+      ...(update.errorMessage && { errorMessage: update.errorMessage })
+    }, apply);
+
+    return { outcome: apply ? 'applied' : 'recorded', messageId: message.id };
+  }
+
+  /**
+   * Apply the delivery receipts carried by a webhook payload. Receipts for messages not
+   * stored yet fail the webhook once the rest are applied, so the queue retries it and
+   * parks it as a dead letter if the message never turns up. That only happens while one
+   * of our sends is waiting on its ID; otherwise the receipt is counted as unknown.
+   */
+  static async handleWebhook(rawMessage: RawProviderMessage): Promise<DeliveryStatusReport> {
+    const report: DeliveryStatusReport = { statusOnly: false, applied: 0, recorded: 0, unknown: 0, messageIds: [] };
+    const missing: string[] = [];
+
+    if (!NormalizerFactory.isProviderSupported(rawMessage.providerType)) {
+      return report;
+    }
+
+    const normalizer = NormalizerFactory.getNormalizer(rawMessage.providerType);
+    report.statusOnly = normalizer.isStatusOnly(rawMessage);
+
+    for (const update of normalizer.extractStatusUpdates(rawMessage)) {
+      const { outcome, messageId } = await this.apply(update);
+      if (outcome === 'missing') {
+        missing.push(update.providerMessageId);
+        continue;
+      }
+      report[outcome]++;
+      if (messageId) {
+        report.messageIds.push(messageId);
+      }
+    }
+
+    if (report.applied + report.recorded + report.unknown > 0) {
+      logger.info({ providerId: rawMessage.providerId, ...report }, 'Delivery status updates processed');
+    }
+
+    if (missing.length > 0) {
+      throw missingMessageError(rawMessage.providerId, missing);
+    }
+
+    return report;
+  }
+}
@@ -0,0 +1,88 @@
+export type ParsedAddress = {
+  address: string;
+  name?: string;
+};
+
+const unquote = (value: string): string =>
+  value.trim().replace(/^"(.*)"$/s, '$1').replace(/\\(.)/g, '$1').trim();
+
+/**
+ * One mailbox: `Name <addr>`, `"Last, First" <addr>`, `addr (Name)` or a bare address
+ */
+function parseMailbox(text: string): ParsedAddress | null {
+  const angle = text.match(/^(.*)<([^<>]*)>\s*$/s);
+  if (angle) {
+    const address = angle[2]!.trim();
+    const name = unquote(angle[1]!);
+    return address.includes('@') ? { address, ...(name && { name }) } : null;
+  }
+
+  const comment = text.match(/^([^\s()]+)\s*\((.*)\)\s*$/s);
+  if (comment) {
+    const name = comment[2]!.trim();
+    return comment[1]!.includes('@') ? { address: comment[1]!, ...(name && { name }) } : null;
+  }
+
+  const address = text.trim();
+  return address.includes('@') && !/\s/.test(address) ? { address } : null;
+}
+
+/**
+ * Parse an RFC 5322 address list header into its mailboxes, keeping display names.
+ * Commas inside quoted names, angle brackets and comments don't split; group syntax
+ * (`Team: a@x.com, b@x.com;`) contributes its members, and an empty group such as
+ * `undisclosed-recipients:;` none.
+ */
+export function parseAddressList(header: string | undefined): ParsedAddress[] {
+  if (!header) {
+    return [];
+  }
+
+  const entries: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angle = false;
+  let comment = 0;
+
+  for (let i = 0; i < header.length; i++) {
+    const char = header[i]!;
+
+    if (quoted) {
+      current += char;
+      if (char === '\\' && i + 1 < header.length) {
+        current += header[++i];
+      } else if (char === '"') {
+        quoted = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === '(') {
+      comment++;
+    } else if (char === ')' && comment > 0) {
+      comment--;
+    } else if (comment === 0 && char === '<') {
+      angle = true;
+    } else if (comment === 0 && char === '>') {
+      angle = false;
+    } else if (comment === 0 && !angle && (char === ',' || char === ';')) {
+      entries.push(current);
+      current = '';
+      continue;
+    } else if (comment === 0 && !angle && char === ':') {
+      // Group display name; its members follow
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  entries.push(current);
+
+  return entries
+    .map(entry => entry.trim())
+    .filter(entry => entry !== '')
+    .map(parseMailbox)
+    .filter((mailbox): mailbox is ParsedAddress => mailbox !== null);
+}
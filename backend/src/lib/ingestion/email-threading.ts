@@ -0,0 +1,151 @@
+import { EmailMessageRefModel } from '../../models/email-message-ref.js';
+import { NormalizedMessage } from './types.js';
+
+// Angle-bracketed message IDs in Message-ID, In-Reply-To and References
+const MESSAGE_ID_PATTERN = /<[^<>\s]+>/g;
+
+// Reply and forward prefixes mail clients add, including localized ones (AW/WG German,
+// SV Nordic, Antw Dutch, TR/RE French, RIF Italian, RV/ENC Spanish and Portuguese) and
+// counted forms like "Re[2]:"
+const SUBJECT_PREFIX_PATTERN = /^\s*(?:re|fwd?|aw|wg|sv|vs|antw|tr|rif|r[eé]f|rv|enc)\s*(?:\[\d+\]|\(\d+\))?\s*[:：]\s*/i;
+
+const MAX_SUBJECT_LENGTH = 255;
+
+export type EmailThreadHeaders = {
+  messageId?: string;
+  inReplyTo: string[];
+  references: string[];
+};
+
+export type EmailThreadMatch = {
+  conversationId: string;
+  reason: 'references' | 'subject';
+};
+
+export function parseMessageIds(value: unknown): string[] {
+  return typeof value === 'string' ? value.match(MESSAGE_ID_PATTERN) ?? [] : [];
+}
+
+/**
+ * The subject without any stack of reply and forward prefixes, as the sender wrote it
+ */
+export function stripSubjectPrefixes(subject: string): string {
+  let stripped = subject.trim();
+  let previous: string;
+  do {
+    previous = stripped;
+    stripped = stripped.replace(SUBJECT_PREFIX_PATTERN, '').trim();
+  } while (stripped !== previous);
+
+  return stripped;
+}
+
+/**
+ * Comparable form of a subject: prefixes stripped, whitespace collapsed, lowercased
+ */
+export function normalizeSubject(subject: string | undefined): string {
+  return stripSubjectPrefixes(subject ?? '')
+    .replace(/\s+/g, ' ')
+    .toLowerCase()
+    .slice(0, MAX_SUBJECT_LENGTH);
+}
+
+/**
+ * Reply headers from the lowercased header map normalizers keep in providerMeta.headers
+ */
+export function emailThreadHeaders(headers: Record<string, unknown> | undefined): EmailThreadHeaders {
+  const messageId = parseMessageIds(headers?.['message-id'])[0];
+  return {
+    ...(messageId && { messageId }),
+    inReplyTo: parseMessageIds(headers?.['in-reply-to']),
+    references: parseMessageIds(headers?.['references'])
+  };
+}
+
+/**
+ * The first message of the thread as far as this message knows: the head of References,
+ * else the message it answers, else itself
+ */
+export function emailThreadRoot(headers: EmailThreadHeaders): string | undefined {
+  return headers.references[0] ?? headers.inReplyTo[0] ?? headers.messageId;
+}
+
+const isReply = (headers: EmailThreadHeaders, subject: string | undefined): boolean =>
+  headers.inReplyTo.length > 0 ||
+  headers.references.length > 0 ||
+  (!!subject && stripSubjectPrefixes(subject) !== subject.trim());
+
+const threadInfo = (message: NormalizedMessage) => {
+  const subject = typeof message.providerMeta['subject'] === 'string' ? message.providerMeta['subject'] : undefined;
+  return {
+    subject,
+    headers: emailThreadHeaders(message.providerMeta['headers'] as Record<string, unknown> | undefined)
+  };
+};
+
+/**
+ * Finds the conversation an email belongs to from the Message-IDs it carries, whichever
+ * provider delivered the earlier messages, and records each email's IDs against the
+ * conversation it landed in.
+ */
+export class EmailThreadResolver {
+  /**
+   * Matches on any Message-ID the email answers or repeats. Replies whose thread we never
+   * saw fall back to the customer's recent conversation under the same subject; a new
+   * subject with no reply headers always starts its own conversation.
+   */
+  static async findConversation(
+    message: NormalizedMessage,
+    customerId: string,
+    maxAgeHours: number
+  ): Promise<EmailThreadMatch | null> {
+    const { subject, headers } = threadInfo(message);
+
+    // Nearest ancestors first; the email's own ID matches copies seen through another provider
+    const candidates = [...new Set([
+      ...headers.inReplyTo,
+      ...[...headers.references].reverse(),
+      ...(headers.messageId ? [headers.messageId] : [])
+    ])];
+
+    const byReference = await EmailMessageRefModel.findConversationId(customerId, candidates);
+    if (byReference) {
+      return { conversationId: byReference, reason: 'references' };
+    }
+
+    const normalizedSubject = normalizeSubject(subject);
+    if (!normalizedSubject || !isReply(headers, subject)) {
+      return null;
+    }
+
+    const since = new Date(Date.now() - maxAgeHours * 60 * 60 * 1000);
+    const bySubject = await EmailMessageRefModel.findConversationIdBySubject(customerId, normalizedSubject, since);
+    return bySubject ? { conversationId: bySubject, reason: 'subject' } : null;
+  }
+
+  /**
+   * Remember the email's own ID and the ancestors it names, so later replies to any of
+   * them find this conversation even when the thread's first message never reached us
+   */
+  static async record(message: NormalizedMessage, conversationId: string): Promise<void> {
+    const { subject, headers } = threadInfo(message);
+    await this.recordHeaders(conversationId, headers, subject);
+  }
+
+  static async recordHeaders(
+    conversationId: string,
+    headers: EmailThreadHeaders,
+    subject?: string
+  ): Promise<void> {
+    const normalizedSubject = normalizeSubject(subject);
+    await EmailMessageRefModel.record({
+      conversationId,
+      messageIds: [
+        ...(headers.messageId ? [headers.messageId] : []),
+        ...headers.inReplyTo,
+        ...headers.references
+      ],
+      ...(normalizedSubject && { normalizedSubject })
+    });
+  }
+}
@@ -224,7 +224,7 @@ export class IdentityResolver {
     return Math.min(score, 1.0);
   }
 
-  private static extractNameFromContact(contact: NormalizedContact): string | undefined {
+  static extractNameFromContact(contact: NormalizedContact): string | undefined {
     switch (contact.type) {
       case 'email':
         // Try to extract name from email local part
@@ -238,7 +238,10 @@ export class IdentityResolver {
         return localPart.charAt(0).toUpperCase() + localPart.slice(1);
         
       case 'social':
-        // Social handles might contain names
+        // Social handles might contain names; numeric page-scoped IDs (PSID/IGSID) don't
+        if (/^\d+$/.test(contact.rawValue)) {
+          return undefined;
+        }
         return contact.rawValue.replace('@', '').replace(/[_-]/g, ' ');
         
       case 'phone':
@@ -6,14 +6,27 @@ export * from './schemas.js';
 export * from './normalizers/index.js';
 export { BaseNormalizer } from './normalizers/base.js';
 export { TwilioSMSNormalizer } from './normalizers/twilio-sms.js';
+export { TwilioVoiceNormalizer } from './normalizers/twilio-voice.js';
 export { WhatsAppNormalizer } from './normalizers/whatsapp.js';
 export { GmailNormalizer } from './normalizers/gmail.js';
+export { MetaMessagingNormalizer } from './normalizers/meta-messaging.js';
+export { FacebookMessengerNormalizer } from './normalizers/facebook-messenger.js';
+export { InstagramNormalizer } from './normalizers/instagram.js';
+export { ImapNormalizer } from './normalizers/imap.js';
 
 // Core services
 export { IdentityResolver } from './identity-resolver.js';
 export { MessageDeduplicator, IdempotencyManager } from './deduplication.js';
 export { ConversationGrouper } from './threading.js';
 export { MessageIngestionPipeline } from './pipeline.js';
+export { DeliveryStatusTracker } from './delivery-status.js';
+export { CallTracker } from './calls.js';
+export { ReactionTracker } from './reactions.js';
+export { DeadLetterQueue, DeadLetterError } from './dead-letters.js';
+export { IngestionMetrics, StageTimer } from './metrics.js';
+export type { MetricsWindow, IngestionMetricsSummary } from './metrics.js';
+export { OwnedAddressMatcher, normalizeOwnedAddresses } from './ownership.js';
+export type { AddressOwnership } from './ownership.js';
 
 // Main pipeline function for easy usage
 import { MessageIngestionPipeline, PipelineOptions } from './pipeline.js';
@@ -135,4 +148,4 @@ export function createRawMessage(params: {
  */
 export const INGESTION_LIBRARY_VERSION = '1.0.0';
 export const SUPPORTED_CHANNELS = ['sms', 'email', 'voice', 'whatsapp', 'facebook', 'instagram'] as const;
-export const SUPPORTED_PROVIDERS = ['twilio_sms', 'whatsapp', 'gmail'] as const;
\ No newline at end of file
+export const SUPPORTED_PROVIDERS = ['twilio_sms', 'twilio_voice', 'whatsapp', 'gmail', 'facebook', 'instagram', 'imap'] as const;
\ No newline at end of file
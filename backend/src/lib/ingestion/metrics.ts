@@ -0,0 +1,375 @@
+import { redisManager } from '../redis.js';
+import { createLogger } from '../logger.js';
+import { IngestionResult } from './types.js';
+
+const logger = createLogger('ingestion-metrics');
+
+type ProcessingMetrics = IngestionResult['processingMetrics'];
+
+/**
+ * Times the stages of one message. Entering a stage closes the one before it; a
+ * stage entered twice adds up.
+ */
+export class StageTimer {
+  private current: { stage: string; startedAt: number } | undefined;
+
+  constructor(private metrics: ProcessingMetrics) {}
+
+  enter(stage: string): void {
+    this.close(Date.now());
+    this.metrics.stagesCompleted.push(stage);
+    this.current = { stage, startedAt: Date.now() };
+  }
+
+  /**
+   * Close the running stage and stamp the message's end time and total duration
+   */
+  finish(): void {
+    const endTime = new Date();
+    this.close(endTime.getTime());
+    this.metrics.endTime = endTime;
+    this.metrics.durationMs = endTime.getTime() - this.metrics.startTime.getTime();
+  }
+
+  private close(at: number): void {
+    if (!this.current) {
+      return;
+    }
+
+    const durations = this.metrics.stageDurations ?? (this.metrics.stageDurations = {});
+    durations[this.current.stage] = (durations[this.current.stage] ?? 0) + (at - this.current.startedAt);
+    this.current = undefined;
+  }
+}
+
+// Upper bounds (ms) of the latency histogram buckets; anything slower lands in `inf`
+const LATENCY_BOUNDS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000];
+
+type Resolution = {
+  key: string;
+  bucketMs: number;
+  ttlSeconds: number;
+};
+
+// Short windows read minute buckets, long ones hour buckets; each is kept a little past the longest window it serves
+const RESOLUTIONS = {
+  minute: { key: 'm', bucketMs: 60 * 1000, ttlSeconds: 7 * 60 * 60 },
+  hour: { key: 'h', bucketMs: 60 * 60 * 1000, ttlSeconds: 31 * 24 * 60 * 60 }
+} satisfies Record<string, Resolution>;
+
+export const METRICS_WINDOWS = {
+  '15m': { ms: 15 * 60 * 1000, resolution: RESOLUTIONS.minute },
+  '1h': { ms: 60 * 60 * 1000, resolution: RESOLUTIONS.minute },
+  '6h': { ms: 6 * 60 * 60 * 1000, resolution: RESOLUTIONS.minute },
+  '24h': { ms: 24 * 60 * 60 * 1000, resolution: RESOLUTIONS.hour },
+  '7d': { ms: 7 * 24 * 60 * 60 * 1000, resolution: RESOLUTIONS.hour },
+  '30d': { ms: 30 * 24 * 60 * 60 * 1000, resolution: RESOLUTIONS.hour }
+};
+
+export type MetricsWindow = keyof typeof METRICS_WINDOWS;
+
+const KEY_PREFIX = 'ingestion:metrics';
+// Never-expiring running totals, for scrapers that compute their own rates
+const TOTALS_KEY = `${KEY_PREFIX}:total`;
+
+export type LatencySummary = {
+  count: number;
+  avgMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  p99Ms: number;
+};
+
+export type StageSummary = LatencySummary & {
+  stage: string;
+  failed: number;
+};
+
+export type IngestionMetricsSummary = {
+  window: MetricsWindow;
+  from: Date;
+  to: Date;
+  totals: {
+    processed: number;
+    success: number;
+    duplicate: number;
+    failed: number;
+    successRate: number;
+  };
+  latency: LatencySummary;
+  stages: StageSummary[];
+  errors: Array<{ code: string; count: number }>;
+  providers: Array<{ providerId: string; processed: number; failed: number; perMinute: number }>;
+};
+
+export type LatencyHistogram = {
+  // Per-bucket counts by upper bound (ms), the last bound Infinity
+  buckets: Array<{ le: number; count: number }>;
+  sumMs: number;
+};
+
+export type IngestionTotals = {
+  statuses: Record<string, number>;
+  errors: Record<string, number>;
+  latency: LatencyHistogram;
+  stages: Record<string, LatencyHistogram & { failed: number }>;
+  dedup: {
+    // Messages that went through each check
+    checks: Record<string, number>;
+    hits: Array<{ check: string; type: string; count: number }>;
+  };
+};
+
+const latencyBucket = (ms: number): string =>
+  String(LATENCY_BOUNDS.find(bound => ms <= bound) ?? 'inf');
+
+/**
+ * Estimate a percentile from histogram counts, interpolating inside the bucket it falls in;
+ * the open-ended bucket reports its lower bound
+ */
+export function histogramPercentile(buckets: Record<string, number>, percentile: number): number {
+  const total = Object.values(buckets).reduce((sum, count) => sum + count, 0);
+  if (total === 0) {
+    return 0;
+  }
+
+  const rank = percentile * total;
+  let seen = 0;
+  let lower = 0;
+
+  for (const bound of LATENCY_BOUNDS) {
+    const count = buckets[String(bound)] ?? 0;
+    if (count > 0 && seen + count >= rank) {
+      return Math.round(lower + ((rank - seen) / count) * (bound - lower));
+    }
+    seen += count;
+    lower = bound;
+  }
+
+  return lower;
+}
+
+/**
+ * Counters of every ingested message, kept in Redis per time bucket and as running
+ * totals: outcome, error code, provider, duplicate hits, and per-stage counts,
+ * failures and latency histograms
+ */
+export class IngestionMetrics {
+  /**
+   * Count one processed message. Never throws: metrics must not fail ingestion.
+   */
+  static async record(providerId: string, result: IngestionResult, at: Date = new Date()): Promise<void> {
+    const { processingMetrics } = result;
+    const fields: Record<string, number> = {
+      count: 1,
+      [`status:${result.status}`]: 1,
+      [`provider:${providerId}:count`]: 1
+    };
+
+    if (result.status === 'failed') {
+      fields[`error:${result.error?.code ?? 'UNKNOWN_ERROR'}`] = 1;
+      fields[`provider:${providerId}:failed`] = 1;
+    }
+
+    if (result.status === 'duplicate') {
+      // The duplicate check names how it matched; an idempotency hit was simply processed before
+      const duplicateType = result.error?.details?.['duplicateType'];
+      fields[duplicateType ? `dedup:duplicate_check:${duplicateType}` : 'dedup:idempotency_check:processed'] = 1;
+    }
+
+    if (processingMetrics.durationMs !== undefined) {
+      this.addLatency(fields, 'pipeline', processingMetrics.durationMs);
+    }
+
+    const failedStages = new Set(processingMetrics.stagesFailed ?? []);
+    for (const [stage, durationMs] of Object.entries(processingMetrics.stageDurations ?? {})) {
+      fields[`stage:${stage}:count`] = 1;
+      if (failedStages.has(stage)) {
+        fields[`stage:${stage}:failed`] = 1;
+      }
+      this.addLatency(fields, `stage:${stage}`, durationMs);
+    }
+
+    try {
+      const pipeline = redisManager.getClient().pipeline();
+
+      for (const resolution of Object.values(RESOLUTIONS)) {
+        const key = this.bucketKey(resolution, at.getTime());
+        for (const [field, increment] of Object.entries(fields)) {
+          pipeline.hincrby(key, field, increment);
+        }
+        pipeline.expire(key, resolution.ttlSeconds);
+      }
+      for (const [field, increment] of Object.entries(fields)) {
+        pipeline.hincrby(TOTALS_KEY, field, increment);
+      }
+
+      await pipeline.exec();
+    } catch (error) {
+      logger.warn({ providerId, error: error instanceof Error ? error.message : error }, 'Failed to record ingestion metrics');
+    }
+  }
+
+  static async getSummary(window: MetricsWindow, now: Date = new Date()): Promise<IngestionMetricsSummary> {
+    const { ms, resolution } = METRICS_WINDOWS[window];
+    const newest = Math.floor(now.getTime() / resolution.bucketMs) * resolution.bucketMs;
+    const oldest = newest - Math.ceil(ms / resolution.bucketMs - 1) * resolution.bucketMs;
+
+    const pipeline = redisManager.getClient().pipeline();
+    for (let bucket = oldest; bucket <= newest; bucket += resolution.bucketMs) {
+      pipeline.hgetall(this.bucketKey(resolution, bucket));
+    }
+
+    // Sum the window's buckets field by field
+    const counters: Record<string, number> = {};
+    for (const [error, hash] of (await pipeline.exec()) ?? []) {
+      if (error) {
+        throw error;
+      }
+      for (const [field, value] of Object.entries(hash as Record<string, string>)) {
+        counters[field] = (counters[field] ?? 0) + Number(value);
+      }
+    }
+
+    return this.summarize(window, counters, new Date(oldest), now);
+  }
+
+  /**
+   * Everything recorded since the counters began
+   */
+  static async getTotals(): Promise<IngestionTotals> {
+    const hash = await redisManager.getClient().hgetall(TOTALS_KEY);
+    const counters: Record<string, number> = {};
+    for (const [field, value] of Object.entries(hash)) {
+      counters[field] = Number(value);
+    }
+
+    const totals: IngestionTotals = {
+      statuses: {},
+      errors: {},
+      latency: this.histogram(counters, 'pipeline'),
+      stages: {},
+      dedup: {
+        checks: {
+          idempotency_check: counters['stage:idempotency_check:count'] ?? 0,
+          duplicate_check: counters['stage:duplicate_check:count'] ?? 0
+        },
+        hits: []
+      }
+    };
+
+    for (const [field, count] of Object.entries(counters)) {
+      const [kind, name, type] = field.split(':');
+      if (!name) continue;
+
+      if (kind === 'status') totals.statuses[name] = count;
+      if (kind === 'error') totals.errors[name] = count;
+      if (kind === 'dedup' && type) totals.dedup.hits.push({ check: name, type, count });
+      if (kind === 'stage' && !totals.stages[name]) {
+        totals.stages[name] = {
+          ...this.histogram(counters, `stage:${name}`),
+          failed: counters[`stage:${name}:failed`] ?? 0
+        };
+      }
+    }
+
+    return totals;
+  }
+
+  private static summarize(
+    window: MetricsWindow,
+    counters: Record<string, number>,
+    from: Date,
+    to: Date
+  ): IngestionMetricsSummary {
+    const count = (field: string): number => counters[field] ?? 0;
+    const processed = count('count');
+    const success = count('status:success');
+    const duplicate = count('status:duplicate');
+    const failed = count('status:failed');
+    const minutes = Math.max((to.getTime() - from.getTime()) / 60000, 1);
+
+    const stages = new Set<string>();
+    const errors: IngestionMetricsSummary['errors'] = [];
+    const providers = new Set<string>();
+
+    for (const field of Object.keys(counters)) {
+      const [kind, name] = field.split(':');
+      if (kind === 'stage' && name) stages.add(name);
+      if (kind === 'provider' && name) providers.add(name);
+      if (kind === 'error' && name) errors.push({ code: name, count: count(field) });
+    }
+
+    return {
+      window,
+      from,
+      to,
+      totals: {
+        processed,
+        success,
+        duplicate,
+        failed,
+        // Duplicates were handled correctly, so they count as successes
+        successRate: processed > 0 ? (success + duplicate) / processed : 0
+      },
+      latency: this.latency(counters, 'pipeline'),
+      stages: [...stages].map(stage => ({
+        stage,
+        ...this.latency(counters, `stage:${stage}`),
+        failed: count(`stage:${stage}:failed`)
+      })),
+      errors: errors.sort((a, b) => b.count - a.count),
+      providers: [...providers]
+        .map(providerId => {
+          const providerProcessed = count(`provider:${providerId}:count`);
+          return {
+            providerId,
+            processed: providerProcessed,
+            failed: count(`provider:${providerId}:failed`),
+            perMinute: Math.round((providerProcessed / minutes) * 100) / 100
+          };
+        })
+        .sort((a, b) => b.processed - a.processed)
+    };
+  }
+
+  private static histogram(counters: Record<string, number>, series: string): LatencyHistogram {
+    return {
+      buckets: [...LATENCY_BOUNDS, Infinity].map(le => ({
+        le,
+        count: counters[`${series}:le:${le === Infinity ? 'inf' : le}`] ?? 0
+      })),
+      sumMs: counters[`${series}:sum_ms`] ?? 0
+    };
+  }
+
+  private static latency(counters: Record<string, number>, series: string): LatencySummary {
+    const histogram = this.histogram(counters, series);
+    const buckets: Record<string, number> = {};
+    for (const { le, count } of histogram.buckets) {
+      buckets[le === Infinity ? 'inf' : String(le)] = count;
+    }
+
+    const count = histogram.buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+
+    return {
+      count,
+      avgMs: count > 0 ? Math.round(histogram.sumMs / count) : 0,
+      p50Ms: histogramPercentile(buckets, 0.5),
+      p95Ms: histogramPercentile(buckets, 0.95),
+      p99Ms: histogramPercentile(buckets, 0.99)
+    };
+  }
+
+  private static addLatency(fields: Record<string, number>, series: string, durationMs: number): void {
+    const ms = Math.max(0, Math.round(durationMs));
+    fields[`${series}:le:${latencyBucket(ms)}`] = 1;
+    fields[`${series}:sum_ms`] = ms;
+  }
+
+  private static bucketKey(resolution: Resolution, at: number): string {
+    return `${KEY_PREFIX}:${resolution.key}:${Math.floor(at / resolution.bucketMs) * resolution.bucketMs}`;
+  }
+}
+
+export default IngestionMetrics;
@@ -5,10 +5,17 @@ import {
   NormalizedContact, 
   ChannelNormalizerConfig,
   IngestionError,
-  NormalizedAttachment
+  NormalizedAttachment,
+  DeliveryStatusUpdate,
+  MessageDirection,
+  CallEvent,
+  NormalizedParticipant,
+  ParticipantRole
 } from '../types.js';
+import { AddressOwnership, OwnedAddressMatcher } from '../ownership.js';
 import { validateNormalizedMessage } from '../schemas.js';
 import { IdentityModel } from '../../../models/identity.js';
+import { normalizePhoneE164 } from '../../phone.js';
 
 export abstract class BaseNormalizer {
   protected config: ChannelNormalizerConfig;
@@ -19,19 +26,53 @@ export abstract class BaseNormalizer {
 
   abstract normalize(rawMessage: RawProviderMessage): Promise<NormalizedMessage>;
 
-  protected abstract extractFromContact(payload: Record<string, any>): Promise<NormalizedContact>;
-  protected abstract extractToContact(payload: Record<string, any>): Promise<NormalizedContact>;
+  protected abstract extractFromContact(payload: Record<string, any>, defaultRegion?: string): Promise<NormalizedContact>;
+  protected abstract extractToContact(payload: Record<string, any>, defaultRegion?: string): Promise<NormalizedContact>;
   protected abstract extractBody(payload: Record<string, any>): string | undefined;
   protected abstract extractTimestamp(payload: Record<string, any>): Date;
   protected abstract extractAttachments(payload: Record<string, any>): Promise<NormalizedAttachment[]>;
   protected abstract generateThreadKey(rawMessage: RawProviderMessage): string;
 
+  /**
+   * Delivery status updates carried by the webhook (receipts for messages we sent).
+   * Providers without status callbacks return none.
+   */
+  extractStatusUpdates(_rawMessage: RawProviderMessage): DeliveryStatusUpdate[] {
+    return [];
+  }
+
+  /**
+   * True when the webhook only reports delivery statuses and has no message to ingest
+   */
+  isStatusOnly(_rawMessage: RawProviderMessage): boolean {
+    return false;
+  }
+
+  /**
+   * For providers that report one call over several callbacks, what this callback adds
+   * to the call. Messaging providers return null.
+   */
+  extractCallEvent(_rawMessage: RawProviderMessage): CallEvent | null {
+    return null;
+  }
+
+  /**
+   * Split a webhook that batches several messages or receipts into one raw message
+   * per item, each with its own provider message ID. Single-item providers pass through.
+   */
+  splitPayload(rawMessage: RawProviderMessage): RawProviderMessage[] {
+    return [rawMessage];
+  }
+
   protected async createNormalizedContact(
     rawValue: string, 
     type: 'phone' | 'email' | 'social',
-    provider?: string
+    provider?: string,
+    defaultRegion?: string
   ): Promise<NormalizedContact> {
-    const normalizedValue = await IdentityModel.normalizeValue(type, rawValue);
+    const normalizedValue = await IdentityModel.normalizeValue(type, rawValue, {
+      ...(defaultRegion && { defaultRegion })
+    });
     
     return {
       identifier: normalizedValue,
@@ -64,39 +105,68 @@ export abstract class BaseNormalizer {
       .digest('hex');
   }
 
+  /**
+   * Direction from the provider's owned addresses: a message from one of ours is outbound,
+   * one to ours is inbound. `fallback` applies when the provider declares no owned addresses,
+   * or when both or neither side is ours (the pipeline flags or rejects those).
+   * Each side can list extra identifiers, e.g. WhatsApp's phone_number_id.
+   */
   protected determineMessageDirection(
-    from: NormalizedContact, 
-    to: NormalizedContact, 
-    businessNumber?: string
-  ): 'inbound' | 'outbound' {
-    // If we have a business number configured, use it to determine direction
-    if (businessNumber) {
-      const normalizedBusinessNumber = businessNumber.replace(/\D/g, '');
-      const fromNormalized = from.normalizedValue.replace(/\D/g, '');
-      const toNormalized = to.normalizedValue.replace(/\D/g, '');
-      
-      if (fromNormalized.endsWith(normalizedBusinessNumber) || 
-          fromNormalized === normalizedBusinessNumber) {
-        return 'outbound';
-      }
-      if (toNormalized.endsWith(normalizedBusinessNumber) || 
-          toNormalized === normalizedBusinessNumber) {
-        return 'inbound';
-      }
+    rawMessage: RawProviderMessage,
+    from: Array<string | undefined>,
+    to: Array<string | undefined>,
+    fallback: MessageDirection = 'inbound'
+  ): { direction: MessageDirection; ownership: AddressOwnership } {
+    const matcher = new OwnedAddressMatcher(rawMessage.ownedAddresses || [], rawMessage.defaultRegion ?? null);
+    const ownership = matcher.ownership(from, to);
+
+    switch (ownership) {
+      case 'from':
+        return { direction: 'outbound', ownership };
+      case 'to':
+        return { direction: 'inbound', ownership };
+      default:
+        return { direction: fallback, ownership };
     }
+  }
 
-    // Default heuristics based on channel
-    switch (this.config.channelType) {
-      case 'sms':
-      case 'whatsapp':
-        // For SMS/WhatsApp, typically customer messages are inbound
-        return 'inbound';
-      case 'email':
-        // For email, we'll need more sophisticated logic in the specific normalizer
-        return 'inbound';
-      default:
-        return 'inbound';
+  /**
+   * Contacts for every address on an email by role, each address once per role. Without
+   * owned addresses we can't tell our mailboxes from customers, so only the message's
+   * customer contact counts as external.
+   */
+  protected async createEmailParticipants(
+    rawMessage: RawProviderMessage,
+    entries: Array<{ role: ParticipantRole; address: string; name?: string }>,
+    customerContact: NormalizedContact
+  ): Promise<NormalizedParticipant[]> {
+    const matcher = new OwnedAddressMatcher(rawMessage.ownedAddresses || []);
+    const participants: NormalizedParticipant[] = [];
+    const seen = new Set<string>();
+
+    for (const entry of entries) {
+      const contact = await this.createNormalizedContact(
+        this.sanitizeEmailAddress(entry.address),
+        'email',
+        this.config.providerType
+      );
+      const key = `${entry.role}:${contact.normalizedValue}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      participants.push({
+        role: entry.role,
+        contact,
+        ...(entry.name && { displayName: entry.name }),
+        external: matcher.configured
+          ? !matcher.owns([contact.normalizedValue])
+          : contact.normalizedValue === customerContact.normalizedValue
+      });
     }
+
+    return participants;
   }
 
   protected async validateAndReturn(normalized: NormalizedMessage): Promise<NormalizedMessage> {
@@ -167,25 +237,12 @@ export abstract class BaseNormalizer {
     return 'text';
   }
 
-  protected sanitizePhoneNumber(phoneNumber: string): string {
-    // Remove all non-numeric characters
-    const digits = phoneNumber.replace(/\D/g, '');
-    
-    // Add country code if missing (assumes US +1 for now)
-    if (digits.length === 10) {
-      return `+1${digits}`;
-    }
-    if (digits.length === 11 && digits.startsWith('1')) {
-      return `+${digits}`;
-    }
-    
-    // If it already starts with +, keep it as is
-    if (phoneNumber.startsWith('+')) {
-      return phoneNumber.replace(/\D/g, '').replace(/^(\d)/, '+$1');
-    }
-    
-    // Default case - add + prefix
-    return `+${digits}`;
+  /**
+   * E.164 form of a provider-supplied number; national numbers are read in `defaultRegion`
+   * (the provider's region, else the configured default)
+   */
+  protected sanitizePhoneNumber(phoneNumber: string, defaultRegion?: string | null): string {
+    return normalizePhoneE164(phoneNumber, defaultRegion);
   }
 
   protected sanitizeEmailAddress(email: string): string {
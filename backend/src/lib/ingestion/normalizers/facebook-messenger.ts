@@ -0,0 +1,11 @@
+import { MetaMessagingNormalizer } from './meta-messaging.js';
+
+export class FacebookMessengerNormalizer extends MetaMessagingNormalizer {
+  constructor() {
+    super('facebook');
+  }
+
+  protected get label(): string {
+    return 'Messenger';
+  }
+}
@@ -5,9 +5,13 @@ import {
   NormalizedContact, 
   GmailPayload,
   NormalizedAttachment,
+  NormalizedParticipant,
+  ParticipantRole,
   IngestionError
 } from '../types.js';
+import { OwnedAddressMatcher } from '../ownership.js';
 import { validateGmailPayload } from '../schemas.js';
+import { parseAddressList } from '../email-addresses.js';
 
 export class GmailNormalizer extends BaseNormalizer {
   constructor() {
@@ -49,12 +53,39 @@ export class GmailNormalizer extends BaseNormalizer {
         );
       }
 
+      const recipients = parseAddressList(toEmail).map(entry => this.sanitizeEmailAddress(entry.address));
+      const fromAddress = this.parseEmailAddress(parseAddressList(fromEmail)[0]?.address ?? fromEmail);
+
+      // Colleagues copied on mail we send don't make it internal mail: the customer is the
+      // first recipient that is not one of our own addresses
+      const matcher = new OwnedAddressMatcher(rawMessage.ownedAddresses || []);
+      const externalRecipients = matcher.owns([fromAddress])
+        ? recipients.filter(recipient => !matcher.owns([recipient]))
+        : [];
+
+      // Mail sent from the mailbox carries the SENT label; used when no owned addresses are configured
+      const { direction, ownership } = this.determineMessageDirection(
+        rawMessage,
+        [fromAddress],
+        externalRecipients.length > 0 ? externalRecipients : recipients,
+        payload.labelIds.includes('SENT') ? 'outbound' : 'inbound'
+      );
+      const customerRecipient = direction === 'outbound'
+        ? recipients.find(recipient => !matcher.owns([recipient]))
+        : undefined;
+
       // Extract contacts
       const [fromContact, toContact] = await Promise.all([
-        this.extractFromContact({ email: fromEmail }),
-        this.extractToContact({ email: toEmail })
+        this.extractFromContact({ email: fromAddress }),
+        this.extractToContact({ email: customerRecipient ?? recipients[0] ?? toEmail })
       ]);
 
+      const participants = await this.extractParticipants(
+        rawMessage,
+        headers,
+        direction === 'outbound' ? toContact : fromContact
+      );
+
       // Extract message content
       const body = this.extractBody(payload);
       const timestamp = this.extractTimestamp(payload);
@@ -73,9 +104,6 @@ export class GmailNormalizer extends BaseNormalizer {
         timestamp
       );
 
-      // Determine message direction
-      const direction = this.determineEmailDirection(fromContact, toContact);
-
       const normalized: NormalizedMessage = {
         providerMessageId: payload.id,
         providerId: rawMessage.providerId,
@@ -83,6 +111,7 @@ export class GmailNormalizer extends BaseNormalizer {
         direction,
         from: fromContact,
         to: toContact,
+        participants,
         timestamp,
         body,
         contentType,
@@ -98,7 +127,8 @@ export class GmailNormalizer extends BaseNormalizer {
           originalPayload: payload
         },
         attachments: attachments.length > 0 ? attachments : undefined,
-        messageHash
+        messageHash,
+        addressOwnership: ownership
       };
 
       return await this.validateAndReturn(normalized);
@@ -204,6 +234,29 @@ export class GmailNormalizer extends BaseNormalizer {
     return headers;
   }
 
+  /**
+   * Everyone on the message from its address headers; Bcc is only present on mail we sent
+   */
+  private async extractParticipants(
+    rawMessage: RawProviderMessage,
+    headers: Map<string, string>,
+    customerContact: NormalizedContact
+  ): Promise<NormalizedParticipant[]> {
+    const roles: Array<[ParticipantRole, string]> = [
+      ['from', 'from'],
+      ['to', 'to'],
+      ['cc', 'cc'],
+      ['bcc', 'bcc'],
+      ['reply_to', 'reply-to']
+    ];
+
+    return await this.createEmailParticipants(
+      rawMessage,
+      roles.flatMap(([role, header]) => parseAddressList(headers.get(header)).map(entry => ({ role, ...entry }))),
+      customerContact
+    );
+  }
+
   private parseEmailAddress(emailString: string): string {
     // Handle "Name <email@domain.com>" format
     const emailMatch = emailString.match(/<([^>]+)>/);
@@ -240,29 +293,4 @@ export class GmailNormalizer extends BaseNormalizer {
       .replace(/\s+/g, ' ')
       .trim();
   }
-
-  private determineEmailDirection(
-    from: NormalizedContact, 
-    to: NormalizedContact
-  ): 'inbound' | 'outbound' {
-    // This would typically check against configured business email addresses
-    // For now, we'll use a simple heuristic based on common business domains
-    const businessDomains = ['gmail.com', 'company.com']; // This would be configurable
-    
-    const fromDomain = from.normalizedValue.split('@')[1];
-    const toDomain = to.normalizedValue.split('@')[1];
-    
-    // If the "from" domain is in our business domains, it's outbound
-    if (businessDomains.includes(fromDomain)) {
-      return 'outbound';
-    }
-    
-    // If the "to" domain is in our business domains, it's inbound
-    if (businessDomains.includes(toDomain)) {
-      return 'inbound';
-    }
-    
-    // Default to inbound for customer emails
-    return 'inbound';
-  }
 }
\ No newline at end of file
@@ -0,0 +1,314 @@
+import { simpleParser, ParsedMail, AddressObject } from 'mailparser';
+import { BaseNormalizer } from './base.js';
+import {
+  RawProviderMessage,
+  NormalizedMessage,
+  NormalizedContact,
+  ImapMessagePayload,
+  NormalizedAttachment,
+  NormalizedParticipant,
+  ParticipantRole,
+  MessageContentType,
+  IngestionError
+} from '../types.js';
+import { OwnedAddressMatcher } from '../ownership.js';
+import { validateImapMessagePayload } from '../schemas.js';
+import { emailThreadHeaders, emailThreadRoot } from '../email-threading.js';
+
+type ParsedImapMessage = {
+  payload: ImapMessagePayload;
+  mail: ParsedMail;
+};
+
+/**
+ * Placeholder URL for an attachment that only exists inside the message source on the
+ * IMAP server; the media fetcher re-reads the message to extract it
+ */
+export function imapAttachmentUrl(payload: Pick<ImapMessagePayload, 'mailbox' | 'uidValidity' | 'uid'>, index: number): string {
+  return `imap://${encodeURIComponent(payload.mailbox)}/${payload.uidValidity}/${payload.uid}/${index}`;
+}
+
+/**
+ * Mail read over IMAP arrives as the raw RFC 5322 source. Threads follow the reply
+ * headers: a message joins the thread of the first message its References name,
+ * else the one it answers, else starts its own.
+ */
+export class ImapNormalizer extends BaseNormalizer {
+  constructor() {
+    super({
+      channelType: 'email',
+      providerType: 'imap',
+      identityExtractor: 'email',
+      threadingStrategy: 'email_thread',
+      duplicateWindow: 10, // 10 minutes
+      supportedContentTypes: [
+        'text/plain',
+        'text/html',
+        'image/jpeg',
+        'image/png',
+        'application/pdf',
+        'application/msword',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      ]
+    });
+  }
+
+  async normalize(rawMessage: RawProviderMessage): Promise<NormalizedMessage> {
+    try {
+      const payload = validateImapMessagePayload(rawMessage.payload) as ImapMessagePayload;
+      const mail = await simpleParser(Buffer.from(payload.raw, 'base64'));
+      const parsed: ParsedImapMessage = { payload, mail };
+
+      const fromAddress = this.addresses(mail.from)[0];
+      const recipients = this.recipients(mail);
+
+      if (!fromAddress || recipients.length === 0) {
+        throw new IngestionError(
+          'INVALID_PAYLOAD',
+          'Missing required From or recipient headers in IMAP message',
+          rawMessage.providerId,
+          rawMessage.providerMessageId
+        );
+      }
+
+      // As with Gmail: colleagues copied on mail we send don't make it internal mail
+      const matcher = new OwnedAddressMatcher(rawMessage.ownedAddresses || []);
+      const externalRecipients = matcher.owns([fromAddress])
+        ? recipients.filter(recipient => !matcher.owns([recipient]))
+        : [];
+
+      // Mail read from the sent mailbox is ours; used when no owned addresses are configured
+      const { direction, ownership } = this.determineMessageDirection(
+        rawMessage,
+        [fromAddress],
+        externalRecipients.length > 0 ? externalRecipients : recipients,
+        payload.sent ? 'outbound' : 'inbound'
+      );
+      const customerRecipient = direction === 'outbound'
+        ? recipients.find(recipient => !matcher.owns([recipient]))
+        : undefined;
+
+      const [fromContact, toContact] = await Promise.all([
+        this.extractFromContact({ email: fromAddress }),
+        this.extractToContact({ email: customerRecipient ?? recipients[0]! })
+      ]);
+
+      const participants = await this.extractParticipants(
+        rawMessage,
+        mail,
+        direction === 'outbound' ? toContact : fromContact
+      );
+
+      const body = this.extractBody(parsed);
+      const timestamp = this.extractTimestamp(parsed);
+      const attachments = await this.extractAttachments(parsed);
+      const contentType = this.resolveContentType(attachments);
+
+      const providerMessageId = mail.messageId || rawMessage.providerMessageId;
+      const threadKey = this.generateThreadKey(rawMessage);
+      const messageHash = this.generateMessageHash(
+        providerMessageId,
+        body,
+        fromContact.normalizedValue,
+        toContact.normalizedValue,
+        timestamp
+      );
+
+      const normalized: NormalizedMessage = {
+        providerMessageId,
+        providerId: rawMessage.providerId,
+        channel: 'email',
+        direction,
+        from: fromContact,
+        to: toContact,
+        participants,
+        timestamp,
+        ...(body !== undefined && { body }),
+        contentType,
+        threadKey,
+        providerMeta: {
+          subject: mail.subject,
+          mailbox: payload.mailbox,
+          uid: payload.uid,
+          uidValidity: payload.uidValidity,
+          ...(payload.flags && { flags: payload.flags }),
+          cc: this.addresses(mail.cc),
+          ...(mail.html && { hasHtml: true }),
+          // The source is not kept: it can be re-read from the server while the UID holds
+          headers: this.headerValues(mail)
+        },
+        ...(attachments.length > 0 && { attachments }),
+        messageHash,
+        addressOwnership: ownership
+      };
+
+      return await this.validateAndReturn(normalized);
+    } catch (error) {
+      if (error instanceof IngestionError) {
+        throw error;
+      }
+
+      throw new IngestionError(
+        'INVALID_PAYLOAD',
+        `Failed to normalize IMAP message: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        rawMessage.providerId,
+        rawMessage.providerMessageId,
+        { originalError: error }
+      );
+    }
+  }
+
+  protected async extractFromContact(payload: { email: string }): Promise<NormalizedContact> {
+    return await this.createNormalizedContact(this.sanitizeEmailAddress(payload.email), 'email', 'imap');
+  }
+
+  protected async extractToContact(payload: { email: string }): Promise<NormalizedContact> {
+    return await this.createNormalizedContact(this.sanitizeEmailAddress(payload.email), 'email', 'imap');
+  }
+
+  // mailparser derives the text from the HTML part when the message has no plain text part
+  protected extractBody({ mail }: ParsedImapMessage): string | undefined {
+    const text = mail.text?.trim();
+    return text ? text : undefined;
+  }
+
+  // The server's arrival time cannot be forged by the sender; the Date header can
+  protected extractTimestamp({ payload, mail }: ParsedImapMessage): Date {
+    if (payload.internalDate) {
+      return this.parseTimestamp(payload.internalDate);
+    }
+    return mail.date ?? new Date();
+  }
+
+  protected async extractAttachments({ payload, mail }: ParsedImapMessage): Promise<NormalizedAttachment[]> {
+    return mail.attachments.map((attachment, index) => ({
+      type: attachment.contentType,
+      mimeType: attachment.contentType,
+      ...(attachment.filename && { filename: attachment.filename }),
+      size: attachment.size,
+      url: imapAttachmentUrl(payload, index),
+      metadata: {
+        mailbox: payload.mailbox,
+        uid: payload.uid,
+        uidValidity: payload.uidValidity,
+        index,
+        // MD5 of the content, used to find the part again when the message is re-read
+        checksum: attachment.checksum,
+        ...(attachment.contentId && { contentId: attachment.contentId }),
+        inline: attachment.related || attachment.contentDisposition === 'inline'
+      }
+    }));
+  }
+
+  /**
+   * Keyed on the thread's first message ID, read straight from the header block so
+   * it needs no full parse of the message
+   */
+  protected generateThreadKey(rawMessage: RawProviderMessage): string {
+    const payload = rawMessage.payload as ImapMessagePayload;
+    const headers = this.readHeaderBlock(Buffer.from(payload.raw || '', 'base64'));
+    const root = emailThreadRoot(emailThreadHeaders(Object.fromEntries(headers)));
+
+    return root
+      ? `email:${root.slice(1, -1)}`
+      : `email:${rawMessage.providerId}:${rawMessage.providerMessageId}`;
+  }
+
+  /**
+   * To, then Cc, then the envelope recipient the server recorded (Bcc'd mail
+   * has no visible recipient of ours)
+   */
+  private recipients(mail: ParsedMail): string[] {
+    const to = this.addresses(mail.to);
+    if (to.length > 0) {
+      return to;
+    }
+    const cc = this.addresses(mail.cc);
+    if (cc.length > 0) {
+      return cc;
+    }
+
+    // mailparser parses Delivered-To as an address header; X-Original-To stays text
+    const envelopeTo = mail.headers.get('delivered-to') ?? mail.headers.get('x-original-to');
+    if (typeof envelopeTo === 'string') {
+      return envelopeTo.includes('@') ? [envelopeTo.trim()] : [];
+    }
+    return envelopeTo && typeof envelopeTo === 'object' && 'value' in envelopeTo
+      ? this.addresses(envelopeTo as AddressObject)
+      : [];
+  }
+
+  // Everyone on the message from its address headers; Bcc is only present on mail we sent
+  private async extractParticipants(
+    rawMessage: RawProviderMessage,
+    mail: ParsedMail,
+    customerContact: NormalizedContact
+  ): Promise<NormalizedParticipant[]> {
+    const roles: Array<[ParticipantRole, AddressObject | AddressObject[] | undefined]> = [
+      ['from', mail.from],
+      ['to', mail.to],
+      ['cc', mail.cc],
+      ['bcc', mail.bcc],
+      ['reply_to', mail.replyTo]
+    ];
+
+    return await this.createEmailParticipants(
+      rawMessage,
+      roles.flatMap(([role, header]) => this.mailboxes(header).map(mailbox => ({ role, ...mailbox }))),
+      customerContact
+    );
+  }
+
+  private addresses(header: AddressObject | AddressObject[] | undefined): string[] {
+    return this.mailboxes(header).map(mailbox => mailbox.address);
+  }
+
+  // Flattened mailboxes of an address header, including members of named groups
+  private mailboxes(header: AddressObject | AddressObject[] | undefined): Array<{ address: string; name?: string }> {
+    const objects = Array.isArray(header) ? header : header ? [header] : [];
+    return objects
+      .flatMap(object => object.value)
+      .flatMap(address => address.group ? address.group : [address])
+      .filter(address => !!address.address?.trim())
+      .map(address => ({
+        address: address.address!.trim(),
+        ...(address.name && { name: address.name })
+      }));
+  }
+
+  // Inline images in HTML mail don't make it a media message
+  private resolveContentType(attachments: NormalizedAttachment[]): MessageContentType {
+    const attached = attachments.find(attachment => !attachment.metadata?.['inline']);
+    return attached ? this.extractContentType(attached.mimeType, attached.filename) : 'text';
+  }
+
+  /**
+   * Header values by lowercased name as they appear in the message, the first
+   * occurrence of repeated headers
+   */
+  private headerValues(mail: ParsedMail): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const { key, line } of mail.headerLines) {
+      if (!(key in headers)) {
+        headers[key] = line.slice(line.indexOf(':') + 1).replace(/\r?\n[ \t]+/g, ' ').trim();
+      }
+    }
+    return headers;
+  }
+
+  private readHeaderBlock(source: Buffer): Map<string, string> {
+    const text = source.toString('utf8');
+    const end = text.search(/\r?\n\r?\n/);
+    const block = (end === -1 ? text : text.slice(0, end)).replace(/\r?\n[ \t]+/g, ' ');
+
+    const headers = new Map<string, string>();
+    for (const line of block.split(/\r?\n/)) {
+      const separator = line.indexOf(':');
+      const name = line.slice(0, separator).trim().toLowerCase();
+      if (separator > 0 && !headers.has(name)) {
+        headers.set(name, line.slice(separator + 1).trim());
+      }
+    }
+    return headers;
+  }
+}
@@ -1,18 +1,31 @@
 export { BaseNormalizer } from './base.js';
 export { TwilioSMSNormalizer } from './twilio-sms.js';
+export { TwilioVoiceNormalizer } from './twilio-voice.js';
 export { WhatsAppNormalizer } from './whatsapp.js';
 export { GmailNormalizer } from './gmail.js';
+export { MetaMessagingNormalizer } from './meta-messaging.js';
+export { FacebookMessengerNormalizer } from './facebook-messenger.js';
+export { InstagramNormalizer } from './instagram.js';
+export { ImapNormalizer } from './imap.js';
 
 import { BaseNormalizer } from './base.js';
 import { TwilioSMSNormalizer } from './twilio-sms.js';
+import { TwilioVoiceNormalizer } from './twilio-voice.js';
 import { WhatsAppNormalizer } from './whatsapp.js';
 import { GmailNormalizer } from './gmail.js';
+import { FacebookMessengerNormalizer } from './facebook-messenger.js';
+import { InstagramNormalizer } from './instagram.js';
+import { ImapNormalizer } from './imap.js';
 import { ChannelType, IngestionError } from '../types.js';
 
 export interface NormalizerRegistry {
   twilio_sms: TwilioSMSNormalizer;
+  twilio_voice: TwilioVoiceNormalizer;
   whatsapp: WhatsAppNormalizer;
   gmail: GmailNormalizer;
+  facebook: FacebookMessengerNormalizer;
+  instagram: InstagramNormalizer;
+  imap: ImapNormalizer;
 }
 
 export class NormalizerFactory {
@@ -21,8 +34,12 @@ export class NormalizerFactory {
   static initialize(): void {
     this.registry = {
       twilio_sms: new TwilioSMSNormalizer(),
+      twilio_voice: new TwilioVoiceNormalizer(),
       whatsapp: new WhatsAppNormalizer(),
-      gmail: new GmailNormalizer()
+      gmail: new GmailNormalizer(),
+      facebook: new FacebookMessengerNormalizer(),
+      instagram: new InstagramNormalizer(),
+      imap: new ImapNormalizer()
     };
   }
 
@@ -0,0 +1,11 @@
+import { MetaMessagingNormalizer } from './meta-messaging.js';
+
+export class InstagramNormalizer extends MetaMessagingNormalizer {
+  constructor() {
+    super('instagram');
+  }
+
+  protected get label(): string {
+    return 'Instagram';
+  }
+}
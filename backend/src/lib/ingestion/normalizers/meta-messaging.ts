@@ -0,0 +1,331 @@
+import { BaseNormalizer } from './base.js';
+import {
+  RawProviderMessage,
+  NormalizedMessage,
+  NormalizedContact,
+  MetaMessagingPayload,
+  MetaMessagingEvent,
+  MetaMessagingAttachment,
+  MessageContentType,
+  NormalizedAttachment,
+  IngestionError,
+  DeliveryStatusUpdate
+} from '../types.js';
+import { validateMetaMessagingPayload } from '../schemas.js';
+
+// Attachment kinds that carry media we can download; the rest are links or templates
+const MEDIA_ATTACHMENT_TYPES: Record<string, string> = {
+  image: 'image',
+  video: 'video',
+  audio: 'audio',
+  file: 'document',
+  ig_reel: 'video',
+  reel: 'video',
+  story_mention: 'story'
+};
+
+/**
+ * Messenger and Instagram Direct share one webhook format: entries per page or account,
+ * each with `messaging` events for messages, echoes, postbacks and receipts.
+ * Users are page- or account-scoped IDs (PSID / IGSID), stored as social identities.
+ */
+export abstract class MetaMessagingNormalizer extends BaseNormalizer {
+  constructor(private readonly channel: 'facebook' | 'instagram') {
+    super({
+      channelType: channel,
+      providerType: channel,
+      identityExtractor: 'social',
+      threadingStrategy: 'conversation_id',
+      duplicateWindow: 3, // 3 minutes
+      supportedContentTypes: ['text/plain', 'image/jpeg', 'image/png', 'image/gif', 'video/mp4', 'audio/mp4']
+    });
+  }
+
+  async normalize(rawMessage: RawProviderMessage): Promise<NormalizedMessage> {
+    try {
+      const payload = validateMetaMessagingPayload(rawMessage.payload);
+
+      // splitPayload leaves exactly one event in the first entry
+      const entry = payload.entry[0];
+      const event = entry?.messaging?.[0] as MetaMessagingEvent | undefined;
+      const providerMessageId = event && this.eventMessageId(event);
+
+      if (!entry || !event || !providerMessageId) {
+        throw new IngestionError(
+          'INVALID_PAYLOAD',
+          `No message or postback found in ${this.label} payload`,
+          rawMessage.providerId,
+          rawMessage.providerMessageId
+        );
+      }
+
+      // Echoes are the page's own messages (sent from the inbox or another app) and arrive reversed
+      const isEcho = event.message?.is_echo === true;
+
+      const [fromContact, toContact] = await Promise.all([
+        this.extractFromContact(event),
+        this.extractToContact(event)
+      ]);
+
+      const body = this.extractBody(event);
+      const timestamp = this.extractTimestamp(event);
+      const attachments = await this.extractAttachments(event);
+      const contentType = this.resolveContentType(event);
+
+      const threadKey = this.generateThreadKey(rawMessage);
+      const messageHash = this.generateMessageHash(
+        providerMessageId,
+        body,
+        fromContact.normalizedValue,
+        toContact.normalizedValue,
+        timestamp
+      );
+
+      const { direction, ownership } = this.determineMessageDirection(
+        rawMessage,
+        [fromContact.normalizedValue],
+        [toContact.normalizedValue],
+        isEcho ? 'outbound' : 'inbound'
+      );
+
+      const normalized: NormalizedMessage = {
+        providerMessageId,
+        providerId: rawMessage.providerId,
+        channel: this.channel,
+        direction,
+        from: fromContact,
+        to: toContact,
+        timestamp,
+        ...(body !== undefined && { body }),
+        contentType,
+        threadKey,
+        providerMeta: {
+          entryId: entry.id,
+          isEcho,
+          ...(event.message?.app_id && { appId: event.message.app_id }),
+          ...(event.message?.metadata && { metadata: event.message.metadata }),
+          ...this.extractStructuredContent(event),
+          originalPayload: event
+        },
+        ...(attachments.length > 0 && { attachments }),
+        messageHash,
+        addressOwnership: ownership,
+        ...(contentType === 'unsupported' && {
+          error: {
+            code: 'UNSUPPORTED_MESSAGE_TYPE',
+            message: `${this.label} did not deliver the message content (unsupported message type)`
+          }
+        })
+      };
+
+      return await this.validateAndReturn(normalized);
+    } catch (error) {
+      if (error instanceof IngestionError) {
+        throw error;
+      }
+
+      throw new IngestionError(
+        'INVALID_PAYLOAD',
+        `Failed to normalize ${this.label} message: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        rawMessage.providerId,
+        rawMessage.providerMessageId,
+        { originalError: error, payload: rawMessage.payload }
+      );
+    }
+  }
+
+  /**
+   * Deliveries, reads and other events without a message or postback
+   */
+  override isStatusOnly(rawMessage: RawProviderMessage): boolean {
+    const events = this.events(rawMessage);
+    return events.length > 0 && !events.some(event => this.eventMessageId(event));
+  }
+
+  /**
+   * One raw message per message or postback and per delivered or read message ID
+   */
+  override splitPayload(rawMessage: RawProviderMessage): RawProviderMessage[] {
+    const payload = rawMessage.payload as MetaMessagingPayload;
+    const items: RawProviderMessage[] = [];
+
+    for (const entry of payload.entry || []) {
+      for (const event of entry.messaging || []) {
+        const single = { ...payload, entry: [{ ...entry, messaging: [event] }] };
+        const messageId = this.eventMessageId(event);
+        const receiptIds = [
+          ...(event.delivery?.mids || []).map(mid => `${mid}:delivered`),
+          ...(event.read?.mid ? [`${event.read.mid}:read`] : [])
+        ];
+
+        for (const providerMessageId of messageId ? [messageId] : receiptIds) {
+          items.push({
+            ...rawMessage,
+            providerMessageId,
+            timestamp: this.parseTimestamp(event.timestamp),
+            payload: single
+          });
+        }
+      }
+    }
+
+    return items.length > 0 ? items : [rawMessage];
+  }
+
+  /**
+   * Delivery receipts list message IDs; Messenger reads only carry a watermark and
+   * cannot be matched to messages, Instagram reads name the message
+   */
+  override extractStatusUpdates(rawMessage: RawProviderMessage): DeliveryStatusUpdate[] {
+    return this.events(rawMessage).flatMap(event => {
+      const receipts: Array<{ mid: string; status: 'delivered' | 'read' }> = [
+        ...(event.delivery?.mids || []).map(mid => ({ mid, status: 'delivered' as const })),
+        ...(event.read?.mid ? [{ mid: event.read.mid, status: 'read' as const }] : [])
+      ];
+
+      return receipts.map(({ mid, status }) => ({
+        providerId: rawMessage.providerId,
+        providerMessageId: mid,
+        status,
+        providerStatus: status,
+        timestamp: this.parseTimestamp(event.timestamp),
+        recipient: event.sender.id
+      }));
+    });
+  }
+
+  protected abstract get label(): string;
+
+  protected async extractFromContact(event: MetaMessagingEvent): Promise<NormalizedContact> {
+    return await this.createNormalizedContact(event.sender.id, 'social', this.channel);
+  }
+
+  protected async extractToContact(event: MetaMessagingEvent): Promise<NormalizedContact> {
+    return await this.createNormalizedContact(event.recipient.id, 'social', this.channel);
+  }
+
+  protected extractBody(event: MetaMessagingEvent): string | undefined {
+    if (event.postback) {
+      return event.postback.title;
+    }
+    if (event.message?.text) {
+      return event.message.text;
+    }
+    if (event.message?.attachments?.some(attachment => attachment.type === 'story_mention')) {
+      return 'Mentioned you in their story';
+    }
+    return undefined;
+  }
+
+  protected extractTimestamp(event: MetaMessagingEvent): Date {
+    return this.parseTimestamp(event.timestamp);
+  }
+
+  protected async extractAttachments(event: MetaMessagingEvent): Promise<NormalizedAttachment[]> {
+    return (event.message?.attachments || [])
+      .filter(attachment => MEDIA_ATTACHMENT_TYPES[attachment.type] && attachment.payload?.url)
+      .map(attachment => ({
+        // Meta does not publish the media type; it is recorded when the media is fetched
+        type: attachment.payload?.sticker_id ? 'sticker' : MEDIA_ATTACHMENT_TYPES[attachment.type]!,
+        url: attachment.payload!.url!,
+        metadata: {
+          metaType: attachment.type,
+          ...(attachment.payload?.title && { title: attachment.payload.title }),
+          ...(attachment.payload?.sticker_id && { stickerId: attachment.payload.sticker_id }),
+          ...(attachment.payload?.reel_video_id && { reelVideoId: String(attachment.payload.reel_video_id) })
+        }
+      }));
+  }
+
+  protected generateThreadKey(rawMessage: RawProviderMessage): string {
+    const payload = rawMessage.payload as MetaMessagingPayload;
+    const entry = payload.entry?.[0];
+    const event = entry?.messaging?.[0];
+
+    if (!entry || !event) {
+      throw new IngestionError(
+        'INVALID_PAYLOAD',
+        'No messaging event found for thread key generation',
+        rawMessage.providerId,
+        rawMessage.providerMessageId
+      );
+    }
+
+    // One conversation per user and page/account, whichever way the message went
+    const fromBusiness = event.message?.is_echo || event.sender.id === entry.id;
+    const userId = fromBusiness ? event.recipient.id : event.sender.id;
+    return `${this.channel}:${entry.id}:${userId}`;
+  }
+
+  private events(rawMessage: RawProviderMessage): MetaMessagingEvent[] {
+    const entries = (rawMessage.payload as MetaMessagingPayload).entry || [];
+    return entries.flatMap(entry => entry.messaging || []);
+  }
+
+  // Postbacks from older webhooks have no mid; sender and time identify the tap
+  private eventMessageId(event: MetaMessagingEvent): string | undefined {
+    if (event.message) {
+      return event.message.mid;
+    }
+    if (event.postback) {
+      return event.postback.mid || `postback:${event.sender.id}:${event.timestamp}`;
+    }
+    return undefined;
+  }
+
+  private resolveContentType(event: MetaMessagingEvent): MessageContentType {
+    if (event.message?.is_unsupported) {
+      return 'unsupported';
+    }
+
+    const media = (event.message?.attachments || []).find(attachment => MEDIA_ATTACHMENT_TYPES[attachment.type]);
+    if (!media || media.type === 'story_mention') {
+      return 'text';
+    }
+    if (media.payload?.sticker_id) {
+      return 'sticker';
+    }
+    return MEDIA_ATTACHMENT_TYPES[media.type] as MessageContentType;
+  }
+
+  /**
+   * Postbacks, quick replies, replies to messages or stories, story mentions and shared links
+   */
+  private extractStructuredContent(event: MetaMessagingEvent): Record<string, any> {
+    const message = event.message;
+    const attachments = message?.attachments || [];
+    const storyMention = attachments.find(attachment => attachment.type === 'story_mention');
+    const links = attachments
+      .filter(attachment => !MEDIA_ATTACHMENT_TYPES[attachment.type] && attachment.payload?.url)
+      .map(attachment => this.describeLink(attachment));
+    const templates = attachments.filter(attachment => attachment.type === 'template');
+
+    return {
+      ...(event.postback && {
+        postback: {
+          title: event.postback.title,
+          ...(event.postback.payload && { payload: event.postback.payload }),
+          ...(event.postback.referral && { referral: event.postback.referral })
+        }
+      }),
+      ...(message?.quick_reply && {
+        reply: { type: 'quick_reply', id: message.quick_reply.payload, ...(message.text && { title: message.text }) }
+      }),
+      ...(message?.reply_to?.mid && { replyTo: { messageId: message.reply_to.mid } }),
+      ...(message?.reply_to?.story && {
+        storyReply: { storyId: message.reply_to.story.id, url: message.reply_to.story.url }
+      }),
+      ...(storyMention?.payload?.url && { storyMention: { url: storyMention.payload.url } }),
+      ...(links.length > 0 && { links }),
+      ...(templates.length > 0 && { templates: templates.map(template => template.payload) })
+    };
+  }
+
+  private describeLink(attachment: MetaMessagingAttachment): Record<string, any> {
+    return {
+      type: attachment.type,
+      url: attachment.payload!.url,
+      ...(attachment.payload?.title && { title: attachment.payload.title })
+    };
+  }
+}
@@ -5,9 +5,25 @@ import {
   NormalizedContact, 
   TwilioSMSPayload,
   NormalizedAttachment,
-  IngestionError
+  IngestionError,
+  DeliveryStatus,
+  DeliveryStatusUpdate
 } from '../types.js';
-import { validateTwilioPayload } from '../schemas.js';
+import { validateTwilioPayload, validateTwilioStatusCallback } from '../schemas.js';
+
+// Twilio MessageStatus values mapped onto our delivery lifecycle
+const TWILIO_DELIVERY_STATUS: Record<string, DeliveryStatus> = {
+  accepted: 'queued',
+  scheduled: 'queued',
+  queued: 'queued',
+  sending: 'queued',
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'read',
+  undelivered: 'failed',
+  failed: 'failed',
+  canceled: 'failed'
+};
 
 export class TwilioSMSNormalizer extends BaseNormalizer {
   constructor() {
@@ -22,14 +38,23 @@ export class TwilioSMSNormalizer extends BaseNormalizer {
   }
 
   async normalize(rawMessage: RawProviderMessage): Promise<NormalizedMessage> {
+    if (this.isStatusOnly(rawMessage)) {
+      throw new IngestionError(
+        'INVALID_PAYLOAD',
+        'Twilio status callback does not contain a message',
+        rawMessage.providerId,
+        rawMessage.payload['MessageSid']
+      );
+    }
+
     try {
       // Validate the Twilio SMS payload
       const payload = validateTwilioPayload(rawMessage.payload);
       
       // Extract contacts
       const [fromContact, toContact] = await Promise.all([
-        this.extractFromContact(payload),
-        this.extractToContact(payload)
+        this.extractFromContact(payload, rawMessage.defaultRegion),
+        this.extractToContact(payload, rawMessage.defaultRegion)
       ]);
 
       // Extract message content
@@ -52,8 +77,13 @@ export class TwilioSMSNormalizer extends BaseNormalizer {
         timestamp
       );
 
-      // Determine message direction
-      const direction = this.determineMessageDirection(fromContact, toContact);
+      // Our numbers decide direction; without any configured, trust Twilio's Direction ("outbound-api", ...)
+      const { direction, ownership } = this.determineMessageDirection(
+        rawMessage,
+        [fromContact.normalizedValue],
+        [toContact.normalizedValue],
+        payload.Direction?.startsWith('outbound') ? 'outbound' : 'inbound'
+      );
 
       const normalized: NormalizedMessage = {
         providerMessageId: payload.MessageSid,
@@ -75,7 +105,8 @@ export class TwilioSMSNormalizer extends BaseNormalizer {
           originalPayload: payload
         },
         attachments: attachments.length > 0 ? attachments : undefined,
-        messageHash
+        messageHash,
+        addressOwnership: ownership
       };
 
       return await this.validateAndReturn(normalized);
@@ -94,14 +125,71 @@ export class TwilioSMSNormalizer extends BaseNormalizer {
     }
   }
 
-  protected async extractFromContact(payload: TwilioSMSPayload): Promise<NormalizedContact> {
-    const phoneNumber = this.sanitizePhoneNumber(payload.From);
-    return await this.createNormalizedContact(phoneNumber, 'phone', 'twilio');
+  /**
+   * Status callbacks carry MessageStatus for a message we sent; inbound
+   * messages report "received" instead
+   */
+  override isStatusOnly(rawMessage: RawProviderMessage): boolean {
+    const status = rawMessage.payload['MessageStatus'] ?? rawMessage.payload['SmsStatus'];
+    return typeof status === 'string' && status in TWILIO_DELIVERY_STATUS;
   }
 
-  protected async extractToContact(payload: TwilioSMSPayload): Promise<NormalizedContact> {
-    const phoneNumber = this.sanitizePhoneNumber(payload.To);
-    return await this.createNormalizedContact(phoneNumber, 'phone', 'twilio');
+  override extractStatusUpdates(rawMessage: RawProviderMessage): DeliveryStatusUpdate[] {
+    if (!this.isStatusOnly(rawMessage)) {
+      return [];
+    }
+
+    const payload = validateTwilioStatusCallback({
+      ...rawMessage.payload,
+      MessageStatus: rawMessage.payload['MessageStatus'] ?? rawMessage.payload['SmsStatus']
+    });
+
+    return [{
+      providerId: rawMessage.providerId,
+      providerMessageId: payload.MessageSid,
+      status: TWILIO_DELIVERY_STATUS[payload.MessageStatus]!,
+      providerStatus: payload.MessageStatus,
+      timestamp: payload.RawDlrDoneDate ? this.parseDlrDate(payload.RawDlrDoneDate) : new Date(),
+      ...(payload.To && { recipient: this.sanitizePhoneNumber(payload.To, rawMessage.defaultRegion) }),
+      ...(payload.ErrorCode && { errorCode: payload.ErrorCode }),
+      ...(payload.ErrorMessage && { errorMessage: payload.ErrorMessage })
+    }];
+  }
+
+  /**
+   * Name the item after its MessageSid; status callbacks share it with the message and
+   * each other, so they add the status they report
+   */
+  override splitPayload(rawMessage: RawProviderMessage): RawProviderMessage[] {
+    const messageSid = rawMessage.payload['MessageSid'];
+    if (typeof messageSid !== 'string' || messageSid === '') {
+      return [rawMessage];
+    }
+
+    const providerMessageId = this.isStatusOnly(rawMessage)
+      ? `${messageSid}:status:${rawMessage.payload['MessageStatus'] ?? rawMessage.payload['SmsStatus']}`
+      : messageSid;
+    return [{ ...rawMessage, providerMessageId }];
+  }
+
+  // Carrier delivery receipts use YYMMDDhhmm in UTC
+  private parseDlrDate(value: string): Date {
+    const match = value.match(/^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/);
+    if (!match) {
+      return new Date();
+    }
+    const [, yy, mm, dd, hh, min] = match;
+    return new Date(Date.UTC(2000 + Number(yy), Number(mm) - 1, Number(dd), Number(hh), Number(min)));
+  }
+
+  protected async extractFromContact(payload: TwilioSMSPayload, defaultRegion?: string): Promise<NormalizedContact> {
+    const phoneNumber = this.sanitizePhoneNumber(payload.From, defaultRegion);
+    return await this.createNormalizedContact(phoneNumber, 'phone', 'twilio', defaultRegion);
+  }
+
+  protected async extractToContact(payload: TwilioSMSPayload, defaultRegion?: string): Promise<NormalizedContact> {
+    const phoneNumber = this.sanitizePhoneNumber(payload.To, defaultRegion);
+    return await this.createNormalizedContact(phoneNumber, 'phone', 'twilio', defaultRegion);
   }
 
   protected extractBody(payload: TwilioSMSPayload): string | undefined {
@@ -146,35 +234,10 @@ export class TwilioSMSNormalizer extends BaseNormalizer {
     
     // For SMS, create a thread key based on the phone numbers
     // Sort the numbers to ensure consistent thread keys regardless of direction
-    const fromNumber = this.sanitizePhoneNumber(payload.From);
-    const toNumber = this.sanitizePhoneNumber(payload.To);
+    const fromNumber = this.sanitizePhoneNumber(payload.From, rawMessage.defaultRegion);
+    const toNumber = this.sanitizePhoneNumber(payload.To, rawMessage.defaultRegion);
     const numbers = [fromNumber, toNumber].sort();
     
     return `sms:${numbers[0]}:${numbers[1]}`;
   }
-
-  protected determineMessageDirection(
-    from: NormalizedContact, 
-    to: NormalizedContact
-  ): 'inbound' | 'outbound' {
-    // For Twilio SMS, we need to determine which number is our business number
-    // This would typically be configured per provider instance
-    // For now, we'll use a simple heuristic: shorter numbers are typically business numbers
-    
-    const fromDigits = from.normalizedValue.replace(/\D/g, '');
-    const toDigits = to.normalizedValue.replace(/\D/g, '');
-    
-    // If "to" number is shorter, it's likely our business number (outbound)
-    if (toDigits.length < fromDigits.length) {
-      return 'outbound';
-    }
-    
-    // If "from" number is shorter, it's likely our business number (inbound)
-    if (fromDigits.length < toDigits.length) {
-      return 'inbound';
-    }
-    
-    // Default to inbound for customer messages
-    return 'inbound';
-  }
 }
\ No newline at end of file
@@ -0,0 +1,243 @@
+import { BaseNormalizer } from './base.js';
+import {
+  RawProviderMessage,
+  NormalizedMessage,
+  NormalizedContact,
+  TwilioVoicePayload,
+  NormalizedAttachment,
+  IngestionError,
+  CallEvent
+} from '../types.js';
+import { validateTwilioVoicePayload, TwilioVoicePayloadSchema } from '../schemas.js';
+
+/**
+ * Twilio reports a call through separate callbacks: status changes (initiated, ringing,
+ * in-progress, then completed/busy/no-answer/failed/canceled), the recording once it is
+ * ready, and the transcription of that recording. They all carry the CallSid, which is
+ * the message's provider ID, so the call and its voicemail form one timeline item.
+ */
+export class TwilioVoiceNormalizer extends BaseNormalizer {
+  constructor() {
+    super({
+      channelType: 'voice',
+      providerType: 'twilio_voice',
+      identityExtractor: 'phone',
+      threadingStrategy: 'phone_based',
+      duplicateWindow: 5, // 5 minutes
+      supportedContentTypes: ['audio/mpeg', 'audio/wav']
+    });
+  }
+
+  async normalize(rawMessage: RawProviderMessage): Promise<NormalizedMessage> {
+    try {
+      const payload = validateTwilioVoicePayload(rawMessage.payload) as TwilioVoicePayload;
+
+      if (!payload.From || !payload.To) {
+        // Recording callbacks omit the parties; they only make sense once the call is stored
+        throw new IngestionError(
+          'CALL_NOT_FOUND',
+          `Twilio ${this.callbackKind(payload)} callback for call ${payload.CallSid} arrived before the call was ingested`,
+          rawMessage.providerId,
+          rawMessage.providerMessageId,
+          { callSid: payload.CallSid }
+        );
+      }
+
+      const [fromContact, toContact] = await Promise.all([
+        this.extractFromContact(payload, rawMessage.defaultRegion),
+        this.extractToContact(payload, rawMessage.defaultRegion)
+      ]);
+
+      const body = this.extractBody(payload);
+      const timestamp = payload.Timestamp ? this.extractTimestamp(payload) : this.parseTimestamp(rawMessage.timestamp);
+      const attachments = await this.extractAttachments(payload);
+      const event = this.toCallEvent(payload, timestamp);
+
+      const threadKey = this.generateThreadKey(rawMessage);
+      const messageHash = this.generateMessageHash(
+        payload.CallSid,
+        body,
+        fromContact.normalizedValue,
+        toContact.normalizedValue,
+        timestamp
+      );
+
+      // Our numbers decide direction; without any configured, trust Twilio's Direction ("outbound-dial", ...)
+      const { direction, ownership } = this.determineMessageDirection(
+        rawMessage,
+        [fromContact.normalizedValue],
+        [toContact.normalizedValue],
+        payload.Direction?.startsWith('outbound') ? 'outbound' : 'inbound'
+      );
+
+      const normalized: NormalizedMessage = {
+        providerMessageId: payload.CallSid,
+        providerId: rawMessage.providerId,
+        channel: 'voice',
+        direction,
+        from: fromContact,
+        to: toContact,
+        timestamp,
+        ...(body !== undefined && { body }),
+        contentType: attachments.length > 0 ? 'audio' : 'text',
+        threadKey,
+        providerMeta: {
+          accountSid: payload.AccountSid,
+          call: {
+            ...(event.status && { status: event.status }),
+            ...(payload.Direction && { direction: payload.Direction }),
+            ...(event.durationSeconds !== undefined && { durationSeconds: event.durationSeconds }),
+            ...(payload.AnsweredBy && { answeredBy: payload.AnsweredBy }),
+            ...(payload.ParentCallSid && { parentCallSid: payload.ParentCallSid }),
+            ...(payload.CallerName && { callerName: payload.CallerName }),
+            events: event.status ? [{ status: event.status, occurredAt: timestamp.toISOString() }] : [],
+            recordings: event.recording ? [event.recording.metadata?.['recordingSid']] : [],
+            ...(event.transcription && { transcription: { sid: event.transcription.sid, status: event.transcription.status } })
+          },
+          originalPayload: payload
+        },
+        ...(attachments.length > 0 && { attachments }),
+        messageHash,
+        addressOwnership: ownership
+      };
+
+      return await this.validateAndReturn(normalized);
+    } catch (error) {
+      if (error instanceof IngestionError) {
+        throw error;
+      }
+
+      throw new IngestionError(
+        'INVALID_PAYLOAD',
+        `Failed to normalize Twilio voice callback: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        rawMessage.providerId,
+        rawMessage.providerMessageId,
+        { originalError: error, payload: rawMessage.payload }
+      );
+    }
+  }
+
+  /**
+   * Null for payloads that are not voice callbacks; normalize reports what is wrong with them
+   */
+  override extractCallEvent(rawMessage: RawProviderMessage): CallEvent | null {
+    const parsed = TwilioVoicePayloadSchema.safeParse(rawMessage.payload);
+    if (!parsed.success) {
+      return null;
+    }
+
+    const payload = parsed.data as TwilioVoicePayload;
+    const timestamp = payload.Timestamp ? this.extractTimestamp(payload) : this.parseTimestamp(rawMessage.timestamp);
+    return this.toCallEvent(payload, timestamp);
+  }
+
+  /**
+   * Every callback shares the CallSid; give each its own ID so a redelivered callback is
+   * recognised without swallowing the call's next one
+   */
+  override splitPayload(rawMessage: RawProviderMessage): RawProviderMessage[] {
+    const payload = rawMessage.payload as TwilioVoicePayload;
+    if (!payload.CallSid) {
+      return [rawMessage];
+    }
+
+    const detail = payload.TranscriptionSid || payload.RecordingSid || payload.CallStatus || 'callback';
+    return [{ ...rawMessage, providerMessageId: `${payload.CallSid}:${this.callbackKind(payload)}:${detail}` }];
+  }
+
+  protected async extractFromContact(payload: TwilioVoicePayload, defaultRegion?: string): Promise<NormalizedContact> {
+    const phoneNumber = this.sanitizePhoneNumber(payload.From!, defaultRegion);
+    return await this.createNormalizedContact(phoneNumber, 'phone', 'twilio', defaultRegion);
+  }
+
+  protected async extractToContact(payload: TwilioVoicePayload, defaultRegion?: string): Promise<NormalizedContact> {
+    const phoneNumber = this.sanitizePhoneNumber(payload.To!, defaultRegion);
+    return await this.createNormalizedContact(phoneNumber, 'phone', 'twilio', defaultRegion);
+  }
+
+  // Transcriptions are the only text a call has
+  protected extractBody(payload: TwilioVoicePayload): string | undefined {
+    return payload.TranscriptionStatus === 'completed' && payload.TranscriptionText?.trim()
+      ? payload.TranscriptionText.trim()
+      : undefined;
+  }
+
+  protected extractTimestamp(payload: TwilioVoicePayload): Date {
+    return payload.Timestamp ? this.parseTimestamp(payload.Timestamp) : new Date();
+  }
+
+  protected async extractAttachments(payload: TwilioVoicePayload): Promise<NormalizedAttachment[]> {
+    const recording = this.extractRecording(payload);
+    return recording ? [recording] : [];
+  }
+
+  protected generateThreadKey(rawMessage: RawProviderMessage): string {
+    const payload = rawMessage.payload as TwilioVoicePayload;
+
+    // Calls between the same two numbers share a thread whichever side dialled
+    const numbers = [payload.From, payload.To]
+      .map(number => this.sanitizePhoneNumber(number || '', rawMessage.defaultRegion))
+      .sort();
+
+    return `voice:${numbers[0]}:${numbers[1]}`;
+  }
+
+  private toCallEvent(payload: TwilioVoicePayload, timestamp: Date): CallEvent {
+    const recording = this.extractRecording(payload);
+    const duration = payload.CallDuration ? parseInt(payload.CallDuration, 10) : NaN;
+    const kind = this.callbackKind(payload);
+
+    return {
+      callSid: payload.CallSid,
+      kind,
+      timestamp,
+      // Recording and transcription callbacks echo the call's status at the time; only status callbacks move it
+      ...(kind === 'status' && payload.CallStatus && { status: payload.CallStatus }),
+      ...(!isNaN(duration) && { durationSeconds: duration }),
+      ...(recording && { recording }),
+      ...(payload.TranscriptionSid && {
+        transcription: {
+          sid: payload.TranscriptionSid,
+          status: payload.TranscriptionStatus || 'completed',
+          ...(this.extractBody(payload) && { text: this.extractBody(payload)! })
+        }
+      })
+    };
+  }
+
+  /**
+   * The recording as an audio attachment, once Twilio has finished it. Twilio serves
+   * the media at the recording URL with an extension for the format.
+   */
+  private extractRecording(payload: TwilioVoicePayload): NormalizedAttachment | null {
+    if (!payload.RecordingSid || !payload.RecordingUrl) {
+      return null;
+    }
+    if (payload.RecordingStatus && payload.RecordingStatus !== 'completed') {
+      return null;
+    }
+
+    const duration = payload.RecordingDuration ? parseInt(payload.RecordingDuration, 10) : NaN;
+
+    return {
+      type: 'audio/mpeg',
+      mimeType: 'audio/mpeg',
+      filename: `${payload.RecordingSid}.mp3`,
+      url: `${payload.RecordingUrl}.mp3`,
+      metadata: {
+        recordingSid: payload.RecordingSid,
+        twilioMediaUrl: payload.RecordingUrl,
+        ...(!isNaN(duration) && { durationSeconds: duration }),
+        ...(payload.RecordingChannels && { channels: parseInt(payload.RecordingChannels, 10) }),
+        ...(payload.RecordingSource && { source: payload.RecordingSource })
+      }
+    };
+  }
+
+  private callbackKind(payload: TwilioVoicePayload): CallEvent['kind'] {
+    if (payload.TranscriptionSid) {
+      return 'transcription';
+    }
+    return payload.RecordingSid ? 'recording' : 'status';
+  }
+}
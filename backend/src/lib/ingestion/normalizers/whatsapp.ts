@@ -4,10 +4,14 @@ import {
   NormalizedMessage, 
   NormalizedContact, 
   WhatsAppPayload,
+  WhatsAppMessage,
+  WhatsAppContactCard,
+  MessageContentType,
   NormalizedAttachment,
-  IngestionError
+  IngestionError,
+  DeliveryStatusUpdate
 } from '../types.js';
-import { validateWhatsAppPayload } from '../schemas.js';
+import { validateWhatsAppPayload, WhatsAppStatusSchema } from '../schemas.js';
 
 export class WhatsAppNormalizer extends BaseNormalizer {
   constructor() {
@@ -24,7 +28,8 @@ export class WhatsAppNormalizer extends BaseNormalizer {
         'audio/ogg', 
         'audio/mp4', 
         'video/mp4', 
-        'application/pdf'
+        'application/pdf',
+        'image/webp'
       ]
     });
   }
@@ -34,13 +39,12 @@ export class WhatsAppNormalizer extends BaseNormalizer {
       // Validate the WhatsApp payload
       const payload = validateWhatsAppPayload(rawMessage.payload);
       
-      // WhatsApp webhook can contain multiple entries and changes
-      // We'll process the first message in the first entry
+      // splitPayload leaves exactly one message in the first entry and change
       const entry = payload.entry[0];
-      const change = entry.changes[0];
-      const messages = change.value.messages;
-      
-      if (!messages || messages.length === 0) {
+      const change = entry?.changes[0];
+      const message = change?.value.messages?.[0];
+
+      if (!entry || !change || !message) {
         throw new IngestionError(
           'INVALID_PAYLOAD',
           'No messages found in WhatsApp payload',
@@ -49,7 +53,6 @@ export class WhatsAppNormalizer extends BaseNormalizer {
         );
       }
 
-      const message = messages[0];
       const businessPhoneNumberId = change.value.metadata.phone_number_id;
       const businessDisplayNumber = change.value.metadata.display_phone_number;
 
@@ -66,6 +69,7 @@ export class WhatsAppNormalizer extends BaseNormalizer {
       
       // Determine content type based on WhatsApp message type
       const contentType = this.mapWhatsAppTypeToContentType(message.type);
+      const error = contentType === 'unsupported' ? this.unsupportedError(message as WhatsAppMessage) : undefined;
 
       // Generate thread key and message hash
       const threadKey = this.generateThreadKey(rawMessage);
@@ -77,11 +81,18 @@ export class WhatsAppNormalizer extends BaseNormalizer {
         timestamp
       );
 
+      // Webhook messages come from customers; checking still catches a number that is not ours
+      const { direction, ownership } = this.determineMessageDirection(
+        rawMessage,
+        [fromContact.normalizedValue],
+        [toContact.normalizedValue, businessPhoneNumberId]
+      );
+
       const normalized: NormalizedMessage = {
         providerMessageId: message.id,
         providerId: rawMessage.providerId,
         channel: 'whatsapp',
-        direction: 'inbound', // WhatsApp business messages from customers are always inbound
+        direction,
         from: fromContact,
         to: toContact,
         timestamp,
@@ -94,10 +105,14 @@ export class WhatsAppNormalizer extends BaseNormalizer {
           businessDisplayNumber,
           context: message.context,
           entryId: entry.id,
+          ...this.extractStructuredContent(message as WhatsAppMessage),
+          ...(message.errors && { whatsappErrors: message.errors }),
           originalPayload: message
         },
         attachments: attachments.length > 0 ? attachments : undefined,
-        messageHash
+        messageHash,
+        addressOwnership: ownership,
+        ...(error && { error })
       };
 
       return await this.validateAndReturn(normalized);
@@ -116,6 +131,88 @@ export class WhatsAppNormalizer extends BaseNormalizer {
     }
   }
 
+  override isStatusOnly(rawMessage: RawProviderMessage): boolean {
+    const entries = (rawMessage.payload as WhatsAppPayload).entry || [];
+    const changes = entries.flatMap(entry => entry.changes || []);
+    return changes.some(change => (change.value?.statuses?.length ?? 0) > 0)
+      && !changes.some(change => (change.value?.messages?.length ?? 0) > 0);
+  }
+
+  /**
+   * One raw message per inbound message and per status across all entries and changes.
+   * Each keeps the envelope (entry ID, business number metadata) with only its own item.
+   */
+  override splitPayload(rawMessage: RawProviderMessage): RawProviderMessage[] {
+    const payload = rawMessage.payload as WhatsAppPayload;
+    const items: RawProviderMessage[] = [];
+
+    for (const entry of payload.entry || []) {
+      for (const change of entry.changes || []) {
+        const { messages = [], statuses = [], ...value } = change.value;
+        const single = (item: Partial<typeof change.value>) => ({
+          ...payload,
+          entry: [{ ...entry, changes: [{ ...change, value: { ...value, ...item } }] }]
+        });
+
+        for (const message of messages) {
+          items.push({
+            ...rawMessage,
+            providerMessageId: message.id,
+            timestamp: this.parseTimestamp(message.timestamp),
+            payload: single({ messages: [message] })
+          });
+        }
+
+        // A message goes through sent, delivered and read under the same ID
+        for (const status of statuses) {
+          items.push({
+            ...rawMessage,
+            providerMessageId: `${status.id}:${status.status}`,
+            timestamp: this.parseTimestamp(status.timestamp),
+            payload: single({ statuses: [status] })
+          });
+        }
+      }
+    }
+
+    return items.length > 0 ? items : [rawMessage];
+  }
+
+  /**
+   * Every statuses[] entry across the webhook's entries and changes
+   */
+  override extractStatusUpdates(rawMessage: RawProviderMessage): DeliveryStatusUpdate[] {
+    const entries = (rawMessage.payload as WhatsAppPayload).entry || [];
+
+    return entries
+      .flatMap(entry => entry.changes || [])
+      .flatMap(change => change.value?.statuses || [])
+      .map(rawStatus => {
+        const status = WhatsAppStatusSchema.parse(rawStatus);
+        const error = status.errors?.[0];
+
+        return {
+          providerId: rawMessage.providerId,
+          providerMessageId: status.id,
+          status: status.status,
+          providerStatus: status.status,
+          timestamp: this.parseTimestamp(status.timestamp),
+          recipient: this.sanitizePhoneNumber(status.recipient_id),
+          ...(error && {
+            errorCode: String(error.code),
+            errorMessage: error.error_data?.details || error.message || error.title
+          })
+        };
+      });
+  }
+
+  /**
+   * WhatsApp IDs and display numbers always carry the country code, without a "+"
+   */
+  protected override sanitizePhoneNumber(phoneNumber: string): string {
+    return super.sanitizePhoneNumber(phoneNumber, null);
+  }
+
   protected async extractFromContact(payload: any): Promise<NormalizedContact> {
     const phoneNumber = this.sanitizePhoneNumber(payload.from);
     return await this.createNormalizedContact(phoneNumber, 'phone', 'whatsapp');
@@ -137,9 +234,21 @@ export class WhatsAppNormalizer extends BaseNormalizer {
         return payload[payload.type]?.caption;
       case 'location':
         const location = payload.location;
-        return location ? 
-          `Location: ${location.latitude}, ${location.longitude}${location.name ? ` (${location.name})` : ''}` : 
-          undefined;
+        if (!location) {
+          return undefined;
+        }
+        const place = [location.name, location.address].filter(Boolean).join(', ');
+        return `Location: ${location.latitude}, ${location.longitude}${place ? ` (${place})` : ''}`;
+      case 'contacts':
+        return (payload.contacts as WhatsAppContactCard[] | undefined)
+          ?.map(card => this.describeContactCard(card))
+          .join('\n') || undefined;
+      case 'reaction':
+        return payload.reaction?.emoji ? `Reacted ${payload.reaction.emoji}` : 'Removed a reaction';
+      case 'interactive':
+        return payload.interactive?.button_reply?.title ?? payload.interactive?.list_reply?.title;
+      case 'button':
+        return payload.button?.text;
       default:
         return undefined;
     }
@@ -212,6 +321,21 @@ export class WhatsAppNormalizer extends BaseNormalizer {
           });
         }
         break;
+
+      case 'sticker':
+        if (payload.sticker) {
+          attachments.push({
+            type: payload.sticker.mime_type,
+            mimeType: payload.sticker.mime_type,
+            url: `whatsapp://media/${payload.sticker.id}`,
+            metadata: {
+              whatsappId: payload.sticker.id,
+              sha256: payload.sticker.sha256,
+              animated: payload.sticker.animated ?? false
+            }
+          });
+        }
+        break;
     }
     
     return attachments;
@@ -219,11 +343,10 @@ export class WhatsAppNormalizer extends BaseNormalizer {
 
   protected generateThreadKey(rawMessage: RawProviderMessage): string {
     const payload = rawMessage.payload as WhatsAppPayload;
-    const entry = payload.entry[0];
-    const change = entry.changes[0];
-    const message = change.value.messages?.[0];
+    const change = payload.entry[0]?.changes[0];
+    const message = change?.value.messages?.[0];
     
-    if (!message) {
+    if (!change || !message) {
       throw new IngestionError(
         'INVALID_PAYLOAD',
         'No message found for thread key generation',
@@ -245,11 +368,106 @@ export class WhatsAppNormalizer extends BaseNormalizer {
     return `whatsapp:${businessNumber}:${customerNumber}`;
   }
 
-  private mapWhatsAppTypeToContentType(
-    whatsappType: string
-  ): 'text' | 'image' | 'audio' | 'video' | 'document' | 'location' {
+  /**
+   * Machine-readable form of locations, contact cards, reactions and button/list replies
+   */
+  private extractStructuredContent(message: WhatsAppMessage): Record<string, any> {
+    switch (message.type) {
+      case 'location':
+        return message.location ? {
+          location: {
+            latitude: message.location.latitude,
+            longitude: message.location.longitude,
+            ...(message.location.name && { name: message.location.name }),
+            ...(message.location.address && { address: message.location.address }),
+            ...(message.location.url && { url: message.location.url })
+          }
+        } : {};
+      case 'contacts':
+        return { contacts: (message.contacts || []).map(card => this.structureContactCard(card)) };
+      case 'reaction': {
+        // Reactions name their target in reaction.message_id; older payloads only carry context.id
+        const messageId = message.reaction?.message_id || message.context?.id;
+        return {
+          reaction: {
+            ...(messageId && { messageId }),
+            emoji: message.reaction?.emoji || null
+          }
+        };
+      }
+      case 'interactive': {
+        const reply = message.interactive?.button_reply ?? message.interactive?.list_reply;
+        const description = message.interactive?.list_reply?.description;
+        return reply ? {
+          reply: {
+            type: message.interactive?.type === 'list_reply' ? 'list' : 'button',
+            id: reply.id,
+            title: reply.title,
+            ...(description && { description })
+          }
+        } : {};
+      }
+      case 'button':
+        return message.button ? {
+          reply: {
+            type: 'quick_reply',
+            title: message.button.text,
+            ...(message.button.payload && { id: message.button.payload })
+          }
+        } : {};
+      default:
+        return {};
+    }
+  }
+
+  private structureContactCard(card: WhatsAppContactCard): Record<string, any> {
+    return {
+      name: card.name.formatted_name,
+      ...(card.name.first_name && { firstName: card.name.first_name }),
+      ...(card.name.last_name && { lastName: card.name.last_name }),
+      phones: (card.phones || [])
+        .filter(phone => phone.wa_id || phone.phone)
+        .map(phone => ({
+          // wa_id is the verified WhatsApp number; the display form is whatever the sender saved
+          number: this.sanitizePhoneNumber(phone.wa_id || phone.phone!),
+          ...(phone.phone && { display: phone.phone }),
+          ...(phone.type && { type: phone.type }),
+          onWhatsApp: !!phone.wa_id
+        })),
+      emails: (card.emails || []).map(email => ({
+        address: this.sanitizeEmailAddress(email.email),
+        ...(email.type && { type: email.type })
+      })),
+      ...(card.org && { organization: card.org }),
+      ...(card.addresses && { addresses: card.addresses }),
+      ...(card.urls && { urls: card.urls.map(url => url.url) }),
+      ...(card.birthday && { birthday: card.birthday })
+    };
+  }
+
+  private describeContactCard(card: WhatsAppContactCard): string {
+    const details = [
+      ...(card.phones || []).map(phone => phone.phone || phone.wa_id),
+      ...(card.emails || []).map(email => email.email)
+    ].filter(Boolean);
+    return `Contact: ${card.name.formatted_name}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+  }
+
+  private unsupportedError(message: WhatsAppMessage): { code: string; message: string } {
+    const error = message.errors?.[0];
+    return {
+      code: 'UNSUPPORTED_MESSAGE_TYPE',
+      message: error
+        ? `WhatsApp could not deliver the message content: ${error.error_data?.details || error.message || error.title}`
+        : `WhatsApp message type '${message.type}' is not supported`
+    };
+  }
+
+  private mapWhatsAppTypeToContentType(whatsappType: string): MessageContentType {
     switch (whatsappType) {
       case 'text':
+      case 'interactive':
+      case 'button':
         return 'text';
       case 'image':
         return 'image';
@@ -261,8 +479,15 @@ export class WhatsAppNormalizer extends BaseNormalizer {
         return 'document';
       case 'location':
         return 'location';
+      case 'sticker':
+        return 'sticker';
+      case 'contacts':
+        return 'contacts';
+      case 'reaction':
+        return 'reaction';
       default:
-        return 'text';
+        // Includes Meta's own 'unsupported' type
+        return 'unsupported';
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,73 @@
+import { normalizePhoneE164 } from '../phone.js';
+
+/**
+ * Which side of a message belongs to us, judged against the provider's owned addresses.
+ * 'unconfigured' means the provider declares none and the normalizer's own rule applies.
+ */
+export type AddressOwnership = 'from' | 'to' | 'both' | 'neither' | 'unconfigured';
+
+/**
+ * Comparable forms of an address: emails lowercased, numbers also in E.164 so
+ * "(415) 555-0100" and "+14155550100" match. Opaque IDs (WhatsApp phone_number_id)
+ * match on their exact text.
+ */
+export function addressKeys(value: string, defaultRegion: string | null = null): string[] {
+  const trimmed = value.trim().toLowerCase();
+  if (!trimmed) {
+    return [];
+  }
+  if (trimmed.includes('@')) {
+    return [trimmed];
+  }
+
+  const e164 = normalizePhoneE164(trimmed, defaultRegion);
+  return e164 !== trimmed ? [trimmed, e164] : [trimmed];
+}
+
+/**
+ * Tidy a provider's owned address list for storage: trimmed, emails lowercased, no duplicates
+ */
+export function normalizeOwnedAddresses(addresses: string[]): string[] {
+  const cleaned = addresses
+    .map(address => address.trim())
+    .filter(address => address !== '')
+    .map(address => address.includes('@') ? address.toLowerCase() : address);
+
+  return [...new Set(cleaned)];
+}
+
+export class OwnedAddressMatcher {
+  private readonly keys: Set<string>;
+
+  constructor(ownedAddresses: string[], private readonly defaultRegion: string | null = null) {
+    this.keys = new Set(ownedAddresses.flatMap(address => addressKeys(address, defaultRegion)));
+  }
+
+  get configured(): boolean {
+    return this.keys.size > 0;
+  }
+
+  /**
+   * True when any of the given identifiers for one party is ours
+   */
+  owns(values: Array<string | undefined>): boolean {
+    return values.some(value => value !== undefined &&
+      addressKeys(value, this.defaultRegion).some(key => this.keys.has(key)));
+  }
+
+  ownership(from: Array<string | undefined>, to: Array<string | undefined>): AddressOwnership {
+    if (!this.configured) {
+      return 'unconfigured';
+    }
+
+    const fromOwned = this.owns(from);
+    const toOwned = this.owns(to);
+    if (fromOwned && toOwned) {
+      return 'both';
+    }
+    if (fromOwned) {
+      return 'from';
+    }
+    return toOwned ? 'to' : 'neither';
+  }
+}
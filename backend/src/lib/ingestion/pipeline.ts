@@ -1,6 +1,7 @@
 import { 
   RawProviderMessage, 
   NormalizedMessage, 
+  NormalizedContact,
   IngestionResult, 
   IngestionStatus,
   IngestionError 
@@ -9,8 +10,18 @@ import { NormalizerFactory } from './normalizers/index.js';
 import { IdentityResolver } from './identity-resolver.js';
 import { MessageDeduplicator, IdempotencyManager } from './deduplication.js';
 import { ConversationGrouper } from './threading.js';
-import { MessageModel } from '../../models/message.js';
+import { DeliveryStatusTracker } from './delivery-status.js';
+import { ReactionTracker } from './reactions.js';
+import { CallTracker } from './calls.js';
+import { MessageModel, CreateMessageParticipantData } from '../../models/message.js';
+import { ProviderModel } from '../../models/provider.js';
+import { queueManager } from '../queue/manager.js';
+import { createLogger } from '../logger.js';
+import { config } from '../../config/index.js';
 import { validateRawProviderMessage, validateIngestionResult } from './schemas.js';
+import { IngestionMetrics, IngestionMetricsSummary, MetricsWindow, StageTimer } from './metrics.js';
+
+const logger = createLogger('ingestion-pipeline');
 
 export interface PipelineOptions {
   skipDuplicateCheck?: boolean;
@@ -45,41 +56,50 @@ export class MessageIngestionPipeline {
   static async processMessage(
     rawMessage: RawProviderMessage,
     options: PipelineOptions = {}
+  ): Promise<IngestionResult> {
+    const result = await this.runStages(rawMessage, options);
+    await IngestionMetrics.record(rawMessage.providerId, result);
+    return result;
+  }
+
+  private static async runStages(
+    rawMessage: RawProviderMessage,
+    options: PipelineOptions
   ): Promise<IngestionResult> {
     const opts = { ...this.defaultOptions, ...options };
-    const processingMetrics = {
+    const processingMetrics: IngestionResult['processingMetrics'] = {
       startTime: new Date(),
-      endTime: undefined as Date | undefined,
-      durationMs: undefined as number | undefined,
-      stagesCompleted: [] as string[],
-      stagesFailed: [] as string[]
+      stagesCompleted: [],
+      stagesFailed: []
     };
+    const stages = new StageTimer(processingMetrics);
 
     let normalizedMessage: NormalizedMessage | undefined;
     let status: IngestionStatus = 'processing';
+    let idempotencyKey: string | undefined;
+    let claimToken: string | undefined;
 
     try {
       // Stage 1: Validate Raw Message
-      processingMetrics.stagesCompleted.push('validation');
+      stages.enter('validation');
       await this.validateRawMessage(rawMessage, opts);
 
-      // Stage 2: Generate Idempotency Key
-      processingMetrics.stagesCompleted.push('idempotency_check');
-      const idempotencyKey = IdempotencyManager.generateIdempotencyKey(
+      // Stage 2: Claim the Idempotency Key
+      stages.enter('idempotency_check');
+      idempotencyKey = IdempotencyManager.generateIdempotencyKey(
         rawMessage.providerId,
         rawMessage.providerMessageId,
         typeof rawMessage.timestamp === 'string' ? new Date(rawMessage.timestamp) : rawMessage.timestamp
       );
 
-      // Check if we've already processed this message
-      const existingMessageId = await IdempotencyManager.checkIdempotency(idempotencyKey);
-      if (existingMessageId) {
-        processingMetrics.endTime = new Date();
-        processingMetrics.durationMs = processingMetrics.endTime.getTime() - processingMetrics.startTime.getTime();
+      // Check if we've already processed this message, or another worker is on it now
+      const claim = await IdempotencyManager.acquire(idempotencyKey);
+      if (claim.status === 'completed') {
+        stages.finish();
         
         return {
           status: 'duplicate',
-          messageId: existingMessageId,
+          messageId: claim.messageId,
           processingMetrics,
           error: {
             code: 'DUPLICATE_MESSAGE',
@@ -88,22 +108,122 @@ export class MessageIngestionPipeline {
           }
         };
       }
+      if (claim.status === 'in_progress') {
+        // Failing the job lets the queue retry once the other worker has finished
+        throw new IngestionError(
+          'IDEMPOTENCY_LOCKED',
+          'Message is being processed by another worker',
+          rawMessage.providerId,
+          rawMessage.providerMessageId,
+          { idempotencyKey }
+        );
+      }
+      claimToken = claim.token;
+
+      // Receipts for messages we sent update those messages instead of creating one
+      const normalizer = NormalizerFactory.getNormalizer(rawMessage.providerType);
+      if (normalizer.isStatusOnly(rawMessage)) {
+        stages.enter('delivery_status');
+        const report = await DeliveryStatusTracker.handleWebhook(rawMessage);
+        const [messageId] = report.messageIds;
+
+        if (messageId) {
+          await IdempotencyManager.markAsProcessed(idempotencyKey, messageId);
+        } else {
+          await IdempotencyManager.release(idempotencyKey, claimToken);
+        }
+
+        status = 'success';
+        stages.finish();
+
+        return {
+          status,
+          ...(messageId && { messageId }),
+          processingMetrics
+        };
+      }
+
+      // A call arrives over several callbacks; once its message is stored, later ones update it
+      const callEvent = normalizer.extractCallEvent(rawMessage);
+      const callUpdate = callEvent && await CallTracker.applyCallEvent(rawMessage.providerId, callEvent);
+      if (callUpdate) {
+        stages.enter('call_update');
+
+        if (callUpdate.attachments.length > 0) {
+          stages.enter('attachment_fetch');
+          await this.enqueueAttachmentFetches(callUpdate.messageId, rawMessage.providerId, callUpdate.attachments);
+        }
+
+        await IdempotencyManager.markAsProcessed(idempotencyKey, callUpdate.messageId);
+
+        status = 'success';
+        stages.finish();
+
+        return {
+          status,
+          messageId: callUpdate.messageId,
+          processingMetrics
+        };
+      }
 
       // Stage 3: Normalize Message
-      processingMetrics.stagesCompleted.push('normalization');
+      stages.enter('normalization');
       normalizedMessage = await this.normalizeMessage(rawMessage);
 
+      // Reactions land on the message they refer to; one whose target we never stored is kept as a message
+      if (normalizedMessage.contentType === 'reaction') {
+        stages.enter('reaction');
+        const targetMessageId = await ReactionTracker.applyReaction(normalizedMessage);
+
+        if (targetMessageId) {
+          await IdempotencyManager.markAsProcessed(idempotencyKey, targetMessageId);
+
+          status = 'success';
+          stages.finish();
+
+          return {
+            status,
+            messageId: targetMessageId,
+            normalizedMessage,
+            processingMetrics
+          };
+        }
+      }
+
+      // Neither side ours: a misrouted webhook or a wrong owned-address list, so no party is the customer
+      const unattributed = normalizedMessage.addressOwnership === 'neither' || normalizedMessage.addressOwnership === 'both';
+      if (normalizedMessage.addressOwnership === 'neither' && config.ingestion.unownedAddressPolicy === 'reject') {
+        throw new IngestionError(
+          'UNOWNED_ADDRESS',
+          `Neither ${normalizedMessage.from.normalizedValue} nor ${normalizedMessage.to.normalizedValue} is an owned address of this provider`,
+          rawMessage.providerId,
+          rawMessage.providerMessageId
+        );
+      }
+      if (unattributed) {
+        logger.warn({
+          providerId: rawMessage.providerId,
+          providerMessageId: rawMessage.providerMessageId,
+          addressOwnership: normalizedMessage.addressOwnership
+        }, 'Message not attributed to a customer: owned addresses do not identify one side');
+      }
+
       // Stage 4: Check for Duplicates (if not skipped)
       if (!opts.skipDuplicateCheck) {
-        processingMetrics.stagesCompleted.push('duplicate_check');
+        stages.enter('duplicate_check');
         const duplicateCheck = await MessageDeduplicator.checkForDuplicate(
           normalizedMessage,
           rawMessage
         );
 
         if (duplicateCheck.isDuplicate) {
-          processingMetrics.endTime = new Date();
-          processingMetrics.durationMs = processingMetrics.endTime.getTime() - processingMetrics.startTime.getTime();
+          if (duplicateCheck.existingMessageId) {
+            await IdempotencyManager.markAsProcessed(idempotencyKey, duplicateCheck.existingMessageId);
+          } else {
+            await IdempotencyManager.release(idempotencyKey, claimToken);
+          }
+
+          stages.finish();
 
           return {
             status: 'duplicate',
@@ -123,13 +243,13 @@ export class MessageIngestionPipeline {
       let identityResolution;
       let customerId: string | undefined;
 
-      if (!opts.skipIdentityResolution) {
-        processingMetrics.stagesCompleted.push('identity_resolution');
-        
-        // Resolve customer identity from the message sender
-        const customerContact = normalizedMessage.direction === 'inbound' ? 
-          normalizedMessage.from : 
-          normalizedMessage.to;
+      // The customer is the sender of inbound messages and the recipient of outbound ones
+      const customerContact = normalizedMessage.direction === 'inbound' ? 
+        normalizedMessage.from : 
+        normalizedMessage.to;
+
+      if (!opts.skipIdentityResolution && !unattributed) {
+        stages.enter('identity_resolution');
 
         identityResolution = await IdentityResolver.resolveIdentity(customerContact, {
           createNewCustomer: opts.createNewCustomers
@@ -138,18 +258,30 @@ export class MessageIngestionPipeline {
         // Create or link the identity
         const identityResult = await IdentityResolver.createOrLinkIdentity(
           customerContact,
-          identityResolution
+          this.withDisplayName(identityResolution, normalizedMessage, customerContact)
         );
 
         customerId = identityResult.customerId;
       }
 
+      // Stage 5b: Participants (email copies other customers; each sees the message)
+      let participants: CreateMessageParticipantData[] = [];
+
+      if (normalizedMessage.participants?.length) {
+        stages.enter('participant_resolution');
+        participants = await this.resolveParticipants(
+          normalizedMessage,
+          customerId ? { contact: customerContact, customerId } : undefined,
+          opts
+        );
+      }
+
       // Stage 6: Thread/Conversation Grouping (if not skipped)
       let threadingContext;
       let conversationId: string | undefined;
 
       if (!opts.skipThreading && customerId && normalizedMessage.threadKey) {
-        processingMetrics.stagesCompleted.push('threading');
+        stages.enter('threading');
         
         threadingContext = await ConversationGrouper.groupIntoConversation(
           normalizedMessage,
@@ -160,7 +292,7 @@ export class MessageIngestionPipeline {
       }
 
       // Stage 7: Persist Message
-      processingMetrics.stagesCompleted.push('persistence');
+      stages.enter('persistence');
       
       const messageData = {
         providerMessageId: normalizedMessage.providerMessageId,
@@ -174,21 +306,43 @@ export class MessageIngestionPipeline {
         threadKey: normalizedMessage.threadKey,
         timestamp: normalizedMessage.timestamp,
         body: normalizedMessage.body,
-        status: 'processed' as const,
+        messageHash: normalizedMessage.messageHash,
+        // Content we cannot interpret is kept for review rather than dropped
+        status: normalizedMessage.error ? 'failed' as const : 'processed' as const,
+        ...(normalizedMessage.error && { errorCode: normalizedMessage.error.code }),
         providerMeta: {
           ...normalizedMessage.providerMeta,
-          messageHash: normalizedMessage.messageHash,
           contentType: normalizedMessage.contentType,
           fromContact: normalizedMessage.from,
-          toContact: normalizedMessage.to
-        }
+          toContact: normalizedMessage.to,
+          ...(normalizedMessage.addressOwnership && { addressOwnership: normalizedMessage.addressOwnership }),
+          ...(normalizedMessage.error && { ingestionError: normalizedMessage.error })
+        },
+        ...(participants.length > 0 && { participants }),
+        // Stored with the provider reference; the attachment job swaps in our copy
+        attachments: (normalizedMessage.attachments || []).map(attachment => ({
+          type: attachment.type,
+          ...(attachment.filename && { filename: attachment.filename }),
+          ...(attachment.size !== undefined && { size: attachment.size }),
+          storageUrl: attachment.url,
+          ...(attachment.thumbnailUrl && { thumbnailUrl: attachment.thumbnailUrl }),
+          metadata: {
+            ...attachment.metadata,
+            ...(attachment.mimeType && { mimeType: attachment.mimeType })
+          }
+        }))
       };
 
       const persistedMessage = await MessageModel.create(messageData);
 
+      if (persistedMessage.attachments.length > 0) {
+        stages.enter('attachment_fetch');
+        await this.enqueueAttachmentFetches(persistedMessage.id, persistedMessage.providerId, persistedMessage.attachments);
+      }
+
       // Stage 8: Update Conversation Activity (if we have a conversation)
       if (conversationId) {
-        processingMetrics.stagesCompleted.push('conversation_update');
+        stages.enter('conversation_update');
         await ConversationGrouper.updateConversationActivity(
           conversationId,
           normalizedMessage.timestamp
@@ -196,11 +350,10 @@ export class MessageIngestionPipeline {
       }
 
       // Mark as processed in idempotency manager
-      IdempotencyManager.markAsProcessed(idempotencyKey, persistedMessage.id);
+      await IdempotencyManager.markAsProcessed(idempotencyKey, persistedMessage.id);
 
       status = 'success';
-      processingMetrics.endTime = new Date();
-      processingMetrics.durationMs = processingMetrics.endTime.getTime() - processingMetrics.startTime.getTime();
+      stages.finish();
 
       const result: IngestionResult = {
         status,
@@ -220,8 +373,7 @@ export class MessageIngestionPipeline {
 
     } catch (error) {
       status = 'failed';
-      processingMetrics.endTime = new Date();
-      processingMetrics.durationMs = processingMetrics.endTime.getTime() - processingMetrics.startTime.getTime();
+      stages.finish();
 
       // Determine which stage failed
       const lastStage = processingMetrics.stagesCompleted[processingMetrics.stagesCompleted.length - 1];
@@ -237,6 +389,13 @@ export class MessageIngestionPipeline {
         { originalError: error, lastStage }
       );
 
+      // Let the retry claim the key straight away instead of waiting out the lock
+      if (idempotencyKey && claimToken) {
+        await IdempotencyManager.release(idempotencyKey, claimToken).catch(releaseError => {
+          logger.warn({ idempotencyKey, error: releaseError }, 'Failed to release idempotency key');
+        });
+      }
+
       return {
         status,
         normalizedMessage,
@@ -250,6 +409,90 @@ export class MessageIngestionPipeline {
     }
   }
 
+  /**
+   * Link every other customer on the message to a customer of their own; the message's
+   * customer reuses its resolution. Unattributed messages resolve nobody. A participant
+   * that can't be resolved is still stored, without a customer.
+   */
+  private static async resolveParticipants(
+    message: NormalizedMessage,
+    primary: { contact: NormalizedContact; customerId: string } | undefined,
+    opts: Required<PipelineOptions>
+  ): Promise<CreateMessageParticipantData[]> {
+    const customers = new Map<string, string | undefined>();
+    if (primary) {
+      customers.set(primary.contact.normalizedValue, primary.customerId);
+    }
+
+    const participants: CreateMessageParticipantData[] = [];
+    for (const participant of message.participants || []) {
+      const address = participant.contact.normalizedValue;
+
+      if (primary && participant.external && !customers.has(address)) {
+        try {
+          const resolution = await IdentityResolver.resolveIdentity(participant.contact, {
+            createNewCustomer: opts.createNewCustomers
+          });
+          const linked = resolution.customerId || resolution.isNewCustomer
+            ? await IdentityResolver.createOrLinkIdentity(participant.contact, {
+              ...resolution,
+              ...(participant.displayName && !resolution.suggestedName && { suggestedName: participant.displayName })
+            })
+            : undefined;
+          customers.set(address, linked?.customerId);
+        } catch (error) {
+          logger.warn({
+            providerId: message.providerId,
+            providerMessageId: message.providerMessageId,
+            role: participant.role,
+            error: error instanceof Error ? error.message : error
+          }, 'Could not resolve message participant');
+          customers.set(address, undefined);
+        }
+      }
+
+      const customerId = participant.external ? customers.get(address) : undefined;
+      participants.push({
+        role: participant.role,
+        address,
+        ...(participant.displayName && { displayName: participant.displayName }),
+        ...(customerId && { customerId })
+      });
+    }
+
+    return participants;
+  }
+
+  // New customers are named after the display name the message gives their address
+  private static withDisplayName<T extends { suggestedName?: string }>(
+    resolution: T,
+    message: NormalizedMessage,
+    contact: NormalizedContact
+  ): T {
+    const displayName = message.participants?.find(participant =>
+      participant.contact.normalizedValue === contact.normalizedValue && participant.displayName
+    )?.displayName;
+
+    return displayName && !resolution.suggestedName ? { ...resolution, suggestedName: displayName } : resolution;
+  }
+
+  /**
+   * Queue media downloads; the message is already stored, so a queue outage is logged, not fatal
+   */
+  private static async enqueueAttachmentFetches(
+    messageId: string,
+    providerId: string,
+    attachments: Array<{ id: string }>
+  ): Promise<void> {
+    for (const attachment of attachments) {
+      try {
+        await queueManager.addAttachmentFetchJob({ attachmentId: attachment.id, messageId, providerId });
+      } catch (error) {
+        logger.error({ err: error, messageId, attachmentId: attachment.id }, 'Failed to queue attachment fetch');
+      }
+    }
+  }
+
   private static async validateRawMessage(
     rawMessage: RawProviderMessage,
     options: Required<PipelineOptions>
@@ -281,7 +524,20 @@ export class MessageIngestionPipeline {
   private static async normalizeMessage(rawMessage: RawProviderMessage): Promise<NormalizedMessage> {
     try {
       const normalizer = NormalizerFactory.getNormalizer(rawMessage.providerType);
-      return await normalizer.normalize(rawMessage);
+
+      // National-format numbers are read in the provider's region, falling back to the configured default;
+      // the provider's owned addresses tell our side of the conversation from the customer's
+      const settings = rawMessage.defaultRegion !== undefined && rawMessage.ownedAddresses !== undefined
+        ? undefined
+        : await ProviderModel.getIngestionSettings(rawMessage.providerId);
+      const defaultRegion = rawMessage.defaultRegion ?? settings?.defaultRegion;
+      const ownedAddresses = rawMessage.ownedAddresses ?? settings?.ownedAddresses ?? [];
+
+      return await normalizer.normalize({
+        ...rawMessage,
+        ...(defaultRegion && { defaultRegion }),
+        ownedAddresses
+      });
     } catch (error) {
       if (error instanceof IngestionError) {
         throw error;
@@ -297,6 +553,17 @@ export class MessageIngestionPipeline {
     }
   }
 
+  /**
+   * The ingestion items carried by one webhook; unsupported providers are left whole
+   * so validation reports them
+   */
+  static splitWebhook(rawMessage: RawProviderMessage): RawProviderMessage[] {
+    if (!NormalizerFactory.isProviderSupported(rawMessage.providerType)) {
+      return [rawMessage];
+    }
+    return NormalizerFactory.getNormalizer(rawMessage.providerType).splitPayload(rawMessage);
+  }
+
   static async processMessageBatch(
     rawMessages: RawProviderMessage[],
     options: PipelineOptions = {}
@@ -347,6 +614,7 @@ export class MessageIngestionPipeline {
   ): Promise<IngestionResult> {
     const opts = { ...this.defaultOptions, ...options };
     let lastError: Error | undefined;
+    let lastResult: IngestionResult | undefined;
 
     for (let attempt = 1; attempt <= opts.maxRetries; attempt++) {
       try {
@@ -360,8 +628,10 @@ export class MessageIngestionPipeline {
         }
 
         lastError = new Error(result.error?.message || 'Unknown error');
+        lastResult = result;
       } catch (error) {
         lastError = error instanceof Error ? error : new Error('Unknown error');
+        lastResult = undefined;
       }
 
       // Wait before retrying (exponential backoff)
@@ -377,28 +647,15 @@ export class MessageIngestionPipeline {
       `Message processing failed after ${opts.maxRetries} attempts: ${lastError?.message || 'Unknown error'}`,
       rawMessage.providerId,
       rawMessage.providerMessageId,
-      { maxRetries: opts.maxRetries, lastError }
+      { maxRetries: opts.maxRetries, lastError, ...(lastResult && { lastResult }) }
     );
   }
 
-  static getProcessingStats(): {
-    totalProcessed: number;
-    successRate: number;
-    averageProcessingTime: number;
-    commonErrors: Array<{ code: string; count: number }>;
-  } {
-    // In a real implementation, this would query metrics from a database or cache
-    // For now, return placeholder data
-    return {
-      totalProcessed: 0,
-      successRate: 0.95,
-      averageProcessingTime: 150, // ms
-      commonErrors: [
-        { code: 'DUPLICATE_MESSAGE', count: 15 },
-        { code: 'INVALID_PAYLOAD', count: 8 },
-        { code: 'IDENTITY_RESOLUTION_FAILED', count: 3 }
-      ]
-    };
+  /**
+   * Outcomes, stage latencies, errors and provider throughput of the messages processed in the window
+   */
+  static getProcessingStats(window: MetricsWindow = '24h'): Promise<IngestionMetricsSummary> {
+    return IngestionMetrics.getSummary(window);
   }
 }
 
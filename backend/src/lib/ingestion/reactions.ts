@@ -0,0 +1,35 @@
+import { MessageModel } from '../../models/message.js';
+import { NormalizedMessage } from './types.js';
+import { createLogger } from '../logger.js';
+
+const logger = createLogger('reactions');
+
+export class ReactionTracker {
+  /**
+   * Attach a reaction to the message it refers to. Returns that message's ID, or null when the
+   * target is not stored (the reaction is then kept as a message of its own).
+   */
+  static async applyReaction(message: NormalizedMessage): Promise<string | null> {
+    const reaction = message.providerMeta['reaction'] as { messageId?: string; emoji: string | null } | undefined;
+    if (!reaction?.messageId) {
+      return null;
+    }
+
+    const target = await MessageModel.findByProviderMessageId(message.providerId, reaction.messageId);
+    if (!target) {
+      logger.debug({ providerId: message.providerId, target: reaction.messageId }, 'Reaction to unknown message');
+      return null;
+    }
+
+    await MessageModel.recordReaction(target.id, {
+      from: message.from.normalizedValue,
+      emoji: reaction.emoji,
+      providerMessageId: message.providerMessageId,
+      reactedAt: message.timestamp.toISOString()
+    });
+
+    logger.info({ messageId: target.id, emoji: reaction.emoji }, 'Reaction recorded');
+
+    return target.id;
+  }
+}
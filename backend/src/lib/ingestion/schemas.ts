@@ -13,6 +13,13 @@ export const NormalizedContactSchema = z.object({
   provider: z.string().optional()
 });
 
+export const NormalizedParticipantSchema = z.object({
+  role: z.enum(['from', 'to', 'cc', 'bcc', 'reply_to']),
+  contact: NormalizedContactSchema,
+  displayName: z.string().optional(),
+  external: z.boolean()
+});
+
 export const NormalizedAttachmentSchema = z.object({
   type: z.string().min(1, 'Attachment type is required'),
   filename: z.string().optional(),
@@ -30,13 +37,21 @@ export const NormalizedMessageSchema = z.object({
   direction: MessageDirectionSchema,
   from: NormalizedContactSchema,
   to: NormalizedContactSchema,
+  participants: z.array(NormalizedParticipantSchema).optional(),
   timestamp: z.date(),
   body: z.string().optional(),
-  contentType: z.enum(['text', 'image', 'audio', 'video', 'document', 'location']).optional(),
+  contentType: z.enum([
+    'text', 'image', 'audio', 'video', 'document', 'location', 'sticker', 'contacts', 'reaction', 'unsupported'
+  ]).optional(),
   threadKey: z.string().optional(),
   providerMeta: z.record(z.any()),
   attachments: z.array(NormalizedAttachmentSchema).optional(),
-  messageHash: z.string().min(1, 'Message hash is required')
+  messageHash: z.string().min(1, 'Message hash is required'),
+  addressOwnership: z.enum(['from', 'to', 'both', 'neither', 'unconfigured']).optional(),
+  error: z.object({
+    code: z.string().min(1),
+    message: z.string()
+  }).optional()
 });
 
 export const IdentityResolutionSchema = z.object({
@@ -75,7 +90,8 @@ export const IngestionResultSchema = z.object({
     endTime: z.date().optional(),
     durationMs: z.number().int().min(0).optional(),
     stagesCompleted: z.array(z.string()),
-    stagesFailed: z.array(z.string()).optional()
+    stagesFailed: z.array(z.string()).optional(),
+    stageDurations: z.record(z.number().min(0)).optional()
   })
 });
 
@@ -87,7 +103,9 @@ export const RawProviderMessageSchema = z.object({
   timestamp: z.union([z.date(), z.string().datetime()]),
   payload: z.record(z.any()),
   webhookSignature: z.string().optional(),
-  rawHeaders: z.record(z.string()).optional()
+  rawHeaders: z.record(z.string()).optional(),
+  defaultRegion: z.string().length(2).optional(),
+  ownedAddresses: z.array(z.string()).optional()
 });
 
 export const TwilioSMSPayloadSchema = z.object({
@@ -106,11 +124,97 @@ export const TwilioSMSPayloadSchema = z.object({
   NumSegments: z.string().optional()
 });
 
+export const TwilioStatusCallbackSchema = z.object({
+  MessageSid: z.string().min(1, 'MessageSid is required'),
+  AccountSid: z.string().optional(),
+  From: z.string().optional(),
+  To: z.string().optional(),
+  MessageStatus: z.string().min(1, 'MessageStatus is required'),
+  ErrorCode: z.string().optional(),
+  ErrorMessage: z.string().optional(),
+  RawDlrDoneDate: z.string().optional()
+});
+
+export const TwilioVoicePayloadSchema = z.object({
+  CallSid: z.string().min(1, 'CallSid is required'),
+  AccountSid: z.string().min(1, 'AccountSid is required'),
+  // Recording callbacks do not repeat the caller and callee
+  From: z.string().optional(),
+  To: z.string().optional(),
+  CallStatus: z.string().optional(),
+  Direction: z.string().optional(),
+  CallDuration: z.string().optional(),
+  Timestamp: z.string().optional(),
+  ParentCallSid: z.string().optional(),
+  AnsweredBy: z.string().optional(),
+  CallerName: z.string().optional(),
+  RecordingSid: z.string().optional(),
+  RecordingUrl: z.string().url().optional(),
+  RecordingStatus: z.string().optional(),
+  RecordingDuration: z.string().optional(),
+  RecordingChannels: z.string().optional(),
+  RecordingSource: z.string().optional(),
+  RecordingStartTime: z.string().optional(),
+  TranscriptionSid: z.string().optional(),
+  TranscriptionText: z.string().optional(),
+  TranscriptionStatus: z.string().optional(),
+  TranscriptionUrl: z.string().optional()
+});
+
+const WhatsAppErrorSchema = z.object({
+  code: z.number(),
+  title: z.string(),
+  message: z.string().optional(),
+  error_data: z.object({ details: z.string() }).optional()
+});
+
+export const WhatsAppStatusSchema = z.object({
+  id: z.string(),
+  status: z.enum(['sent', 'delivered', 'read', 'failed']),
+  timestamp: z.string(),
+  recipient_id: z.string(),
+  errors: z.array(WhatsAppErrorSchema).optional()
+});
+
+export const WhatsAppContactCardSchema = z.object({
+  name: z.object({
+    formatted_name: z.string(),
+    first_name: z.string().optional(),
+    last_name: z.string().optional(),
+    middle_name: z.string().optional(),
+    prefix: z.string().optional(),
+    suffix: z.string().optional()
+  }),
+  phones: z.array(z.object({
+    phone: z.string().optional(),
+    wa_id: z.string().optional(),
+    type: z.string().optional()
+  })).optional(),
+  emails: z.array(z.object({ email: z.string(), type: z.string().optional() })).optional(),
+  org: z.object({
+    company: z.string().optional(),
+    department: z.string().optional(),
+    title: z.string().optional()
+  }).optional(),
+  addresses: z.array(z.object({
+    street: z.string().optional(),
+    city: z.string().optional(),
+    state: z.string().optional(),
+    zip: z.string().optional(),
+    country: z.string().optional(),
+    country_code: z.string().optional(),
+    type: z.string().optional()
+  })).optional(),
+  urls: z.array(z.object({ url: z.string(), type: z.string().optional() })).optional(),
+  birthday: z.string().optional()
+});
+
 export const WhatsAppMessageSchema = z.object({
   id: z.string().min(1),
   from: z.string().min(1),
   timestamp: z.string().min(1),
-  type: z.enum(['text', 'image', 'audio', 'video', 'document', 'location']),
+  // Not an enum: types we do not know yet are stored as failed instead of rejecting the webhook
+  type: z.string().min(1),
   text: z.object({ body: z.string() }).optional(),
   image: z.object({ 
     id: z.string(), 
@@ -136,17 +240,40 @@ export const WhatsAppMessageSchema = z.object({
     filename: z.string().optional(), 
     caption: z.string().optional() 
   }).optional(),
+  sticker: z.object({
+    id: z.string(),
+    mime_type: z.string(),
+    sha256: z.string(),
+    animated: z.boolean().optional()
+  }).optional(),
   location: z.object({ 
     latitude: z.number(), 
     longitude: z.number(), 
     name: z.string().optional(), 
-    address: z.string().optional() 
+    address: z.string().optional(),
+    url: z.string().optional()
+  }).optional(),
+  contacts: z.array(WhatsAppContactCardSchema).optional(),
+  reaction: z.object({
+    message_id: z.string().optional(),
+    emoji: z.string().optional()
+  }).optional(),
+  interactive: z.object({
+    type: z.string(),
+    button_reply: z.object({ id: z.string(), title: z.string() }).optional(),
+    list_reply: z.object({ id: z.string(), title: z.string(), description: z.string().optional() }).optional()
+  }).optional(),
+  button: z.object({
+    payload: z.string().optional(),
+    text: z.string()
   }).optional(),
   context: z.object({
     from: z.string(),
     id: z.string()
-  }).optional()
-});
+  }).optional(),
+  errors: z.array(WhatsAppErrorSchema).optional()
+  // Keep the content of types we do not model so stored failures can be inspected
+}).passthrough();
 
 export const WhatsAppPayloadSchema = z.object({
   entry: z.array(z.object({
@@ -159,18 +286,66 @@ export const WhatsAppPayloadSchema = z.object({
           phone_number_id: z.string()
         }),
         messages: z.array(WhatsAppMessageSchema).optional(),
-        statuses: z.array(z.object({
-          id: z.string(),
-          status: z.enum(['sent', 'delivered', 'read', 'failed']),
-          timestamp: z.string(),
-          recipient_id: z.string()
-        })).optional()
+        statuses: z.array(WhatsAppStatusSchema).optional()
       }),
       field: z.string()
     }))
   }))
 });
 
+export const MetaMessagingAttachmentSchema = z.object({
+  type: z.string().min(1),
+  payload: z.object({
+    url: z.string().optional(),
+    title: z.string().optional(),
+    sticker_id: z.number().optional(),
+    reel_video_id: z.union([z.string(), z.number()]).optional()
+  }).passthrough().optional()
+});
+
+export const MetaMessagingEventSchema = z.object({
+  sender: z.object({ id: z.string().min(1) }),
+  recipient: z.object({ id: z.string().min(1) }),
+  timestamp: z.number(),
+  message: z.object({
+    mid: z.string().min(1),
+    text: z.string().optional(),
+    is_echo: z.boolean().optional(),
+    app_id: z.number().optional(),
+    metadata: z.string().optional(),
+    is_unsupported: z.boolean().optional(),
+    quick_reply: z.object({ payload: z.string() }).optional(),
+    reply_to: z.object({
+      mid: z.string().optional(),
+      story: z.object({ id: z.string(), url: z.string() }).optional()
+    }).optional(),
+    attachments: z.array(MetaMessagingAttachmentSchema).optional()
+  }).optional(),
+  postback: z.object({
+    mid: z.string().optional(),
+    title: z.string(),
+    payload: z.string().optional(),
+    referral: z.record(z.unknown()).optional()
+  }).optional(),
+  delivery: z.object({
+    mids: z.array(z.string()).optional(),
+    watermark: z.number()
+  }).optional(),
+  read: z.object({
+    watermark: z.number().optional(),
+    mid: z.string().optional()
+  }).optional()
+});
+
+export const MetaMessagingPayloadSchema = z.object({
+  object: z.enum(['page', 'instagram']),
+  entry: z.array(z.object({
+    id: z.string().min(1),
+    time: z.number(),
+    messaging: z.array(MetaMessagingEventSchema).optional()
+  }))
+});
+
 export const GmailPayloadSchema = z.object({
   id: z.string().min(1, 'Gmail message ID is required'),
   threadId: z.string().min(1, 'Gmail thread ID is required'),
@@ -209,6 +384,16 @@ export const GmailPayloadSchema = z.object({
   sizeEstimate: z.number().int().min(0)
 });
 
+export const ImapMessagePayloadSchema = z.object({
+  raw: z.string().min(1, 'Raw message source is required'),
+  mailbox: z.string().min(1, 'Mailbox is required'),
+  uid: z.number().int().positive(),
+  uidValidity: z.string().regex(/^\d+$/, 'UIDVALIDITY must be numeric'),
+  internalDate: z.string().optional(),
+  flags: z.array(z.string()).optional(),
+  sent: z.boolean().optional()
+});
+
 export const ChannelNormalizerConfigSchema = z.object({
   channelType: ChannelTypeSchema,
   providerType: z.string().min(1),
@@ -234,10 +419,26 @@ export function validateTwilioPayload(payload: unknown): z.infer<typeof TwilioSM
   return TwilioSMSPayloadSchema.parse(payload);
 }
 
+export function validateTwilioStatusCallback(payload: unknown): z.infer<typeof TwilioStatusCallbackSchema> {
+  return TwilioStatusCallbackSchema.parse(payload);
+}
+
+export function validateTwilioVoicePayload(payload: unknown): z.infer<typeof TwilioVoicePayloadSchema> {
+  return TwilioVoicePayloadSchema.parse(payload);
+}
+
 export function validateWhatsAppPayload(payload: unknown): z.infer<typeof WhatsAppPayloadSchema> {
   return WhatsAppPayloadSchema.parse(payload);
 }
 
+export function validateMetaMessagingPayload(payload: unknown): z.infer<typeof MetaMessagingPayloadSchema> {
+  return MetaMessagingPayloadSchema.parse(payload);
+}
+
 export function validateGmailPayload(payload: unknown): z.infer<typeof GmailPayloadSchema> {
   return GmailPayloadSchema.parse(payload);
-}
\ No newline at end of file
+}
+
+export function validateImapMessagePayload(payload: unknown): z.infer<typeof ImapMessagePayloadSchema> {
+  return ImapMessagePayloadSchema.parse(payload);
+}
@@ -1,5 +1,7 @@
+import { createHash } from 'crypto';
 import { ConversationModel } from '../../models/conversation.js';
 import { MessageModel } from '../../models/message.js';
+import { EmailThreadResolver, normalizeSubject } from './email-threading.js';
 import { 
   NormalizedMessage, 
   ThreadingContext,
@@ -38,78 +40,112 @@ export class ConversationGrouper {
     const opts = { ...this.defaultOptions, ...options };
     
     try {
-      // First, try to find an existing conversation based on thread key
-      const existingConversation = await this.findConversationByThreadKey(
-        normalizedMessage.threadKey!,
-        customerId
+      const context = await this.resolveConversation(normalizedMessage, customerId, opts);
+
+      if (normalizedMessage.channel === 'email' && context.conversationId) {
+        await EmailThreadResolver.record(normalizedMessage, context.conversationId);
+      }
+
+      return context;
+    } catch (error) {
+      throw new IngestionError(
+        'THREADING_FAILED',
+        `Failed to group message into conversation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        normalizedMessage.providerId,
+        normalizedMessage.providerMessageId,
+        { error, customerId, threadKey: normalizedMessage.threadKey }
+      );
+    }
+  }
+
+  private static async resolveConversation(
+    normalizedMessage: NormalizedMessage,
+    customerId: string,
+    opts: Required<ThreadingOptions>
+  ): Promise<ThreadingContext> {
+    // Email follows its reply headers across providers before any thread key
+    if (normalizedMessage.channel === 'email') {
+      const emailMatch = await EmailThreadResolver.findConversation(
+        normalizedMessage,
+        customerId,
+        opts.maxConversationAge
       );
 
-      if (existingConversation) {
+      if (emailMatch) {
         return {
           threadKey: normalizedMessage.threadKey!,
-          conversationId: existingConversation.id,
+          conversationId: emailMatch.conversationId,
           isNewConversation: false,
-          relatedMessages: await this.getRelatedMessageIds(existingConversation.id)
+          relatedMessages: await this.getRelatedMessageIds(emailMatch.conversationId)
         };
       }
+    }
 
-      // If no exact thread match, try to find similar conversations
-      if (opts.preferExistingThreads) {
-        const similarConversations = await this.findSimilarConversations(
-          normalizedMessage,
-          customerId,
-          opts
-        );
+    // First, try to find an existing conversation based on thread key
+    const existingConversation = await this.findConversationByThreadKey(
+      normalizedMessage.threadKey!,
+      customerId
+    );
 
-        const bestMatch = this.selectBestConversationMatch(similarConversations, opts);
-        
-        if (bestMatch) {
-          return {
-            threadKey: normalizedMessage.threadKey!,
-            conversationId: bestMatch.conversationId,
-            isNewConversation: false,
-            relatedMessages: await this.getRelatedMessageIds(bestMatch.conversationId)
-          };
-        }
-      }
+    if (existingConversation) {
+      return {
+        threadKey: normalizedMessage.threadKey!,
+        conversationId: existingConversation.id,
+        isNewConversation: false,
+        relatedMessages: await this.getRelatedMessageIds(existingConversation.id)
+      };
+    }
 
-      // Create new conversation if no suitable match found
-      if (opts.createNewConversation) {
-        const newConversation = await this.createNewConversation(
-          normalizedMessage,
-          customerId
-        );
+    // If no exact thread match, try to find similar conversations. Not for email:
+    // recent activity with the customer says nothing about which thread a mail is in
+    if (opts.preferExistingThreads && normalizedMessage.channel !== 'email') {
+      const similarConversations = await this.findSimilarConversations(
+        normalizedMessage,
+        customerId,
+        opts
+      );
 
+      const bestMatch = this.selectBestConversationMatch(similarConversations, opts);
+      
+      if (bestMatch) {
         return {
           threadKey: normalizedMessage.threadKey!,
-          conversationId: newConversation.id,
-          isNewConversation: true,
-          relatedMessages: []
+          conversationId: bestMatch.conversationId,
+          isNewConversation: false,
+          relatedMessages: await this.getRelatedMessageIds(bestMatch.conversationId)
         };
       }
+    }
+
+    // Create new conversation if no suitable match found
+    if (opts.createNewConversation) {
+      const newConversation = await this.createNewConversation(
+        normalizedMessage,
+        customerId
+      );
 
-      // Return context without conversation if creation disabled
       return {
         threadKey: normalizedMessage.threadKey!,
-        isNewConversation: false,
+        conversationId: newConversation.id,
+        isNewConversation: true,
         relatedMessages: []
       };
-    } catch (error) {
-      throw new IngestionError(
-        'THREADING_FAILED',
-        `Failed to group message into conversation: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        normalizedMessage.providerId,
-        normalizedMessage.providerMessageId,
-        { error, customerId, threadKey: normalizedMessage.threadKey }
-      );
     }
+
+    // Return context without conversation if creation disabled
+    return {
+      threadKey: normalizedMessage.threadKey!,
+      isNewConversation: false,
+      relatedMessages: []
+    };
   }
 
   static generateThreadKey(
     channel: ChannelType,
     fromIdentifier: string,
     toIdentifier: string,
-    additionalContext?: string
+    additionalContext?: string,
+    subject?: string
   ): string {
     switch (channel) {
       case 'sms':
@@ -119,13 +155,14 @@ export class ConversationGrouper {
         return `${channel}:${phoneNumbers[0]}:${phoneNumbers[1]}`;
         
       case 'email':
-        // For email, use additional context (like Gmail thread ID) if available
+        // For email, use the thread root Message-ID or a provider thread ID (like Gmail's)
         if (additionalContext) {
-          return `email:${additionalContext}`;
+          return `email:${additionalContext.replace(/^<(.*)>$/, '$1')}`;
         }
-        // Fallback to bidirectional email thread key
+        // Without one, the pair's key is scoped by subject so unrelated mail stays apart
         const emails = [fromIdentifier, toIdentifier].sort();
-        return `email:${emails[0]}:${emails[1]}`;
+        const pairKey = `email:${emails[0]}:${emails[1]}`;
+        return subject !== undefined ? this.generateContextualThreadKey(pairKey, { subject }) : pairKey;
         
       case 'facebook':
       case 'instagram':
@@ -364,9 +401,8 @@ export class ConversationGrouper {
 
     // Add context for email subjects
     if (contextData.subject) {
-      const subjectHash = require('crypto')
-        .createHash('md5')
-        .update(contextData.subject.toLowerCase().replace(/^(re:|fwd?:)\s*/i, ''))
+      const subjectHash = createHash('md5')
+        .update(normalizeSubject(contextData.subject))
         .digest('hex')
         .substring(0, 8);
       contextualKey += `:subj:${subjectHash}`;
@@ -1,6 +1,19 @@
+import type { AddressOwnership } from './ownership.js';
+
 export type ChannelType = 'sms' | 'email' | 'voice' | 'whatsapp' | 'facebook' | 'instagram';
 export type MessageDirection = 'inbound' | 'outbound';
 export type IngestionStatus = 'pending' | 'processing' | 'success' | 'failed' | 'duplicate';
+export type MessageContentType =
+  | 'text'
+  | 'image'
+  | 'audio'
+  | 'video'
+  | 'document'
+  | 'location'
+  | 'sticker'
+  | 'contacts'
+  | 'reaction'
+  | 'unsupported';
 
 export interface RawProviderMessage {
   providerId: string;
@@ -11,6 +24,10 @@ export interface RawProviderMessage {
   payload: Record<string, any>;
   webhookSignature?: string;
   rawHeaders?: Record<string, string>;
+  // Region for phone numbers without a country code; filled from the provider when absent
+  defaultRegion?: string;
+  // The provider's own numbers, IDs and mailboxes; filled from the provider when absent
+  ownedAddresses?: string[];
 }
 
 export interface NormalizedContact {
@@ -22,6 +39,16 @@ export interface NormalizedContact {
   provider?: string;
 }
 
+export type ParticipantRole = 'from' | 'to' | 'cc' | 'bcc' | 'reply_to';
+
+export interface NormalizedParticipant {
+  role: ParticipantRole;
+  contact: NormalizedContact;
+  displayName?: string;
+  // A customer's address rather than one of ours; only these are resolved to customers
+  external: boolean;
+}
+
 export interface NormalizedMessage {
   providerMessageId: string;
   providerId: string;
@@ -29,13 +56,22 @@ export interface NormalizedMessage {
   direction: MessageDirection;
   from: NormalizedContact;
   to: NormalizedContact;
+  // Every address on a multi-party message (email), including `from` and `to` above
+  participants?: NormalizedParticipant[];
   timestamp: Date;
   body?: string;
-  contentType?: 'text' | 'image' | 'audio' | 'video' | 'document' | 'location';
+  contentType?: MessageContentType;
   threadKey?: string;
   providerMeta: Record<string, any>;
   attachments?: NormalizedAttachment[];
   messageHash: string;
+  // Which side is ours; 'both' and 'neither' leave no customer to attribute the message to
+  addressOwnership?: AddressOwnership;
+  // Content the normalizer could not interpret; the message is still stored, marked failed
+  error?: {
+    code: string;
+    message: string;
+  };
 }
 
 export interface NormalizedAttachment {
@@ -48,6 +84,37 @@ export interface NormalizedAttachment {
   metadata?: Record<string, any>;
 }
 
+export type DeliveryStatus = 'queued' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface DeliveryStatusUpdate {
+  providerId: string;
+  providerMessageId: string;
+  status: DeliveryStatus;
+  providerStatus: string;
+  timestamp: Date;
+  recipient?: string;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+/**
+ * What one voice callback says about a call: a status change, a finished recording
+ * or a transcription. Later callbacks update the message created for the call.
+ */
+export interface CallEvent {
+  callSid: string;
+  kind: 'status' | 'recording' | 'transcription';
+  timestamp: Date;
+  status?: string;
+  durationSeconds?: number;
+  recording?: NormalizedAttachment;
+  transcription?: {
+    sid: string;
+    status: string;
+    text?: string;
+  };
+}
+
 export interface IdentityResolution {
   customerId?: string;
   isNewCustomer: boolean;
@@ -85,6 +152,8 @@ export interface IngestionResult {
     durationMs?: number;
     stagesCompleted: string[];
     stagesFailed?: string[];
+    // Milliseconds spent in each stage entered
+    stageDurations?: Record<string, number>;
   };
 }
 
@@ -110,9 +179,97 @@ export interface TwilioSMSPayload {
   MediaUrl0?: string;
   MediaContentType0?: string;
   SmsStatus?: string;
+  MessageStatus?: string;
+  ErrorCode?: string;
+  ErrorMessage?: string;
   NumSegments?: string;
 }
 
+// Call status, recording and transcription callbacks share the call's identifiers
+export interface TwilioVoicePayload {
+  CallSid: string;
+  AccountSid: string;
+  From?: string;
+  To?: string;
+  CallStatus?: string;
+  Direction?: string;
+  CallDuration?: string;
+  Timestamp?: string;
+  ParentCallSid?: string;
+  AnsweredBy?: string;
+  CallerName?: string;
+  RecordingSid?: string;
+  RecordingUrl?: string;
+  RecordingStatus?: string;
+  RecordingDuration?: string;
+  RecordingChannels?: string;
+  RecordingSource?: string;
+  RecordingStartTime?: string;
+  TranscriptionSid?: string;
+  TranscriptionText?: string;
+  TranscriptionStatus?: string;
+  TranscriptionUrl?: string;
+}
+
+export interface WhatsAppContactCard {
+  name: {
+    formatted_name: string;
+    first_name?: string;
+    last_name?: string;
+    middle_name?: string;
+    prefix?: string;
+    suffix?: string;
+  };
+  phones?: Array<{ phone?: string; wa_id?: string; type?: string }>;
+  emails?: Array<{ email: string; type?: string }>;
+  org?: { company?: string; department?: string; title?: string };
+  addresses?: Array<{
+    street?: string;
+    city?: string;
+    state?: string;
+    zip?: string;
+    country?: string;
+    country_code?: string;
+    type?: string;
+  }>;
+  urls?: Array<{ url: string; type?: string }>;
+  birthday?: string;
+}
+
+export interface WhatsAppMessage {
+  id: string;
+  from: string;
+  timestamp: string;
+  // Meta adds types over time; anything unrecognised is stored as failed
+  type: string;
+  text?: { body: string };
+  image?: { id: string; mime_type: string; sha256: string; caption?: string };
+  audio?: { id: string; mime_type: string; sha256: string };
+  video?: { id: string; mime_type: string; sha256: string; caption?: string };
+  document?: { id: string; mime_type: string; sha256: string; filename?: string; caption?: string };
+  sticker?: { id: string; mime_type: string; sha256: string; animated?: boolean };
+  location?: { latitude: number; longitude: number; name?: string; address?: string; url?: string };
+  contacts?: WhatsAppContactCard[];
+  // An empty emoji withdraws an earlier reaction
+  reaction?: { message_id?: string; emoji?: string };
+  interactive?: {
+    type: string;
+    button_reply?: { id: string; title: string };
+    list_reply?: { id: string; title: string; description?: string };
+  };
+  button?: { payload?: string; text: string };
+  context?: {
+    from: string;
+    id: string;
+  };
+  errors?: Array<{
+    code: number;
+    title: string;
+    message?: string;
+    error_data?: { details: string };
+  }>;
+}
+
 export interface WhatsAppPayload {
   entry: Array<{
     id: string;
@@ -123,27 +280,18 @@ export interface WhatsAppPayload {
           display_phone_number: string;
           phone_number_id: string;
         };
-        messages?: Array<{
-          id: string;
-          from: string;
-          timestamp: string;
-          type: 'text' | 'image' | 'audio' | 'video' | 'document' | 'location';
-          text?: { body: string };
-          image?: { id: string; mime_type: string; sha256: string; caption?: string };
-          audio?: { id: string; mime_type: string; sha256: string };
-          video?: { id: string; mime_type: string; sha256: string; caption?: string };
-          document?: { id: string; mime_type: string; sha256: string; filename?: string; caption?: string };
-          location?: { latitude: number; longitude: number; name?: string; address?: string };
-          context?: {
-            from: string;
-            id: string;
-          };
-        }>;
+        messages?: Array<WhatsAppMessage>;
         statuses?: Array<{
           id: string;
           status: 'sent' | 'delivered' | 'read' | 'failed';
           timestamp: string;
           recipient_id: string;
+          errors?: Array<{
+            code: number;
+            title: string;
+            message?: string;
+            error_data?: { details: string };
+          }>;
         }>;
       };
       field: string;
@@ -151,6 +299,55 @@ export interface WhatsAppPayload {
   }>;
 }
 
+export interface MetaMessagingAttachment {
+  // image, video, audio, file, fallback, template; Instagram adds share, story_mention, ig_reel, reel
+  type: string;
+  payload?: {
+    url?: string;
+    title?: string;
+    sticker_id?: number;
+    reel_video_id?: string | number;
+    [key: string]: unknown;
+  };
+}
+
+export interface MetaMessagingEvent {
+  // Page-scoped (PSID) or Instagram-scoped (IGSID) user ID, or the page/account itself on echoes
+  sender: { id: string };
+  recipient: { id: string };
+  timestamp: number;
+  message?: {
+    mid: string;
+    text?: string;
+    // A copy of a message the page sent, from any app or the inbox
+    is_echo?: boolean;
+    app_id?: number;
+    metadata?: string;
+    is_unsupported?: boolean;
+    quick_reply?: { payload: string };
+    reply_to?: { mid?: string; story?: { id: string; url: string } };
+    attachments?: MetaMessagingAttachment[];
+  };
+  postback?: {
+    mid?: string;
+    title: string;
+    payload?: string;
+    referral?: Record<string, unknown>;
+  };
+  delivery?: { mids?: string[]; watermark: number };
+  read?: { watermark?: number; mid?: string };
+}
+
+export interface MetaMessagingPayload {
+  object: 'page' | 'instagram';
+  entry: Array<{
+    // Page ID (Messenger) or Instagram professional account ID
+    id: string;
+    time: number;
+    messaging?: MetaMessagingEvent[];
+  }>;
+}
+
 export interface GmailPayload {
   id: string;
   threadId: string;
@@ -189,9 +386,26 @@ export interface GmailPayload {
   sizeEstimate: number;
 }
 
+/**
+ * One message read from an IMAP mailbox: the RFC 5322 source and where it was found
+ */
+export interface ImapMessagePayload {
+  // Message source, base64-encoded
+  raw: string;
+  mailbox: string;
+  uid: number;
+  // Kept as a string: UIDVALIDITY is an unsigned 32-bit value carried through JSON job data
+  uidValidity: string;
+  internalDate?: string;
+  flags?: string[];
+  // Read from the provider's sent mailbox
+  sent?: boolean;
+}
+
 export interface NormalizationError extends Error {
   code: 'INVALID_PAYLOAD' | 'PROVIDER_NOT_SUPPORTED' | 'IDENTITY_RESOLUTION_FAILED' | 
-        'DUPLICATE_MESSAGE' | 'THREADING_FAILED' | 'VALIDATION_FAILED' | 'UNKNOWN_ERROR';
+        'DUPLICATE_MESSAGE' | 'THREADING_FAILED' | 'VALIDATION_FAILED' | 'UNOWNED_ADDRESS' | 'CALL_NOT_FOUND' | 'MESSAGE_NOT_FOUND' | 'IDEMPOTENCY_LOCKED' |
+        'UNKNOWN_ERROR';
   providerId: string;
   providerMessageId?: string;
   details?: Record<string, any>;
@@ -0,0 +1,258 @@
+import { Conversation, Prisma } from '@prisma/client';
+import { MessageModel, MessageWithRelations, PENDING_SEND_PREFIX } from '../models/message.js';
+import { ConversationModel } from '../models/conversation.js';
+import { ProviderModel } from '../models/provider.js';
+import { getSender, SendResult } from './providers/senders.js';
+import { OutboundMessageJobData } from './queue/types.js';
+import { EmailThreadResolver, emailThreadHeaders, stripSubjectPrefixes } from './ingestion/email-threading.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('outbound');
+
+export type OutboundErrorCode = 'NO_REPLY_TARGET' | 'PROVIDER_UNAVAILABLE' | 'CHANNEL_NOT_SUPPORTED';
+
+export class OutboundError extends Error {
+  constructor(public code: OutboundErrorCode, message: string) {
+    super(message);
+    this.name = 'OutboundError';
+  }
+}
+
+export type ReplyRequest = {
+  body: string;
+  subject?: string;
+  requestedBy: string;
+};
+
+const replySubject = (subject: unknown): string => {
+  const original = typeof subject === 'string' ? stripSubjectPrefixes(subject) : '';
+  return `Re: ${original}`.trim();
+};
+
+// Stands in for the provider's ID until the send returns one
+const pendingProviderMessageId = (jobId: string): string => `${PENDING_SEND_PREFIX}${jobId}`;
+
+const isPendingSend = (message: MessageWithRelations, jobId: string): boolean =>
+  message.providerMessageId === pendingProviderMessageId(jobId);
+
+const outboundRow = (data: OutboundMessageJobData) => ({
+  providerId: data.providerId,
+  customerId: data.customerId,
+  conversationId: data.conversationId,
+  channel: data.channel as MessageWithRelations['channel'],
+  direction: 'outbound' as const,
+  fromIdentifier: data.from,
+  toIdentifier: data.to,
+  ...(data.threadKey && { threadKey: data.threadKey }),
+  body: data.body
+});
+
+export class OutboundMessenger {
+  /**
+   * Work out where a reply in this conversation goes: the provider and addresses of
+   * the latest customer message, falling back to our own latest outbound message
+   */
+  static async planReply(
+    conversation: Pick<Conversation, 'id' | 'customerId' | 'channel' | 'threadKey'>,
+    request: ReplyRequest
+  ): Promise<OutboundMessageJobData> {
+    const latest = await MessageModel.findLatestInConversation(conversation.id, 'inbound')
+      || await MessageModel.findLatestInConversation(conversation.id, 'outbound');
+
+    if (!latest) {
+      throw new OutboundError('NO_REPLY_TARGET', 'Conversation has no messages to reply to');
+    }
+
+    const provider = latest.provider;
+    if (!getSender(provider.type)) {
+      throw new OutboundError(
+        'CHANNEL_NOT_SUPPORTED',
+        `Sending is not supported for ${provider.type} providers`
+      );
+    }
+    if (provider.status === 'inactive') {
+      throw new OutboundError('PROVIDER_UNAVAILABLE', `Provider ${provider.name} is inactive`);
+    }
+
+    const inbound = latest.direction === 'inbound';
+    const meta = (latest.providerMeta || {}) as Record<string, any>;
+    const headers = (meta['headers'] || {}) as Record<string, string>;
+    const isEmail = conversation.channel === 'email';
+
+    const subject = request.subject ?? (isEmail ? replySubject(meta['subject']) : undefined);
+
+    return {
+      conversationId: conversation.id,
+      customerId: conversation.customerId,
+      providerId: provider.id,
+      providerType: provider.type,
+      channel: conversation.channel,
+      to: inbound ? latest.fromIdentifier : latest.toIdentifier,
+      from: inbound ? latest.toIdentifier : latest.fromIdentifier,
+      body: request.body,
+      ...(subject !== undefined && { subject }),
+      threadKey: conversation.threadKey,
+      replyTo: {
+        ...(inbound && { providerMessageId: latest.providerMessageId }),
+        ...(meta['gmailThreadId'] && { threadId: String(meta['gmailThreadId']) }),
+        ...(headers['message-id'] && { messageIdHeader: headers['message-id'] }),
+        ...(headers['references'] && { references: headers['references'] })
+      },
+      requestedBy: request.requestedBy,
+      requestedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Store the message as queued, send it through the provider, then record what the
+   * provider answered. The stored row is keyed by job id, so a retried job that
+   * already got through to the provider returns that message instead of sending twice.
+   */
+  static async deliver(data: OutboundMessageJobData, jobId: string): Promise<{ message: MessageWithRelations; result: SendResult }> {
+    const provider = await ProviderModel.findById(data.providerId);
+    if (!provider) {
+      throw new OutboundError('PROVIDER_UNAVAILABLE', `Provider ${data.providerId} no longer exists`);
+    }
+
+    const sender = getSender(provider.type);
+    if (!sender) {
+      throw new OutboundError('CHANNEL_NOT_SUPPORTED', `Sending is not supported for ${provider.type} providers`);
+    }
+
+    const pending = await MessageModel.findOutboundByJobId(data.conversationId, jobId)
+      ?? await OutboundMessenger.storeQueued(data, jobId);
+
+    if (!isPendingSend(pending, jobId)) {
+      logger.warn({
+        messageId: pending.id,
+        conversationId: data.conversationId,
+        providerMessageId: pending.providerMessageId,
+        jobId
+      }, 'Outbound message already sent by an earlier attempt, not sending again');
+
+      const meta = (pending.providerMeta || {}) as Record<string, unknown>;
+      return {
+        message: pending,
+        result: {
+          providerMessageId: pending.providerMessageId,
+          deliveryStatus: pending.status === 'queued' ? 'queued' : 'sent',
+          ...(typeof meta['providerStatus'] === 'string' && { providerStatus: meta['providerStatus'] }),
+          providerMeta: meta
+        }
+      };
+    }
+
+    const statusCallbackUrl = provider.webhooks.find(webhook => webhook.status === 'active')?.endpointUrl;
+
+    const result = await sender(ProviderModel.getCredentials(provider), {
+      to: data.to,
+      from: data.from,
+      body: data.body,
+      ...(data.subject !== undefined && { subject: data.subject }),
+      ...(statusCallbackUrl && { statusCallbackUrl }),
+      ...(data.replyTo && { replyTo: data.replyTo })
+    });
+
+    const sentAt = new Date();
+    const providerMeta: Prisma.InputJsonValue = {
+      ...(result.providerMeta as Prisma.InputJsonObject),
+      ...(result.providerStatus && { providerStatus: result.providerStatus }),
+      sentBy: data.requestedBy,
+      outboundJobId: jobId
+    };
+
+    const message = await MessageModel.update(pending.id, {
+      providerMessageId: result.providerMessageId,
+      timestamp: sentAt,
+      providerMeta,
+      status: result.deliveryStatus
+    });
+
+    await MessageModel.recordStatusEvent(message.id, {
+      status: result.deliveryStatus,
+      occurredAt: sentAt,
+      ...(result.providerStatus && { providerStatus: result.providerStatus })
+    }, false);
+
+    await ConversationModel.updateLastMessageAt(data.conversationId, sentAt);
+
+    // Replies to what we sent name its Message-ID; SMTP senders report the one they generated
+    if (data.channel === 'email') {
+      await EmailThreadResolver.recordHeaders(
+        data.conversationId,
+        emailThreadHeaders(result.providerMeta['headers'] as Record<string, unknown> | undefined),
+        data.subject
+      );
+    }
+
+    logger.info({
+      messageId: message.id,
+      conversationId: data.conversationId,
+      providerMessageId: result.providerMessageId
+    }, 'Outbound message sent');
+
+    return { message, result };
+  }
+
+  /**
+   * Keep a failed send visible in the thread once the job gives up
+   */
+  static async recordFailure(
+    data: OutboundMessageJobData,
+    jobId: string,
+    error: { code: string; message: string }
+  ): Promise<MessageWithRelations> {
+    const existing = await MessageModel.findOutboundByJobId(data.conversationId, jobId);
+
+    // The provider took it on an earlier attempt; whatever failed afterwards wasn't the send
+    if (existing && !isPendingSend(existing, jobId)) {
+      return existing;
+    }
+
+    const providerMeta: Prisma.InputJsonValue = {
+      error,
+      sentBy: data.requestedBy,
+      outboundJobId: jobId
+    };
+
+    const message = existing
+      ? await MessageModel.update(existing.id, {
+        providerMessageId: `failed:${jobId}`,
+        providerMeta,
+        status: 'failed',
+        errorCode: error.code
+      })
+      : await MessageModel.create({
+        ...outboundRow(data),
+        providerMessageId: `failed:${jobId}`,
+        timestamp: new Date(),
+        providerMeta,
+        status: 'failed',
+        errorCode: error.code
+      });
+
+    await MessageModel.recordStatusEvent(message.id, {
+      status: 'failed',
+      errorCode: error.code,
+      errorMessage: error.message,
+      occurredAt: new Date()
+    }, false);
+
+    logger.warn({ messageId: message.id, conversationId: data.conversationId, error }, 'Outbound message failed');
+
+    return message;
+  }
+
+  private static async storeQueued(data: OutboundMessageJobData, jobId: string): Promise<MessageWithRelations> {
+    return MessageModel.create({
+      ...outboundRow(data),
+      providerMessageId: pendingProviderMessageId(jobId),
+      timestamp: new Date(),
+      providerMeta: {
+        sentBy: data.requestedBy,
+        outboundJobId: jobId
+      },
+      status: 'queued'
+    });
+  }
+}
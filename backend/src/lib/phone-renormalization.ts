@@ -0,0 +1,291 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { parsePhoneNumber, defaultPhoneRegion } from './phone.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('phone-renormalization');
+
+export type PhoneRenormalizationOptions = {
+  dryRun?: boolean;
+  batchSize?: number;
+};
+
+export type PhoneIdentityRow = {
+  id: string;
+  customerId: string;
+  value: string;
+  rawValue: string;
+  provider: string | null;
+};
+
+// Another identity already holds the number this one normalizes to
+export type PhoneCollision = {
+  identityId: string;
+  customerId: string;
+  value: string;
+  normalizedValue: string;
+  conflictingIdentityId: string;
+  conflictingCustomerId: string;
+  sameCustomer: boolean;
+};
+
+// Another conversation already has the thread key this one's would become; left as it was
+export type ThreadKeyCollision = {
+  identityId: string;
+  conversationId: string;
+  threadKey: string;
+  renormalizedThreadKey: string;
+  conflictingConversationId: string;
+};
+
+export type PhoneRenormalizationReport = {
+  dryRun: boolean;
+  scanned: number;
+  unchanged: number;
+  updated: number;
+  invalid: number;
+  messagesUpdated: number;
+  threadKeysUpdated: number;
+  collisions: PhoneCollision[];
+  threadKeyCollisions: ThreadKeyCollision[];
+};
+
+type ThreadKeyChange = {
+  conversationId: string;
+  threadKey: string;
+  renormalizedThreadKey: string;
+};
+
+// Channels whose thread keys are built from normalized phone numbers
+const PHONE_THREAD_CHANNELS = ['sms', 'voice', 'whatsapp'];
+// SMS and voice sort the two numbers so either side's messages share the key
+const SORTED_THREAD_CHANNELS = ['sms', 'voice'];
+
+/**
+ * The value a stored phone identity should have under the current normalizer, or null
+ * when neither its raw nor stored form is a valid number.
+ *
+ * The raw value is preferred: the old normalizer prefixed +1 to everything, so the
+ * stored value of a UK or Mexican number is the mangled one.
+ */
+export function renormalizedPhoneValue(identity: PhoneIdentityRow, defaultRegion: string | null): string | null {
+  // WhatsApp IDs always carry their country code
+  const region = identity.provider === 'whatsapp' ? null : defaultRegion;
+
+  for (const candidate of [identity.rawValue, identity.value]) {
+    const parsed = parsePhoneNumber(candidate, region);
+    if (parsed?.valid) {
+      return parsed.e164;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * A phone thread key with the old number replaced by the new one, or null when the key
+ * doesn't contain the old number. Keys are channel:number:number, WhatsApp ones followed
+ * by the ID of the message replied to.
+ */
+export function renormalizedThreadKey(threadKey: string, value: string, normalizedValue: string): string | null {
+  const [channel, ...parts] = threadKey.split(':');
+  if (!channel || !PHONE_THREAD_CHANNELS.includes(channel) || parts.length < 2) {
+    return null;
+  }
+
+  const numbers = parts.slice(0, 2);
+  if (!numbers.includes(value)) {
+    return null;
+  }
+
+  const renormalized = numbers.map(number => (number === value ? normalizedValue : number));
+  if (SORTED_THREAD_CHANNELS.includes(channel)) {
+    renormalized.sort();
+  }
+
+  return [channel, ...renormalized, ...parts.slice(2)].join(':');
+}
+
+export class PhoneRenormalizer {
+  /**
+   * Re-normalize every phone identity, rewriting message identifiers and conversation
+   * thread keys that used the old value. Numbers another identity already holds, and
+   * thread keys another conversation already has, are reported, never overwritten.
+   */
+  static async run(options: PhoneRenormalizationOptions = {}): Promise<PhoneRenormalizationReport> {
+    const { dryRun = false, batchSize = 500 } = options;
+
+    const report: PhoneRenormalizationReport = {
+      dryRun,
+      scanned: 0,
+      unchanged: 0,
+      updated: 0,
+      invalid: 0,
+      messagesUpdated: 0,
+      threadKeysUpdated: 0,
+      collisions: [],
+      threadKeyCollisions: []
+    };
+
+    const customerRegions = new Map<string, string>();
+
+    let cursor: string | undefined;
+    for (;;) {
+      const batch = await prisma.identity.findMany({
+        where: { type: 'phone' },
+        select: { id: true, customerId: true, value: true, rawValue: true, provider: true },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 })
+      });
+
+      for (const identity of batch) {
+        report.scanned++;
+
+        if (!customerRegions.has(identity.customerId)) {
+          customerRegions.set(identity.customerId, await this.regionForCustomer(identity.customerId));
+        }
+
+        const normalizedValue = renormalizedPhoneValue(identity, customerRegions.get(identity.customerId)!);
+        if (normalizedValue === null) {
+          report.invalid++;
+          continue;
+        }
+        if (normalizedValue === identity.value) {
+          report.unchanged++;
+          continue;
+        }
+
+        const conflicting = await prisma.identity.findUnique({
+          where: { type_value: { type: 'phone', value: normalizedValue } },
+          select: { id: true, customerId: true }
+        });
+        if (conflicting) {
+          report.collisions.push({
+            identityId: identity.id,
+            customerId: identity.customerId,
+            value: identity.value,
+            normalizedValue,
+            conflictingIdentityId: conflicting.id,
+            conflictingCustomerId: conflicting.customerId,
+            sameCustomer: conflicting.customerId === identity.customerId
+          });
+          continue;
+        }
+
+        if (dryRun) {
+          const { collisions } = await this.threadKeyChanges(prisma, identity, normalizedValue);
+          report.threadKeyCollisions.push(...collisions);
+        } else {
+          const rewritten = await this.rewrite(identity, normalizedValue);
+          report.messagesUpdated += rewritten.messagesUpdated;
+          report.threadKeysUpdated += rewritten.threadKeysUpdated;
+          report.threadKeyCollisions.push(...rewritten.threadKeyCollisions);
+        }
+        report.updated++;
+      }
+
+      if (batch.length < batchSize) break;
+      cursor = batch[batch.length - 1]!.id;
+    }
+
+    logger.info(
+      { ...report, collisions: report.collisions.length, threadKeyCollisions: report.threadKeyCollisions.length },
+      'Phone identity re-normalization completed'
+    );
+
+    return report;
+  }
+
+  // Region of the most recent provider with one configured that this customer messaged through
+  private static async regionForCustomer(customerId: string): Promise<string> {
+    const message = await prisma.message.findFirst({
+      where: { customerId, provider: { defaultRegion: { not: null } } },
+      orderBy: { timestamp: 'desc' },
+      select: { provider: { select: { defaultRegion: true } } }
+    });
+
+    return message?.provider.defaultRegion ?? defaultPhoneRegion();
+  }
+
+  // Thread keys naming the old number, split into the ones free to rewrite and the ones already taken
+  private static async threadKeyChanges(
+    client: Prisma.TransactionClient,
+    identity: PhoneIdentityRow,
+    normalizedValue: string
+  ): Promise<{ changes: ThreadKeyChange[]; collisions: ThreadKeyCollision[] }> {
+    const conversations = await client.conversation.findMany({
+      where: { threadKey: { contains: `:${identity.value}` } },
+      select: { id: true, threadKey: true }
+    });
+
+    const changes: ThreadKeyChange[] = [];
+    const collisions: ThreadKeyCollision[] = [];
+
+    for (const conversation of conversations) {
+      const renormalized = renormalizedThreadKey(conversation.threadKey, identity.value, normalizedValue);
+      if (renormalized === null || renormalized === conversation.threadKey) continue;
+
+      const conflicting = await client.conversation.findUnique({
+        where: { threadKey: renormalized },
+        select: { id: true }
+      });
+      if (conflicting) {
+        collisions.push({
+          identityId: identity.id,
+          conversationId: conversation.id,
+          threadKey: conversation.threadKey,
+          renormalizedThreadKey: renormalized,
+          conflictingConversationId: conflicting.id
+        });
+        continue;
+      }
+
+      changes.push({ conversationId: conversation.id, threadKey: conversation.threadKey, renormalizedThreadKey: renormalized });
+    }
+
+    return { changes, collisions };
+  }
+
+  private static async rewrite(
+    identity: PhoneIdentityRow,
+    normalizedValue: string
+  ): Promise<{ messagesUpdated: number; threadKeysUpdated: number; threadKeyCollisions: ThreadKeyCollision[] }> {
+    return prisma.$transaction(async (tx) => {
+      await tx.identity.update({
+        where: { id: identity.id },
+        data: { value: normalizedValue }
+      });
+
+      const [from, to] = await Promise.all([
+        tx.message.updateMany({
+          where: { fromIdentifier: identity.value },
+          data: { fromIdentifier: normalizedValue }
+        }),
+        tx.message.updateMany({
+          where: { toIdentifier: identity.value },
+          data: { toIdentifier: normalizedValue }
+        })
+      ]);
+
+      // New messages are matched to conversations by thread key, so the keys move with the number
+      const { changes, collisions } = await this.threadKeyChanges(tx, identity, normalizedValue);
+      for (const change of changes) {
+        await tx.conversation.update({
+          where: { id: change.conversationId },
+          data: { threadKey: change.renormalizedThreadKey }
+        });
+        await tx.message.updateMany({
+          where: { conversationId: change.conversationId, threadKey: change.threadKey },
+          data: { threadKey: change.renormalizedThreadKey }
+        });
+      }
+
+      return {
+        messagesUpdated: from.count + to.count,
+        threadKeysUpdated: changes.length,
+        threadKeyCollisions: collisions
+      };
+    });
+  }
+}
@@ -1,9 +1,225 @@
-export function normalizePhoneE164(input: string): string {
-  const s = String(input || "").trim();
+import { config } from '../config/index.js';
+
+export type PhoneRegionMetadata = {
+  region: string;
+  name: string;
+  callingCode: string;
+  // Digits dialled before an international number from inside the region
+  internationalPrefix: string;
+  // Trunk or legacy prefixes dialled before national numbers, longest first
+  nationalPrefixes: string[];
+  // Valid lengths of the national significant number (without calling code or trunk prefix)
+  nationalLengths: number[];
+  // Digit that used to follow the calling code on mobile numbers and is no longer dialled
+  legacyMobilePrefix?: string;
+};
+
+export type ParsedPhoneNumber = {
+  e164: string;
+  callingCode: string;
+  nationalNumber: string;
+  region: string | null;
+  valid: boolean;
+};
+
+// Regions sharing a calling code list the primary region first
+export const PHONE_REGIONS: Record<string, PhoneRegionMetadata> = {
+  US: { region: 'US', name: 'United States', callingCode: '1', internationalPrefix: '011', nationalPrefixes: ['1'], nationalLengths: [10] },
+  CA: { region: 'CA', name: 'Canada', callingCode: '1', internationalPrefix: '011', nationalPrefixes: ['1'], nationalLengths: [10] },
+  PR: { region: 'PR', name: 'Puerto Rico', callingCode: '1', internationalPrefix: '011', nationalPrefixes: ['1'], nationalLengths: [10] },
+  GB: { region: 'GB', name: 'United Kingdom', callingCode: '44', internationalPrefix: '00', nationalPrefixes: ['0'], nationalLengths: [9, 10] },
+  IE: { region: 'IE', name: 'Ireland', callingCode: '353', internationalPrefix: '00', nationalPrefixes: ['0'], nationalLengths: [7, 8, 9] },
+  MX: {
+    region: 'MX',
+    name: 'Mexico',
+    callingCode: '52',
+    internationalPrefix: '00',
+    // 01 (landline) and 044/045 (mobile) were retired in 2019 but still appear in contact data
+    nationalPrefixes: ['044', '045', '01'],
+    nationalLengths: [10],
+    legacyMobilePrefix: '1'
+  },
+  ES: { region: 'ES', name: 'Spain', callingCode: '34', internationalPrefix: '00', nationalPrefixes: [], nationalLengths: [9] },
+  FR: { region: 'FR', name: 'France', callingCode: '33', internationalPrefix: '00', nationalPrefixes: ['0'], nationalLengths: [9] },
+  DE: { region: 'DE', name: 'Germany', callingCode: '49', internationalPrefix: '00', nationalPrefixes: ['0'], nationalLengths: [7, 8, 9, 10, 11] },
+  IT: { region: 'IT', name: 'Italy', callingCode: '39', internationalPrefix: '00', nationalPrefixes: [], nationalLengths: [6, 7, 8, 9, 10, 11] },
+  NL: { region: 'NL', name: 'Netherlands', callingCode: '31', internationalPrefix: '00', nationalPrefixes: ['0'], nationalLengths: [9] },
+  PT: { region: 'PT', name: 'Portugal', callingCode: '351', internationalPrefix: '00', nationalPrefixes: [], nationalLengths: [9] },
+  BR: { region: 'BR', name: 'Brazil', callingCode: '55', internationalPrefix: '00', nationalPrefixes: ['0'], nationalLengths: [10, 11] },
+  CO: { region: 'CO', name: 'Colombia', callingCode: '57', internationalPrefix: '00', nationalPrefixes: [], nationalLengths: [10] },
+  CL: { region: 'CL', name: 'Chile', callingCode: '56', internationalPrefix: '00', nationalPrefixes: [], nationalLengths: [9] },
+  AU: { region: 'AU', name: 'Australia', callingCode: '61', internationalPrefix: '0011', nationalPrefixes: ['0'], nationalLengths: [9] },
+  NZ: { region: 'NZ', name: 'New Zealand', callingCode: '64', internationalPrefix: '00', nationalPrefixes: ['0'], nationalLengths: [8, 9, 10] },
+  IN: { region: 'IN', name: 'India', callingCode: '91', internationalPrefix: '00', nationalPrefixes: ['0'], nationalLengths: [10] },
+  PH: { region: 'PH', name: 'Philippines', callingCode: '63', internationalPrefix: '00', nationalPrefixes: ['0'], nationalLengths: [10] },
+  ZA: { region: 'ZA', name: 'South Africa', callingCode: '27', internationalPrefix: '00', nationalPrefixes: ['0'], nationalLengths: [9] },
+  CN: { region: 'CN', name: 'China', callingCode: '86', internationalPrefix: '00', nationalPrefixes: ['0'], nationalLengths: [10, 11] },
+  JP: { region: 'JP', name: 'Japan', callingCode: '81', internationalPrefix: '010', nationalPrefixes: ['0'], nationalLengths: [9, 10] }
+};
+
+const REGIONS_BY_CALLING_CODE = Object.values(PHONE_REGIONS).reduce<Record<string, PhoneRegionMetadata>>(
+  (byCode, metadata) => {
+    byCode[metadata.callingCode] ??= metadata;
+    return byCode;
+  },
+  {}
+);
+
+// E.164 caps numbers at 15 digits including the calling code
+const MAX_E164_DIGITS = 15;
+
+export function isSupportedPhoneRegion(region: string): boolean {
+  return region.toUpperCase() in PHONE_REGIONS;
+}
+
+/**
+ * Region used for numbers written without a country code when the provider sets none
+ */
+export function defaultPhoneRegion(): string {
+  return config.phone.defaultRegion;
+}
+
+const stripPrefix = (digits: string, prefixes: string[]): string => {
+  const prefix = prefixes.find(candidate => digits.startsWith(candidate));
+  return prefix ? digits.slice(prefix.length) : digits;
+};
+
+const isValidLength = (metadata: PhoneRegionMetadata, nationalNumber: string): boolean =>
+  metadata.nationalLengths.includes(nationalNumber.length);
+
+const buildParsed = (metadata: PhoneRegionMetadata, nationalNumber: string): ParsedPhoneNumber => ({
+  e164: `+${metadata.callingCode}${nationalNumber}`,
+  callingCode: metadata.callingCode,
+  nationalNumber,
+  region: metadata.region,
+  valid: isValidLength(metadata, nationalNumber)
+});
+
+// Digits after the calling code, cleaned of trunk prefixes that people write in anyway ("+44 (0)20 ...")
+function parseNationalPart(metadata: PhoneRegionMetadata, rest: string): ParsedPhoneNumber {
+  if (isValidLength(metadata, rest)) {
+    return buildParsed(metadata, rest);
+  }
+
+  const withoutTrunk = stripPrefix(rest, metadata.nationalPrefixes);
+  if (withoutTrunk !== rest && isValidLength(metadata, withoutTrunk)) {
+    return buildParsed(metadata, withoutTrunk);
+  }
+
+  const legacy = metadata.legacyMobilePrefix;
+  if (legacy && rest.startsWith(legacy) && isValidLength(metadata, rest.slice(legacy.length))) {
+    return buildParsed(metadata, rest.slice(legacy.length));
+  }
+
+  return buildParsed(metadata, rest);
+}
+
+function parseInternational(digits: string): ParsedPhoneNumber {
+  for (let length = 1; length <= 3; length++) {
+    const metadata = REGIONS_BY_CALLING_CODE[digits.slice(0, length)];
+    if (metadata) {
+      return parseNationalPart(metadata, digits.slice(length));
+    }
+  }
+
+  // Calling code we hold no metadata for: keep the digits, but we cannot vouch for them
+  return {
+    e164: `+${digits}`,
+    callingCode: '',
+    nationalNumber: digits,
+    region: null,
+    valid: false
+  };
+}
+
+function parseNational(metadata: PhoneRegionMetadata, digits: string): ParsedPhoneNumber {
+  if (digits.startsWith(metadata.internationalPrefix)) {
+    return parseInternational(digits.slice(metadata.internationalPrefix.length));
+  }
+
+  if (isValidLength(metadata, digits)) {
+    return buildParsed(metadata, digits);
+  }
+
+  const withoutTrunk = stripPrefix(digits, metadata.nationalPrefixes);
+  if (withoutTrunk !== digits && isValidLength(metadata, withoutTrunk)) {
+    return buildParsed(metadata, withoutTrunk);
+  }
+
+  // Country code written without the leading "+", for this region or another one
+  if (digits.startsWith(metadata.callingCode)) {
+    const parsed = parseNationalPart(metadata, digits.slice(metadata.callingCode.length));
+    if (parsed.valid) {
+      return parsed;
+    }
+  }
+
+  const international = parseInternational(digits);
+  if (international.valid) {
+    return international;
+  }
+
+  return buildParsed(metadata, withoutTrunk);
+}
+
+/**
+ * Parse a phone number into E.164.
+ *
+ * Numbers starting with "+" (or an international dialling prefix) carry their own country;
+ * anything else is read as a national number in `defaultRegion`. Pass `null` for sources
+ * that always send the country code without a "+", such as WhatsApp IDs.
+ */
+export function parsePhoneNumber(
+  input: string,
+  defaultRegion: string | null = defaultPhoneRegion()
+): ParsedPhoneNumber | null {
+  // Drop extensions and the "(0)" trunk marker common in UK and European formatting
+  const cleaned = String(input || '')
+    .trim()
+    .replace(/\s*(?:ext\.?|x|#)\s*\d+$/i, '')
+    .replace(/\(0\)/g, '');
+
+  const digits = cleaned.replace(/\D/g, '');
+  if (!digits || digits.length > MAX_E164_DIGITS + 4) {
+    return null;
+  }
+
+  if (cleaned.startsWith('+')) {
+    return parseInternational(digits);
+  }
+
+  const metadata = defaultRegion ? PHONE_REGIONS[defaultRegion.toUpperCase()] : undefined;
+  if (!metadata) {
+    return parseInternational(stripPrefix(digits, ['00']));
+  }
+
+  return parseNational(metadata, digits);
+}
+
+/**
+ * The single phone normalizer: every stored phone identity goes through here.
+ * Input without digits is returned trimmed so callers can decide how to reject it.
+ */
+export function normalizePhoneE164(input: string, defaultRegion: string | null = defaultPhoneRegion()): string {
+  const parsed = parsePhoneNumber(input, defaultRegion);
+  return parsed ? parsed.e164 : String(input || '').trim();
+}
+
+/**
+ * True when the number has a known country code and a valid length for that country
+ */
+export function isValidPhoneNumber(input: string, defaultRegion: string | null = defaultPhoneRegion()): boolean {
+  const parsed = parsePhoneNumber(input, defaultRegion);
+  return parsed !== null && parsed.valid && parsed.e164.length <= MAX_E164_DIGITS + 1;
+}
+
+/**
+ * Digits (and a leading "+") for substring search over stored numbers
+ */
+export function stripPhoneFormatting(input: string): string {
+  const s = String(input || '').trim();
   if (!s) return s;
-  // keep leading +, strip other non-digits
-  const kept = s.startsWith("+")
-    ? "+" + s.slice(1).replace(/[^\d]/g, "")
-    : s.replace(/[^\d]/g, "");
-  return kept;
-}
\ No newline at end of file
+  return s.startsWith('+')
+    ? '+' + s.slice(1).replace(/[^\d]/g, '')
+    : s.replace(/[^\d]/g, '');
+}
@@ -0,0 +1,154 @@
+/**
+ * Just enough of the Prometheus text exposition format for /metrics: counters and
+ * histograms kept in process, and families rendered from values read at scrape time.
+ */
+
+export type Labels = Record<string, string>;
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export type Sample = {
+  // Appended to the family name, e.g. `_bucket`
+  suffix?: string;
+  labels?: Labels;
+  value: number;
+};
+
+export type MetricFamily = {
+  name: string;
+  help: string;
+  type: MetricType;
+  samples: Sample[];
+};
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatValue = (value: number): string => {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+};
+
+const formatLabels = (labels: Labels = {}): string => {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+// Labels in a fixed order, so the same set always finds the same series
+const seriesKey = (labels: Labels): string =>
+  JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+export function renderFamilies(families: MetricFamily[]): string {
+  return families.map(family => [
+    `# HELP ${family.name} ${family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+    `# TYPE ${family.name} ${family.type}`,
+    ...family.samples.map(sample =>
+      `${family.name}${sample.suffix ?? ''}${formatLabels(sample.labels)} ${formatValue(sample.value)}`
+    )
+  ].join('\n')).join('\n') + '\n';
+}
+
+/**
+ * Samples of a histogram from per-bucket (not yet cumulative) counts keyed by upper bound
+ */
+export function histogramSamples(
+  labels: Labels,
+  buckets: Array<{ le: number; count: number }>,
+  sum: number
+): Sample[] {
+  const samples: Sample[] = [];
+  let cumulative = 0;
+
+  for (const bucket of [...buckets].sort((a, b) => a.le - b.le)) {
+    cumulative += bucket.count;
+    samples.push({ suffix: '_bucket', labels: { ...labels, le: formatValue(bucket.le) }, value: cumulative });
+  }
+  if (!buckets.some(bucket => bucket.le === Infinity)) {
+    samples.push({ suffix: '_bucket', labels: { ...labels, le: '+Inf' }, value: cumulative });
+  }
+
+  samples.push({ suffix: '_sum', labels, value: sum });
+  samples.push({ suffix: '_count', labels, value: cumulative });
+  return samples;
+}
+
+export class Counter {
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(private name: string, private help: string) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = seriesKey(labels);
+    const series = this.series.get(key) ?? { labels, value: 0 };
+    series.value += value;
+    this.series.set(key, series);
+  }
+
+  collect(): MetricFamily {
+    return {
+      name: this.name,
+      help: this.help,
+      type: 'counter',
+      samples: [...this.series.values()].map(({ labels, value }) => ({ labels, value }))
+    };
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+export class Histogram {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number }>();
+
+  // Bucket upper bounds, ascending; `+Inf` is implied
+  constructor(private name: string, private help: string, private bounds: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels);
+    const series = this.series.get(key) ?? { labels, counts: new Array(this.bounds.length + 1).fill(0), sum: 0 };
+    const index = this.bounds.findIndex(bound => value <= bound);
+    const bucket = index === -1 ? this.bounds.length : index;
+
+    series.counts[bucket] = (series.counts[bucket] ?? 0) + 1;
+    series.sum += value;
+    this.series.set(key, series);
+  }
+
+  collect(): MetricFamily {
+    const bounds = [...this.bounds, Infinity];
+
+    return {
+      name: this.name,
+      help: this.help,
+      type: 'histogram',
+      samples: [...this.series.values()].flatMap(({ labels, counts, sum }) =>
+        histogramSamples(labels, bounds.map((le, index) => ({ le, count: counts[index] ?? 0 })), sum)
+      )
+    };
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+// HTTP requests served by this process, labelled with the matched route rather than the raw path
+export const httpRequestsTotal = new Counter(
+  'crm_http_requests_total',
+  'HTTP requests served, by method, route and status code'
+);
+
+export const httpRequestDuration = new Histogram(
+  'crm_http_request_duration_seconds',
+  'HTTP request latency in seconds, by method and route',
+  [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+);
+
+// Fed by the queue manager's QueueEvents, which see jobs finished by every worker process
+export const queueJobsTotal = new Counter(
+  'crm_queue_jobs_total',
+  'Queue jobs finished, by queue and outcome'
+);
@@ -0,0 +1,173 @@
+import { ProviderType } from '@prisma/client';
+import { encryptSecret, decryptSecret, reencryptSecret } from '../encryption.js';
+
+export type ProviderConfig = Record<string, unknown>;
+
+export class MissingCredentialsError extends Error {
+  constructor(public fields: string[]) {
+    super(`Missing required credentials: ${fields.join(', ')}`);
+    this.name = 'MissingCredentialsError';
+  }
+}
+
+export interface ProviderCredentialSpec {
+  // Fields that must be present for the provider to work
+  required: string[];
+  // Fields that are encrypted at rest and never returned by the API
+  secrets: string[];
+  // Field used to sign or authenticate inbound webhooks, stored on Webhook.secret;
+  // null for providers we poll rather than receive webhooks from
+  webhookSecret: string | null;
+}
+
+export const PROVIDER_CREDENTIALS: Record<ProviderType, ProviderCredentialSpec> = {
+  twilio_sms: {
+    required: ['accountSid', 'authToken'],
+    secrets: ['authToken'],
+    webhookSecret: 'authToken'
+  },
+  twilio_voice: {
+    required: ['accountSid', 'authToken'],
+    secrets: ['authToken'],
+    webhookSecret: 'authToken'
+  },
+  whatsapp: {
+    required: ['phoneNumberId', 'accessToken', 'appSecret'],
+    secrets: ['accessToken', 'appSecret', 'verifyToken'],
+    webhookSecret: 'appSecret'
+  },
+  gmail: {
+    required: ['clientId', 'clientSecret', 'refreshToken'],
+    secrets: ['clientSecret', 'refreshToken', 'webhookToken'],
+    webhookSecret: 'webhookToken'
+  },
+  facebook: {
+    required: ['pageId', 'pageAccessToken', 'appSecret'],
+    secrets: ['pageAccessToken', 'appSecret', 'verifyToken'],
+    webhookSecret: 'appSecret'
+  },
+  instagram: {
+    required: ['accountId', 'accessToken', 'appSecret'],
+    secrets: ['accessToken', 'appSecret', 'verifyToken'],
+    webhookSecret: 'appSecret'
+  },
+  imap: {
+    // Optional: port, secure, mailboxes, sentMailbox, smtpPort, smtpSecure, smtpUsername
+    required: ['host', 'username', 'password', 'smtpHost'],
+    secrets: ['password', 'smtpPassword'],
+    webhookSecret: null
+  }
+};
+
+const asRecord = (value: unknown): ProviderConfig =>
+  value && typeof value === 'object' && !Array.isArray(value) ? { ...(value as ProviderConfig) } : {};
+
+/**
+ * List required credential fields that are missing or empty
+ */
+export function findMissingCredentials(type: ProviderType, plainConfig: ProviderConfig): string[] {
+  return PROVIDER_CREDENTIALS[type].required.filter(field => {
+    const value = plainConfig[field];
+    return value === undefined || value === null || value === '';
+  });
+}
+
+/**
+ * Throw a MissingCredentialsError unless a stored config still has every required field
+ */
+export function assertCompleteCredentials(type: ProviderType, storedConfig: unknown): void {
+  const missing = findMissingCredentials(type, decryptProviderConfig(type, storedConfig));
+  if (missing.length > 0) {
+    throw new MissingCredentialsError(missing);
+  }
+}
+
+/**
+ * Encrypt the secret fields of a plaintext provider config
+ */
+export function encryptProviderConfig(type: ProviderType, plainConfig: ProviderConfig): ProviderConfig {
+  const stored = asRecord(plainConfig);
+  for (const field of PROVIDER_CREDENTIALS[type].secrets) {
+    const value = stored[field];
+    if (typeof value === 'string' && value !== '') {
+      stored[field] = encryptSecret(value);
+    }
+  }
+  return stored;
+}
+
+/**
+ * Decrypt the secret fields of a stored provider config for internal use
+ */
+export function decryptProviderConfig(type: ProviderType, storedConfig: unknown): ProviderConfig {
+  const plain = asRecord(storedConfig);
+  for (const field of PROVIDER_CREDENTIALS[type].secrets) {
+    const value = plain[field];
+    if (typeof value === 'string') {
+      plain[field] = decryptSecret(value);
+    }
+  }
+  return plain;
+}
+
+/**
+ * A stored config with every secret under the current key, or null when none needed it
+ */
+export function reencryptProviderConfig(type: ProviderType, storedConfig: unknown): ProviderConfig | null {
+  const stored = asRecord(storedConfig);
+  let changed = false;
+
+  for (const field of PROVIDER_CREDENTIALS[type].secrets) {
+    const value = stored[field];
+    if (typeof value === 'string' && value !== '') {
+      const reencrypted = reencryptSecret(value);
+      changed = changed || reencrypted !== value;
+      stored[field] = reencrypted;
+    }
+  }
+
+  return changed ? stored : null;
+}
+
+/**
+ * Apply a partial update to a stored config. Secrets in the update are
+ * encrypted, omitted fields are kept and null removes a field.
+ */
+export function mergeProviderConfig(
+  type: ProviderType,
+  storedConfig: unknown,
+  updates: ProviderConfig
+): ProviderConfig {
+  const merged = asRecord(storedConfig);
+  const encryptedUpdates = encryptProviderConfig(type, updates);
+
+  for (const [field, value] of Object.entries(encryptedUpdates)) {
+    if (value === null) {
+      delete merged[field];
+    } else if (value !== undefined) {
+      merged[field] = value;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Strip secrets from a stored config, reporting which ones are set
+ */
+export function toPublicProviderConfig(
+  type: ProviderType,
+  storedConfig: unknown
+): { config: ProviderConfig; configuredSecrets: string[] } {
+  const config = asRecord(storedConfig);
+  const configuredSecrets: string[] = [];
+
+  for (const field of PROVIDER_CREDENTIALS[type].secrets) {
+    if (config[field] !== undefined && config[field] !== null && config[field] !== '') {
+      configuredSecrets.push(field);
+    }
+    delete config[field];
+  }
+
+  return { config, configuredSecrets };
+}
@@ -0,0 +1,29 @@
+import { config } from '../../config/index.js';
+import { ProviderConfig } from './credentials.js';
+import { providerRequest, describeProviderError, ProviderRequestError } from './http.js';
+
+/**
+ * Exchange the stored refresh token for a short-lived Gmail access token
+ */
+export async function fetchGoogleAccessToken(credentials: ProviderConfig): Promise<string> {
+  const response = await providerRequest(config.providers.googleOAuthTokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'refresh_token',
+      client_id: String(credentials['clientId'] ?? ''),
+      client_secret: String(credentials['clientSecret'] ?? ''),
+      refresh_token: String(credentials['refreshToken'] ?? '')
+    }).toString()
+  });
+
+  if (!response.ok || typeof response.body?.access_token !== 'string') {
+    throw new ProviderRequestError(
+      `Google token exchange failed: ${describeProviderError(response)}`,
+      response.status,
+      response.body
+    );
+  }
+
+  return response.body.access_token;
+}
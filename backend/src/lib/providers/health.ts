@@ -0,0 +1,154 @@
+import { ProviderType } from '@prisma/client';
+import { config } from '../../config/index.js';
+import { createLogger } from '../logger.js';
+import { ProviderConfig, findMissingCredentials } from './credentials.js';
+import { providerRequest, basicAuth, describeProviderError, ProviderRequestError } from './http.js';
+import { fetchGoogleAccessToken } from './google.js';
+import { mailServerSettings, createImapClient, createSmtpTransport } from './imap.js';
+
+const logger = createLogger('provider-health');
+
+export interface ProviderHealthResult {
+  healthy: boolean;
+  message: string;
+  latencyMs: number;
+  details?: Record<string, unknown>;
+}
+
+type HealthCheck = (credentials: ProviderConfig) => Promise<{ message: string; details?: Record<string, unknown> }>;
+
+const checkTwilio: HealthCheck = async (credentials) => {
+  const accountSid = String(credentials['accountSid']);
+  const response = await providerRequest(
+    `${config.providers.twilioApiBaseUrl}/2010-04-01/Accounts/${encodeURIComponent(accountSid)}.json`,
+    { headers: { Authorization: basicAuth(accountSid, String(credentials['authToken'])) } }
+  );
+
+  if (!response.ok) {
+    throw new ProviderRequestError(describeProviderError(response), response.status);
+  }
+  if (response.body?.status && response.body.status !== 'active') {
+    throw new ProviderRequestError(`Twilio account is ${response.body.status}`);
+  }
+
+  return {
+    message: `Connected to Twilio account ${response.body?.friendly_name ?? accountSid}`,
+    details: { accountStatus: response.body?.status }
+  };
+};
+
+const checkMetaNode = (nodeField: string, tokenField: string): HealthCheck => async (credentials) => {
+  const nodeId = String(credentials[nodeField]);
+  const response = await providerRequest(
+    `${config.providers.metaGraphApiBaseUrl}/${encodeURIComponent(nodeId)}`,
+    { headers: { Authorization: `Bearer ${String(credentials[tokenField])}` } }
+  );
+
+  if (!response.ok) {
+    throw new ProviderRequestError(describeProviderError(response), response.status);
+  }
+
+  const label = response.body?.display_phone_number || response.body?.name || response.body?.username || nodeId;
+  return {
+    message: `Connected to ${label}`,
+    details: { id: response.body?.id ?? nodeId }
+  };
+};
+
+const checkGmail: HealthCheck = async (credentials) => {
+  const accessToken = await fetchGoogleAccessToken(credentials);
+  const response = await providerRequest(`${config.providers.gmailApiBaseUrl}/users/me/profile`, {
+    headers: { Authorization: `Bearer ${accessToken}` }
+  });
+
+  if (!response.ok) {
+    throw new ProviderRequestError(describeProviderError(response), response.status);
+  }
+
+  return {
+    message: `Connected to mailbox ${response.body?.emailAddress}`,
+    details: { emailAddress: response.body?.emailAddress }
+  };
+};
+
+const checkImap: HealthCheck = async (credentials) => {
+  const settings = mailServerSettings(credentials);
+  const client = createImapClient(credentials);
+
+  try {
+    await client.connect();
+  } catch (error) {
+    throw new ProviderRequestError(`IMAP login to ${settings.imap.host} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  let idle: boolean;
+  try {
+    idle = client.capabilities.has('IDLE');
+    for (const mailbox of [...settings.mailboxes, ...(settings.sentMailbox ? [settings.sentMailbox] : [])]) {
+      await client.status(mailbox, { messages: true });
+    }
+  } finally {
+    await client.logout().catch(() => client.close());
+  }
+
+  const transport = createSmtpTransport(credentials);
+  try {
+    await transport.verify();
+  } catch (error) {
+    throw new ProviderRequestError(`SMTP login to ${settings.smtp.host} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  } finally {
+    transport.close();
+  }
+
+  return {
+    message: `Connected to mailbox ${settings.imap.username} on ${settings.imap.host}`,
+    // Without IDLE new mail only arrives on the poll interval
+    details: { idle, mailboxes: settings.mailboxes, sentMailbox: settings.sentMailbox ?? null }
+  };
+};
+
+const HEALTH_CHECKS: Record<ProviderType, HealthCheck> = {
+  twilio_sms: checkTwilio,
+  twilio_voice: checkTwilio,
+  whatsapp: checkMetaNode('phoneNumberId', 'accessToken'),
+  facebook: checkMetaNode('pageId', 'pageAccessToken'),
+  instagram: checkMetaNode('accountId', 'accessToken'),
+  gmail: checkGmail,
+  imap: checkImap
+};
+
+export class ProviderHealthChecker {
+  /**
+   * Verify provider credentials with a cheap authenticated read against the provider API
+   */
+  static async check(type: ProviderType, credentials: ProviderConfig): Promise<ProviderHealthResult> {
+    const startTime = Date.now();
+
+    const missing = findMissingCredentials(type, credentials);
+    if (missing.length > 0) {
+      return {
+        healthy: false,
+        message: `Missing credentials: ${missing.join(', ')}`,
+        latencyMs: 0
+      };
+    }
+
+    try {
+      const result = await HEALTH_CHECKS[type](credentials);
+      return {
+        healthy: true,
+        message: result.message,
+        latencyMs: Date.now() - startTime,
+        ...(result.details && { details: result.details })
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn({ providerType: type, error: message }, 'Provider health check failed');
+      return {
+        healthy: false,
+        message,
+        latencyMs: Date.now() - startTime
+      };
+    }
+  }
+}
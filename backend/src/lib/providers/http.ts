@@ -0,0 +1,140 @@
+import { config } from '../../config/index.js';
+
+export interface ProviderResponse<T = any> {
+  ok: boolean;
+  status: number;
+  body: T;
+}
+
+export class ProviderRequestError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public body?: unknown
+  ) {
+    super(message);
+    this.name = 'ProviderRequestError';
+  }
+}
+
+/**
+ * Download refused because the body is over the size limit
+ */
+export class DownloadTooLargeError extends ProviderRequestError {
+  constructor(size: number, maxBytes: number, status?: number) {
+    super(`Media of ${size} bytes exceeds the ${maxBytes} byte limit`, status);
+    this.name = 'DownloadTooLargeError';
+  }
+}
+
+/**
+ * fetch wrapper for provider APIs: applies the configured timeout and
+ * parses JSON bodies when the provider returns them
+ */
+export async function providerRequest<T = any>(url: string, init: RequestInit = {}): Promise<ProviderResponse<T>> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      signal: AbortSignal.timeout(config.providers.requestTimeoutMs)
+    });
+  } catch (error) {
+    const reason = error instanceof Error && error.name === 'TimeoutError'
+      ? `timed out after ${config.providers.requestTimeoutMs}ms`
+      : error instanceof Error ? error.message : 'network error';
+    throw new ProviderRequestError(`Request to ${new URL(url).host} failed: ${reason}`);
+  }
+
+  const text = await response.text();
+  let body: any = text;
+  if (text && (response.headers.get('content-type') || '').includes('json')) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = text;
+    }
+  }
+
+  return { ok: response.ok, status: response.status, body };
+}
+
+export interface ProviderDownload {
+  ok: boolean;
+  status: number;
+  data: Buffer;
+  contentType: string | null;
+  contentDisposition: string | null;
+}
+
+/**
+ * Binary GET for provider media, refusing bodies larger than `maxBytes`
+ */
+export async function providerDownload(
+  url: string,
+  init: RequestInit,
+  maxBytes: number
+): Promise<ProviderDownload> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      signal: AbortSignal.timeout(config.providers.requestTimeoutMs)
+    });
+  } catch (error) {
+    const reason = error instanceof Error && error.name === 'TimeoutError'
+      ? `timed out after ${config.providers.requestTimeoutMs}ms`
+      : error instanceof Error ? error.message : 'network error';
+    throw new ProviderRequestError(`Download from ${new URL(url).host} failed: ${reason}`);
+  }
+
+  const declaredLength = Number(response.headers.get('content-length') || 0);
+  if (declaredLength > maxBytes) {
+    await response.body?.cancel();
+    throw new DownloadTooLargeError(declaredLength, maxBytes, response.status);
+  }
+
+  // The declared length can be missing or wrong, so count what actually arrives
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  if (response.body) {
+    const reader = response.body.getReader();
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      received += chunk.value.byteLength;
+      if (received > maxBytes) {
+        await reader.cancel();
+        throw new DownloadTooLargeError(received, maxBytes, response.status);
+      }
+      chunks.push(chunk.value);
+    }
+  }
+  const data = Buffer.concat(chunks, received);
+
+  return {
+    ok: response.ok,
+    status: response.status,
+    data,
+    contentType: response.headers.get('content-type'),
+    contentDisposition: response.headers.get('content-disposition')
+  };
+}
+
+/**
+ * HTTP basic authorization header value
+ */
+export function basicAuth(username: string, password: string): string {
+  return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+}
+
+/**
+ * Best-effort error message from a provider error body
+ */
+export function describeProviderError(response: ProviderResponse): string {
+  const body = response.body;
+  if (body && typeof body === 'object') {
+    const message = body.error?.message || body.message || body.error_description || body.error;
+    if (typeof message === 'string') {
+      return `${message} (HTTP ${response.status})`;
+    }
+  }
+  return `HTTP ${response.status}`;
+}
@@ -0,0 +1,111 @@
+import { ImapFlow } from 'imapflow';
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from '../../config/index.js';
+import { ProviderConfig } from './credentials.js';
+
+export interface MailServerSettings {
+  imap: {
+    host: string;
+    port: number;
+    secure: boolean;
+    username: string;
+    password: string;
+  };
+  smtp: {
+    host: string;
+    port: number;
+    secure: boolean;
+    username: string;
+    password: string;
+  };
+  // Mailboxes read for incoming mail, INBOX unless configured
+  mailboxes: string[];
+  // Where our own sent mail is filed; synced as outbound mail when set
+  sentMailbox?: string;
+}
+
+const asBoolean = (value: unknown, fallback: boolean): boolean => {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'string' && value !== '') {
+    return value === 'true';
+  }
+  return fallback;
+};
+
+const asPort = (value: unknown, fallback: number): number => {
+  const port = Number(value);
+  return Number.isInteger(port) && port > 0 ? port : fallback;
+};
+
+const asList = (value: unknown): string[] => {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return items.map(item => String(item).trim()).filter(item => item !== '');
+};
+
+/**
+ * Read an IMAP provider's credentials. Ports follow the TLS settings (993/465 with TLS,
+ * 143/587 without) and SMTP logs in with the IMAP account unless given its own.
+ */
+export function mailServerSettings(credentials: ProviderConfig): MailServerSettings {
+  const secure = asBoolean(credentials['secure'], true);
+  const smtpSecure = asBoolean(credentials['smtpSecure'], secure);
+  const username = String(credentials['username'] ?? '');
+  const password = String(credentials['password'] ?? '');
+  const mailboxes = asList(credentials['mailboxes']);
+  const sentMailbox = typeof credentials['sentMailbox'] === 'string' ? credentials['sentMailbox'].trim() : '';
+
+  return {
+    imap: {
+      host: String(credentials['host'] ?? ''),
+      port: asPort(credentials['port'], secure ? 993 : 143),
+      secure,
+      username,
+      password
+    },
+    smtp: {
+      host: String(credentials['smtpHost'] ?? ''),
+      port: asPort(credentials['smtpPort'], smtpSecure ? 465 : 587),
+      secure: smtpSecure,
+      username: String(credentials['smtpUsername'] || username),
+      password: String(credentials['smtpPassword'] || password)
+    },
+    mailboxes: mailboxes.length > 0 ? mailboxes : ['INBOX'],
+    ...(sentMailbox && { sentMailbox })
+  };
+}
+
+/**
+ * Unconnected IMAP client for the provider's mailbox; callers connect and log out
+ */
+export function createImapClient(credentials: ProviderConfig): ImapFlow {
+  const { imap } = mailServerSettings(credentials);
+
+  return new ImapFlow({
+    host: imap.host,
+    port: imap.port,
+    secure: imap.secure,
+    auth: { user: imap.username, pass: imap.password },
+    logger: false,
+    connectionTimeout: config.providers.requestTimeoutMs,
+    greetingTimeout: config.providers.requestTimeoutMs
+  });
+}
+
+/**
+ * SMTP transport for replies. Without implicit TLS the connection is upgraded with STARTTLS when offered.
+ */
+export function createSmtpTransport(credentials: ProviderConfig): Transporter {
+  const { smtp } = mailServerSettings(credentials);
+
+  return nodemailer.createTransport({
+    host: smtp.host,
+    port: smtp.port,
+    secure: smtp.secure,
+    auth: { user: smtp.username, pass: smtp.password },
+    connectionTimeout: config.providers.requestTimeoutMs,
+    greetingTimeout: config.providers.requestTimeoutMs,
+    socketTimeout: config.providers.requestTimeoutMs
+  });
+}
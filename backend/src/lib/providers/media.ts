@@ -0,0 +1,331 @@
+import crypto from 'crypto';
+import { ProviderType } from '@prisma/client';
+import { simpleParser } from 'mailparser';
+import { config } from '../../config/index.js';
+import { ProviderConfig } from './credentials.js';
+import {
+  providerRequest,
+  providerDownload,
+  basicAuth,
+  describeProviderError,
+  ProviderRequestError,
+  ProviderDownload,
+  DownloadTooLargeError
+} from './http.js';
+import { fetchGoogleAccessToken } from './google.js';
+import { createImapClient } from './imap.js';
+
+/**
+ * What the normalizer recorded about a provider-hosted attachment
+ */
+export interface MediaReference {
+  // Provider URL or placeholder (whatsapp://media/{id}, gmail://attachment/{id}, imap://{mailbox}/...)
+  url: string;
+  metadata: Record<string, unknown>;
+  providerMessageId: string;
+  mimeType?: string;
+  filename?: string;
+}
+
+export interface FetchedMedia {
+  data: Buffer;
+  contentType: string;
+  filename: string;
+  sha256: string;
+}
+
+export type MediaFetcher = (
+  credentials: ProviderConfig,
+  reference: MediaReference,
+  maxBytes: number
+) => Promise<FetchedMedia>;
+
+/**
+ * A download the provider refused (4xx) or a reference we will not follow; retrying will not help
+ */
+export class MediaRejectedError extends ProviderRequestError {
+  constructor(message: string, status?: number, body?: unknown) {
+    super(message, status, body);
+    this.name = 'MediaRejectedError';
+  }
+}
+
+/**
+ * Downloaded bytes do not match the hash the provider published
+ */
+export class MediaIntegrityError extends ProviderRequestError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaIntegrityError';
+  }
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/amr': 'amr',
+  'video/mp4': 'mp4',
+  'video/3gpp': '3gp',
+  'application/pdf': 'pdf',
+  'text/plain': 'txt',
+  'text/vcard': 'vcf'
+};
+
+const baseMimeType = (contentType: string | null | undefined): string =>
+  (contentType || 'application/octet-stream').split(';')[0]!.trim().toLowerCase();
+
+/**
+ * Filename for stored media: the provider's, else `{id}.{extension for the mime type}`
+ */
+export function mediaFilename(id: string, contentType: string, ...candidates: Array<string | null | undefined>): string {
+  const provided = candidates.find((name): name is string => typeof name === 'string' && name.trim() !== '');
+  if (provided) {
+    return provided.trim();
+  }
+  return `${id}.${EXTENSIONS[baseMimeType(contentType)] ?? 'bin'}`;
+}
+
+const dispositionFilename = (header: string | null): string | undefined => {
+  const match = header?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+  return match ? decodeURIComponent(match[1]!) : undefined;
+};
+
+const failDownload = (provider: string, response: { ok: boolean; status: number; body?: any }): never => {
+  const message = `${provider} media download failed: ${describeProviderError({ ...response, body: response.body })}`;
+  if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+    throw new MediaRejectedError(message, response.status, response.body);
+  }
+  throw new ProviderRequestError(message, response.status, response.body);
+};
+
+// Oversized media stays oversized, so it is a rejection rather than a retryable failure
+const download = async (url: string, init: RequestInit, maxBytes: number): Promise<ProviderDownload> => {
+  try {
+    return await providerDownload(url, init, maxBytes);
+  } catch (error) {
+    if (error instanceof DownloadTooLargeError) {
+      throw new MediaRejectedError(error.message, error.status);
+    }
+    throw error;
+  }
+};
+
+const sha256Hex = (data: Buffer): string => crypto.createHash('sha256').update(data).digest('hex');
+
+const fetchTwilioMedia: MediaFetcher = async (credentials, reference, maxBytes) => {
+  // Credentials only go to the Twilio API host; media redirects to its CDN from there
+  const url = new URL(reference.url);
+  if (url.host !== new URL(config.providers.twilioApiBaseUrl).host) {
+    throw new MediaRejectedError(`Twilio media URL is not on the Twilio API host: ${url.host}`);
+  }
+
+  const accountSid = String(credentials['accountSid']);
+  const response = await download(reference.url, {
+    headers: { Authorization: basicAuth(accountSid, String(credentials['authToken'])) }
+  }, maxBytes);
+  if (!response.ok) {
+    return failDownload('Twilio', { ok: false, status: response.status });
+  }
+
+  const contentType = baseMimeType(response.contentType ?? reference.mimeType);
+  const mediaSid = url.pathname.split('/').filter(Boolean).pop() ?? 'media';
+
+  return {
+    data: response.data,
+    contentType,
+    filename: mediaFilename(mediaSid, contentType, dispositionFilename(response.contentDisposition), reference.filename),
+    sha256: sha256Hex(response.data)
+  };
+};
+
+const fetchWhatsAppMedia: MediaFetcher = async (credentials, reference, maxBytes) => {
+  const mediaId = typeof reference.metadata['whatsappId'] === 'string'
+    ? reference.metadata['whatsappId']
+    : reference.url.match(/^whatsapp:\/\/media\/(.+)$/)?.[1];
+  if (!mediaId) {
+    throw new MediaRejectedError(`No WhatsApp media ID in ${reference.url}`);
+  }
+
+  const authorization = `Bearer ${String(credentials['accessToken'])}`;
+
+  // Media IDs resolve to a short-lived download URL that needs the same token
+  const lookup = await providerRequest(
+    `${config.providers.metaGraphApiBaseUrl}/${encodeURIComponent(mediaId)}`,
+    { headers: { Authorization: authorization } }
+  );
+  if (!lookup.ok || typeof lookup.body?.url !== 'string') {
+    return failDownload('WhatsApp', lookup);
+  }
+
+  const response = await download(lookup.body.url, { headers: { Authorization: authorization } }, maxBytes);
+  if (!response.ok) {
+    return failDownload('WhatsApp', { ok: false, status: response.status });
+  }
+
+  // Webhooks publish the hash base64-encoded, the media endpoint as hex; accept either
+  const expected = reference.metadata['sha256'] ?? lookup.body.sha256;
+  const digest = crypto.createHash('sha256').update(response.data);
+  const hex = digest.copy().digest('hex');
+  const base64 = digest.digest('base64');
+  if (typeof expected === 'string' && expected !== '' && expected !== hex && expected !== base64) {
+    throw new MediaIntegrityError(`WhatsApp media ${mediaId} failed its sha256 check`);
+  }
+
+  const contentType = baseMimeType(lookup.body.mime_type ?? response.contentType ?? reference.mimeType);
+
+  return {
+    data: response.data,
+    contentType,
+    filename: mediaFilename(mediaId, contentType, reference.filename, reference.metadata['filename'] as string | undefined),
+    sha256: hex
+  };
+};
+
+const fetchGmailAttachment: MediaFetcher = async (credentials, reference, maxBytes) => {
+  const attachmentId = typeof reference.metadata['attachmentId'] === 'string'
+    ? reference.metadata['attachmentId']
+    : reference.url.match(/^gmail:\/\/attachment\/(.+)$/)?.[1];
+  if (!attachmentId) {
+    throw new MediaRejectedError(`No Gmail attachment ID in ${reference.url}`);
+  }
+
+  const accessToken = await fetchGoogleAccessToken(credentials);
+  const response = await providerRequest(
+    `${config.providers.gmailApiBaseUrl}/users/me/messages/${encodeURIComponent(reference.providerMessageId)}/attachments/${encodeURIComponent(attachmentId)}`,
+    { headers: { Authorization: `Bearer ${accessToken}` } }
+  );
+  if (!response.ok || typeof response.body?.data !== 'string') {
+    return failDownload('Gmail', response);
+  }
+
+  const data = Buffer.from(response.body.data, 'base64url');
+  if (data.length > maxBytes) {
+    throw new MediaRejectedError(new DownloadTooLargeError(data.length, maxBytes).message);
+  }
+
+  const contentType = baseMimeType(reference.mimeType);
+
+  return {
+    data,
+    contentType,
+    filename: mediaFilename(attachmentId.slice(0, 32), contentType, reference.filename),
+    sha256: sha256Hex(data)
+  };
+};
+
+/**
+ * IMAP attachments live inside the message source: re-read the message by UID and
+ * take the part back out, matched by checksum and else by position
+ */
+const fetchImapAttachment: MediaFetcher = async (credentials, reference, maxBytes) => {
+  const mailbox = reference.metadata['mailbox'];
+  const uid = Number(reference.metadata['uid']);
+  const uidValidity = String(reference.metadata['uidValidity'] ?? '');
+  if (typeof mailbox !== 'string' || !Number.isInteger(uid) || uid <= 0) {
+    throw new MediaRejectedError(`No IMAP message location in ${reference.url}`);
+  }
+
+  const client = createImapClient(credentials);
+  let source: Buffer;
+  try {
+    await client.connect();
+  } catch (error) {
+    throw new ProviderRequestError(`IMAP login failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  try {
+    const lock = await client.getMailboxLock(mailbox, { readOnly: true });
+    try {
+      // A new UIDVALIDITY means the UIDs we recorded now name other messages, or none
+      const current = client.mailbox ? String(client.mailbox.uidValidity) : '';
+      if (current !== uidValidity) {
+        throw new MediaRejectedError(`Mailbox ${mailbox} UIDVALIDITY changed from ${uidValidity} to ${current}`);
+      }
+
+      const message = await client.fetchOne(String(uid), { uid: true, source: true }, { uid: true });
+      if (!message || !message.source) {
+        throw new MediaRejectedError(`Message ${uid} is no longer in mailbox ${mailbox}`);
+      }
+      source = message.source;
+    } finally {
+      lock.release();
+    }
+  } finally {
+    await client.logout().catch(() => client.close());
+  }
+
+  const { attachments } = await simpleParser(source);
+  const checksum = reference.metadata['checksum'];
+  const attachment = attachments.find(candidate => typeof checksum === 'string' && candidate.checksum === checksum)
+    ?? attachments[Number(reference.metadata['index'])];
+  if (!attachment) {
+    throw new MediaRejectedError(`Attachment not found in message ${uid} of ${mailbox}`);
+  }
+  if (attachment.content.length > maxBytes) {
+    throw new MediaRejectedError(new DownloadTooLargeError(attachment.content.length, maxBytes).message);
+  }
+
+  const contentType = baseMimeType(attachment.contentType ?? reference.mimeType);
+
+  return {
+    data: attachment.content,
+    contentType,
+    filename: mediaFilename(`${uid}-${attachment.checksum.slice(0, 8)}`, contentType, attachment.filename, reference.filename),
+    sha256: sha256Hex(attachment.content)
+  };
+};
+
+const isMetaMediaHost = (host: string): boolean =>
+  config.providers.metaMediaHosts.some(allowed => host === allowed || host.endsWith(`.${allowed}`));
+
+/**
+ * Messenger and Instagram attachments are signed CDN URLs that need no credentials;
+ * anything off Meta's CDN is refused so a webhook can't point us at internal hosts
+ */
+const fetchMetaMedia: MediaFetcher = async (_credentials, reference, maxBytes) => {
+  let url: URL;
+  try {
+    url = new URL(reference.url);
+  } catch {
+    throw new MediaRejectedError(`Invalid Meta media URL: ${reference.url}`);
+  }
+  if (!isMetaMediaHost(url.hostname.toLowerCase())) {
+    throw new MediaRejectedError(`Meta media URL is not on an allowed host: ${url.host}`);
+  }
+
+  const response = await download(url.toString(), {}, maxBytes);
+  if (!response.ok) {
+    return failDownload('Meta', { ok: false, status: response.status });
+  }
+
+  const contentType = baseMimeType(response.contentType ?? reference.mimeType);
+  const sha256 = sha256Hex(response.data);
+
+  return {
+    data: response.data,
+    contentType,
+    filename: mediaFilename(sha256.slice(0, 16), contentType, dispositionFilename(response.contentDisposition), reference.filename),
+    sha256
+  };
+};
+
+const FETCHERS: Partial<Record<ProviderType, MediaFetcher>> = {
+  twilio_sms: fetchTwilioMedia,
+  twilio_voice: fetchTwilioMedia,
+  whatsapp: fetchWhatsAppMedia,
+  gmail: fetchGmailAttachment,
+  imap: fetchImapAttachment,
+  facebook: fetchMetaMedia,
+  instagram: fetchMetaMedia
+};
+
+/**
+ * Media fetcher for a provider type, or undefined when the provider hosts no media
+ */
+export function getMediaFetcher(type: ProviderType): MediaFetcher | undefined {
+  return FETCHERS[type];
+}
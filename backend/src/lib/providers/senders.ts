@@ -0,0 +1,257 @@
+import { ProviderType } from '@prisma/client';
+import { config } from '../../config/index.js';
+import { ProviderConfig } from './credentials.js';
+import { providerRequest, basicAuth, describeProviderError, ProviderRequestError } from './http.js';
+import { fetchGoogleAccessToken } from './google.js';
+import { createSmtpTransport } from './imap.js';
+
+export interface OutboundMessage {
+  to: string;
+  from: string;
+  body: string;
+  subject?: string;
+  // Where the provider should post delivery receipts, when it supports per-message callbacks
+  statusCallbackUrl?: string;
+  // Provider identifiers of the message being answered, used to keep the reply in its thread
+  replyTo?: {
+    providerMessageId?: string;
+    threadId?: string;
+    messageIdHeader?: string;
+    references?: string;
+  };
+}
+
+export interface SendResult {
+  providerMessageId: string;
+  deliveryStatus: 'queued' | 'sent';
+  providerStatus?: string;
+  providerMeta: Record<string, unknown>;
+}
+
+export type MessageSender = (credentials: ProviderConfig, message: OutboundMessage) => Promise<SendResult>;
+
+/**
+ * A send the provider refused (4xx); retrying the same request will not help
+ */
+export class SendRejectedError extends ProviderRequestError {
+  constructor(message: string, status?: number, body?: unknown) {
+    super(message, status, body);
+    this.name = 'SendRejectedError';
+  }
+}
+
+const failSend = (provider: string, response: { ok: boolean; status: number; body: any }): never => {
+  const message = `${provider} send failed: ${describeProviderError(response)}`;
+  if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+    throw new SendRejectedError(message, response.status, response.body);
+  }
+  throw new ProviderRequestError(message, response.status, response.body);
+};
+
+const sendTwilioSms: MessageSender = async (credentials, message) => {
+  const accountSid = String(credentials['accountSid']);
+  const messagingServiceSid = credentials['messagingServiceSid'];
+
+  const form = new URLSearchParams({ To: message.to, Body: message.body });
+  if (typeof messagingServiceSid === 'string' && messagingServiceSid !== '') {
+    form.set('MessagingServiceSid', messagingServiceSid);
+  } else {
+    form.set('From', message.from);
+  }
+  if (message.statusCallbackUrl) {
+    form.set('StatusCallback', message.statusCallbackUrl);
+  }
+
+  const response = await providerRequest(
+    `${config.providers.twilioApiBaseUrl}/2010-04-01/Accounts/${encodeURIComponent(accountSid)}/Messages.json`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: basicAuth(accountSid, String(credentials['authToken'])),
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: form.toString()
+    }
+  );
+
+  if (!response.ok || typeof response.body?.sid !== 'string') {
+    return failSend('Twilio', response);
+  }
+
+  return {
+    providerMessageId: response.body.sid,
+    deliveryStatus: response.body.status === 'sent' ? 'sent' : 'queued',
+    providerStatus: response.body.status,
+    providerMeta: {
+      twilioStatus: response.body.status,
+      numSegments: response.body.num_segments,
+      ...(messagingServiceSid ? { messagingServiceSid } : {})
+    }
+  };
+};
+
+const sendWhatsApp: MessageSender = async (credentials, message) => {
+  const phoneNumberId = String(credentials['phoneNumberId']);
+  const replyToId = message.replyTo?.providerMessageId;
+
+  const response = await providerRequest(
+    `${config.providers.metaGraphApiBaseUrl}/${encodeURIComponent(phoneNumberId)}/messages`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${String(credentials['accessToken'])}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to: message.to.replace(/^\+/, ''),
+        type: 'text',
+        text: { preview_url: false, body: message.body },
+        ...(replyToId && { context: { message_id: replyToId } })
+      })
+    }
+  );
+
+  const messageId = response.body?.messages?.[0]?.id;
+  if (!response.ok || typeof messageId !== 'string') {
+    return failSend('WhatsApp', response);
+  }
+
+  return {
+    providerMessageId: messageId,
+    deliveryStatus: 'queued',
+    providerStatus: response.body?.messages?.[0]?.message_status ?? 'accepted',
+    providerMeta: {
+      phoneNumberId,
+      waId: response.body?.contacts?.[0]?.wa_id,
+      ...(replyToId && { contextMessageId: replyToId })
+    }
+  };
+};
+
+// RFC 2047 encoded-word for header values outside plain ASCII
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+/**
+ * Build the RFC 822 message Gmail expects in `raw`
+ */
+export function buildMimeMessage(message: OutboundMessage): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject || '')}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset="UTF-8"',
+    'Content-Transfer-Encoding: base64'
+  ];
+
+  const inReplyTo = message.replyTo?.messageIdHeader;
+  if (inReplyTo) {
+    headers.push(`In-Reply-To: ${inReplyTo}`);
+    headers.push(`References: ${[message.replyTo?.references, inReplyTo].filter(Boolean).join(' ')}`);
+  }
+
+  const body = Buffer.from(message.body, 'utf8').toString('base64').replace(/(.{76})/g, '$1\r\n');
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
+
+const sendGmail: MessageSender = async (credentials, message) => {
+  const accessToken = await fetchGoogleAccessToken(credentials);
+  const threadId = message.replyTo?.threadId;
+
+  const response = await providerRequest(`${config.providers.gmailApiBaseUrl}/users/me/messages/send`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      raw: Buffer.from(buildMimeMessage(message), 'utf8').toString('base64url'),
+      ...(threadId && { threadId })
+    })
+  });
+
+  if (!response.ok || typeof response.body?.id !== 'string') {
+    return failSend('Gmail', response);
+  }
+
+  return {
+    providerMessageId: response.body.id,
+    deliveryStatus: 'sent',
+    providerStatus: 'sent',
+    providerMeta: {
+      gmailThreadId: response.body.threadId,
+      labelIds: response.body.labelIds,
+      subject: message.subject
+    }
+  };
+};
+
+// Permanent SMTP failures (5xx replies, refused logins) will fail again the same way
+const isPermanentSmtpError = (error: any): boolean =>
+  (typeof error?.responseCode === 'number' && error.responseCode >= 500) || error?.code === 'EAUTH';
+
+const sendSmtp: MessageSender = async (credentials, message) => {
+  const inReplyTo = message.replyTo?.messageIdHeader;
+  const references = [message.replyTo?.references, inReplyTo].filter(Boolean).join(' ');
+  const transport = createSmtpTransport(credentials);
+
+  let info: { messageId: string; accepted: unknown[]; rejected: unknown[]; response: string };
+  try {
+    info = await transport.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject || '',
+      text: message.body,
+      ...(inReplyTo && { inReplyTo, references })
+    });
+  } catch (error: any) {
+    const reason = `SMTP send failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    if (isPermanentSmtpError(error)) {
+      throw new SendRejectedError(reason, error.responseCode, error.response);
+    }
+    throw new ProviderRequestError(reason, error?.responseCode, error?.response);
+  } finally {
+    transport.close();
+  }
+
+  // The server took the message but refused every recipient
+  if (info.accepted.length === 0 && info.rejected.length > 0) {
+    throw new SendRejectedError(`SMTP server rejected recipient ${message.to}`, undefined, info.response);
+  }
+
+  return {
+    providerMessageId: info.messageId,
+    deliveryStatus: 'sent',
+    providerStatus: 'sent',
+    providerMeta: {
+      subject: message.subject,
+      smtpResponse: info.response,
+      // Kept like an ingested message's headers so the next reply threads under this one
+      headers: {
+        'message-id': info.messageId,
+        ...(references && { references })
+      }
+    }
+  };
+};
+
+const SENDERS: Partial<Record<ProviderType, MessageSender>> = {
+  twilio_sms: sendTwilioSms,
+  whatsapp: sendWhatsApp,
+  gmail: sendGmail,
+  imap: sendSmtp
+};
+
+/**
+ * Sender for a provider type, or undefined when the provider cannot send messages
+ */
+export function getSender(type: ProviderType): MessageSender | undefined {
+  return SENDERS[type];
+}
+
+export function supportsOutbound(type: ProviderType): boolean {
+  return type in SENDERS;
+}
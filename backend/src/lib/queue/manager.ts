@@ -1,6 +1,7 @@
 import { Queue, QueueEvents, FlowProducer } from 'bullmq';
 import { getRedisConnection } from '../redis.js';
 import logger from '../logger.js';
+import { queueJobsTotal } from '../prometheus.js';
 import {
   QueueName,
   QUEUE_NAMES,
@@ -9,7 +10,14 @@ import {
   WebhookJobData,
   MessageIngestionJobData,
   NotificationJobData,
+  OutboundMessageJobData,
+  AttachmentFetchJobData,
+  AttachmentThumbnailJobData,
+  ATTACHMENT_THUMBNAIL_JOB,
   ArchiveJobData,
+  DuplicateScanJobData,
+  PhoneRenormalizationJobData,
+  DeadLetterReplayJobData,
   HealthCheckJobData,
   QueueMetrics,
   JobPriority
@@ -73,10 +81,12 @@ export class QueueManager {
 
   private setupQueueEventListeners(queueName: QueueName, queueEvents: QueueEvents): void {
     queueEvents.on('completed', ({ jobId, returnvalue }) => {
+      queueJobsTotal.inc({ queue: queueName, outcome: 'completed' });
       logger.info(`Job completed in ${queueName}`, { jobId, returnvalue });
     });
 
     queueEvents.on('failed', ({ jobId, failedReason }) => {
+      queueJobsTotal.inc({ queue: queueName, outcome: 'failed' });
       logger.error(`Job failed in ${queueName}`, { jobId, failedReason });
     });
 
@@ -85,6 +95,7 @@ export class QueueManager {
     });
 
     queueEvents.on('stalled', ({ jobId }) => {
+      queueJobsTotal.inc({ queue: queueName, outcome: 'stalled' });
       logger.warn(`Job stalled in ${queueName}`, { jobId });
     });
 
@@ -183,9 +194,69 @@ export class QueueManager {
     return job.id!;
   }
 
+  async addOutboundMessageJob(
+    data: OutboundMessageJobData,
+    options: QueueJobOptions = {}
+  ): Promise<string> {
+    const queue = this.getQueue(QUEUE_NAMES.OUTBOUND_MESSAGES);
+    const jobOptions = { ...DEFAULT_JOB_OPTIONS[QUEUE_NAMES.OUTBOUND_MESSAGES], ...options };
+
+    const job = await queue.add('send-message', data, jobOptions);
+
+    logger.info('Outbound message job added', {
+      jobId: job.id,
+      conversationId: data.conversationId,
+      providerId: data.providerId,
+      channel: data.channel
+    });
+
+    return job.id!;
+  }
+
+  async addAttachmentFetchJob(
+    data: AttachmentFetchJobData,
+    options: QueueJobOptions = {}
+  ): Promise<string> {
+    const queue = this.getQueue(QUEUE_NAMES.ATTACHMENTS);
+    // One fetch per attachment at a time; re-enqueueing a pending fetch is a no-op
+    const jobOptions = {
+      ...DEFAULT_JOB_OPTIONS[QUEUE_NAMES.ATTACHMENTS],
+      jobId: `fetch-${data.attachmentId}`,
+      ...options
+    };
+
+    const job = await queue.add('fetch-attachment', data, jobOptions);
+
+    logger.info('Attachment fetch job added', {
+      jobId: job.id,
+      attachmentId: data.attachmentId,
+      messageId: data.messageId
+    });
+
+    return job.id!;
+  }
+
+  async addAttachmentThumbnailJob(
+    data: AttachmentThumbnailJobData,
+    options: QueueJobOptions = {}
+  ): Promise<string> {
+    const queue = this.getQueue(QUEUE_NAMES.ATTACHMENTS);
+    const jobOptions = { ...DEFAULT_JOB_OPTIONS[QUEUE_NAMES.ATTACHMENTS], ...options };
+
+    const job = await queue.add(ATTACHMENT_THUMBNAIL_JOB, data, jobOptions);
+
+    logger.info('Attachment thumbnail job added', {
+      jobId: job.id,
+      attachmentId: data.attachmentId,
+      messageId: data.messageId
+    });
+
+    return job.id!;
+  }
+
   async addMaintenanceJob(
     jobType: string,
-    data: ArchiveJobData | HealthCheckJobData,
+    data: ArchiveJobData | DuplicateScanJobData | PhoneRenormalizationJobData | DeadLetterReplayJobData | HealthCheckJobData,
     options: QueueJobOptions = {}
   ): Promise<string> {
     const queue = this.getQueue(QUEUE_NAMES.MAINTENANCE);
@@ -277,6 +348,13 @@ export class QueueManager {
     };
   }
 
+  /**
+   * Job counts by state, read without loading the jobs themselves
+   */
+  async getJobCounts(queueName: QueueName): Promise<Record<string, number>> {
+    return this.getQueue(queueName).getJobCounts('waiting', 'active', 'delayed', 'paused', 'completed', 'failed');
+  }
+
   async getAllQueueMetrics(): Promise<QueueMetrics[]> {
     const metrics: QueueMetrics[] = [];
     
@@ -1,22 +1,41 @@
-import { Job } from 'bullmq';
+import { Job, UnrecoverableError } from 'bullmq';
 import logger from '../logger.js';
-import { IngestionPipeline } from '../ingestion/pipeline.js';
+import { MessageIngestionPipeline } from '../ingestion/pipeline.js';
+import { IdempotencyManager } from '../ingestion/deduplication.js';
+import { DeadLetterQueue, DeadLetterBulkReplayReport } from '../ingestion/dead-letters.js';
+import { OutboundMessenger, OutboundError } from '../outbound.js';
+import { SendRejectedError } from '../providers/senders.js';
+import { DuplicateDetector, DuplicateScanReport } from '../duplicate-detection.js';
+import { PhoneRenormalizer, PhoneRenormalizationReport } from '../phone-renormalization.js';
+import { AttachmentFetcher, AttachmentFetchError } from '../attachment-fetch.js';
+import { MediaRejectedError } from '../providers/media.js';
+import { ThumbnailGenerator, ThumbnailError } from '../thumbnails.js';
 import {
   WebhookJobData,
   WebhookJobResult,
+  WebhookItemResult,
   MessageIngestionJobData,
   MessageIngestionJobResult,
   NotificationJobData,
   NotificationJobResult,
+  OutboundMessageJobData,
+  OutboundMessageJobResult,
+  AttachmentFetchJobData,
+  AttachmentFetchJobResult,
+  AttachmentThumbnailJobData,
+  AttachmentThumbnailJobResult,
   ArchiveJobData,
+  DuplicateScanJobData,
+  PhoneRenormalizationJobData,
+  DeadLetterReplayJobData,
   HealthCheckJobData
 } from './types.js';
-import { RawProviderMessage } from '../ingestion/types.js';
+import { RawProviderMessage, ChannelType } from '../ingestion/types.js';
 
 export class WebhookProcessor {
   static async processWebhook(job: Job<WebhookJobData>): Promise<WebhookJobResult> {
     const startTime = Date.now();
-    const { webhookId, providerId, providerType, payload, headers, signature, retry } = job.data;
+    const { webhookId, deliveryId, providerId, providerType, payload, headers, signature, timestamp } = job.data;
 
     try {
       logger.info('Processing webhook job', {
@@ -30,22 +49,25 @@ export class WebhookProcessor {
       // Update job progress
       await job.updateProgress(10);
 
-      // Create raw message from webhook data
+      // Create raw message from webhook data; the receipt time keeps idempotency keys stable across retries
       const rawMessage: RawProviderMessage = {
-        id: webhookId,
         providerId,
+        // Normalizers that can name the item replace this when splitting; the webhook ID is the same for every delivery
+        providerMessageId: deliveryId ?? job.id ?? webhookId,
         providerType,
         channel: inferChannelFromProvider(providerType),
         payload,
-        headers,
-        timestamp: new Date(),
-        signature
+        rawHeaders: headers,
+        timestamp,
+        ...(signature && { webhookSignature: signature })
       };
 
+      // One webhook can batch several messages and delivery receipts
+      const items = MessageIngestionPipeline.splitWebhook(rawMessage);
+
       await job.updateProgress(30);
 
-      // Process through ingestion pipeline
-      const ingestionResult = await IngestionPipeline.processMessage(rawMessage, {
+      const ingestionResults = await MessageIngestionPipeline.processMessageBatch(items, {
         skipDuplicateCheck: false,
         skipIdentityResolution: false,
         skipThreading: false,
@@ -54,22 +76,59 @@ export class WebhookProcessor {
 
       await job.updateProgress(80);
 
-      if (!ingestionResult.success) {
-        throw new Error(`Ingestion failed: ${ingestionResult.error?.message}`);
+      // Failed items are kept as dead letters; items that failed on an earlier attempt and went through now are closed
+      const attempt = job.attemptsMade + 1;
+      const retrying = attempt < (job.opts.attempts || 1);
+      for (const [index, ingestionResult] of ingestionResults.entries()) {
+        const item = items[index]!;
+        if (ingestionResult.status === 'failed') {
+          await DeadLetterQueue.recordFailure(item, ingestionResult, {
+            ...(job.id && { jobId: job.id }),
+            attempt,
+            retrying
+          });
+        } else if (job.attemptsMade > 0) {
+          await DeadLetterQueue.recordSuccess(item, ingestionResult.messageId);
+        }
+      }
+
+      const itemResults: WebhookItemResult[] = ingestionResults.map((ingestionResult, index) => ({
+        providerMessageId: items[index]!.providerMessageId,
+        status: ingestionResult.status === 'failed' ? 'failed' : ingestionResult.status === 'duplicate' ? 'duplicate' : 'success',
+        ...(ingestionResult.messageId && { messageId: ingestionResult.messageId }),
+        ...(ingestionResult.status === 'failed' && ingestionResult.error && {
+          error: { code: ingestionResult.error.code, message: ingestionResult.error.message }
+        })
+      }));
+
+      // Items that went through are deduplicated by their idempotency keys when the job is retried
+      const failed = itemResults.filter(item => item.status === 'failed');
+      if (failed.length > 0) {
+        logger.warn('Webhook items failed ingestion', {
+          jobId: job.id,
+          webhookId,
+          items: itemResults
+        });
+        throw new Error(
+          `Ingestion failed for ${failed.length} of ${itemResults.length} webhook items: ` +
+          failed.map(item => `${item.providerMessageId} (${item.error?.message ?? 'unknown error'})`).join(', ')
+        );
       }
 
       const processingTime = Date.now() - startTime;
 
       await job.updateProgress(100);
 
+      const firstMessageId = itemResults.find(item => item.messageId)?.messageId;
       const result: WebhookJobResult = {
         success: true,
-        messageId: ingestionResult.messageId,
+        ...(firstMessageId && { messageId: firstMessageId }),
         processingTime,
+        items: itemResults,
         metrics: {
-          stagesCompleted: ingestionResult.metrics?.stagesCompleted || [],
-          identityResolved: !!ingestionResult.customerId,
-          conversationCreated: !!ingestionResult.conversationId
+          stagesCompleted: [...new Set(ingestionResults.flatMap(item => item.processingMetrics.stagesCompleted))],
+          identityResolved: ingestionResults.some(item => !!item.identityResolution),
+          conversationCreated: ingestionResults.some(item => !!item.threadingContext?.conversationId)
         }
       };
 
@@ -77,6 +136,7 @@ export class WebhookProcessor {
         jobId: job.id,
         webhookId,
         messageId: result.messageId,
+        items: itemResults.length,
         processingTime
       });
 
@@ -122,6 +182,7 @@ export class MessageProcessor {
       providerType, 
       channel, 
       payload, 
+      timestamp,
       priority,
       options = {}
     } = job.data;
@@ -140,19 +201,18 @@ export class MessageProcessor {
 
       // Create raw message
       const rawMessage: RawProviderMessage = {
-        id: providerMessageId,
         providerId,
+        providerMessageId,
         providerType,
-        channel,
+        channel: channel as ChannelType,
         payload,
-        headers: {},
-        timestamp: new Date()
+        timestamp
       };
 
       await job.updateProgress(30);
 
       // Process with custom options
-      const ingestionResult = await IngestionPipeline.processMessage(rawMessage, {
+      const ingestionResult = await MessageIngestionPipeline.processMessage(rawMessage, {
         skipDuplicateCheck: options.skipDuplicateCheck || false,
         skipIdentityResolution: options.skipIdentityResolution || false,
         skipThreading: options.skipThreading || false,
@@ -161,19 +221,31 @@ export class MessageProcessor {
 
       await job.updateProgress(90);
 
-      if (!ingestionResult.success) {
+      if (ingestionResult.status === 'failed') {
+        await DeadLetterQueue.recordFailure(rawMessage, ingestionResult, {
+          ...(job.id && { jobId: job.id }),
+          attempt: job.attemptsMade + 1,
+          retrying: job.attemptsMade + 1 < (job.opts.attempts || 1)
+        });
         throw new Error(`Message processing failed: ${ingestionResult.error?.message}`);
       }
 
+      // An earlier attempt left a dead letter
+      if (job.attemptsMade > 0) {
+        await DeadLetterQueue.recordSuccess(rawMessage, ingestionResult.messageId);
+      }
+
       const processingTime = Date.now() - startTime;
 
       await job.updateProgress(100);
 
+      const customerId = ingestionResult.identityResolution?.customerId;
+      const conversationId = ingestionResult.threadingContext?.conversationId;
       const result: MessageIngestionJobResult = {
         success: true,
-        messageId: ingestionResult.messageId,
-        customerId: ingestionResult.customerId,
-        conversationId: ingestionResult.conversationId,
+        ...(ingestionResult.messageId && { messageId: ingestionResult.messageId }),
+        ...(customerId && { customerId }),
+        ...(conversationId && { conversationId }),
         processingTime
       };
 
@@ -326,6 +398,170 @@ export class NotificationProcessor {
   }
 }
 
+export class OutboundMessageProcessor {
+  static async processOutbound(job: Job<OutboundMessageJobData>): Promise<OutboundMessageJobResult> {
+    const startTime = Date.now();
+    const { conversationId, providerId, channel } = job.data;
+
+    try {
+      logger.info('Processing outbound message job', {
+        jobId: job.id,
+        conversationId,
+        providerId,
+        channel,
+        attempt: job.attemptsMade + 1
+      });
+
+      await job.updateProgress(20);
+
+      const { message, result } = await OutboundMessenger.deliver(job.data, job.id!);
+
+      await job.updateProgress(100);
+
+      return {
+        success: true,
+        messageId: message.id,
+        providerMessageId: result.providerMessageId,
+        processingTime: Date.now() - startTime
+      };
+
+    } catch (error) {
+      const errorInfo = {
+        code: error instanceof OutboundError ? error.code : error instanceof Error ? error.name : 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+
+      // Provider rejections and missing providers will fail the same way on every retry
+      const permanent = error instanceof SendRejectedError || error instanceof OutboundError;
+      const lastAttempt = job.attemptsMade + 1 >= (job.opts.attempts || 1);
+
+      logger.error('Outbound message job failed', {
+        jobId: job.id,
+        conversationId,
+        error: errorInfo,
+        permanent,
+        processingTime: Date.now() - startTime
+      });
+
+      if (permanent || lastAttempt) {
+        await OutboundMessenger.recordFailure(job.data, job.id!, errorInfo);
+      }
+
+      if (permanent) {
+        throw new UnrecoverableError(errorInfo.message);
+      }
+      throw error;
+    }
+  }
+}
+
+export class AttachmentProcessor {
+  static async processFetch(job: Job<AttachmentFetchJobData>): Promise<AttachmentFetchJobResult> {
+    const startTime = Date.now();
+    const { attachmentId, messageId } = job.data;
+
+    try {
+      logger.info('Processing attachment fetch job', {
+        jobId: job.id,
+        attachmentId,
+        messageId,
+        attempt: job.attemptsMade + 1
+      });
+
+      const { attachment, skipped } = await AttachmentFetcher.fetch(attachmentId);
+
+      await job.updateProgress(100);
+
+      return {
+        success: true,
+        attachmentId,
+        storageUrl: attachment.storageUrl,
+        ...(attachment.size !== null && { size: attachment.size }),
+        skipped,
+        processingTime: Date.now() - startTime
+      };
+
+    } catch (error) {
+      const errorInfo = {
+        code: error instanceof AttachmentFetchError ? error.code : error instanceof Error ? error.name : 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+
+      // Refused downloads and unsupported providers will fail the same way on every retry
+      const permanent = error instanceof MediaRejectedError || error instanceof AttachmentFetchError;
+      const lastAttempt = job.attemptsMade + 1 >= (job.opts.attempts || 1);
+
+      logger.error('Attachment fetch job failed', {
+        jobId: job.id,
+        attachmentId,
+        error: errorInfo,
+        permanent,
+        processingTime: Date.now() - startTime
+      });
+
+      if (permanent || lastAttempt) {
+        await AttachmentFetcher.recordFailure(attachmentId, errorInfo);
+      }
+
+      if (permanent) {
+        throw new UnrecoverableError(errorInfo.message);
+      }
+      throw error;
+    }
+  }
+
+  static async processThumbnail(job: Job<AttachmentThumbnailJobData>): Promise<AttachmentThumbnailJobResult> {
+    const startTime = Date.now();
+    const { attachmentId } = job.data;
+
+    try {
+      logger.info('Processing attachment thumbnail job', {
+        jobId: job.id,
+        attachmentId,
+        attempt: job.attemptsMade + 1
+      });
+
+      const attachment = await ThumbnailGenerator.generate(attachmentId);
+
+      await job.updateProgress(100);
+
+      return {
+        success: true,
+        attachmentId,
+        ...(attachment.thumbnailUrl && { thumbnailUrl: attachment.thumbnailUrl }),
+        processingTime: Date.now() - startTime
+      };
+
+    } catch (error) {
+      const errorInfo = {
+        code: error instanceof ThumbnailError ? error.code : error instanceof Error ? error.name : 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+
+      // Undecodable media and missing renderers will not change between retries
+      const permanent = error instanceof ThumbnailError;
+      const lastAttempt = job.attemptsMade + 1 >= (job.opts.attempts || 1);
+
+      logger.error('Attachment thumbnail job failed', {
+        jobId: job.id,
+        attachmentId,
+        error: errorInfo,
+        permanent,
+        processingTime: Date.now() - startTime
+      });
+
+      if (permanent || lastAttempt) {
+        await ThumbnailGenerator.recordFailure(attachmentId, errorInfo);
+      }
+
+      if (permanent) {
+        throw new UnrecoverableError(errorInfo.message);
+      }
+      throw error;
+    }
+  }
+}
+
 export class MaintenanceProcessor {
   static async processArchive(job: Job<ArchiveJobData>): Promise<void> {
     const { type, olderThan, batchSize = 1000, dryRun = false } = job.data;
@@ -352,6 +588,9 @@ export class MaintenanceProcessor {
         case 'audit_events':
           totalProcessed = await this.archiveAuditEvents(cutoffDate, batchSize, dryRun, job);
           break;
+        case 'idempotency_keys':
+          totalProcessed = await this.pruneIdempotencyKeys(dryRun, job);
+          break;
         default:
           throw new Error(`Unsupported archive type: ${type}`);
       }
@@ -408,6 +647,77 @@ export class MaintenanceProcessor {
     await job.updateProgress(50);
     return 0;
   }
+
+  /**
+   * Expired keys are already ignored and reclaimable; this only keeps the table small
+   */
+  private static async pruneIdempotencyKeys(dryRun: boolean, job: Job): Promise<number> {
+    logger.info('Pruning expired idempotency keys', { dryRun });
+    const deleted = dryRun ? 0 : await IdempotencyManager.clearExpiredEntries();
+    await job.updateProgress(100);
+    return deleted;
+  }
+
+  static async processDuplicateScan(job: Job<DuplicateScanJobData>): Promise<DuplicateScanReport> {
+    const { minScore, batchSize } = job.data;
+
+    logger.info('Processing duplicate customer scan', { jobId: job.id, minScore, batchSize });
+
+    const report = await DuplicateDetector.scan({
+      ...(minScore !== undefined && { minScore }),
+      ...(batchSize !== undefined && { batchSize })
+    });
+    await job.updateProgress(100);
+
+    logger.info('Duplicate customer scan completed', { jobId: job.id, ...report });
+
+    return report;
+  }
+
+  static async processPhoneRenormalization(
+    job: Job<PhoneRenormalizationJobData>
+  ): Promise<PhoneRenormalizationReport> {
+    const { dryRun, batchSize } = job.data;
+
+    logger.info('Processing phone identity re-normalization', { jobId: job.id, dryRun, batchSize });
+
+    const report = await PhoneRenormalizer.run({
+      ...(dryRun !== undefined && { dryRun }),
+      ...(batchSize !== undefined && { batchSize })
+    });
+    await job.updateProgress(100);
+
+    logger.info('Phone identity re-normalization completed', {
+      jobId: job.id,
+      ...report,
+      collisions: report.collisions.length,
+      threadKeyCollisions: report.threadKeyCollisions.length
+    });
+
+    return report;
+  }
+
+  static async processDeadLetterReplay(
+    job: Job<DeadLetterReplayJobData>
+  ): Promise<DeadLetterBulkReplayReport> {
+    const { errorCode, providerId, limit, requestedBy } = job.data;
+
+    logger.info('Processing dead letter replay', { jobId: job.id, errorCode, providerId, limit });
+
+    const results = await DeadLetterQueue.replayByErrorCode(errorCode, {
+      ...(providerId && { providerId }),
+      limit,
+      ...(requestedBy && { userId: requestedBy })
+    });
+    await job.updateProgress(100);
+
+    const replayed = results.filter(result => result.status === 'replayed').length;
+    const report = { errorCode, replayed, failed: results.length - replayed, results };
+
+    logger.info('Dead letter replay completed', { jobId: job.id, errorCode, replayed, failed: report.failed });
+
+    return report;
+  }
 }
 
 export class HealthCheckProcessor {
@@ -505,13 +815,18 @@ export class HealthCheckProcessor {
 }
 
 // Helper function to infer channel from provider type
-function inferChannelFromProvider(providerType: string): string {
-  const channelMap: Record<string, string> = {
+function inferChannelFromProvider(providerType: string): ChannelType {
+  const channelMap: Record<string, ChannelType> = {
     'twilio-sms': 'sms',
+    'twilio_sms': 'sms',
+    'twilio_voice': 'voice',
     'twilio-whatsapp': 'whatsapp',
+    'whatsapp': 'whatsapp',
     'gmail': 'email',
+    'imap': 'email',
     'facebook': 'facebook',
     'instagram': 'instagram'
   };
-  return channelMap[providerType] || 'unknown';
+  // Raw message validation rejects the placeholder for unknown providers
+  return channelMap[providerType] || ('unknown' as ChannelType);
 }
\ No newline at end of file
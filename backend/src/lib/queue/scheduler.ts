@@ -5,7 +5,9 @@ import { queueMonitor } from './monitor.js';
 import {
   QueueName,
   QUEUE_NAMES,
+  DUPLICATE_SCAN_JOB,
   ArchiveJobData,
+  DuplicateScanJobData,
   HealthCheckJobData,
   NotificationJobData
 } from './types.js';
@@ -161,6 +163,33 @@ export class JobScheduler {
       { enabled: true }
     );
 
+    // Prune expired ingestion idempotency keys daily at 5 AM
+    await this.scheduleJob(
+      'prune-idempotency-keys',
+      'Daily Idempotency Key Pruning',
+      '0 5 * * *',
+      QUEUE_NAMES.MAINTENANCE,
+      {
+        type: 'idempotency_keys',
+        olderThan: new Date().toISOString(), // unused: each key carries its own expiry
+        dryRun: false
+      } as ArchiveJobData,
+      { enabled: true }
+    );
+
+    // Refresh duplicate customer suggestions nightly at 4 AM
+    await this.scheduleJob(
+      'duplicate-customer-scan',
+      'Nightly Duplicate Customer Scan',
+      '0 4 * * *',
+      QUEUE_NAMES.MAINTENANCE,
+      {
+        scan: 'duplicate_customers',
+        minScore: 0.5
+      } as DuplicateScanJobData,
+      { enabled: true }
+    );
+
     // Queue metrics report daily at 9 AM
     await this.scheduleJob(
       'daily-metrics-report',
@@ -409,6 +438,9 @@ function getMaintenanceJobType(jobData: any): string {
   if (jobData.type) {
     return `archive-${jobData.type}`;
   }
+  if (jobData.scan === 'duplicate_customers') {
+    return DUPLICATE_SCAN_JOB;
+  }
   return 'maintenance';
 }
 
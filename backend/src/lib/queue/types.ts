@@ -1,5 +1,8 @@
 export interface WebhookJobData {
+  // The provider's Webhook row, shared by every delivery it receives
   webhookId: string;
+  // Unique to this delivery; names the raw message when the payload has no ID of its own
+  deliveryId?: string;
   providerId: string;
   providerType: string;
   timestamp: string;
@@ -39,13 +42,76 @@ export interface NotificationJobData {
   scheduledFor?: string;
 }
 
+export interface OutboundMessageJobData {
+  conversationId: string;
+  customerId: string;
+  providerId: string;
+  providerType: string;
+  channel: string;
+  to: string;
+  from: string;
+  body: string;
+  subject?: string;
+  threadKey?: string;
+  replyTo?: {
+    providerMessageId?: string;
+    threadId?: string;
+    messageIdHeader?: string;
+    references?: string;
+  };
+  requestedBy: string;
+  requestedAt: string;
+}
+
+export interface AttachmentFetchJobData {
+  attachmentId: string;
+  messageId: string;
+  providerId: string;
+}
+
+// Attachments queue job name for rendering image and PDF previews
+export const ATTACHMENT_THUMBNAIL_JOB = 'generate-thumbnail';
+
+export interface AttachmentThumbnailJobData {
+  attachmentId: string;
+  messageId: string;
+}
+
 export interface ArchiveJobData {
-  type: 'conversations' | 'messages' | 'audit_events';
+  type: 'conversations' | 'messages' | 'audit_events' | 'idempotency_keys';
   olderThan: string; // ISO date
   batchSize?: number;
   dryRun?: boolean;
 }
 
+// Maintenance job name for the duplicate customer scan
+export const DUPLICATE_SCAN_JOB = 'duplicate-scan';
+
+export interface DuplicateScanJobData {
+  scan: 'duplicate_customers';
+  minScore?: number;
+  batchSize?: number;
+}
+
+// Maintenance job name for re-normalizing stored phone identities to E.164
+export const PHONE_RENORMALIZATION_JOB = 'phone-renormalization';
+
+export interface PhoneRenormalizationJobData {
+  migration: 'phone_e164';
+  dryRun?: boolean;
+  batchSize?: number;
+}
+
+// Maintenance job name for replaying dead letters that failed with one error code
+export const DEAD_LETTER_REPLAY_JOB = 'dead-letter-replay';
+
+export interface DeadLetterReplayJobData {
+  errorCode: string;
+  providerId?: string;
+  limit: number;
+  requestedBy?: string;
+}
+
 export interface HealthCheckJobData {
   services: string[];
   notifyOnFailure?: boolean;
@@ -68,6 +134,8 @@ export const QUEUE_NAMES = {
   WEBHOOK_INGESTION: 'webhook-ingestion',
   MESSAGE_PROCESSING: 'message-processing', 
   NOTIFICATIONS: 'notifications',
+  OUTBOUND_MESSAGES: 'outbound-messages',
+  ATTACHMENTS: 'attachments',
   MAINTENANCE: 'maintenance',
   HEALTH_CHECK: 'health-check'
 } as const;
@@ -120,6 +188,26 @@ export const DEFAULT_JOB_OPTIONS: Record<QueueName, QueueJobOptions> = {
     removeOnComplete: 25,
     removeOnFail: 10
   },
+  [QUEUE_NAMES.OUTBOUND_MESSAGES]: {
+    priority: JobPriority.HIGH,
+    attempts: 4,
+    backoff: {
+      type: 'exponential',
+      delay: 3000
+    },
+    removeOnComplete: 100,
+    removeOnFail: 50
+  },
+  [QUEUE_NAMES.ATTACHMENTS]: {
+    priority: JobPriority.NORMAL,
+    attempts: 5,
+    backoff: {
+      type: 'exponential',
+      delay: 5000
+    },
+    removeOnComplete: 100,
+    removeOnFail: 50
+  },
   [QUEUE_NAMES.MAINTENANCE]: {
     priority: JobPriority.LOW,
     attempts: 2,
@@ -143,10 +231,22 @@ export const DEFAULT_JOB_OPTIONS: Record<QueueName, QueueJobOptions> = {
 };
 
 // Job result interfaces
+export interface WebhookItemResult {
+  providerMessageId: string;
+  status: 'success' | 'duplicate' | 'failed';
+  messageId?: string;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
 export interface WebhookJobResult {
   success: boolean;
   messageId?: string;
   processingTime: number;
+  // One entry per message or status the webhook carried
+  items?: WebhookItemResult[];
   error?: {
     code: string;
     message: string;
@@ -182,6 +282,41 @@ export interface NotificationJobResult {
   };
 }
 
+export interface OutboundMessageJobResult {
+  success: boolean;
+  messageId?: string;
+  providerMessageId?: string;
+  processingTime: number;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+export interface AttachmentFetchJobResult {
+  success: boolean;
+  attachmentId: string;
+  storageUrl?: string;
+  size?: number;
+  skipped?: boolean;
+  processingTime: number;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+export interface AttachmentThumbnailJobResult {
+  success: boolean;
+  attachmentId: string;
+  thumbnailUrl?: string;
+  processingTime: number;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
 export interface QueueMetrics {
   queueName: string;
   waiting: number;
@@ -4,16 +4,28 @@ import logger from '../logger.js';
 import {
   QUEUE_NAMES,
   QueueName,
+  DUPLICATE_SCAN_JOB,
+  PHONE_RENORMALIZATION_JOB,
+  DEAD_LETTER_REPLAY_JOB,
+  ATTACHMENT_THUMBNAIL_JOB,
   WebhookJobData,
   MessageIngestionJobData,
   NotificationJobData,
+  OutboundMessageJobData,
+  AttachmentFetchJobData,
+  AttachmentThumbnailJobData,
   ArchiveJobData,
+  DuplicateScanJobData,
+  PhoneRenormalizationJobData,
+  DeadLetterReplayJobData,
   HealthCheckJobData
 } from './types.js';
 import {
   WebhookProcessor,
   MessageProcessor,
   NotificationProcessor,
+  OutboundMessageProcessor,
+  AttachmentProcessor,
   MaintenanceProcessor,
   HealthCheckProcessor
 } from './processors.js';
@@ -46,6 +58,8 @@ export class QueueWorker {
         [QUEUE_NAMES.WEBHOOK_INGESTION]: 10,
         [QUEUE_NAMES.MESSAGE_PROCESSING]: 5,
         [QUEUE_NAMES.NOTIFICATIONS]: 3,
+        [QUEUE_NAMES.OUTBOUND_MESSAGES]: 5,
+        [QUEUE_NAMES.ATTACHMENTS]: 3,
         [QUEUE_NAMES.MAINTENANCE]: 1,
         [QUEUE_NAMES.HEALTH_CHECK]: 1
       };
@@ -54,6 +68,8 @@ export class QueueWorker {
       await this.initializeWebhookWorker(connection, concurrency[QUEUE_NAMES.WEBHOOK_INGESTION] || defaultConcurrency[QUEUE_NAMES.WEBHOOK_INGESTION]);
       await this.initializeMessageWorker(connection, concurrency[QUEUE_NAMES.MESSAGE_PROCESSING] || defaultConcurrency[QUEUE_NAMES.MESSAGE_PROCESSING]);
       await this.initializeNotificationWorker(connection, concurrency[QUEUE_NAMES.NOTIFICATIONS] || defaultConcurrency[QUEUE_NAMES.NOTIFICATIONS]);
+      await this.initializeOutboundWorker(connection, concurrency[QUEUE_NAMES.OUTBOUND_MESSAGES] || defaultConcurrency[QUEUE_NAMES.OUTBOUND_MESSAGES]);
+      await this.initializeAttachmentWorker(connection, concurrency[QUEUE_NAMES.ATTACHMENTS] || defaultConcurrency[QUEUE_NAMES.ATTACHMENTS]);
       await this.initializeMaintenanceWorker(connection, concurrency[QUEUE_NAMES.MAINTENANCE] || defaultConcurrency[QUEUE_NAMES.MAINTENANCE]);
       await this.initializeHealthCheckWorker(connection, concurrency[QUEUE_NAMES.HEALTH_CHECK] || defaultConcurrency[QUEUE_NAMES.HEALTH_CHECK]);
 
@@ -135,11 +151,67 @@ export class QueueWorker {
     logger.info(`Notification worker initialized with concurrency ${concurrency}`);
   }
 
+  private async initializeOutboundWorker(connection: any, concurrency: number): Promise<void> {
+    const worker = new Worker(
+      QUEUE_NAMES.OUTBOUND_MESSAGES,
+      async (job: Job<OutboundMessageJobData>) => {
+        return await OutboundMessageProcessor.processOutbound(job);
+      },
+      {
+        connection: connection.duplicate(),
+        concurrency,
+        removeOnComplete: { count: 100 },
+        removeOnFail: { count: 50 },
+        stalledInterval: 30000,
+        maxStalledCount: 2
+      }
+    );
+
+    this.setupWorkerEventListeners(worker, QUEUE_NAMES.OUTBOUND_MESSAGES);
+    this.workers.set(QUEUE_NAMES.OUTBOUND_MESSAGES, worker);
+
+    logger.info(`Outbound message worker initialized with concurrency ${concurrency}`);
+  }
+
+  private async initializeAttachmentWorker(connection: any, concurrency: number): Promise<void> {
+    const worker = new Worker(
+      QUEUE_NAMES.ATTACHMENTS,
+      async (job: Job<AttachmentFetchJobData | AttachmentThumbnailJobData>) => {
+        if (job.name === ATTACHMENT_THUMBNAIL_JOB) {
+          return await AttachmentProcessor.processThumbnail(job as Job<AttachmentThumbnailJobData>);
+        }
+        return await AttachmentProcessor.processFetch(job as Job<AttachmentFetchJobData>);
+      },
+      {
+        connection: connection.duplicate(),
+        concurrency,
+        removeOnComplete: { count: 100 },
+        removeOnFail: { count: 50 },
+        stalledInterval: 30000,
+        maxStalledCount: 2
+      }
+    );
+
+    this.setupWorkerEventListeners(worker, QUEUE_NAMES.ATTACHMENTS);
+    this.workers.set(QUEUE_NAMES.ATTACHMENTS, worker);
+
+    logger.info(`Attachment worker initialized with concurrency ${concurrency}`);
+  }
+
   private async initializeMaintenanceWorker(connection: any, concurrency: number): Promise<void> {
     const worker = new Worker(
       QUEUE_NAMES.MAINTENANCE,
-      async (job: Job<ArchiveJobData>) => {
-        return await MaintenanceProcessor.processArchive(job);
+      async (job: Job<ArchiveJobData | DuplicateScanJobData | PhoneRenormalizationJobData | DeadLetterReplayJobData>) => {
+        if (job.name === DUPLICATE_SCAN_JOB) {
+          return await MaintenanceProcessor.processDuplicateScan(job as Job<DuplicateScanJobData>);
+        }
+        if (job.name === PHONE_RENORMALIZATION_JOB) {
+          return await MaintenanceProcessor.processPhoneRenormalization(job as Job<PhoneRenormalizationJobData>);
+        }
+        if (job.name === DEAD_LETTER_REPLAY_JOB) {
+          return await MaintenanceProcessor.processDeadLetterReplay(job as Job<DeadLetterReplayJobData>);
+        }
+        return await MaintenanceProcessor.processArchive(job as Job<ArchiveJobData>);
       },
       {
         connection: connection.duplicate(),
@@ -0,0 +1,38 @@
+import { config } from '../../config/index.js';
+import { LocalStorage } from './local.js';
+import { S3Storage } from './s3.js';
+import { StorageBackend, StorageError } from './types.js';
+
+export { LocalStorage } from './local.js';
+export { S3Storage } from './s3.js';
+export { parseRangeHeader } from './range.js';
+export * from './types.js';
+
+let storage: StorageBackend | undefined;
+
+function createStorage(): StorageBackend {
+  if (config.storage.driver === 's3') {
+    const { endpoint, bucket, accessKey, secretKey, region } = config.storage.s3;
+    if (!bucket || !accessKey || !secretKey) {
+      throw new StorageError('NOT_CONFIGURED', 'S3 storage requires S3_BUCKET, S3_ACCESS_KEY and S3_SECRET_KEY');
+    }
+    return new S3Storage({ endpoint, bucket, accessKey, secretKey, region });
+  }
+
+  return new LocalStorage(config.storage.localDir);
+}
+
+/**
+ * The configured attachment storage backend
+ */
+export function getStorage(): StorageBackend {
+  storage ??= createStorage();
+  return storage;
+}
+
+/**
+ * Whether a storage URL points at media we hold, as opposed to a provider reference
+ */
+export function isStoredUrl(storageUrl: string): boolean {
+  return /^(local|s3):\/\//.test(storageUrl);
+}
@@ -0,0 +1,78 @@
+import { promises as fs, createReadStream } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { StorageBackend, StoredObject, StorageError, ByteRange } from './types.js';
+
+/**
+ * Objects stored as files under a root directory; keys map to relative paths
+ */
+export class LocalStorage implements StorageBackend {
+  readonly driver = 'local' as const;
+  private readonly root: string;
+
+  constructor(rootDir: string) {
+    this.root = path.resolve(rootDir);
+  }
+
+  urlFor(key: string): string {
+    return `local://${key}`;
+  }
+
+  keyFromUrl(storageUrl: string): string | null {
+    return storageUrl.startsWith('local://') ? storageUrl.slice('local://'.length) : null;
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<StoredObject> {
+    const filePath = this.pathFor(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write then rename so readers never see a partial file
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+
+    return { key, storageUrl: this.urlFor(key), size: data.length };
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.pathFor(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new StorageError('NOT_FOUND', `No stored object at ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const filePath = this.pathFor(key);
+    // Open first so a missing file surfaces here rather than mid-response
+    await this.size(key);
+    return createReadStream(filePath, range ? { start: range.start, end: range.end } : {});
+  }
+
+  async size(key: string): Promise<number> {
+    try {
+      return (await fs.stat(this.pathFor(key))).size;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new StorageError('NOT_FOUND', `No stored object at ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+
+  // Keys come from our own naming, but never let one escape the storage root
+  private pathFor(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new StorageError('INVALID_KEY', `Storage key escapes the storage root: ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,33 @@
+import { ByteRange } from './types.js';
+
+/**
+ * Resolve an HTTP Range header against an object of `size` bytes.
+ * Returns null when the whole object should be sent (no header, an invalid one,
+ * or several ranges) and 'unsatisfiable' when the range starts past the end.
+ */
+export function parseRangeHeader(header: string | undefined, size: number): ByteRange | null | 'unsatisfiable' {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null;
+  }
+
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const length = Number(match[2]);
+    if (length === 0 || size === 0) {
+      return 'unsatisfiable';
+    }
+    return { start: Math.max(size - length, 0), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const last = match[2] === '' ? Infinity : Number(match[2]);
+  if (last < start) {
+    return null;
+  }
+  if (start >= size) {
+    return 'unsatisfiable';
+  }
+
+  return { start, end: Math.min(last, size - 1) };
+}
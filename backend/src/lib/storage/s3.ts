@@ -0,0 +1,169 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { ReadableStream } from 'stream/web';
+import { StorageBackend, StoredObject, StorageError, ByteRange } from './types.js';
+
+export type S3StorageOptions = {
+  // Custom endpoint for S3-compatible services (MinIO, R2, Spaces); path-style addressing
+  endpoint?: string | undefined;
+  bucket: string;
+  accessKey: string;
+  secretKey: string;
+  region: string;
+};
+
+const REQUEST_TIMEOUT_MS = 30000;
+// Streamed downloads run at the client's pace, so they get far longer
+const STREAM_TIMEOUT_MS = 10 * 60 * 1000;
+
+const sha256Hex = (data: string | Buffer): string =>
+  crypto.createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: string | Buffer, data: string): Buffer =>
+  crypto.createHmac('sha256', key).update(data, 'utf8').digest();
+
+// RFC 3986 encoding per path segment, as SigV4 expects
+const encodeKey = (key: string): string =>
+  key.split('/')
+    .map(segment => encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`))
+    .join('/');
+
+/**
+ * S3-compatible object storage over plain HTTPS with AWS Signature Version 4
+ */
+export class S3Storage implements StorageBackend {
+  readonly driver = 's3' as const;
+
+  constructor(private readonly options: S3StorageOptions) {}
+
+  urlFor(key: string): string {
+    return `s3://${this.options.bucket}/${key}`;
+  }
+
+  keyFromUrl(storageUrl: string): string | null {
+    const prefix = `s3://${this.options.bucket}/`;
+    return storageUrl.startsWith(prefix) ? storageUrl.slice(prefix.length) : null;
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<StoredObject> {
+    const response = await this.request('PUT', key, data, { 'content-type': contentType });
+    if (!response.ok) {
+      throw new StorageError('REQUEST_FAILED', `S3 upload of ${key} failed: HTTP ${response.status}`);
+    }
+
+    return { key, storageUrl: this.urlFor(key), size: data.length };
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) {
+      throw new StorageError('NOT_FOUND', `No stored object at ${key}`);
+    }
+    if (!response.ok) {
+      throw new StorageError('REQUEST_FAILED', `S3 download of ${key} failed: HTTP ${response.status}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const response = await this.request(
+      'GET',
+      key,
+      undefined,
+      range ? { range: `bytes=${range.start}-${range.end}` } : {},
+      STREAM_TIMEOUT_MS
+    );
+    if (response.status === 404) {
+      throw new StorageError('NOT_FOUND', `No stored object at ${key}`);
+    }
+    if (!response.ok || !response.body) {
+      throw new StorageError('REQUEST_FAILED', `S3 download of ${key} failed: HTTP ${response.status}`);
+    }
+
+    return Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+  }
+
+  async size(key: string): Promise<number> {
+    const response = await this.request('HEAD', key);
+    if (response.status === 404) {
+      throw new StorageError('NOT_FOUND', `No stored object at ${key}`);
+    }
+    if (!response.ok) {
+      throw new StorageError('REQUEST_FAILED', `S3 lookup of ${key} failed: HTTP ${response.status}`);
+    }
+
+    return Number(response.headers.get('content-length') || 0);
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new StorageError('REQUEST_FAILED', `S3 delete of ${key} failed: HTTP ${response.status}`);
+    }
+  }
+
+  objectUrl(key: string): URL {
+    const { endpoint, bucket, region } = this.options;
+    return endpoint
+      ? new URL(`${endpoint}/${bucket}/${encodeKey(key)}`)
+      : new URL(`https://${bucket}.s3.${region}.amazonaws.com/${encodeKey(key)}`);
+  }
+
+  private async request(
+    method: 'GET' | 'HEAD' | 'PUT' | 'DELETE',
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {},
+    timeoutMs = REQUEST_TIMEOUT_MS
+  ): Promise<Response> {
+    const url = this.objectUrl(key);
+    const headers = this.sign(method, url, body ?? Buffer.alloc(0), extraHeaders);
+
+    try {
+      return await fetch(url, {
+        method,
+        headers,
+        ...(body && { body }),
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+    } catch (error) {
+      throw new StorageError(
+        'REQUEST_FAILED',
+        `S3 request to ${url.host} failed: ${error instanceof Error ? error.message : 'network error'}`
+      );
+    }
+  }
+
+  /**
+   * Headers for a SigV4-signed request; the host header is signed but left for fetch to send
+   */
+  sign(method: string, url: URL, body: Buffer, extraHeaders: Record<string, string> = {}, now = new Date()): Record<string, string> {
+    const { accessKey, secretKey, region } = this.options;
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body);
+
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+    const signed: Record<string, string> = { ...headers, host: url.host };
+    const names = Object.keys(signed).map(name => name.toLowerCase()).sort();
+    const canonicalHeaders = names.map(name => `${name}:${String(signed[name]).trim()}\n`).join('');
+    const signedHeaders = names.join(';');
+
+    const canonicalRequest = [method, url.pathname, '', canonicalHeaders, signedHeaders, payloadHash].join('\n');
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretKey}`, dateStamp), region), 's3'), 'aws4_request');
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+
+    return {
+      ...headers,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${accessKey}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { Readable } from 'stream';
+
+export type StorageDriver = 'local' | 's3';
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface StoredObject {
+  key: string;
+  storageUrl: string;
+  size: number;
+}
+
+/**
+ * Where fetched attachment media lives. Rows reference objects by storage URL
+ * (`local://key`, `s3://bucket/key`) so the driver can change without a data migration.
+ */
+export interface StorageBackend {
+  readonly driver: StorageDriver;
+  urlFor(key: string): string;
+  // Key for a storage URL this backend owns, or null
+  keyFromUrl(storageUrl: string): string | null;
+  put(key: string, data: Buffer, contentType: string): Promise<StoredObject>;
+  get(key: string): Promise<Buffer>;
+  // Stream an object, or one byte range of it, without buffering it in memory
+  createReadStream(key: string, range?: ByteRange): Promise<Readable>;
+  size(key: string): Promise<number>;
+  delete(key: string): Promise<void>;
+}
+
+export type StorageErrorCode = 'NOT_CONFIGURED' | 'NOT_FOUND' | 'INVALID_KEY' | 'REQUEST_FAILED';
+
+export class StorageError extends Error {
+  constructor(public code: StorageErrorCode, message: string) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
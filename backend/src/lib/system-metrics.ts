@@ -0,0 +1,115 @@
+import { checkDatabaseHealth } from './db-utils.js';
+import { redisManager } from './redis.js';
+import { queueManager } from './queue/manager.js';
+import { QUEUE_NAMES } from './queue/types.js';
+import { IngestionMetrics, LatencyHistogram } from './ingestion/metrics.js';
+import { createLogger } from './logger.js';
+import {
+  MetricFamily,
+  Sample,
+  Labels,
+  renderFamilies,
+  histogramSamples,
+  httpRequestsTotal,
+  httpRequestDuration,
+  queueJobsTotal
+} from './prometheus.js';
+
+const logger = createLogger('system-metrics');
+
+const gauge = (name: string, help: string, samples: Sample[]): MetricFamily =>
+  ({ name, help, type: 'gauge', samples });
+
+const counter = (name: string, help: string, samples: Sample[]): MetricFamily =>
+  ({ name, help, type: 'counter', samples });
+
+const secondsHistogram = (labels: Labels, histogram: LatencyHistogram): Sample[] =>
+  histogramSamples(
+    labels,
+    histogram.buckets.map(({ le, count }) => ({ le: le / 1000, count })),
+    histogram.sumMs / 1000
+  );
+
+async function collectHealth(): Promise<MetricFamily[]> {
+  const [database, redis] = await Promise.all([checkDatabaseHealth(), redisManager.healthCheck()]);
+  const databaseUp = database.connected;
+  const redisUp = redis.status === 'healthy';
+
+  return [
+    gauge('crm_database_up', 'Whether the database answered the health check', [{ value: databaseUp ? 1 : 0 }]),
+    gauge('crm_database_latency_seconds', 'Database health check round trip in seconds', databaseUp ? [{ value: database.latency / 1000 }] : []),
+    gauge('crm_redis_up', 'Whether Redis answered the health check', [{ value: redisUp ? 1 : 0 }]),
+    gauge('crm_redis_latency_seconds', 'Redis health check round trip in seconds', redisUp ? [{ value: redis.latency / 1000 }] : [])
+  ];
+}
+
+async function collectQueues(): Promise<MetricFamily[]> {
+  const depths: Sample[] = [];
+
+  for (const queue of Object.values(QUEUE_NAMES)) {
+    try {
+      const counts = await queueManager.getJobCounts(queue);
+      for (const [state, value] of Object.entries(counts)) {
+        depths.push({ labels: { queue, state }, value });
+      }
+    } catch (error) {
+      logger.warn({ queue, error: error instanceof Error ? error.message : error }, 'Could not read queue job counts');
+    }
+  }
+
+  return [
+    gauge('crm_queue_jobs', 'Jobs in each queue, by state', depths),
+    queueJobsTotal.collect()
+  ];
+}
+
+async function collectIngestion(): Promise<MetricFamily[]> {
+  let totals;
+  try {
+    totals = await IngestionMetrics.getTotals();
+  } catch (error) {
+    logger.warn({ error: error instanceof Error ? error.message : error }, 'Could not read ingestion metrics');
+    return [];
+  }
+
+  return [
+    counter('crm_ingestion_messages_total', 'Messages through the ingestion pipeline, by outcome',
+      Object.entries(totals.statuses).map(([status, value]) => ({ labels: { status }, value }))),
+    counter('crm_ingestion_errors_total', 'Failed ingestions, by error code',
+      Object.entries(totals.errors).map(([code, value]) => ({ labels: { code }, value }))),
+    {
+      name: 'crm_ingestion_duration_seconds',
+      help: 'End-to-end ingestion latency in seconds',
+      type: 'histogram',
+      samples: secondsHistogram({}, totals.latency)
+    },
+    {
+      name: 'crm_ingestion_stage_duration_seconds',
+      help: 'Ingestion latency per pipeline stage in seconds',
+      type: 'histogram',
+      samples: Object.entries(totals.stages).flatMap(([stage, histogram]) => secondsHistogram({ stage }, histogram))
+    },
+    counter('crm_ingestion_stage_failures_total', 'Ingestions that failed in each stage',
+      Object.entries(totals.stages).map(([stage, { failed }]) => ({ labels: { stage }, value: failed }))),
+    counter('crm_ingestion_dedup_checks_total', 'Messages that went through each duplicate check',
+      Object.entries(totals.dedup.checks).map(([check, value]) => ({ labels: { check }, value }))),
+    counter('crm_ingestion_dedup_hits_total', 'Messages a duplicate check caught, by check and match type',
+      totals.dedup.hits.map(({ check, type, count }) => ({ labels: { check, type }, value: count })))
+  ];
+}
+
+/**
+ * Everything /metrics exposes, in Prometheus text format. A source that can't be
+ * read leaves its families out (or reports itself down) rather than failing the scrape.
+ */
+export async function collectSystemMetrics(): Promise<string> {
+  const [health, queues, ingestion] = await Promise.all([collectHealth(), collectQueues(), collectIngestion()]);
+
+  return renderFamilies([
+    httpRequestsTotal.collect(),
+    httpRequestDuration.collect(),
+    ...queues,
+    ...ingestion,
+    ...health
+  ]);
+}
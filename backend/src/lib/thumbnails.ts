@@ -0,0 +1,144 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import sharp from 'sharp';
+import { Attachment } from '@prisma/client';
+import { AttachmentModel } from '../models/attachment.js';
+import { getStorage, isStoredUrl } from './storage/index.js';
+import { attachmentContentType, previewKind } from './attachment-fetch.js';
+import { config } from '../config/index.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('thumbnails');
+
+const execFileAsync = promisify(execFile);
+
+const RENDER_TIMEOUT_MS = 30000;
+
+export type ThumbnailErrorCode =
+  | 'ATTACHMENT_NOT_FOUND'
+  | 'NOT_STORED'
+  | 'UNSUPPORTED_TYPE'
+  | 'RENDERER_UNAVAILABLE'
+  | 'RENDER_FAILED';
+
+export class ThumbnailError extends Error {
+  constructor(public code: ThumbnailErrorCode, message: string) {
+    super(message);
+    this.name = 'ThumbnailError';
+  }
+}
+
+/**
+ * Rasterize the first page of a PDF to PNG with pdftoppm; the document never leaves a temp dir
+ */
+async function renderPdfFirstPage(pdf: Buffer, maxDimension: number): Promise<Buffer> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'crm-preview-'));
+  try {
+    const input = path.join(dir, 'input.pdf');
+    const outputPrefix = path.join(dir, 'page');
+    await fs.writeFile(input, pdf);
+
+    await execFileAsync(config.thumbnails.pdfRendererPath, [
+      '-png', '-singlefile', '-f', '1', '-l', '1',
+      // Render at twice the thumbnail size so the downscale stays sharp
+      '-scale-to', String(maxDimension * 2),
+      input, outputPrefix
+    ], { timeout: RENDER_TIMEOUT_MS });
+
+    return await fs.readFile(`${outputPrefix}.png`);
+  } catch (error) {
+    const { code, syscall } = error as NodeJS.ErrnoException;
+    if (code === 'ENOENT' && syscall?.startsWith('spawn')) {
+      throw new ThumbnailError(
+        'RENDERER_UNAVAILABLE',
+        `PDF renderer ${config.thumbnails.pdfRendererPath} is not installed`
+      );
+    }
+    throw new ThumbnailError(
+      'RENDER_FAILED',
+      `PDF preview failed: ${error instanceof Error ? error.message : 'unknown error'}`
+    );
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Scale an image to fit a square of `maxDimension` pixels, honouring EXIF orientation
+ */
+export async function renderThumbnail(image: Buffer, maxDimension: number): Promise<Buffer> {
+  try {
+    return await sharp(image)
+      .rotate()
+      .resize(maxDimension, maxDimension, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+  } catch (error) {
+    throw new ThumbnailError(
+      'RENDER_FAILED',
+      `Image could not be decoded: ${error instanceof Error ? error.message : 'unknown error'}`
+    );
+  }
+}
+
+export class ThumbnailGenerator {
+  /**
+   * Render a thumbnail for stored image or PDF media and record it on the attachment
+   */
+  static async generate(attachmentId: string): Promise<Attachment> {
+    const attachment = await AttachmentModel.findById(attachmentId);
+    if (!attachment) {
+      throw new ThumbnailError('ATTACHMENT_NOT_FOUND', `Attachment ${attachmentId} not found`);
+    }
+
+    const storage = getStorage();
+    const key = isStoredUrl(attachment.storageUrl) ? storage.keyFromUrl(attachment.storageUrl) : null;
+    if (!key) {
+      throw new ThumbnailError('NOT_STORED', `Attachment ${attachmentId} media is not in storage`);
+    }
+
+    const contentType = attachmentContentType(attachment);
+    const kind = previewKind(contentType);
+    if (!kind) {
+      throw new ThumbnailError('UNSUPPORTED_TYPE', `No preview available for ${contentType}`);
+    }
+
+    const { maxDimension } = config.thumbnails;
+    const media = await storage.get(key);
+    const image = kind === 'pdf' ? await renderPdfFirstPage(media, maxDimension) : media;
+    const thumbnail = await renderThumbnail(image, maxDimension);
+
+    const stored = await storage.put(
+      `thumbnails/${attachment.messageId}/${attachment.id}/thumbnail.webp`,
+      thumbnail,
+      'image/webp'
+    );
+    const updated = await AttachmentModel.updateThumbnail(attachment.id, stored.storageUrl);
+
+    logger.info({ attachmentId, kind, thumbnailUrl: stored.storageUrl }, 'Attachment thumbnail stored');
+
+    return updated;
+  }
+
+  /**
+   * Note a preview that will not be retried; the attachment stays usable without one
+   */
+  static async recordFailure(attachmentId: string, error: { code: string; message: string }): Promise<void> {
+    const attachment = await AttachmentModel.findById(attachmentId);
+    if (!attachment) {
+      return;
+    }
+
+    await AttachmentModel.update(attachmentId, {
+      metadata: {
+        ...((attachment.metadata || {}) as Record<string, any>),
+        thumbnailError: { ...error, failedAt: new Date().toISOString() }
+      }
+    });
+
+    logger.warn({ attachmentId, error }, 'Attachment thumbnail failed');
+  }
+}
@@ -127,25 +127,56 @@ export function createWebhookVerificationMiddleware(options: WebhookMiddlewareOp
 }
 
 /**
- * Middleware to capture raw body for signature verification
+ * Middleware to capture raw body for signature verification. Webhooks are public and
+ * read before any other body limit, so reading stops with a 413 past `limit` bytes.
  */
-export function captureRawBodyMiddleware(options: { limit?: string } = {}) {
+export function captureRawBodyMiddleware(options: { limit?: number } = {}) {
+  const limit = options.limit ?? 1024 * 1024;
+
   return (req: WebhookRequest, res: Response, next: NextFunction) => {
     if (req.headers['content-type']?.includes('application/json') ||
         req.headers['content-type']?.includes('application/x-www-form-urlencoded')) {
-      
+
+      const tooLarge = () => {
+        // Close the connection once answered rather than read the rest of the upload
+        res.on('finish', () => req.destroy());
+        res.status(413).set('Connection', 'close').json({
+          error: 'payload_too_large',
+          message: `Webhook payload exceeds ${limit} bytes`
+        });
+      };
+
+      if (Number(req.headers['content-length']) > limit) {
+        tooLarge();
+        return;
+      }
+
       const chunks: Buffer[] = [];
-      
+      let received = 0;
+      let aborted = false;
+
       req.on('data', (chunk: Buffer) => {
+        if (aborted) return;
+
+        received += chunk.length;
+        if (received > limit) {
+          aborted = true;
+          chunks.length = 0;
+          req.pause();
+          tooLarge();
+          return;
+        }
         chunks.push(chunk);
       });
       
       req.on('end', () => {
+        if (aborted) return;
         req.rawBody = Buffer.concat(chunks).toString('utf8');
         next();
       });
       
       req.on('error', (error) => {
+        if (aborted) return;
         logger.error('Error capturing raw body:', error);
         next(error);
       });
@@ -159,6 +190,12 @@ export function captureRawBodyMiddleware(options: { limit?: string } = {}) {
  * Extract provider information from request
  */
 function extractProviderInfo(req: Request): { providerId: string; providerType: string } | null {
+  // Prefer route params when mounted as /:providerType/:providerId
+  const { providerType: paramType, providerId: paramId } = req.params;
+  if (paramType && paramId) {
+    return { providerId: paramId, providerType: paramType };
+  }
+
   // Try to extract from URL path
   const urlParts = req.path.split('/');
   const webhookIndex = urlParts.findIndex(part => part === 'webhook' || part === 'webhooks');
@@ -241,7 +278,7 @@ function extractProviderInfo(req: Request): { providerId: string; providerType:
 function getFullWebhookUrl(req: Request): string {
   const protocol = req.headers['x-forwarded-proto'] || req.protocol || 'https';
   const host = req.headers['x-forwarded-host'] || req.headers['host'] || 'localhost';
-  return `${protocol}://${host}${req.url}`;
+  return `${protocol}://${host}${req.originalUrl || req.url}`;
 }
 
 /**
@@ -26,9 +26,24 @@ export class WebhookSignatureVerifier {
   private static readonly DEFAULT_ALGORITHM = 'sha256';
   private static readonly DEFAULT_ENCODING: BufferEncoding = 'hex';
 
+  /**
+   * The string Twilio signs: the full URL, then each form parameter's name and value,
+   * in name order (repeated names once per distinct value, values sorted)
+   */
+  static twilioSigningString(url: string, formBody: string): string {
+    const params = new Map<string, Set<string>>();
+    for (const [name, value] of new URLSearchParams(formBody)) {
+      params.set(name, (params.get(name) ?? new Set()).add(value));
+    }
+
+    return [...params.entries()]
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .reduce((data, [name, values]) => data + [...values].sort().map(value => name + value).join(''), url);
+  }
+
   /**
    * Verify Twilio webhook signature
-   * Twilio uses: X-Twilio-Signature = base64(sha1(url + postBody, secret))
+   * Twilio uses: X-Twilio-Signature = base64(hmac_sha1(secret, url + sorted form params))
    */
   static verifyTwilioSignature(
     url: string,
@@ -44,7 +59,7 @@ export class WebhookSignatureVerifier {
       // Twilio uses SHA1, not SHA256
       const expectedSignature = crypto
         .createHmac('sha1', config.secret)
-        .update(url + payload, 'utf8')
+        .update(this.twilioSigningString(url, payload), 'utf8')
         .digest('base64');
 
       const isValid = receivedSignature.length === expectedSignature.length &&
@@ -353,6 +368,8 @@ export class WebhookSignatureVerifier {
       switch (providerType.toLowerCase()) {
         case 'twilio':
         case 'twilio-sms':
+        case 'twilio_sms':
+        case 'twilio_voice':
           if (!webhookUrl) {
             return { valid: false, error: 'Webhook URL required for Twilio verification' };
           }
@@ -425,12 +442,14 @@ export class WebhookSignatureVerifier {
       switch (providerType.toLowerCase()) {
         case 'twilio':
         case 'twilio-sms':
+        case 'twilio_sms':
+        case 'twilio_voice':
           if (!options.url) {
             throw new Error('URL required for Twilio signature generation');
           }
           return crypto
             .createHmac('sha1', secret)
-            .update(options.url + payload, 'utf8')
+            .update(this.twilioSigningString(options.url, payload), 'utf8')
             .digest('base64');
 
         case 'whatsapp':
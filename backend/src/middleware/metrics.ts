@@ -0,0 +1,66 @@
+import { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { config } from '../config/index';
+import { httpRequestsTotal, httpRequestDuration } from '../lib/prometheus';
+
+// Label by the matched route pattern; raw paths carry IDs and would make a series per request
+const routeOf = (req: Request): string => {
+  if (!req.route) return 'unmatched';
+  const path = `${req.baseUrl}${req.route.path}`;
+  return path.length > 1 ? path.replace(/\/$/, '') : path;
+};
+
+export const recordHttpMetrics = (req: Request, res: Response, next: NextFunction) => {
+  const start = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+    const route = routeOf(req);
+
+    httpRequestsTotal.inc({ method: req.method, route, status: String(res.statusCode) });
+    httpRequestDuration.observe({ method: req.method, route }, seconds);
+  });
+
+  next();
+};
+
+const matchesKey = (provided: string | undefined, expected: string): boolean => {
+  if (!provided) return false;
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+// Express reports IPv4 clients on a dual-stack socket as ::ffff:a.b.c.d
+const normalizeIp = (ip: string | undefined): string => (ip || '').replace(/^::ffff:/, '');
+
+/**
+ * Scrapers present the metrics API key or come from an allowlisted IP; with neither
+ * configured, /metrics is closed
+ */
+export const requireMetricsAccess = (req: Request, res: Response, next: NextFunction) => {
+  const { apiKey, allowedIps } = config.metrics;
+
+  if (!apiKey && allowedIps.length === 0) {
+    return res.status(403).json({
+      error: 'metrics_disabled',
+      message: 'Metrics access is not configured'
+    });
+  }
+
+  const bearer = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+  const providedKey = (req.headers['x-api-key'] as string | undefined) ?? bearer;
+
+  if (apiKey && matchesKey(providedKey, apiKey)) {
+    return next();
+  }
+  // With trust proxy 1 this is the client address our proxy appended, as the rate limiter sees it
+  if (allowedIps.map(normalizeIp).includes(normalizeIp(req.ip))) {
+    return next();
+  }
+
+  return res.status(providedKey ? 403 : 401).json({
+    error: providedKey ? 'invalid_api_key' : 'api_key_required',
+    message: providedKey ? 'Invalid API key' : 'API key is required'
+  });
+};
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
+import { defaultPhoneRegion, isSupportedPhoneRegion, isValidPhoneNumber } from '../lib/phone';
 
 export const validateJson = (
   req: Request,
@@ -21,7 +22,7 @@ export const validateJson = (
   next();
 };
 
-export const validateSchema = <T>(schema: z.ZodSchema<T>) => {
+export const validateSchema = (schema: z.ZodTypeAny) => {
   return (req: Request, res: Response, next: NextFunction): void => {
     try {
       const result = schema.safeParse({
@@ -147,6 +148,113 @@ export const customerParamsSchema = z.object({
   body: z.any().optional()
 });
 
+export const customerMergeSchema = z.object({
+  params: z.object({
+    customerId: uuidSchema
+  }),
+  body: z.object({
+    sourceCustomerId: uuidSchema
+  }),
+  query: z.any().optional()
+});
+
+export const customerSplitSchema = z.object({
+  params: z.object({
+    customerId: uuidSchema
+  }),
+  body: z.object({
+    identityIds: z.array(uuidSchema).min(1, 'At least one identity is required').max(100, 'Too many identities'),
+    name: z.string().trim().min(1, 'Name cannot be empty').max(255, 'Name exceeds maximum length of 255 characters').optional(),
+    displayName: z.string().trim().max(100, 'Display name exceeds maximum length of 100 characters').optional()
+  }),
+  query: z.any().optional()
+});
+
+export const duplicateListSchema = z.object({
+  query: z.object({
+    status: z.enum(['pending', 'dismissed']),
+    customerId: uuidSchema,
+    minScore: z.string().transform(val => parseFloat(val))
+      .refine(val => !Number.isNaN(val) && val >= 0 && val <= 1, 'Minimum score must be between 0 and 1'),
+    page: z.string().optional().transform(val => val ? parseInt(val, 10) : 1)
+      .refine(val => val >= 1, 'Page must be at least 1'),
+    limit: z.string().optional().transform(val => val ? parseInt(val, 10) : 25)
+      .refine(val => val >= 1 && val <= 100, 'Limit must be between 1 and 100')
+  }).partial(),
+  body: z.any().optional(),
+  params: z.any().optional()
+});
+
+export const duplicateAcceptSchema = z.object({
+  params: z.object({
+    suggestionId: uuidSchema
+  }),
+  body: z.object({
+    targetCustomerId: uuidSchema.optional()
+  }).optional(),
+  query: z.any().optional()
+});
+
+export const duplicateScanSchema = z.object({
+  body: z.object({
+    minScore: z.number().min(0, 'Minimum score must be between 0 and 1').max(1, 'Minimum score must be between 0 and 1').optional()
+  }).optional(),
+  query: z.any().optional(),
+  params: z.any().optional()
+});
+
+const identityTypeSchema = z.enum(['phone', 'email', 'social']);
+
+// ISO 3166-1 alpha-2 region we hold phone numbering metadata for
+const phoneRegionSchema = z.string().trim()
+  .transform(value => value.toUpperCase())
+  .refine(isSupportedPhoneRegion, 'Unsupported phone region');
+
+// Phone numbers need a valid length for their country; emails need a mailbox and domain
+const identityValueRefinement = (
+  data: { type?: string; value?: string; region?: string | undefined },
+  ctx: z.RefinementCtx
+) => {
+  if (data.type === 'phone' && !isValidPhoneNumber(data.value ?? '', data.region ?? defaultPhoneRegion())) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: 'Phone number is not valid for its country' });
+  }
+  if (data.type === 'email' && !z.string().email().safeParse(data.value?.trim()).success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: 'valid email' });
+  }
+};
+
+export const customerIdentityCreateSchema = z.object({
+  params: z.object({
+    customerId: uuidSchema
+  }),
+  body: z.object({
+    type: identityTypeSchema,
+    value: z.string().trim().min(1, 'Value is required').max(255, 'Value exceeds maximum length of 255 characters'),
+    provider: z.string().trim().max(50, 'Provider exceeds maximum length of 50 characters').optional(),
+    verified: z.boolean().optional(),
+    region: phoneRegionSchema.optional()
+  }).superRefine(identityValueRefinement),
+  query: z.any().optional()
+});
+
+export const identityLookupSchema = z.object({
+  query: z.object({
+    type: identityTypeSchema,
+    value: z.string().trim().min(1, 'Value is required').max(255, 'Value exceeds maximum length of 255 characters'),
+    region: phoneRegionSchema.optional()
+  }).superRefine(identityValueRefinement),
+  body: z.any().optional(),
+  params: z.any().optional()
+});
+
+export const phoneRenormalizeSchema = z.object({
+  body: z.object({
+    dryRun: z.boolean().optional()
+  }).optional(),
+  query: z.any().optional(),
+  params: z.any().optional()
+});
+
 export const timelineQuerySchema = z.object({
   params: z.object({
     customerId: uuidSchema
@@ -168,6 +276,210 @@ export const timelineQuerySchema = z.object({
   body: z.any().optional()
 });
 
+const channelSchema = z.enum(['sms', 'email', 'voice', 'whatsapp', 'facebook', 'instagram']);
+
+export const conversationListSchema = z.object({
+  query: z.object({
+    status: z.enum(['active', 'archived', 'assigned']).optional(),
+    channel: channelSchema.optional(),
+    tag: z.union([z.string(), z.array(z.string())]).optional()
+      .transform(val => val === undefined ? undefined : (Array.isArray(val) ? val : val.split(','))
+        .map(tag => tag.trim()).filter(Boolean)),
+    assigned_to: uuidSchema.optional(),
+    customer_id: uuidSchema.optional(),
+    search: z.string().max(255, 'Search query must be less than 255 characters').optional(),
+    page: z.string().optional().transform(val => val ? parseInt(val, 10) : 1)
+      .refine(val => val >= 1, 'Page must be at least 1'),
+    limit: z.string().optional().transform(val => val ? parseInt(val, 10) : 50)
+      .refine(val => val >= 1 && val <= 100, 'Limit must be between 1 and 100')
+  }).partial(),
+  body: z.any().optional(),
+  params: z.any().optional()
+});
+
+export const conversationDetailSchema = z.object({
+  params: z.object({
+    conversationId: uuidSchema
+  }),
+  query: z.object({
+    page: z.string().optional().transform(val => val ? parseInt(val, 10) : 1)
+      .refine(val => val >= 1, 'Page must be at least 1'),
+    limit: z.string().optional().transform(val => val ? parseInt(val, 10) : 50)
+      .refine(val => val >= 1 && val <= 200, 'Limit must be between 1 and 200')
+  }).partial(),
+  body: z.any().optional()
+});
+
+export const conversationAssignSchema = z.object({
+  params: z.object({
+    conversationId: uuidSchema
+  }),
+  body: z.object({
+    userId: uuidSchema,
+    notes: z.string().max(1000, 'Notes exceed maximum length of 1000 characters').optional()
+  }),
+  query: z.any().optional()
+});
+
+export const conversationTagsSchema = z.object({
+  params: z.object({
+    conversationId: uuidSchema
+  }),
+  body: z.object({
+    tags: z.array(z.string().trim().min(1, 'Tag cannot be empty').max(50, 'Tag exceeds maximum length of 50 characters'))
+      .max(50, 'Too many tags')
+  }),
+  query: z.any().optional()
+});
+
+export const conversationSendMessageSchema = z.object({
+  params: z.object({
+    conversationId: uuidSchema
+  }),
+  body: z.object({
+    body: z.string().trim().min(1, 'Message body is required').max(10000, 'Message body must be less than 10000 characters'),
+    subject: z.string().trim().max(255, 'Subject must be less than 255 characters').optional()
+  }),
+  query: z.any().optional()
+});
+
+export const messageListSchema = z.object({
+  query: z.object({
+    q: z.string().trim().min(1, 'Search query cannot be empty').max(255, 'Search query must be less than 255 characters').optional(),
+    search: z.string().trim().min(1, 'Search query cannot be empty').max(255, 'Search query must be less than 255 characters').optional(),
+    channel: channelSchema.optional(),
+    direction: z.enum(['inbound', 'outbound']).optional(),
+    status: z.enum(['received', 'processed', 'queued', 'sent', 'delivered', 'read', 'failed']).optional(),
+    provider_id: uuidSchema.optional(),
+    customer_id: uuidSchema.optional(),
+    conversation_id: uuidSchema.optional(),
+    from: z.string().datetime('Invalid from date format').optional(),
+    to: z.string().datetime('Invalid to date format').optional(),
+    page: z.string().optional().transform(val => val ? parseInt(val, 10) : 1)
+      .refine(val => val >= 1, 'Page must be at least 1'),
+    limit: z.string().optional().transform(val => val ? parseInt(val, 10) : 50)
+      .refine(val => val >= 1 && val <= 100, 'Limit must be between 1 and 100')
+  }).partial().refine(data => {
+    if (data.from && data.to) {
+      return new Date(data.from) < new Date(data.to);
+    }
+    return true;
+  }, 'from date must be before to date'),
+  body: z.any().optional(),
+  params: z.any().optional()
+});
+
+export const attachmentContentSchema = z.object({
+  params: z.object({
+    attachmentId: uuidSchema
+  }),
+  query: z.object({
+    download: z.enum(['true', 'false']).optional()
+  }),
+  body: z.any().optional()
+});
+
+const providerTypeSchema = z.enum(['twilio_sms', 'gmail', 'twilio_voice', 'whatsapp', 'facebook', 'instagram', 'imap']);
+const providerStatusSchema = z.enum(['active', 'inactive', 'error']);
+
+export const providerListSchema = z.object({
+  query: z.object({
+    type: providerTypeSchema.optional(),
+    status: providerStatusSchema.optional()
+  }).partial(),
+  body: z.any().optional(),
+  params: z.any().optional()
+});
+
+// Our phone numbers (E.164), WhatsApp phone_number_ids and mailbox addresses/aliases
+const ownedAddressesSchema = z.array(
+  z.string().trim().min(1, 'Address cannot be empty').max(255, 'Address exceeds maximum length of 255 characters')
+).max(100, 'At most 100 owned addresses are allowed');
+
+export const providerCreateSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1, 'Name cannot be empty').max(100, 'Name exceeds maximum length of 100 characters'),
+    type: providerTypeSchema,
+    config: z.record(z.any()),
+    defaultRegion: phoneRegionSchema.optional(),
+    ownedAddresses: ownedAddressesSchema.optional(),
+    status: providerStatusSchema.optional()
+  }),
+  query: z.any().optional(),
+  params: z.any().optional()
+});
+
+export const providerUpdateSchema = z.object({
+  params: z.object({
+    providerId: uuidSchema
+  }),
+  body: z.object({
+    name: z.string().trim().min(1, 'Name cannot be empty').max(100, 'Name exceeds maximum length of 100 characters').optional(),
+    config: z.record(z.any()).optional(),
+    defaultRegion: phoneRegionSchema.nullable().optional(),
+    ownedAddresses: ownedAddressesSchema.optional(),
+    status: providerStatusSchema.optional()
+  }).refine(data => Object.keys(data).length > 0, 'At least one field is required'),
+  query: z.any().optional()
+});
+
+const errorCodeSchema = z.string().trim().min(1, 'Error code is required').max(50, 'Error code exceeds maximum length of 50 characters');
+
+export const deadLetterListSchema = z.object({
+  query: z.object({
+    status: z.enum(['retrying', 'dead', 'replayed', 'discarded']),
+    errorCode: errorCodeSchema,
+    failedStage: z.string().max(50, 'Stage exceeds maximum length of 50 characters'),
+    providerId: uuidSchema,
+    from: z.string().datetime('Invalid from date format'),
+    to: z.string().datetime('Invalid to date format'),
+    page: z.string().optional().transform(val => val ? parseInt(val, 10) : 1)
+      .refine(val => val >= 1, 'Page must be at least 1'),
+    limit: z.string().optional().transform(val => val ? parseInt(val, 10) : 25)
+      .refine(val => val >= 1 && val <= 100, 'Limit must be between 1 and 100')
+  }).partial(),
+  body: z.any().optional(),
+  params: z.any().optional()
+});
+
+export const deadLetterParamsSchema = z.object({
+  params: z.object({
+    deadLetterId: uuidSchema
+  }),
+  query: z.any().optional(),
+  body: z.any().optional()
+});
+
+// The payload and headers can be corrected before a replay; which message it is cannot
+export const deadLetterReplaySchema = z.object({
+  params: z.object({
+    deadLetterId: uuidSchema
+  }),
+  body: z.object({
+    payload: z.record(z.any()).optional(),
+    rawHeaders: z.record(z.string()).optional()
+  }).optional(),
+  query: z.any().optional()
+});
+
+export const deadLetterBulkReplaySchema = z.object({
+  body: z.object({
+    errorCode: errorCodeSchema,
+    providerId: uuidSchema.optional(),
+    limit: z.number().int().min(1, 'Limit must be between 1 and 100').max(100, 'Limit must be between 1 and 100').optional()
+  }),
+  query: z.any().optional(),
+  params: z.any().optional()
+});
+
+export const ingestionMetricsSchema = z.object({
+  query: z.object({
+    window: z.enum(['15m', '1h', '6h', '24h', '7d', '30d']).optional()
+  }),
+  body: z.any().optional(),
+  params: z.any().optional()
+});
+
 export const handleValidationError = (
   error: Error,
   req: Request,
@@ -0,0 +1,112 @@
+import { PrismaClient, AuditEvent, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export type AuditMetadata = Prisma.InputJsonObject;
+
+export type CreateAuditEventData = {
+  userId?: string | undefined;
+  action: string;
+  resourceType: string;
+  resourceId?: string | undefined;
+  metadata?: AuditMetadata;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+};
+
+export type AuditEventSearchParams = {
+  userId?: string;
+  action?: string;
+  resourceType?: string;
+  resourceId?: string;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+};
+
+export type AuditEventListResult = {
+  data: AuditEvent[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+};
+
+export class AuditEventModel {
+  static async record(data: CreateAuditEventData): Promise<AuditEvent> {
+    const event = await prisma.auditEvent.create({
+      data: {
+        userId: data.userId ?? null,
+        action: data.action,
+        resourceType: data.resourceType,
+        resourceId: data.resourceId ?? null,
+        metadata: data.metadata || {},
+        ipAddress: data.ipAddress ?? null,
+        userAgent: data.userAgent ?? null
+      }
+    });
+
+    return event;
+  }
+
+  static async findById(id: string): Promise<AuditEvent | null> {
+    const event = await prisma.auditEvent.findUnique({
+      where: { id }
+    });
+
+    return event;
+  }
+
+  static async list(params: AuditEventSearchParams = {}): Promise<AuditEventListResult> {
+    const {
+      userId,
+      action,
+      resourceType,
+      resourceId,
+      from,
+      to,
+      page = 1,
+      limit = 50
+    } = params;
+
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.AuditEventWhereInput = {
+      ...(userId && { userId }),
+      ...(action && { action }),
+      ...(resourceType && { resourceType }),
+      ...(resourceId && { resourceId }),
+      ...((from || to) && {
+        timestamp: {
+          ...(from && { gte: from }),
+          ...(to && { lte: to })
+        }
+      })
+    };
+
+    const [events, total] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        orderBy: { timestamp: 'desc' },
+        skip,
+        take: limit
+      }),
+      prisma.auditEvent.count({ where })
+    ]);
+
+    return {
+      data: events,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+}
+
+export default AuditEventModel;
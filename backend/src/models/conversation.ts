@@ -46,6 +46,16 @@ export type ConversationListResult = {
   };
 };
 
+export type ConversationMessagesResult = {
+  data: Message[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+};
+
 export type AssignConversationData = {
   userId: string;
   assignedBy: string;
@@ -109,6 +119,23 @@ export class ConversationModel {
     return conversation;
   }
 
+  static async findSummaryById(id: string): Promise<Omit<ConversationWithRelations, 'messages'> | null> {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id },
+      include: {
+        customer: true,
+        assignment: {
+          include: {
+            user: true,
+            assigner: true
+          }
+        }
+      }
+    });
+
+    return conversation;
+  }
+
   static async findByIdOrThrow(id: string): Promise<ConversationWithRelations> {
     const conversation = await this.findById(id);
     if (!conversation) {
@@ -242,6 +269,37 @@ export class ConversationModel {
     };
   }
 
+  static async getMessages(
+    conversationId: string,
+    params: { page?: number; limit?: number } = {}
+  ): Promise<ConversationMessagesResult> {
+    const { page = 1, limit = 50 } = params;
+    const skip = (page - 1) * limit;
+
+    const [messages, total] = await Promise.all([
+      prisma.message.findMany({
+        where: { conversationId },
+        include: {
+          attachments: true
+        },
+        orderBy: { timestamp: 'desc' },
+        skip,
+        take: limit
+      }),
+      prisma.message.count({ where: { conversationId } })
+    ]);
+
+    return {
+      data: messages,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
   static async assign(conversationId: string, data: AssignConversationData): Promise<ConversationWithRelations> {
     // Use transaction to ensure consistency
     const result = await prisma.$transaction(async (tx) => {
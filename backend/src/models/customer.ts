@@ -1,5 +1,5 @@
 import { PrismaClient, Customer, Identity, Prisma } from '@prisma/client';
-import { normalizePhoneE164 } from '../lib/phone';
+import { normalizePhoneE164, stripPhoneFormatting } from '../lib/phone';
 
 const prisma = new PrismaClient();
 
@@ -137,14 +137,18 @@ export class CustomerModel {
 
     // Build where clause for search with phone normalization
     const q = (search ?? "").trim();
-    const qPhone = normalizePhoneE164(q);
+    const qPhone = stripPhoneFormatting(q);
     const where: Prisma.CustomerWhereInput = q
       ? {
           OR: [
             { name: { contains: q, mode: 'insensitive' } },
             { displayName: { contains: q, mode: 'insensitive' } },
-            // Phone search on normalized and raw values
-            { identities: { some: { type: "phone", value: { contains: qPhone, mode: "insensitive" } } } },
+            // Phone search on normalized and raw values; skipped when the query has no digits
+            ...(/\d/.test(qPhone) ? [
+              { identities: { some: { type: "phone" as const, value: { contains: qPhone, mode: "insensitive" as const } } } },
+              // Full numbers in national format ("07700 900123") match their stored E.164 form
+              { identities: { some: { type: "phone" as const, value: normalizePhoneE164(q) } } }
+            ] : []),
             { identities: { some: { value: { contains: q, mode: "insensitive" } } } },
             { identities: { some: { rawValue: { contains: q, mode: "insensitive" } } } }
           ]
@@ -274,9 +278,9 @@ export class CustomerModel {
 
     const skip = (page - 1) * limit;
 
-    // Build where clause
+    // Build where clause; messages the customer was copied on show alongside their own
     const where: Prisma.MessageWhereInput = {
-      customerId,
+      OR: [{ customerId }, { participants: { some: { customerId } } }],
       ...(channel && { channel }),
       ...(from || to) && {
         timestamp: {
@@ -291,7 +295,11 @@ export class CustomerModel {
       prisma.message.findMany({
         where,
         include: {
-          attachments: true
+          attachments: true,
+          participants: true,
+          statusEvents: {
+            orderBy: [{ occurredAt: 'asc' }, { createdAt: 'asc' }]
+          }
         },
         // Contract expects oldest-first
         orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
@@ -303,7 +311,11 @@ export class CustomerModel {
 
     return {
       customerId,
-      messages,
+      // Delivery lifecycle of each message, oldest first
+      messages: messages.map(({ statusEvents, ...message }) => ({
+        ...message,
+        statusHistory: statusEvents
+      })),
       pagination: {
         page,
         limit,
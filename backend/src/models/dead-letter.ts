@@ -0,0 +1,221 @@
+import { PrismaClient, DeadLetter, DeadLetterStatus, Provider, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const isUniqueViolation = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// Older attempts are dropped past this many, so a message that keeps failing can't grow its row forever
+const MAX_ATTEMPTS_KEPT = 50;
+
+export type DeadLetterAttempt = {
+  at: string;
+  source: 'queue' | 'replay';
+  errorCode: string;
+  errorMessage: string;
+  stage?: string;
+  jobId?: string;
+  attempt?: number;
+};
+
+export type DeadLetterWithProvider = DeadLetter & {
+  provider: Pick<Provider, 'id' | 'name' | 'type'>;
+};
+
+export type RecordDeadLetterData = {
+  providerId: string;
+  providerMessageId: string;
+  rawMessage: Prisma.InputJsonValue;
+  errorCode: string;
+  errorMessage: string;
+  failedStage?: string;
+  attempt: DeadLetterAttempt;
+  // More attempts are still to come from the queue
+  retrying: boolean;
+};
+
+export type DeadLetterSearchParams = {
+  status?: DeadLetterStatus;
+  errorCode?: string;
+  failedStage?: string;
+  providerId?: string;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+};
+
+export type DeadLetterListResult = {
+  data: DeadLetterWithProvider[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+};
+
+const providerSelect = { select: { id: true, name: true, type: true } };
+
+// Entries that still need someone to act on them
+const OPEN_STATUSES: DeadLetterStatus[] = ['retrying', 'dead', 'discarded'];
+
+export class DeadLetterModel {
+  /**
+   * Add a failed attempt to the message's entry, creating it on the first failure.
+   * A message failing again after it was replayed or discarded is reopened.
+   */
+  static async recordFailure(data: RecordDeadLetterData): Promise<DeadLetter> {
+    const where = {
+      providerId_providerMessageId: { providerId: data.providerId, providerMessageId: data.providerMessageId }
+    };
+    const failure = {
+      rawMessage: data.rawMessage,
+      errorCode: data.errorCode,
+      errorMessage: data.errorMessage,
+      failedStage: data.failedStage ?? null,
+      status: data.retrying ? 'retrying' as const : 'dead' as const,
+      resolvedMessageId: null,
+      resolvedBy: null,
+      resolvedAt: null,
+      lastFailedAt: new Date(data.attempt.at)
+    };
+
+    const existing = await prisma.deadLetter.findUnique({ where });
+    if (!existing) {
+      try {
+        return await prisma.deadLetter.create({
+          data: {
+            providerId: data.providerId,
+            providerMessageId: data.providerMessageId,
+            ...failure,
+            attempts: [data.attempt] as Prisma.InputJsonArray,
+            attemptCount: 1
+          }
+        });
+      } catch (error) {
+        // Another worker recorded the first failure at the same moment
+        if (!isUniqueViolation(error)) {
+          throw error;
+        }
+        return this.recordFailure(data);
+      }
+    }
+
+    const attempts = [...(existing.attempts as DeadLetterAttempt[]), data.attempt].slice(-MAX_ATTEMPTS_KEPT);
+
+    return prisma.deadLetter.update({
+      where: { id: existing.id },
+      data: {
+        ...failure,
+        attempts: attempts as Prisma.InputJsonArray,
+        attemptCount: { increment: 1 }
+      }
+    });
+  }
+
+  /**
+   * Close the message's open entry once it has gone through; returns whether there was one
+   */
+  static async resolve(
+    providerId: string,
+    providerMessageId: string,
+    resolution: { messageId?: string; userId?: string }
+  ): Promise<boolean> {
+    const result = await prisma.deadLetter.updateMany({
+      where: { providerId, providerMessageId, status: { in: OPEN_STATUSES } },
+      data: {
+        status: 'replayed',
+        resolvedMessageId: resolution.messageId ?? null,
+        resolvedBy: resolution.userId ?? null,
+        resolvedAt: new Date()
+      }
+    });
+
+    return result.count > 0;
+  }
+
+  static async findById(id: string): Promise<DeadLetterWithProvider | null> {
+    return prisma.deadLetter.findUnique({
+      where: { id },
+      include: { provider: providerSelect }
+    });
+  }
+
+  static async list(params: DeadLetterSearchParams = {}): Promise<DeadLetterListResult> {
+    const { status = 'dead', errorCode, failedStage, providerId, from, to, page = 1, limit = 25 } = params;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.DeadLetterWhereInput = {
+      status,
+      ...(errorCode && { errorCode }),
+      ...(failedStage && { failedStage }),
+      ...(providerId && { providerId }),
+      ...((from || to) && {
+        lastFailedAt: {
+          ...(from && { gte: from }),
+          ...(to && { lte: to })
+        }
+      })
+    };
+
+    const [deadLetters, total] = await Promise.all([
+      prisma.deadLetter.findMany({
+        where,
+        include: { provider: providerSelect },
+        orderBy: { lastFailedAt: 'desc' },
+        skip,
+        take: limit
+      }),
+      prisma.deadLetter.count({ where })
+    ]);
+
+    return {
+      data: deadLetters,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Dead entries with the error code, oldest failure first, for a bulk replay
+   */
+  static async listDeadIds(errorCode: string, options: { providerId?: string; limit: number }): Promise<string[]> {
+    const deadLetters = await prisma.deadLetter.findMany({
+      where: {
+        status: 'dead',
+        errorCode,
+        ...(options.providerId && { providerId: options.providerId })
+      },
+      select: { id: true },
+      orderBy: { lastFailedAt: 'asc' },
+      take: options.limit
+    });
+
+    return deadLetters.map(deadLetter => deadLetter.id);
+  }
+
+  static async updateRawMessage(id: string, rawMessage: Prisma.InputJsonValue): Promise<DeadLetter> {
+    return prisma.deadLetter.update({
+      where: { id },
+      data: { rawMessage }
+    });
+  }
+
+  static async discard(id: string, userId?: string): Promise<DeadLetter> {
+    return prisma.deadLetter.update({
+      where: { id },
+      data: {
+        status: 'discarded',
+        resolvedBy: userId ?? null,
+        resolvedAt: new Date()
+      }
+    });
+  }
+}
+
+export default DeadLetterModel;
@@ -0,0 +1,136 @@
+import { PrismaClient, DuplicateSuggestion, DuplicateSuggestionStatus, Customer, Identity, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export type DuplicateReason = {
+  type: 'phone_digits' | 'email_local_part' | 'similar_name';
+  detail: string;
+  weight: number;
+};
+
+export type DuplicateSuggestionWithCustomers = DuplicateSuggestion & {
+  customer: Customer & { identities: Identity[] };
+  candidate: Customer & { identities: Identity[] };
+};
+
+export type ScoredPair = {
+  customerId: string;
+  candidateId: string;
+  score: number;
+  reasons: DuplicateReason[];
+};
+
+export type DuplicateSuggestionSearchParams = {
+  status?: DuplicateSuggestionStatus;
+  customerId?: string;
+  minScore?: number;
+  page?: number;
+  limit?: number;
+};
+
+export type DuplicateSuggestionListResult = {
+  data: DuplicateSuggestionWithCustomers[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+};
+
+const customerInclude = {
+  include: {
+    identities: { orderBy: [{ type: 'asc' as const }, { value: 'asc' as const }] }
+  }
+};
+
+export class DuplicateSuggestionModel {
+  /**
+   * Store a scored pair. Pending suggestions are rescored; dismissed ones are
+   * left alone so the scan never puts them back in the queue.
+   */
+  static async record(pair: ScoredPair, scoredAt: Date): Promise<'created' | 'updated' | 'dismissed'> {
+    const existing = await prisma.duplicateSuggestion.findUnique({
+      where: { customerId_candidateId: { customerId: pair.customerId, candidateId: pair.candidateId } }
+    });
+
+    if (existing?.status === 'dismissed') {
+      return 'dismissed';
+    }
+
+    const data = {
+      score: pair.score,
+      reasons: pair.reasons as unknown as Prisma.InputJsonArray,
+      scoredAt
+    };
+
+    if (existing) {
+      await prisma.duplicateSuggestion.update({ where: { id: existing.id }, data });
+      return 'updated';
+    }
+
+    await prisma.duplicateSuggestion.create({
+      data: { ...data, customerId: pair.customerId, candidateId: pair.candidateId }
+    });
+    return 'created';
+  }
+
+  /**
+   * Drop pending suggestions a scan no longer produced
+   */
+  static async deleteStale(scannedBefore: Date): Promise<number> {
+    const result = await prisma.duplicateSuggestion.deleteMany({
+      where: { status: 'pending', scoredAt: { lt: scannedBefore } }
+    });
+
+    return result.count;
+  }
+
+  static async findById(id: string): Promise<DuplicateSuggestionWithCustomers | null> {
+    return prisma.duplicateSuggestion.findUnique({
+      where: { id },
+      include: { customer: customerInclude, candidate: customerInclude }
+    });
+  }
+
+  static async list(params: DuplicateSuggestionSearchParams = {}): Promise<DuplicateSuggestionListResult> {
+    const { status = 'pending', customerId, minScore, page = 1, limit = 25 } = params;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.DuplicateSuggestionWhereInput = {
+      status,
+      ...(customerId && { OR: [{ customerId }, { candidateId: customerId }] }),
+      ...(minScore !== undefined && { score: { gte: minScore } })
+    };
+
+    const [suggestions, total] = await Promise.all([
+      prisma.duplicateSuggestion.findMany({
+        where,
+        include: { customer: customerInclude, candidate: customerInclude },
+        orderBy: [{ score: 'desc' }, { createdAt: 'asc' }],
+        skip,
+        take: limit
+      }),
+      prisma.duplicateSuggestion.count({ where })
+    ]);
+
+    return {
+      data: suggestions,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  static async dismiss(id: string, reviewedBy: string): Promise<DuplicateSuggestion> {
+    return prisma.duplicateSuggestion.update({
+      where: { id },
+      data: { status: 'dismissed', reviewedBy, reviewedAt: new Date() }
+    });
+  }
+}
+
+export default DuplicateSuggestionModel;
@@ -0,0 +1,79 @@
+import { PrismaClient, EmailMessageRef } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export type RecordEmailRefsData = {
+  conversationId: string;
+  messageIds: string[];
+  normalizedSubject?: string;
+};
+
+export class EmailMessageRefModel {
+  /**
+   * The customer's conversation holding any of the given Message-IDs, preferring
+   * the most recently seen reference. Scoped through the conversation so refs
+   * follow conversations moved by a customer merge.
+   */
+  static async findConversationId(customerId: string, messageIds: string[]): Promise<string | null> {
+    if (messageIds.length === 0) {
+      return null;
+    }
+
+    const ref = await prisma.emailMessageRef.findFirst({
+      where: {
+        messageId: { in: messageIds },
+        conversation: { customerId }
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { conversationId: true }
+    });
+
+    return ref?.conversationId ?? null;
+  }
+
+  /**
+   * The customer's latest active conversation with a message under this subject since the given time
+   */
+  static async findConversationIdBySubject(customerId: string, normalizedSubject: string, since: Date): Promise<string | null> {
+    const ref = await prisma.emailMessageRef.findFirst({
+      where: {
+        normalizedSubject,
+        createdAt: { gte: since },
+        conversation: { customerId, status: { not: 'archived' } }
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { conversationId: true }
+    });
+
+    return ref?.conversationId ?? null;
+  }
+
+  static async record(data: RecordEmailRefsData): Promise<number> {
+    const messageIds = [...new Set(data.messageIds)];
+    if (messageIds.length === 0) {
+      return 0;
+    }
+
+    const result = await prisma.emailMessageRef.createMany({
+      data: messageIds.map(messageId => ({
+        messageId,
+        conversationId: data.conversationId,
+        ...(data.normalizedSubject && { normalizedSubject: data.normalizedSubject })
+      })),
+      skipDuplicates: true
+    });
+
+    return result.count;
+  }
+
+  static async listByConversation(conversationId: string): Promise<EmailMessageRef[]> {
+    const refs = await prisma.emailMessageRef.findMany({
+      where: { conversationId },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return refs;
+  }
+}
+
+export default EmailMessageRefModel;
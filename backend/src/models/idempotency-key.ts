@@ -0,0 +1,94 @@
+import { PrismaClient, IdempotencyKey, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const isUniqueViolation = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+export type ClaimIdempotencyKeyData = {
+  owner: string;
+  lockedUntil: Date;
+  expiresAt: Date;
+};
+
+export class IdempotencyKeyModel {
+  static async find(key: string): Promise<IdempotencyKey | null> {
+    const record = await prisma.idempotencyKey.findUnique({
+      where: { key }
+    });
+
+    return record;
+  }
+
+  /**
+   * Take the key for processing. Succeeds for a new key, a claim whose lock has lapsed
+   * and a key past its expiry; each step is a single statement, so of two workers
+   * racing for the same key exactly one wins.
+   */
+  static async claim(key: string, data: ClaimIdempotencyKeyData): Promise<boolean> {
+    const claimed = {
+      status: 'in_progress' as const,
+      messageId: null,
+      lockedBy: data.owner,
+      lockedUntil: data.lockedUntil,
+      expiresAt: data.expiresAt
+    };
+
+    try {
+      await prisma.idempotencyKey.create({
+        data: { key, ...claimed }
+      });
+      return true;
+    } catch (error) {
+      if (!isUniqueViolation(error)) {
+        throw error;
+      }
+    }
+
+    const now = new Date();
+    const taken = await prisma.idempotencyKey.updateMany({
+      where: {
+        key,
+        OR: [
+          { status: 'in_progress', lockedUntil: { lt: now } },
+          { expiresAt: { lt: now } }
+        ]
+      },
+      data: claimed
+    });
+
+    return taken.count === 1;
+  }
+
+  static async complete(key: string, messageId: string | null, expiresAt: Date): Promise<IdempotencyKey> {
+    const record = await prisma.idempotencyKey.upsert({
+      where: { key },
+      create: { key, status: 'completed', messageId, expiresAt },
+      update: { status: 'completed', messageId, lockedBy: null, lockedUntil: null, expiresAt }
+    });
+
+    return record;
+  }
+
+  /**
+   * Drop an unfinished claim so a retry can take the key straight away; a claim since
+   * taken over by another worker is left alone
+   */
+  static async release(key: string, owner: string): Promise<boolean> {
+    const released = await prisma.idempotencyKey.deleteMany({
+      where: { key, lockedBy: owner, status: 'in_progress' }
+    });
+
+    return released.count === 1;
+  }
+
+  static async deleteExpired(before: Date = new Date()): Promise<number> {
+    const deleted = await prisma.idempotencyKey.deleteMany({
+      where: { expiresAt: { lt: before } }
+    });
+
+    return deleted.count;
+  }
+}
+
+export default IdempotencyKeyModel;
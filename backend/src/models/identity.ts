@@ -1,4 +1,5 @@
 import { PrismaClient, Identity, Customer, Prisma } from '@prisma/client';
+import { normalizePhoneE164, parsePhoneNumber } from '../lib/phone';
 
 const prisma = new PrismaClient();
 
@@ -21,6 +22,11 @@ export type UpdateIdentityData = {
   verified?: boolean;
 };
 
+export type NormalizeOptions = {
+  // Region for phone numbers without a country code; null when the source always includes one
+  defaultRegion?: string | null;
+};
+
 export type IdentitySearchParams = {
   customerId?: string;
   type?: 'phone' | 'email' | 'social';
@@ -255,12 +261,15 @@ export class IdentityModel {
     return identities;
   }
 
-  static async normalizeValue(type: 'phone' | 'email' | 'social', rawValue: string): Promise<string> {
+  static async normalizeValue(
+    type: 'phone' | 'email' | 'social',
+    rawValue: string,
+    options: NormalizeOptions = {}
+  ): Promise<string> {
     switch (type) {
       case 'phone':
-        // Remove all non-digits and add + prefix if not present
-        const digits = rawValue.replace(/\D/g, '');
-        return digits.startsWith('1') ? `+${digits}` : `+1${digits}`;
+        // E.164, reading numbers without a country code in the given (or configured) region
+        return normalizePhoneE164(rawValue, options.defaultRegion);
       
       case 'email':
         // Lowercase and trim
@@ -277,16 +286,17 @@ export class IdentityModel {
 
   static async findPotentialMatches(
     type: 'phone' | 'email' | 'social',
-    value: string
+    value: string,
+    options: NormalizeOptions = {}
   ): Promise<Identity[]> {
-    const normalizedValue = await this.normalizeValue(type, value);
+    const normalizedValue = await this.normalizeValue(type, value, options);
     
     let whereCondition: Prisma.IdentityWhereInput;
 
     switch (type) {
       case 'phone':
         // For phone numbers, also check without country code
-        const withoutCountryCode = normalizedValue.replace(/^\+1/, '');
+        const withoutCountryCode = parsePhoneNumber(normalizedValue)?.nationalNumber ?? normalizedValue;
         whereCondition = {
           type: 'phone',
           OR: [
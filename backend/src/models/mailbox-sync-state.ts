@@ -0,0 +1,53 @@
+import { PrismaClient, MailboxSyncState } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export type MailboxCheckpoint = {
+  uidValidity: bigint;
+  lastUid: bigint;
+};
+
+export class MailboxSyncStateModel {
+  static async find(providerId: string, mailbox: string): Promise<MailboxSyncState | null> {
+    const state = await prisma.mailboxSyncState.findUnique({
+      where: { providerId_mailbox: { providerId, mailbox } }
+    });
+
+    return state;
+  }
+
+  static async listByProvider(providerId: string): Promise<MailboxSyncState[]> {
+    const states = await prisma.mailboxSyncState.findMany({
+      where: { providerId },
+      orderBy: { mailbox: 'asc' }
+    });
+
+    return states;
+  }
+
+  /**
+   * Record that every message up to `lastUid` has been handed to ingestion
+   */
+  static async saveCheckpoint(providerId: string, mailbox: string, checkpoint: MailboxCheckpoint): Promise<MailboxSyncState> {
+    const syncedAt = new Date();
+    const state = await prisma.mailboxSyncState.upsert({
+      where: { providerId_mailbox: { providerId, mailbox } },
+      create: {
+        providerId,
+        mailbox,
+        uidValidity: checkpoint.uidValidity,
+        lastUid: checkpoint.lastUid,
+        lastSyncedAt: syncedAt
+      },
+      update: {
+        uidValidity: checkpoint.uidValidity,
+        lastUid: checkpoint.lastUid,
+        lastSyncedAt: syncedAt
+      }
+    });
+
+    return state;
+  }
+}
+
+export default MailboxSyncStateModel;
@@ -1,4 +1,4 @@
-import { PrismaClient, Message, Attachment, Customer, Provider, Conversation, Prisma } from '@prisma/client';
+import { PrismaClient, Message, MessageStatus, MessageStatusEvent, MessageParticipant, ParticipantRole, Attachment, Customer, Provider, Conversation, Prisma } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
@@ -7,6 +7,7 @@ export type MessageWithRelations = Message & {
   customer?: Customer | null;
   conversation?: Conversation | null;
   attachments: Attachment[];
+  participants?: MessageParticipant[];
 };
 
 export type CreateMessageData = {
@@ -21,16 +22,94 @@ export type CreateMessageData = {
   threadKey?: string;
   timestamp: Date;
   body?: string;
-  providerMeta?: Prisma.JsonValue;
-  status?: 'received' | 'processed' | 'failed';
+  messageHash?: string;
+  providerMeta?: Prisma.InputJsonValue;
+  status?: MessageStatus;
+  errorCode?: string;
+  attachments?: CreateMessageAttachmentData[];
+  participants?: CreateMessageParticipantData[];
+};
+
+export type CreateMessageAttachmentData = {
+  type: string;
+  filename?: string;
+  size?: number;
+  storageUrl: string;
+  thumbnailUrl?: string;
+  metadata?: Prisma.JsonValue;
+};
+
+export type CreateMessageParticipantData = {
+  role: ParticipantRole;
+  address: string;
+  displayName?: string;
+  // Set for customers; our own addresses have none
+  customerId?: string;
 };
 
 export type UpdateMessageData = {
   customerId?: string;
   conversationId?: string;
   body?: string;
-  status?: 'received' | 'processed' | 'failed';
-  providerMeta?: Prisma.JsonValue;
+  status?: MessageStatus;
+  errorCode?: string;
+  // Outbound rows are stored before the send and take the provider's ID once it answers
+  providerMessageId?: string;
+  timestamp?: Date;
+  providerMeta?: Prisma.InputJsonValue;
+};
+
+export type CreateStatusEventData = {
+  status: MessageStatus;
+  providerStatus?: string;
+  errorCode?: string;
+  errorMessage?: string;
+  occurredAt: Date;
+};
+
+export type MessageReaction = {
+  // Normalized identifier of whoever reacted; each sender holds at most one reaction
+  from: string;
+  emoji: string;
+  providerMessageId: string;
+  reactedAt: string;
+};
+
+export type MessageCallEvent = {
+  status?: string;
+  occurredAt: string;
+  durationSeconds?: number;
+  // Keyed by recordingSid in metadata so a redelivered recording is stored once
+  recording?: CreateMessageAttachmentData & { recordingSid: string };
+  transcription?: {
+    sid: string;
+    status: string;
+    text?: string;
+  };
+};
+
+// Twilio call statuses in lifecycle order; the final states share the last rank
+const CALL_STATUS_ORDER: Record<string, number> = {
+  queued: 0,
+  initiated: 1,
+  ringing: 2,
+  'in-progress': 3,
+  completed: 4,
+  busy: 4,
+  'no-answer': 4,
+  failed: 4,
+  canceled: 4
+};
+
+// Outbound rows carry this in place of the provider's ID until the send returns one
+export const PENDING_SEND_PREFIX = 'outbound:';
+
+/**
+ * Hold the message row for the rest of the transaction, so concurrent callbacks that
+ * fold into providerMeta apply one after another instead of overwriting each other
+ */
+const lockMessage = async (tx: Prisma.TransactionClient, id: string): Promise<void> => {
+  await tx.$queryRaw`SELECT id FROM messages WHERE id = ${id}::uuid FOR UPDATE`;
 };
 
 export type MessageSearchParams = {
@@ -39,7 +118,7 @@ export type MessageSearchParams = {
   providerId?: string;
   channel?: 'sms' | 'email' | 'voice' | 'whatsapp' | 'facebook' | 'instagram';
   direction?: 'inbound' | 'outbound';
-  status?: 'received' | 'processed' | 'failed';
+  status?: MessageStatus;
   from?: Date;
   to?: Date;
   search?: string;
@@ -86,14 +165,40 @@ export class MessageModel {
         threadKey: data.threadKey,
         timestamp: data.timestamp,
         body: data.body,
+        ...(data.messageHash && { messageHash: data.messageHash }),
         providerMeta: data.providerMeta || {},
-        status: data.status || 'received'
+        status: data.status || 'received',
+        ...(data.errorCode && { errorCode: data.errorCode }),
+        ...(data.status && { statusUpdatedAt: new Date() }),
+        ...(data.attachments?.length && {
+          attachments: {
+            create: data.attachments.map(attachment => ({
+              type: attachment.type,
+              filename: attachment.filename,
+              size: attachment.size,
+              storageUrl: attachment.storageUrl,
+              thumbnailUrl: attachment.thumbnailUrl,
+              metadata: attachment.metadata || {}
+            }))
+          }
+        }),
+        ...(data.participants?.length && {
+          participants: {
+            create: data.participants.map(participant => ({
+              role: participant.role,
+              address: participant.address,
+              displayName: participant.displayName,
+              customerId: participant.customerId
+            }))
+          }
+        })
       },
       include: {
         provider: true,
         customer: true,
         conversation: true,
-        attachments: true
+        attachments: true,
+        participants: true
       }
     });
 
@@ -107,7 +212,8 @@ export class MessageModel {
         provider: true,
         customer: true,
         conversation: true,
-        attachments: true
+        attachments: true,
+        participants: true
       }
     });
 
@@ -144,6 +250,52 @@ export class MessageModel {
     return message;
   }
 
+  static async findByMessageHash(
+    messageHash: string,
+    window: { from: Date; to: Date }
+  ): Promise<Pick<Message, 'id'> | null> {
+    const message = await prisma.message.findFirst({
+      where: {
+        messageHash,
+        timestamp: { gte: window.from, lte: window.to }
+      },
+      select: { id: true },
+      orderBy: { timestamp: 'desc' }
+    });
+
+    return message;
+  }
+
+  /**
+   * Messages between the same two identifiers, either way round, on the channel and
+   * within the window, newest first; served by the from/to/timestamp index
+   */
+  static async findSentBetween(params: {
+    sender: string;
+    recipient: string;
+    direction: Message['direction'];
+    channel: Message['channel'];
+    from: Date;
+    to: Date;
+    limit: number;
+  }): Promise<Pick<Message, 'id' | 'body'>[]> {
+    const messages = await prisma.message.findMany({
+      where: {
+        fromIdentifier: params.sender,
+        toIdentifier: params.recipient,
+        direction: params.direction,
+        channel: params.channel,
+        timestamp: { gte: params.from, lte: params.to },
+        body: { not: null }
+      },
+      select: { id: true, body: true },
+      orderBy: { timestamp: 'desc' },
+      take: params.limit
+    });
+
+    return messages;
+  }
+
   static async update(id: string, data: UpdateMessageData): Promise<MessageWithRelations> {
     const message = await prisma.message.update({
       where: { id },
@@ -151,7 +303,10 @@ export class MessageModel {
         ...(data.customerId !== undefined && { customerId: data.customerId }),
         ...(data.conversationId !== undefined && { conversationId: data.conversationId }),
         ...(data.body !== undefined && { body: data.body }),
-        ...(data.status && { status: data.status }),
+        ...(data.status && { status: data.status, statusUpdatedAt: new Date() }),
+        ...(data.errorCode !== undefined && { errorCode: data.errorCode }),
+        ...(data.providerMessageId !== undefined && { providerMessageId: data.providerMessageId }),
+        ...(data.timestamp && { timestamp: data.timestamp }),
         ...(data.providerMeta !== undefined && { providerMeta: data.providerMeta })
       },
       include: {
@@ -255,6 +410,66 @@ export class MessageModel {
     return messages;
   }
 
+  static async findLatestInConversation(
+    conversationId: string,
+    direction?: 'inbound' | 'outbound'
+  ): Promise<MessageWithRelations | null> {
+    const message = await prisma.message.findFirst({
+      where: {
+        conversationId,
+        ...(direction && { direction })
+      },
+      include: {
+        provider: true,
+        customer: true,
+        conversation: true,
+        attachments: true
+      },
+      orderBy: { timestamp: 'desc' }
+    });
+
+    return message;
+  }
+
+  /**
+   * The outbound message a send job stored for itself, whether or not the send went through
+   */
+  static async findOutboundByJobId(conversationId: string, jobId: string): Promise<MessageWithRelations | null> {
+    const message = await prisma.message.findFirst({
+      where: {
+        conversationId,
+        direction: 'outbound',
+        providerMeta: { path: ['outboundJobId'], equals: jobId }
+      },
+      include: {
+        provider: true,
+        customer: true,
+        conversation: true,
+        attachments: true
+      }
+    });
+
+    return message;
+  }
+
+  /**
+   * Whether a send through this provider stored its row since the given time and is
+   * still waiting for the provider's message ID
+   */
+  static async hasPendingSend(providerId: string, since: Date): Promise<boolean> {
+    const count = await prisma.message.count({
+      where: {
+        providerId,
+        direction: 'outbound',
+        status: 'queued',
+        providerMessageId: { startsWith: PENDING_SEND_PREFIX },
+        createdAt: { gte: since }
+      }
+    });
+
+    return count > 0;
+  }
+
   static async findByCustomerTimeline(
     customerId: string,
     options: {
@@ -275,8 +490,9 @@ export class MessageModel {
 
     const skip = (page - 1) * limit;
 
+    // Messages the customer was copied on show alongside their own
     const where: Prisma.MessageWhereInput = {
-      customerId,
+      OR: [{ customerId }, { participants: { some: { customerId } } }],
       ...(channel && { channel }),
       ...(from || to) && {
         timestamp: {
@@ -322,6 +538,140 @@ export class MessageModel {
     return this.update(id, { status: 'failed' });
   }
 
+  /**
+   * Append a delivery status event; the message's own status only moves when
+   * `applyToMessage` is set, so out-of-order receipts stay in history only
+   */
+  static async recordStatusEvent(
+    id: string,
+    data: CreateStatusEventData,
+    applyToMessage: boolean
+  ): Promise<MessageStatusEvent> {
+    const [event] = await prisma.$transaction([
+      prisma.messageStatusEvent.create({
+        data: {
+          messageId: id,
+          status: data.status,
+          occurredAt: data.occurredAt,
+          ...(data.providerStatus && { providerStatus: data.providerStatus }),
+          ...(data.errorCode && { errorCode: data.errorCode }),
+          ...(data.errorMessage && { errorMessage: data.errorMessage })
+        }
+      }),
+      ...(applyToMessage ? [
+        prisma.message.update({
+          where: { id },
+          data: {
+            status: data.status,
+            statusUpdatedAt: data.occurredAt,
+            errorCode: data.status === 'failed' ? data.errorCode ?? null : null
+          }
+        })
+      ] : [])
+    ]);
+
+    return event as MessageStatusEvent;
+  }
+
+  /**
+   * Set or (with a null emoji) withdraw one sender's reaction, kept in providerMeta.reactions
+   */
+  static async recordReaction(
+    id: string,
+    reaction: Omit<MessageReaction, 'emoji'> & { emoji: string | null }
+  ): Promise<MessageReaction[]> {
+    return prisma.$transaction(async (tx) => {
+      await lockMessage(tx, id);
+      const message = await tx.message.findUniqueOrThrow({ where: { id }, select: { providerMeta: true } });
+      const providerMeta = (message.providerMeta || {}) as Record<string, any>;
+      const current = (providerMeta['reactions'] || []) as MessageReaction[];
+
+      const previous = current.find(existing => existing.from === reaction.from);
+      // Webhooks can arrive out of order; an older reaction never replaces a newer one
+      if (previous && previous.reactedAt > reaction.reactedAt) {
+        return current;
+      }
+
+      const reactions = [
+        ...current.filter(existing => existing.from !== reaction.from),
+        ...(reaction.emoji ? [{ ...reaction, emoji: reaction.emoji }] : [])
+      ];
+
+      await tx.message.update({
+        where: { id },
+        data: { providerMeta: { ...providerMeta, reactions } }
+      });
+
+      return reactions;
+    });
+  }
+
+  /**
+   * Fold a later callback for a call into its message (providerMeta.call): status changes in
+   * lifecycle order, the duration, a recording as an attachment, a transcription as the body.
+   * Returns the attachments added.
+   */
+  static async recordCallEvent(id: string, event: MessageCallEvent): Promise<Attachment[]> {
+    return prisma.$transaction(async (tx) => {
+      await lockMessage(tx, id);
+      const message = await tx.message.findUniqueOrThrow({ where: { id }, select: { providerMeta: true } });
+      const providerMeta = (message.providerMeta || {}) as Record<string, any>;
+      const call = { ...(providerMeta['call'] || {}) } as Record<string, any>;
+      const recordings = (call['recordings'] || []) as string[];
+      const added: Attachment[] = [];
+
+      if (event.status) {
+        call['events'] = [...(call['events'] || []), { status: event.status, occurredAt: event.occurredAt }];
+        // Callbacks can arrive out of order; a call never moves back from ringing or a final state
+        const current = CALL_STATUS_ORDER[call['status']] ?? -1;
+        if ((CALL_STATUS_ORDER[event.status] ?? 0) >= current) {
+          call['status'] = event.status;
+        }
+      }
+      if (event.durationSeconds !== undefined) {
+        call['durationSeconds'] = event.durationSeconds;
+      }
+
+      if (event.recording && !recordings.includes(event.recording.recordingSid)) {
+        const { recordingSid, ...attachment } = event.recording;
+        added.push(await tx.attachment.create({
+          data: {
+            messageId: id,
+            type: attachment.type,
+            storageUrl: attachment.storageUrl,
+            ...(attachment.filename && { filename: attachment.filename }),
+            ...(attachment.size !== undefined && { size: attachment.size }),
+            metadata: attachment.metadata || {}
+          }
+        }));
+        call['recordings'] = [...recordings, recordingSid];
+      }
+
+      if (event.transcription) {
+        call['transcription'] = { sid: event.transcription.sid, status: event.transcription.status };
+      }
+
+      await tx.message.update({
+        where: { id },
+        data: {
+          providerMeta: { ...providerMeta, call, ...(added.length > 0 && { contentType: 'audio' }) },
+          ...(event.transcription?.text && { body: event.transcription.text })
+        }
+      });
+
+      return added;
+    });
+  }
+
+  static async getStatusHistory(id: string): Promise<MessageStatusEvent[]> {
+    const events = await prisma.messageStatusEvent.findMany({
+      where: { messageId: id },
+      orderBy: [{ occurredAt: 'asc' }, { createdAt: 'asc' }]
+    });
+
+    return events;
+  }
+
   static async linkToCustomer(id: string, customerId: string): Promise<MessageWithRelations> {
     return this.update(id, { customerId });
   }
@@ -434,7 +784,11 @@ export class MessageModel {
 
   static async fullTextSearch(query: string, options: {
     customerId?: string;
+    conversationId?: string;
+    providerId?: string;
     channel?: string;
+    direction?: 'inbound' | 'outbound';
+    status?: MessageStatus;
     from?: Date;
     to?: Date;
     page?: number;
@@ -442,7 +796,11 @@ export class MessageModel {
   } = {}): Promise<MessageListResult> {
     const {
       customerId,
+      conversationId,
+      providerId,
       channel,
+      direction,
+      status,
       from,
       to,
       page = 1,
@@ -453,7 +811,11 @@ export class MessageModel {
 
     const where: Prisma.MessageWhereInput = {
       ...(customerId && { customerId }),
+      ...(conversationId && { conversationId }),
+      ...(providerId && { providerId }),
       ...(channel && { channel: channel as any }),
+      ...(direction && { direction }),
+      ...(status && { status }),
       ...(from || to) && {
         timestamp: {
           ...(from && { gte: from }),
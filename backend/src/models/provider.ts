@@ -0,0 +1,292 @@
+import { PrismaClient, Provider, Webhook, ProviderType, ProviderStatus, Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { config } from '../config';
+import { encryptSecret, reencryptSecret } from '../lib/encryption';
+import {
+  PROVIDER_CREDENTIALS,
+  ProviderConfig,
+  encryptProviderConfig,
+  decryptProviderConfig,
+  mergeProviderConfig,
+  assertCompleteCredentials,
+  reencryptProviderConfig,
+  toPublicProviderConfig
+} from '../lib/providers/credentials';
+import { normalizeOwnedAddresses } from '../lib/ingestion/ownership';
+
+const prisma = new PrismaClient();
+
+export type ProviderWithWebhooks = Provider & {
+  webhooks: Webhook[];
+};
+
+export type PublicProvider = Omit<Provider, 'config'> & {
+  config: ProviderConfig;
+  configuredSecrets: string[];
+  webhookUrl: string | null;
+};
+
+export type CreateProviderData = {
+  name: string;
+  type: ProviderType;
+  config: ProviderConfig;
+  defaultRegion?: string;
+  ownedAddresses?: string[];
+  status?: ProviderStatus;
+};
+
+export type UpdateProviderData = {
+  name?: string;
+  config?: ProviderConfig;
+  defaultRegion?: string | null;
+  ownedAddresses?: string[];
+  status?: ProviderStatus;
+};
+
+export type ProviderIngestionSettings = {
+  defaultRegion: string | null;
+  ownedAddresses: string[];
+};
+
+export type ProviderReencryptionReport = {
+  scanned: number;
+  reencrypted: number;
+};
+
+export type ProviderSearchParams = {
+  type?: ProviderType;
+  status?: ProviderStatus;
+};
+
+export type ProviderHealthUpdate = {
+  // Left out to record the check without changing the status
+  status?: ProviderStatus;
+  errorMessage: string | null;
+  checkedAt?: Date;
+};
+
+const buildWebhookUrl = (type: ProviderType, id: string): string =>
+  `${config.webhook.baseUrl?.replace(/\/$/, '') ?? ''}/api/v1/webhooks/${type}/${id}`;
+
+const webhookSecretFor = (type: ProviderType, plainConfig: ProviderConfig): string | null => {
+  const field = PROVIDER_CREDENTIALS[type].webhookSecret;
+  const value = field ? plainConfig[field] : undefined;
+  return typeof value === 'string' && value !== '' ? encryptSecret(value) : null;
+};
+
+export class ProviderModel {
+  static async create(data: CreateProviderData): Promise<ProviderWithWebhooks> {
+    const id = randomUUID();
+
+    const provider = await prisma.provider.create({
+      data: {
+        id,
+        name: data.name,
+        type: data.type,
+        config: encryptProviderConfig(data.type, data.config) as Prisma.InputJsonObject,
+        ...(data.defaultRegion && { defaultRegion: data.defaultRegion }),
+        ...(data.ownedAddresses && { ownedAddresses: normalizeOwnedAddresses(data.ownedAddresses) }),
+        status: data.status || 'inactive',
+        // Polled providers (IMAP) have nothing to receive
+        ...(PROVIDER_CREDENTIALS[data.type].webhookSecret !== null && {
+          webhooks: {
+            create: {
+              endpointUrl: buildWebhookUrl(data.type, id),
+              secret: webhookSecretFor(data.type, data.config)
+            }
+          }
+        })
+      },
+      include: {
+        webhooks: true
+      }
+    });
+
+    return provider;
+  }
+
+  static async findById(id: string): Promise<ProviderWithWebhooks | null> {
+    const provider = await prisma.provider.findUnique({
+      where: { id },
+      include: {
+        webhooks: true
+      }
+    });
+
+    return provider;
+  }
+
+  static async findByName(name: string): Promise<Provider | null> {
+    const provider = await prisma.provider.findUnique({
+      where: { name }
+    });
+
+    return provider;
+  }
+
+  static async list(params: ProviderSearchParams = {}): Promise<ProviderWithWebhooks[]> {
+    const providers = await prisma.provider.findMany({
+      where: {
+        ...(params.type && { type: params.type }),
+        ...(params.status && { status: params.status })
+      },
+      include: {
+        webhooks: true
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    return providers;
+  }
+
+  static async update(id: string, data: UpdateProviderData): Promise<ProviderWithWebhooks> {
+    const result = await prisma.$transaction(async (tx) => {
+      const existing = await tx.provider.findUniqueOrThrow({
+        where: { id }
+      });
+
+      const storedConfig = data.config
+        ? mergeProviderConfig(existing.type, existing.config, data.config)
+        : undefined;
+      if (storedConfig) {
+        assertCompleteCredentials(existing.type, storedConfig);
+      }
+
+      // Keep the webhook signing secret in step with the credential it mirrors
+      const webhookSecretField = PROVIDER_CREDENTIALS[existing.type].webhookSecret;
+      if (data.config && webhookSecretField && webhookSecretField in data.config) {
+        await tx.webhook.updateMany({
+          where: { providerId: id },
+          data: { secret: webhookSecretFor(existing.type, data.config) }
+        });
+      }
+
+      return tx.provider.update({
+        where: { id },
+        data: {
+          ...(data.name && { name: data.name }),
+          ...(data.status && { status: data.status }),
+          ...(data.defaultRegion !== undefined && { defaultRegion: data.defaultRegion }),
+          ...(data.ownedAddresses && { ownedAddresses: normalizeOwnedAddresses(data.ownedAddresses) }),
+          ...(storedConfig && { config: storedConfig as Prisma.InputJsonObject })
+        },
+        include: {
+          webhooks: true
+        }
+      });
+    });
+
+    return result;
+  }
+
+  /**
+   * What normalizers need from the provider: the region numbers without a country code
+   * default to, and the addresses that are ours rather than a customer's
+   */
+  static async getIngestionSettings(id: string): Promise<ProviderIngestionSettings> {
+    const provider = await prisma.provider.findUnique({
+      where: { id },
+      select: { defaultRegion: true, ownedAddresses: true }
+    });
+
+    return {
+      defaultRegion: provider?.defaultRegion ?? null,
+      ownedAddresses: provider?.ownedAddresses ?? []
+    };
+  }
+
+  static async delete(id: string): Promise<void> {
+    await prisma.provider.delete({
+      where: { id }
+    });
+  }
+
+  static async hasMessages(id: string): Promise<boolean> {
+    const count = await prisma.message.count({
+      where: { providerId: id }
+    });
+    return count > 0;
+  }
+
+  static async recordHealthCheck(id: string, update: ProviderHealthUpdate): Promise<ProviderWithWebhooks> {
+    const provider = await prisma.provider.update({
+      where: { id },
+      data: {
+        ...(update.status && { status: update.status }),
+        errorMessage: update.errorMessage,
+        lastHealthCheck: update.checkedAt || new Date()
+      },
+      include: {
+        webhooks: true
+      }
+    });
+
+    return provider;
+  }
+
+  /**
+   * Bring every stored credential and webhook secret under the current key, e.g. after
+   * rotating PII_ENCRYPTION_KEY; providers already on it are left alone
+   */
+  static async reencryptCredentials(): Promise<ProviderReencryptionReport> {
+    const providers = await prisma.provider.findMany({ include: { webhooks: true } });
+    const report: ProviderReencryptionReport = { scanned: providers.length, reencrypted: 0 };
+
+    for (const provider of providers) {
+      const storedConfig = reencryptProviderConfig(provider.type, provider.config);
+      const webhooks = provider.webhooks
+        .filter((webhook): webhook is Webhook & { secret: string } => !!webhook.secret)
+        .map(webhook => ({ id: webhook.id, secret: reencryptSecret(webhook.secret), previous: webhook.secret }))
+        .filter(webhook => webhook.secret !== webhook.previous);
+
+      if (!storedConfig && webhooks.length === 0) {
+        continue;
+      }
+
+      await prisma.$transaction([
+        ...(storedConfig ? [prisma.provider.update({
+          where: { id: provider.id },
+          data: { config: storedConfig as Prisma.InputJsonObject }
+        })] : []),
+        ...webhooks.map(webhook => prisma.webhook.update({
+          where: { id: webhook.id },
+          data: { secret: webhook.secret }
+        }))
+      ]);
+      report.reencrypted++;
+    }
+
+    return report;
+  }
+
+  /**
+   * Decrypted credentials for internal callers (senders, health checks, media fetches)
+   */
+  static getCredentials(provider: Provider): ProviderConfig {
+    return decryptProviderConfig(provider.type, provider.config);
+  }
+
+  /**
+   * API representation: secrets are stripped and only reported as configured
+   */
+  static toPublic(provider: ProviderWithWebhooks): PublicProvider {
+    const { webhooks, config: storedConfig, ...rest } = provider;
+    const { config: publicConfig, configuredSecrets } = toPublicProviderConfig(provider.type, storedConfig);
+
+    return {
+      ...rest,
+      config: publicConfig,
+      configuredSecrets,
+      webhookUrl: webhooks.find(webhook => webhook.status === 'active')?.endpointUrl ?? null
+    };
+  }
+
+  static async exists(id: string): Promise<boolean> {
+    const count = await prisma.provider.count({
+      where: { id }
+    });
+    return count > 0;
+  }
+}
+
+export default ProviderModel;
@@ -0,0 +1,46 @@
+import { PrismaClient, Webhook, Provider } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export type WebhookWithProvider = Webhook & {
+  provider: Provider;
+};
+
+export class WebhookModel {
+  static async findById(id: string): Promise<WebhookWithProvider | null> {
+    const webhook = await prisma.webhook.findUnique({
+      where: { id },
+      include: {
+        provider: true
+      }
+    });
+
+    return webhook;
+  }
+
+  static async findActiveByProvider(providerId: string): Promise<WebhookWithProvider | null> {
+    const webhook = await prisma.webhook.findFirst({
+      where: {
+        providerId,
+        status: 'active'
+      },
+      include: {
+        provider: true
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return webhook;
+  }
+
+  static async markReceived(id: string, receivedAt: Date = new Date()): Promise<Webhook> {
+    const webhook = await prisma.webhook.update({
+      where: { id },
+      data: { lastReceived: receivedAt }
+    });
+
+    return webhook;
+  }
+}
+
+export default WebhookModel;
@@ -5,6 +5,7 @@ import logger from '../lib/logger.js';
 import { redisManager } from '../lib/redis.js';
 import { queueWorker } from '../lib/queue/worker.js';
 import { queueManager } from '../lib/queue/manager.js';
+import { imapWatcher } from '../lib/imap-sync.js';
 
 // Graceful shutdown handler
 let isShuttingDown = false;
@@ -19,6 +20,10 @@ async function gracefulShutdown(signal: string): Promise<void> {
   logger.info(`Received ${signal}, starting graceful shutdown...`);
 
   try {
+    // Stop reading mailboxes before the queues they feed
+    await imapWatcher.stop();
+    logger.info('IMAP watcher stopped');
+
     // Stop accepting new jobs
     await queueWorker.stop();
     logger.info('Queue worker stopped');
@@ -77,6 +82,9 @@ async function startWorker(): Promise<void> {
     await queueWorker.start(concurrency);
     logger.info('Queue workers started successfully');
 
+    // Poll (and IDLE on) the mailboxes of IMAP providers
+    await imapWatcher.start();
+
     // Log worker status
     const workerStats = queueWorker.getWorkerStats();
     logger.info('Worker status:', workerStats);
@@ -100,12 +108,16 @@ function parseConcurrencySettings() {
   const webhookConcurrency = parseInt(process.env.WEBHOOK_WORKER_CONCURRENCY || '10');
   const messageConcurrency = parseInt(process.env.MESSAGE_WORKER_CONCURRENCY || '5');
   const notificationConcurrency = parseInt(process.env.NOTIFICATION_WORKER_CONCURRENCY || '3');
+  const outboundConcurrency = parseInt(process.env['OUTBOUND_WORKER_CONCURRENCY'] || '5');
+  const attachmentConcurrency = parseInt(process.env['ATTACHMENT_WORKER_CONCURRENCY'] || '3');
   const maintenanceConcurrency = parseInt(process.env.MAINTENANCE_WORKER_CONCURRENCY || '1');
   const healthCheckConcurrency = parseInt(process.env.HEALTH_CHECK_WORKER_CONCURRENCY || '1');
 
   if (!isNaN(webhookConcurrency)) settings['webhook-ingestion'] = webhookConcurrency;
   if (!isNaN(messageConcurrency)) settings['message-processing'] = messageConcurrency;
   if (!isNaN(notificationConcurrency)) settings['notifications'] = notificationConcurrency;
+  if (!isNaN(outboundConcurrency)) settings['outbound-messages'] = outboundConcurrency;
+  if (!isNaN(attachmentConcurrency)) settings['attachments'] = attachmentConcurrency;
   if (!isNaN(maintenanceConcurrency)) settings['maintenance'] = maintenanceConcurrency;
   if (!isNaN(healthCheckConcurrency)) settings['health-check'] = healthCheckConcurrency;
 
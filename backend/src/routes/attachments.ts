@@ -0,0 +1,223 @@
+import { Router, Request, Response } from 'express';
+import { pipeline } from 'stream/promises';
+import { AttachmentModel } from '../models/attachment';
+import { requireAuth, requireStaff, requireViewer } from '../middleware/auth';
+import { validateSchema, attachmentContentSchema } from '../middleware/validation';
+import { requireUuidParam } from '../middleware/validators';
+import { attachmentContentType, previewKind } from '../lib/attachment-fetch';
+import { getStorage, isStoredUrl, parseRangeHeader, StorageError } from '../lib/storage/index';
+import { recordAudit } from '../lib/audit';
+import { queueManager } from '../lib/queue/manager';
+
+const router = Router();
+
+// Types browsers display without running anything; everything else is forced to download
+const INLINE_TYPES = /^(image\/(png|jpeg|gif|webp)|audio\/[\w.+-]+|video\/[\w.+-]+|application\/pdf|text\/plain)$/;
+
+type StoredMedia = {
+  storageUrl: string;
+  contentType: string;
+  filename: string;
+  disposition: 'inline' | 'attachment';
+  etag?: string;
+};
+
+const notFound = (res: Response, message = 'Attachment not found'): void => {
+  res.status(404).json({
+    error: 'Not Found',
+    message
+  });
+};
+
+const contentDisposition = (disposition: StoredMedia['disposition'], filename: string): string => {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+};
+
+/**
+ * Stream a stored object, honouring a single-range Range header
+ */
+async function sendStoredMedia(req: Request, res: Response, media: StoredMedia): Promise<void> {
+  const storage = getStorage();
+  const key = storage.keyFromUrl(media.storageUrl);
+  if (!key) {
+    throw new StorageError('NOT_FOUND', `${media.storageUrl} is not held by the ${storage.driver} storage driver`);
+  }
+
+  const size = await storage.size(key);
+  // A stale If-Range validator means the client's partial copy is outdated: send everything
+  const ifRange = req.headers['if-range'];
+  const range = ifRange && ifRange !== media.etag ? null : parseRangeHeader(req.headers.range, size);
+
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('Content-Type', media.contentType);
+  res.setHeader('Content-Disposition', contentDisposition(media.disposition, media.filename));
+  res.setHeader('Cache-Control', 'private, max-age=300');
+  if (media.etag) {
+    res.setHeader('ETag', media.etag);
+  }
+
+  if (range === 'unsatisfiable') {
+    res.setHeader('Content-Range', `bytes */${size}`);
+    res.status(416).end();
+    return;
+  }
+
+  const stream = await storage.createReadStream(key, range ?? undefined);
+  if (range) {
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+    res.setHeader('Content-Length', String(range.end - range.start + 1));
+  } else {
+    res.status(200);
+    res.setHeader('Content-Length', String(size));
+  }
+
+  await pipeline(stream, res);
+}
+
+const handleMediaError = (res: Response, error: unknown, context: string): void => {
+  // Once bytes are on the wire the only honest signal left is a truncated response
+  if (res.headersSent) {
+    res.destroy(error instanceof Error ? error : undefined);
+    return;
+  }
+  if (error instanceof StorageError && error.code === 'NOT_FOUND') {
+    notFound(res, 'Attachment media is missing from storage');
+    return;
+  }
+
+  console.error(`${context} error:`, error);
+  res.status(500).json({
+    error: 'Internal Server Error',
+    message: 'Failed to retrieve attachment'
+  });
+};
+
+// GET /attachments/:attachmentId/content - Download attachment media (supports Range)
+router.get('/:attachmentId/content',
+  requireAuth,
+  requireViewer,
+  validateSchema(attachmentContentSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { attachmentId } = req.params as { attachmentId: string };
+
+      const attachment = await AttachmentModel.findById(attachmentId);
+      if (!attachment) {
+        notFound(res);
+        return;
+      }
+
+      if (!isStoredUrl(attachment.storageUrl)) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: 'Attachment media has not been downloaded from the provider yet'
+        });
+        return;
+      }
+
+      const contentType = attachmentContentType(attachment);
+      const sha256 = (attachment.metadata as Record<string, unknown> | null)?.['sha256'];
+      const forceDownload = req.query['download'] === 'true' || !INLINE_TYPES.test(contentType);
+
+      await sendStoredMedia(req, res, {
+        storageUrl: attachment.storageUrl,
+        contentType,
+        filename: attachment.filename || 'attachment',
+        disposition: forceDownload ? 'attachment' : 'inline',
+        ...(typeof sha256 === 'string' && { etag: `"${sha256}"` })
+      });
+    } catch (error) {
+      handleMediaError(res, error, 'Attachment content');
+    }
+  }
+);
+
+// GET /attachments/:attachmentId/thumbnail - Image or PDF preview, once generated
+router.get('/:attachmentId/thumbnail',
+  requireAuth,
+  requireViewer,
+  requireUuidParam('attachmentId'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { attachmentId } = req.params as { attachmentId: string };
+
+      const attachment = await AttachmentModel.findById(attachmentId);
+      if (!attachment) {
+        notFound(res);
+        return;
+      }
+      if (!attachment.thumbnailUrl) {
+        notFound(res, 'Thumbnail not available');
+        return;
+      }
+
+      await sendStoredMedia(req, res, {
+        storageUrl: attachment.thumbnailUrl,
+        contentType: 'image/webp',
+        filename: `${(attachment.filename || 'attachment').replace(/\.[^.]*$/, '')}.webp`,
+        disposition: 'inline'
+      });
+    } catch (error) {
+      handleMediaError(res, error, 'Attachment thumbnail');
+    }
+  }
+);
+
+// POST /attachments/:attachmentId/thumbnail - Queue (re)generation of the preview
+router.post('/:attachmentId/thumbnail',
+  requireAuth,
+  requireStaff,
+  requireUuidParam('attachmentId'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { attachmentId } = req.params as { attachmentId: string };
+
+      const attachment = await AttachmentModel.findById(attachmentId);
+      if (!attachment) {
+        notFound(res);
+        return;
+      }
+
+      if (!isStoredUrl(attachment.storageUrl)) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: 'Attachment media has not been downloaded from the provider yet'
+        });
+        return;
+      }
+
+      const contentType = attachmentContentType(attachment);
+      if (!previewKind(contentType)) {
+        res.status(422).json({
+          error: 'Unprocessable Entity',
+          message: `No preview available for ${contentType}`
+        });
+        return;
+      }
+
+      const jobId = await queueManager.addAttachmentThumbnailJob({
+        attachmentId,
+        messageId: attachment.messageId
+      });
+
+      await recordAudit(req, {
+        action: 'attachment.thumbnail_generate',
+        resourceType: 'attachment',
+        resourceId: attachmentId,
+        metadata: { jobId, messageId: attachment.messageId }
+      });
+
+      res.status(202).json({ jobId, status: 'queued' });
+    } catch (error) {
+      console.error('Attachment thumbnail generation error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to queue thumbnail generation'
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,444 @@
+import { Router, Request, Response } from 'express';
+import { ConversationModel, ConversationSearchParams } from '../models/conversation';
+import { UserModel } from '../models/user';
+import { requireAuth, requireStaff } from '../middleware/auth';
+import {
+  validateSchema,
+  validateJson,
+  conversationListSchema,
+  conversationDetailSchema,
+  conversationAssignSchema,
+  conversationTagsSchema,
+  conversationSendMessageSchema
+} from '../middleware/validation';
+import { requireUuidParam } from '../middleware/validators';
+import { recordAudit } from '../lib/audit';
+import { OutboundMessenger, OutboundError } from '../lib/outbound';
+import { queueManager } from '../lib/queue/manager';
+
+const router = Router();
+
+const notFound = (res: Response): void => {
+  res.status(404).json({
+    error: 'Not Found',
+    message: 'Conversation not found'
+  });
+};
+
+// GET /conversations - List conversations with filters and pagination
+router.get('/',
+  requireAuth,
+  validateSchema(conversationListSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { status, channel, tag, assigned_to, customer_id, search, page, limit } = req.query as {
+        status?: ConversationSearchParams['status'];
+        channel?: ConversationSearchParams['channel'];
+        tag?: string[];
+        assigned_to?: string;
+        customer_id?: string;
+        search?: string;
+        page?: number;
+        limit?: number;
+      };
+
+      const boundedLimit = Math.min(Math.max(limit || 50, 1), 100);
+      const boundedPage = Math.max(page || 1, 1);
+
+      const result = await ConversationModel.list({
+        ...(status && { status }),
+        ...(channel && { channel }),
+        ...(tag && { tags: tag }),
+        ...(assigned_to && { assignedUserId: assigned_to }),
+        ...(customer_id && { customerId: customer_id }),
+        ...(search && { search }),
+        page: boundedPage,
+        limit: boundedLimit
+      });
+
+      res.status(200).json(result);
+    } catch (error) {
+      console.error('Conversation list error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve conversations'
+      });
+    }
+  }
+);
+
+// GET /conversations/:conversationId - Conversation detail with paginated messages
+router.get('/:conversationId',
+  requireAuth,
+  requireUuidParam('conversationId'),
+  validateSchema(conversationDetailSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { conversationId } = req.params as { conversationId: string };
+      const { page, limit } = req.query;
+
+      const boundedLimit = Math.min(Math.max(Number(limit) || 50, 1), 200);
+      const boundedPage = Math.max(Number(page) || 1, 1);
+
+      const conversation = await ConversationModel.findSummaryById(conversationId);
+      if (!conversation) {
+        notFound(res);
+        return;
+      }
+
+      const messages = await ConversationModel.getMessages(conversationId, {
+        page: boundedPage,
+        limit: boundedLimit
+      });
+
+      res.status(200).json({
+        conversation,
+        messages: messages.data,
+        pagination: messages.pagination
+      });
+    } catch (error) {
+      console.error('Conversation detail error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve conversation'
+      });
+    }
+  }
+);
+
+// POST /conversations/:conversationId/assign - Assign conversation to a staff member
+router.post('/:conversationId/assign',
+  requireAuth,
+  requireStaff,
+  requireUuidParam('conversationId'),
+  validateJson,
+  validateSchema(conversationAssignSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { conversationId } = req.params as { conversationId: string };
+      const { userId, notes } = req.body;
+
+      if (!(await ConversationModel.exists(conversationId))) {
+        notFound(res);
+        return;
+      }
+
+      const assignee = await UserModel.findById(userId);
+      if (!assignee) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: 'User not found'
+        });
+        return;
+      }
+
+      if (assignee.role === 'viewer') {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: [{ field: 'userId', message: 'assignee must be staff or admin' }]
+        });
+        return;
+      }
+
+      const conversation = await ConversationModel.assign(conversationId, {
+        userId,
+        assignedBy: req.user!.id,
+        ...(notes && { notes })
+      });
+
+      await recordAudit(req, {
+        action: 'conversation.assign',
+        resourceType: 'conversation',
+        resourceId: conversationId,
+        metadata: { userId, ...(notes && { notes }) }
+      });
+
+      res.status(200).json(conversation.assignment);
+    } catch (error) {
+      console.error('Conversation assign error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to assign conversation'
+      });
+    }
+  }
+);
+
+// DELETE /conversations/:conversationId/assign - Remove the current assignment
+router.delete('/:conversationId/assign',
+  requireAuth,
+  requireStaff,
+  requireUuidParam('conversationId'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { conversationId } = req.params as { conversationId: string };
+
+      const existing = await ConversationModel.findSummaryById(conversationId);
+      if (!existing) {
+        notFound(res);
+        return;
+      }
+
+      const conversation = await ConversationModel.unassign(conversationId);
+
+      await recordAudit(req, {
+        action: 'conversation.unassign',
+        resourceType: 'conversation',
+        resourceId: conversationId,
+        metadata: { previousUserId: existing.assignment?.userId ?? null }
+      });
+
+      res.status(200).json(conversation);
+    } catch (error) {
+      console.error('Conversation unassign error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to unassign conversation'
+      });
+    }
+  }
+);
+
+// PUT /conversations/:conversationId/tags - Replace conversation tags
+router.put('/:conversationId/tags',
+  requireAuth,
+  requireStaff,
+  requireUuidParam('conversationId'),
+  validateJson,
+  validateSchema(conversationTagsSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { conversationId } = req.params as { conversationId: string };
+      const tags = Array.from(new Set<string>(req.body.tags));
+
+      const existing = await ConversationModel.findSummaryById(conversationId);
+      if (!existing) {
+        notFound(res);
+        return;
+      }
+
+      const conversation = await ConversationModel.update(conversationId, { tags });
+
+      await recordAudit(req, {
+        action: 'conversation.tags.update',
+        resourceType: 'conversation',
+        resourceId: conversationId,
+        metadata: { previousTags: existing.tags, tags }
+      });
+
+      res.status(200).json(conversation);
+    } catch (error) {
+      console.error('Conversation tags update error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to update conversation tags'
+      });
+    }
+  }
+);
+
+// POST /conversations/:conversationId/tags - Add tags to a conversation
+router.post('/:conversationId/tags',
+  requireAuth,
+  requireStaff,
+  requireUuidParam('conversationId'),
+  validateJson,
+  validateSchema(conversationTagsSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { conversationId } = req.params as { conversationId: string };
+      const { tags } = req.body;
+
+      if (!(await ConversationModel.exists(conversationId))) {
+        notFound(res);
+        return;
+      }
+
+      const conversation = await ConversationModel.addTags(conversationId, tags);
+
+      await recordAudit(req, {
+        action: 'conversation.tags.add',
+        resourceType: 'conversation',
+        resourceId: conversationId,
+        metadata: { tags }
+      });
+
+      res.status(200).json(conversation);
+    } catch (error) {
+      console.error('Conversation tag add error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to add conversation tags'
+      });
+    }
+  }
+);
+
+// DELETE /conversations/:conversationId/tags/:tag - Remove a tag from a conversation
+router.delete('/:conversationId/tags/:tag',
+  requireAuth,
+  requireStaff,
+  requireUuidParam('conversationId'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { conversationId, tag } = req.params as { conversationId: string; tag: string };
+
+      if (!(await ConversationModel.exists(conversationId))) {
+        notFound(res);
+        return;
+      }
+
+      const conversation = await ConversationModel.removeTags(conversationId, [tag]);
+
+      await recordAudit(req, {
+        action: 'conversation.tags.remove',
+        resourceType: 'conversation',
+        resourceId: conversationId,
+        metadata: { tags: [tag] }
+      });
+
+      res.status(200).json(conversation);
+    } catch (error) {
+      console.error('Conversation tag remove error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to remove conversation tag'
+      });
+    }
+  }
+);
+
+// POST /conversations/:conversationId/archive - Archive a conversation
+router.post('/:conversationId/archive',
+  requireAuth,
+  requireStaff,
+  requireUuidParam('conversationId'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { conversationId } = req.params as { conversationId: string };
+
+      const existing = await ConversationModel.findSummaryById(conversationId);
+      if (!existing) {
+        notFound(res);
+        return;
+      }
+
+      const conversation = await ConversationModel.archive(conversationId);
+
+      await recordAudit(req, {
+        action: 'conversation.archive',
+        resourceType: 'conversation',
+        resourceId: conversationId,
+        metadata: { previousStatus: existing.status }
+      });
+
+      res.status(200).json(conversation);
+    } catch (error) {
+      console.error('Conversation archive error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to archive conversation'
+      });
+    }
+  }
+);
+
+// POST /conversations/:conversationId/unarchive - Restore an archived conversation
+router.post('/:conversationId/unarchive',
+  requireAuth,
+  requireStaff,
+  requireUuidParam('conversationId'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { conversationId } = req.params as { conversationId: string };
+
+      const existing = await ConversationModel.findSummaryById(conversationId);
+      if (!existing) {
+        notFound(res);
+        return;
+      }
+
+      // An assigned conversation returns to "assigned", otherwise to "active"
+      const conversation = existing.assignment
+        ? await ConversationModel.update(conversationId, { status: 'assigned' })
+        : await ConversationModel.unarchive(conversationId);
+
+      await recordAudit(req, {
+        action: 'conversation.unarchive',
+        resourceType: 'conversation',
+        resourceId: conversationId,
+        metadata: { previousStatus: existing.status }
+      });
+
+      res.status(200).json(conversation);
+    } catch (error) {
+      console.error('Conversation unarchive error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to unarchive conversation'
+      });
+    }
+  }
+);
+
+// POST /conversations/:conversationId/messages - Reply to the customer through the conversation's channel
+router.post('/:conversationId/messages',
+  requireAuth,
+  requireStaff,
+  requireUuidParam('conversationId'),
+  validateJson,
+  validateSchema(conversationSendMessageSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { conversationId } = req.params as { conversationId: string };
+      const { body, subject } = req.body;
+
+      const conversation = await ConversationModel.findSummaryById(conversationId);
+      if (!conversation) {
+        notFound(res);
+        return;
+      }
+
+      const job = await OutboundMessenger.planReply(conversation, {
+        body,
+        ...(subject && { subject }),
+        requestedBy: req.user!.id
+      });
+
+      const jobId = await queueManager.addOutboundMessageJob(job);
+
+      await recordAudit(req, {
+        action: 'conversation.send_message',
+        resourceType: 'conversation',
+        resourceId: conversationId,
+        metadata: { jobId, providerId: job.providerId, channel: job.channel, to: job.to }
+      });
+
+      res.status(202).json({
+        jobId,
+        status: 'queued',
+        conversationId,
+        providerId: job.providerId,
+        channel: job.channel,
+        to: job.to
+      });
+    } catch (error) {
+      if (error instanceof OutboundError) {
+        res.status(422).json({
+          error: 'Unprocessable Entity',
+          code: error.code,
+          message: error.message
+        });
+        return;
+      }
+
+      console.error('Conversation send message error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to send message'
+      });
+    }
+  }
+);
+
+export default router;
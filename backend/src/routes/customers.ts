@@ -1,5 +1,7 @@
 import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { CustomerModel } from '../models/customer';
+import { IdentityModel, IdentityWithCustomer } from '../models/identity';
 import { requireAuth, requireStaff } from '../middleware/auth';
 import { 
   validateSchema, 
@@ -7,15 +9,66 @@ import {
   customerCreateSchema, 
   customerListSchema,
   customerParamsSchema,
+  customerMergeSchema,
+  customerSplitSchema,
+  duplicateListSchema,
+  duplicateAcceptSchema,
+  duplicateScanSchema,
+  customerIdentityCreateSchema,
   timelineQuerySchema
 } from '../middleware/validation';
 import { requireUuidParam } from '../middleware/validators';
+import { auditActor, recordAudit } from '../lib/audit';
+import { CustomerMerger, CustomerMergeError } from '../lib/customer-merge';
+import { DuplicateSuggestionModel, DuplicateSuggestionSearchParams } from '../models/duplicate-suggestion';
+import { queueManager } from '../lib/queue/manager';
+import { DUPLICATE_SCAN_JOB } from '../lib/queue/types';
 
 const router = Router();
 
 // String normalization utility
 const clean = (s?: string | null) => s?.trim().replace(/\s+/g, ' ') || undefined;
 
+const MERGE_ERROR_STATUS: Record<CustomerMergeError['code'], number> = {
+  CUSTOMER_NOT_FOUND: 404,
+  MERGE_NOT_FOUND: 404,
+  MERGE_ALREADY_UNDONE: 409,
+  SAME_CUSTOMER: 422,
+  IDENTITY_NOT_FOUND: 422
+};
+
+const MERGE_ERROR_LABEL: Record<number, string> = {
+  404: 'Not Found',
+  409: 'Conflict',
+  422: 'Unprocessable Entity'
+};
+
+const isUniqueViolation = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// Identities are unique per type and value, so the conflict names the customer that owns it
+const identityConflict = (res: Response, existing: IdentityWithCustomer): void => {
+  res.status(409).json({
+    error: 'Conflict',
+    message: 'Identity is already linked to a customer',
+    identityId: existing.id,
+    customer: {
+      id: existing.customer.id,
+      name: existing.customer.name,
+      displayName: existing.customer.displayName
+    }
+  });
+};
+
+const mergeError = (res: Response, error: CustomerMergeError): void => {
+  const status = MERGE_ERROR_STATUS[error.code];
+  res.status(status).json({
+    error: MERGE_ERROR_LABEL[status],
+    code: error.code,
+    message: error.message
+  });
+};
+
 // GET /customers - List customers with search and pagination
 router.get('/', 
   requireAuth,
@@ -89,6 +142,183 @@ router.post('/',
   }
 );
 
+// GET /customers/duplicates - Review queue of likely duplicate customers
+router.get('/duplicates',
+  requireAuth,
+  validateSchema(duplicateListSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { status, customerId, minScore, page, limit } = req.query as DuplicateSuggestionSearchParams;
+
+      const result = await DuplicateSuggestionModel.list({
+        ...(status && { status }),
+        ...(customerId && { customerId }),
+        ...(minScore !== undefined && { minScore }),
+        page: page || 1,
+        limit: limit || 25
+      });
+
+      res.status(200).json(result);
+    } catch (error) {
+      console.error('Duplicate suggestion list error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve duplicate suggestions'
+      });
+    }
+  }
+);
+
+// POST /customers/duplicates/scan - Queue a fresh duplicate scan
+router.post('/duplicates/scan',
+  requireAuth,
+  requireStaff,
+  validateSchema(duplicateScanSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const minScore = req.body?.minScore;
+
+      const jobId = await queueManager.addMaintenanceJob(DUPLICATE_SCAN_JOB, {
+        scan: 'duplicate_customers',
+        ...(minScore !== undefined && { minScore })
+      });
+
+      await recordAudit(req, {
+        action: 'customer.duplicate_scan',
+        resourceType: 'customer',
+        metadata: { jobId, ...(minScore !== undefined && { minScore }) }
+      });
+
+      res.status(202).json({ jobId, status: 'queued' });
+    } catch (error) {
+      console.error('Duplicate scan error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to queue duplicate scan'
+      });
+    }
+  }
+);
+
+// POST /customers/duplicates/:suggestionId/accept - Merge the suggested pair
+router.post('/duplicates/:suggestionId/accept',
+  requireAuth,
+  requireStaff,
+  requireUuidParam('suggestionId'),
+  validateSchema(duplicateAcceptSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { suggestionId } = req.params as { suggestionId: string };
+      const requestedTarget: string | undefined = req.body?.targetCustomerId;
+
+      const suggestion = await DuplicateSuggestionModel.findById(suggestionId);
+      if (!suggestion) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: 'Duplicate suggestion not found'
+        });
+        return;
+      }
+
+      if (suggestion.status !== 'pending') {
+        res.status(409).json({
+          error: 'Conflict',
+          message: 'Duplicate suggestion has already been dismissed'
+        });
+        return;
+      }
+
+      const pair = [suggestion.customer, suggestion.candidate];
+      if (requestedTarget && !pair.some(customer => customer.id === requestedTarget)) {
+        res.status(422).json({
+          error: 'Unprocessable Entity',
+          code: 'TARGET_NOT_IN_SUGGESTION',
+          message: 'Target customer must be one of the suggested pair'
+        });
+        return;
+      }
+
+      // Unless staff choose, the longest-standing record survives
+      const oldest = [...pair].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0]!;
+      const target = pair.find(customer => customer.id === (requestedTarget ?? oldest.id))!;
+      const source = pair.find(customer => customer.id !== target.id)!;
+
+      // The merge deletes the source customer and with it this suggestion
+      const result = await CustomerMerger.merge(target.id, source.id, auditActor(req));
+
+      await recordAudit(req, {
+        action: 'customer.duplicate_accept',
+        resourceType: 'customer',
+        resourceId: target.id,
+        metadata: {
+          suggestionId,
+          mergeId: result.mergeId,
+          sourceCustomerId: source.id,
+          score: suggestion.score,
+          reasons: suggestion.reasons as Prisma.InputJsonValue
+        }
+      });
+
+      const customer = await CustomerModel.findById(target.id);
+
+      res.status(200).json({
+        mergeId: result.mergeId,
+        customer,
+        moved: result.moved
+      });
+    } catch (error) {
+      if (error instanceof CustomerMergeError) {
+        mergeError(res, error);
+        return;
+      }
+
+      console.error('Duplicate accept error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to accept duplicate suggestion'
+      });
+    }
+  }
+);
+
+// POST /customers/duplicates/:suggestionId/dismiss - Keep the pair apart
+router.post('/duplicates/:suggestionId/dismiss',
+  requireAuth,
+  requireStaff,
+  requireUuidParam('suggestionId'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { suggestionId } = req.params as { suggestionId: string };
+
+      const suggestion = await DuplicateSuggestionModel.findById(suggestionId);
+      if (!suggestion) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: 'Duplicate suggestion not found'
+        });
+        return;
+      }
+
+      const dismissed = await DuplicateSuggestionModel.dismiss(suggestionId, req.user!.id);
+
+      await recordAudit(req, {
+        action: 'customer.duplicate_dismiss',
+        resourceType: 'customer',
+        resourceId: suggestion.customerId,
+        metadata: { suggestionId, candidateId: suggestion.candidateId, score: suggestion.score }
+      });
+
+      res.status(200).json(dismissed);
+    } catch (error) {
+      console.error('Duplicate dismiss error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to dismiss duplicate suggestion'
+      });
+    }
+  }
+);
+
 // GET /customers/:customerId - Get customer details
 router.get('/:customerId',
   requireAuth,
@@ -191,4 +421,218 @@ router.get('/:customerId/timeline',
   }
 );
 
+// POST /customers/:customerId/identities - Link a phone, email or social identity
+router.post('/:customerId/identities',
+  requireAuth,
+  requireStaff,
+  requireUuidParam('customerId'),
+  validateJson,
+  validateSchema(customerIdentityCreateSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    const { customerId } = req.params as { customerId: string };
+    const { type, value, provider, verified, region } = req.body;
+    const normalizedValue = await IdentityModel.normalizeValue(type, value, {
+      ...(region && { defaultRegion: region })
+    });
+
+    try {
+      const customerExists = await CustomerModel.exists(customerId);
+      if (!customerExists) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: 'Customer not found'
+        });
+        return;
+      }
+
+      const existing = await IdentityModel.findByTypeAndValue(type, normalizedValue);
+      if (existing) {
+        identityConflict(res, existing);
+        return;
+      }
+
+      const identity = await CustomerModel.linkIdentity(customerId, {
+        type,
+        value: normalizedValue,
+        rawValue: value,
+        ...(provider && { provider }),
+        ...(verified !== undefined && { verified })
+      });
+
+      await recordAudit(req, {
+        action: 'customer.identity_link',
+        resourceType: 'customer',
+        resourceId: customerId,
+        metadata: { identityId: identity.id, type, value: normalizedValue }
+      });
+
+      res.status(201).json(identity);
+    } catch (error) {
+      // Linked concurrently by another request or the ingestion pipeline
+      if (isUniqueViolation(error)) {
+        const existing = await IdentityModel.findByTypeAndValue(type, normalizedValue);
+        if (existing) {
+          identityConflict(res, existing);
+          return;
+        }
+      }
+
+      console.error('Customer identity link error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to link identity'
+      });
+    }
+  }
+);
+
+// DELETE /customers/:customerId/identities/:identityId - Unlink an identity
+router.delete('/:customerId/identities/:identityId',
+  requireAuth,
+  requireStaff,
+  requireUuidParam('customerId'),
+  requireUuidParam('identityId'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { customerId, identityId } = req.params as { customerId: string; identityId: string };
+
+      const identity = await IdentityModel.findById(identityId);
+      if (!identity || identity.customerId !== customerId) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: 'Identity not found for this customer'
+        });
+        return;
+      }
+
+      await CustomerModel.unlinkIdentity(customerId, identityId);
+
+      await recordAudit(req, {
+        action: 'customer.identity_unlink',
+        resourceType: 'customer',
+        resourceId: customerId,
+        metadata: { identityId, type: identity.type, value: identity.value }
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      console.error('Customer identity unlink error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to unlink identity'
+      });
+    }
+  }
+);
+
+// POST /customers/:customerId/merge - Merge another customer into this one
+router.post('/:customerId/merge',
+  requireAuth,
+  requireStaff,
+  requireUuidParam('customerId'),
+  validateJson,
+  validateSchema(customerMergeSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { customerId } = req.params as { customerId: string };
+      const { sourceCustomerId } = req.body;
+
+      const result = await CustomerMerger.merge(customerId, sourceCustomerId, auditActor(req));
+      const customer = await CustomerModel.findById(customerId);
+
+      res.status(200).json({
+        mergeId: result.mergeId,
+        customer,
+        moved: result.moved
+      });
+    } catch (error) {
+      if (error instanceof CustomerMergeError) {
+        mergeError(res, error);
+        return;
+      }
+
+      console.error('Customer merge error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to merge customers'
+      });
+    }
+  }
+);
+
+// POST /customers/merges/:mergeId/undo - Restore the customer a merge removed
+router.post('/merges/:mergeId/undo',
+  requireAuth,
+  requireStaff,
+  requireUuidParam('mergeId'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { mergeId } = req.params as { mergeId: string };
+
+      const result = await CustomerMerger.undoMerge(mergeId, auditActor(req));
+      const customer = await CustomerModel.findById(result.customer.id);
+
+      res.status(200).json({
+        customer,
+        targetCustomerId: result.targetCustomerId,
+        restored: result.restored
+      });
+    } catch (error) {
+      if (error instanceof CustomerMergeError) {
+        mergeError(res, error);
+        return;
+      }
+
+      console.error('Customer merge undo error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to undo customer merge'
+      });
+    }
+  }
+);
+
+// POST /customers/:customerId/split - Move identities out to a new customer
+router.post('/:customerId/split',
+  requireAuth,
+  requireStaff,
+  requireUuidParam('customerId'),
+  validateJson,
+  validateSchema(customerSplitSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { customerId } = req.params as { customerId: string };
+      const { identityIds, name, displayName } = req.body;
+
+      const cleanName = clean(name);
+      const cleanDisplayName = clean(displayName);
+
+      const result = await CustomerMerger.split(customerId, {
+        identityIds,
+        ...(cleanName && { name: cleanName }),
+        ...(cleanDisplayName && { displayName: cleanDisplayName })
+      }, auditActor(req));
+      const customer = await CustomerModel.findById(result.customer.id);
+
+      res.status(201).json({
+        customer,
+        sourceCustomerId: result.sourceCustomerId,
+        moved: result.moved,
+        sharedConversationIds: result.sharedConversationIds
+      });
+    } catch (error) {
+      if (error instanceof CustomerMergeError) {
+        mergeError(res, error);
+        return;
+      }
+
+      console.error('Customer split error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to split customer'
+      });
+    }
+  }
+);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,219 @@
+import { Router, Request, Response } from 'express';
+import { DeadLetterModel, DeadLetterSearchParams } from '../models/dead-letter';
+import { requireAuth, requireAdmin } from '../middleware/auth';
+import {
+  validateSchema,
+  validateJson,
+  deadLetterListSchema,
+  deadLetterParamsSchema,
+  deadLetterReplaySchema,
+  deadLetterBulkReplaySchema
+} from '../middleware/validation';
+import { requireUuidParam } from '../middleware/validators';
+import { recordAudit } from '../lib/audit';
+import { DeadLetterQueue, DeadLetterError } from '../lib/ingestion/dead-letters';
+import { queueManager } from '../lib/queue/manager';
+import { DEAD_LETTER_REPLAY_JOB } from '../lib/queue/types';
+
+const router = Router();
+
+// Dead letters hold raw provider payloads, so the whole router is admin-only
+router.use(requireAuth, requireAdmin);
+
+const notFound = (res: Response): void => {
+  res.status(404).json({
+    error: 'Not Found',
+    message: 'Dead letter not found'
+  });
+};
+
+// GET /dead-letters - List failed ingestions, dead ones by default
+router.get('/',
+  validateSchema(deadLetterListSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { status, errorCode, failedStage, providerId, from, to, page, limit } = req.query as {
+        status?: DeadLetterSearchParams['status'];
+        errorCode?: string;
+        failedStage?: string;
+        providerId?: string;
+        from?: string;
+        to?: string;
+        page?: number;
+        limit?: number;
+      };
+
+      const result = await DeadLetterModel.list({
+        ...(status && { status }),
+        ...(errorCode && { errorCode }),
+        ...(failedStage && { failedStage }),
+        ...(providerId && { providerId }),
+        ...(from && { from: new Date(from) }),
+        ...(to && { to: new Date(to) }),
+        page: page || 1,
+        limit: limit || 25
+      });
+
+      res.status(200).json(result);
+    } catch (error) {
+      console.error('Dead letter list error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve dead letters'
+      });
+    }
+  }
+);
+
+// POST /dead-letters/replay - Queue a replay of dead letters that failed with one error code
+router.post('/replay',
+  validateJson,
+  validateSchema(deadLetterBulkReplaySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { errorCode, providerId, limit } = req.body;
+
+      const jobId = await queueManager.addMaintenanceJob(DEAD_LETTER_REPLAY_JOB, {
+        errorCode,
+        ...(providerId && { providerId }),
+        limit: limit || 25,
+        ...(req.user?.id && { requestedBy: req.user.id })
+      });
+
+      await recordAudit(req, {
+        action: 'dead_letter.bulk_replay',
+        resourceType: 'dead_letter',
+        metadata: { jobId, errorCode, ...(providerId && { providerId }), limit: limit || 25 }
+      });
+
+      res.status(202).json({ jobId, status: 'queued' });
+    } catch (error) {
+      console.error('Dead letter bulk replay error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to queue dead letter replay'
+      });
+    }
+  }
+);
+
+// GET /dead-letters/:deadLetterId - Inspect the raw message and its attempts
+router.get('/:deadLetterId',
+  requireUuidParam('deadLetterId'),
+  validateSchema(deadLetterParamsSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { deadLetterId } = req.params as { deadLetterId: string };
+
+      const deadLetter = await DeadLetterModel.findById(deadLetterId);
+      if (!deadLetter) {
+        notFound(res);
+        return;
+      }
+
+      res.status(200).json(deadLetter);
+    } catch (error) {
+      console.error('Dead letter detail error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve dead letter'
+      });
+    }
+  }
+);
+
+// POST /dead-letters/:deadLetterId/replay - Replay, optionally with a corrected payload or headers
+router.post('/:deadLetterId/replay',
+  requireUuidParam('deadLetterId'),
+  validateSchema(deadLetterReplaySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { deadLetterId } = req.params as { deadLetterId: string };
+      const payload = req.body?.payload;
+      const rawHeaders = req.body?.rawHeaders;
+      const edited = payload !== undefined || rawHeaders !== undefined;
+
+      const result = await DeadLetterQueue.replay(deadLetterId, {
+        ...(edited && {
+          edit: {
+            ...(payload && { payload }),
+            ...(rawHeaders && { rawHeaders })
+          }
+        }),
+        ...(req.user?.id && { userId: req.user.id })
+      });
+
+      await recordAudit(req, {
+        action: 'dead_letter.replay',
+        resourceType: 'dead_letter',
+        resourceId: deadLetterId,
+        metadata: { status: result.status, edited, ...(result.messageId && { messageId: result.messageId }) }
+      });
+
+      res.status(200).json(result);
+    } catch (error) {
+      if (error instanceof DeadLetterError) {
+        if (error.code === 'NOT_FOUND') {
+          notFound(res);
+          return;
+        }
+        res.status(409).json({
+          error: 'Conflict',
+          code: error.code,
+          message: error.message
+        });
+        return;
+      }
+
+      console.error('Dead letter replay error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to replay dead letter'
+      });
+    }
+  }
+);
+
+// POST /dead-letters/:deadLetterId/discard - Give up on the message; it stays for the record
+router.post('/:deadLetterId/discard',
+  requireUuidParam('deadLetterId'),
+  validateSchema(deadLetterParamsSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { deadLetterId } = req.params as { deadLetterId: string };
+
+      const deadLetter = await DeadLetterModel.findById(deadLetterId);
+      if (!deadLetter) {
+        notFound(res);
+        return;
+      }
+      if (deadLetter.status === 'replayed') {
+        res.status(409).json({
+          error: 'Conflict',
+          code: 'ALREADY_REPLAYED',
+          message: 'Dead letter has already been replayed'
+        });
+        return;
+      }
+
+      const discarded = await DeadLetterModel.discard(deadLetterId, req.user?.id);
+
+      await recordAudit(req, {
+        action: 'dead_letter.discard',
+        resourceType: 'dead_letter',
+        resourceId: deadLetterId,
+        metadata: { errorCode: deadLetter.errorCode, providerId: deadLetter.providerId }
+      });
+
+      res.status(200).json(discarded);
+    } catch (error) {
+      console.error('Dead letter discard error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to discard dead letter'
+      });
+    }
+  }
+);
+
+export default router;
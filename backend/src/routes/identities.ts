@@ -0,0 +1,152 @@
+import { Router, Request, Response } from 'express';
+import { IdentityModel } from '../models/identity';
+import { requireAuth, requireStaff, requireAdmin } from '../middleware/auth';
+import { validateSchema, identityLookupSchema, phoneRenormalizeSchema } from '../middleware/validation';
+import { requireUuidParam } from '../middleware/validators';
+import { recordAudit } from '../lib/audit';
+import { queueManager } from '../lib/queue/manager';
+import { PHONE_RENORMALIZATION_JOB } from '../lib/queue/types';
+
+const router = Router();
+
+const notFound = (res: Response): void => {
+  res.status(404).json({
+    error: 'Not Found',
+    message: 'Identity not found'
+  });
+};
+
+// GET /identities?type=&value= - Find who owns a phone number, email or handle
+router.get('/',
+  requireAuth,
+  validateSchema(identityLookupSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { type, value, region } = req.query as {
+        type: 'phone' | 'email' | 'social';
+        value: string;
+        region?: string;
+      };
+
+      // Match the stored form regardless of how the caller formatted the value
+      const normalizedValue = await IdentityModel.normalizeValue(type, value, {
+        ...(region && { defaultRegion: region })
+      });
+      const identity = await IdentityModel.findByTypeAndValue(type, normalizedValue);
+
+      if (!identity) {
+        notFound(res);
+        return;
+      }
+
+      res.status(200).json(identity);
+    } catch (error) {
+      console.error('Identity lookup error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to look up identity'
+      });
+    }
+  }
+);
+
+// POST /identities/phone/renormalize - Queue re-normalization of stored phone numbers to E.164
+router.post('/phone/renormalize',
+  requireAuth,
+  requireAdmin,
+  validateSchema(phoneRenormalizeSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const dryRun = req.body?.dryRun;
+
+      const jobId = await queueManager.addMaintenanceJob(PHONE_RENORMALIZATION_JOB, {
+        migration: 'phone_e164',
+        ...(dryRun !== undefined && { dryRun })
+      });
+
+      await recordAudit(req, {
+        action: 'identity.phone_renormalize',
+        resourceType: 'identity',
+        metadata: { jobId, ...(dryRun !== undefined && { dryRun }) }
+      });
+
+      res.status(202).json({ jobId, status: 'queued' });
+    } catch (error) {
+      console.error('Phone re-normalization error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to queue phone re-normalization'
+      });
+    }
+  }
+);
+
+// POST /identities/:identityId/verify - Mark an identity as confirmed
+router.post('/:identityId/verify',
+  requireAuth,
+  requireStaff,
+  requireUuidParam('identityId'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { identityId } = req.params as { identityId: string };
+
+      if (!(await IdentityModel.exists(identityId))) {
+        notFound(res);
+        return;
+      }
+
+      const identity = await IdentityModel.verify(identityId);
+
+      await recordAudit(req, {
+        action: 'identity.verify',
+        resourceType: 'identity',
+        resourceId: identityId,
+        metadata: { customerId: identity.customerId }
+      });
+
+      res.status(200).json(identity);
+    } catch (error) {
+      console.error('Identity verify error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to verify identity'
+      });
+    }
+  }
+);
+
+// DELETE /identities/:identityId/verify - Withdraw verification
+router.delete('/:identityId/verify',
+  requireAuth,
+  requireStaff,
+  requireUuidParam('identityId'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { identityId } = req.params as { identityId: string };
+
+      if (!(await IdentityModel.exists(identityId))) {
+        notFound(res);
+        return;
+      }
+
+      const identity = await IdentityModel.unverify(identityId);
+
+      await recordAudit(req, {
+        action: 'identity.unverify',
+        resourceType: 'identity',
+        resourceId: identityId,
+        metadata: { customerId: identity.customerId }
+      });
+
+      res.status(200).json(identity);
+    } catch (error) {
+      console.error('Identity unverify error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to unverify identity'
+      });
+    }
+  }
+);
+
+export default router;
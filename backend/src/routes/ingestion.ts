@@ -0,0 +1,33 @@
+import { Router, Request, Response } from 'express';
+import { requireAuth, requireAdmin } from '../middleware/auth';
+import { validateSchema, ingestionMetricsSchema } from '../middleware/validation';
+import { MessageIngestionPipeline } from '../lib/ingestion/pipeline';
+import { MetricsWindow } from '../lib/ingestion/metrics';
+
+const router = Router();
+
+// Operational data, like the dead-letter console, is for admins only
+router.use(requireAuth, requireAdmin);
+
+// GET /ingestion/metrics - Success rate, stage latencies, errors and provider throughput
+router.get('/metrics',
+  validateSchema(ingestionMetricsSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const window = (req.query['window'] as MetricsWindow | undefined) || '24h';
+
+      const stats = await MessageIngestionPipeline.getProcessingStats(window);
+
+      res.status(200).json(stats);
+    } catch (error) {
+      console.error('Ingestion metrics error:', error);
+      // The counters live in Redis; without it there is nothing to report
+      res.status(503).json({
+        error: 'Service Unavailable',
+        message: 'Ingestion metrics are unavailable'
+      });
+    }
+  }
+);
+
+export default router;
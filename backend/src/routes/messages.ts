@@ -0,0 +1,119 @@
+import { Router, Request, Response } from 'express';
+import { Provider } from '@prisma/client';
+import { MessageModel, MessageSearchParams } from '../models/message';
+import { requireAuth } from '../middleware/auth';
+import { validateSchema, messageListSchema } from '../middleware/validation';
+import { requireUuidParam } from '../middleware/validators';
+
+const router = Router();
+
+// Provider config holds credentials, so only its public fields are returned
+const withPublicProvider = <T extends { provider: Provider }>(message: T) => ({
+  ...message,
+  provider: {
+    id: message.provider.id,
+    name: message.provider.name,
+    type: message.provider.type,
+    status: message.provider.status
+  }
+});
+
+// GET /messages - Search and filter messages
+router.get('/',
+  requireAuth,
+  validateSchema(messageListSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const {
+        q,
+        search,
+        channel,
+        direction,
+        status,
+        provider_id,
+        customer_id,
+        conversation_id,
+        from,
+        to,
+        page,
+        limit
+      } = req.query as {
+        q?: string;
+        search?: string;
+        channel?: MessageSearchParams['channel'];
+        direction?: MessageSearchParams['direction'];
+        status?: MessageSearchParams['status'];
+        provider_id?: string;
+        customer_id?: string;
+        conversation_id?: string;
+        from?: string;
+        to?: string;
+        page?: number;
+        limit?: number;
+      };
+
+      const boundedLimit = Math.min(Math.max(limit || 50, 1), 100);
+      const boundedPage = Math.max(page || 1, 1);
+      const query: string | undefined = q || search;
+
+      const filters = {
+        ...(channel && { channel }),
+        ...(direction && { direction }),
+        ...(status && { status }),
+        ...(provider_id && { providerId: provider_id }),
+        ...(customer_id && { customerId: customer_id }),
+        ...(conversation_id && { conversationId: conversation_id }),
+        ...(from && { from: new Date(from) }),
+        ...(to && { to: new Date(to) }),
+        page: boundedPage,
+        limit: boundedLimit
+      };
+
+      const result = query
+        ? await MessageModel.fullTextSearch(query, filters)
+        : await MessageModel.list(filters);
+
+      res.status(200).json({
+        data: result.data.map(withPublicProvider),
+        pagination: result.pagination
+      });
+    } catch (error) {
+      console.error('Message list error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve messages'
+      });
+    }
+  }
+);
+
+// GET /messages/:messageId - Message detail with attachments and provider
+router.get('/:messageId',
+  requireAuth,
+  requireUuidParam('messageId'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { messageId } = req.params as { messageId: string };
+
+      const message = await MessageModel.findById(messageId);
+
+      if (!message) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: 'Message not found'
+        });
+        return;
+      }
+
+      res.status(200).json(withPublicProvider(message));
+    } catch (error) {
+      console.error('Message detail error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve message'
+      });
+    }
+  }
+);
+
+export default router;
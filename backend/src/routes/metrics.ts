@@ -0,0 +1,27 @@
+import { Router, Request, Response } from 'express';
+import { requireMetricsAccess } from '../middleware/metrics';
+import { collectSystemMetrics } from '../lib/system-metrics';
+
+const router = Router();
+
+// GET /metrics - Prometheus scrape target
+router.get('/',
+  requireMetricsAccess,
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const body = await collectSystemMetrics();
+
+      res.status(200)
+        .set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+        .send(body);
+    } catch (error) {
+      console.error('Metrics scrape error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to collect metrics'
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,368 @@
+import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { ProviderModel, ProviderSearchParams } from '../models/provider';
+import { requireAuth, requireAdmin } from '../middleware/auth';
+import {
+  validateSchema,
+  validateJson,
+  providerListSchema,
+  providerCreateSchema,
+  providerUpdateSchema
+} from '../middleware/validation';
+import { requireUuidParam } from '../middleware/validators';
+import { recordAudit } from '../lib/audit';
+import { EncryptionError } from '../lib/encryption';
+import { findMissingCredentials, MissingCredentialsError } from '../lib/providers/credentials';
+import { ProviderHealthChecker } from '../lib/providers/health';
+
+const router = Router();
+
+// Every provider endpoint handles credentials, so the whole router is admin-only
+router.use(requireAuth, requireAdmin);
+
+const notFound = (res: Response): void => {
+  res.status(404).json({
+    error: 'Not Found',
+    message: 'Provider not found'
+  });
+};
+
+const isUniqueViolation = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+const encryptionUnavailable = (res: Response, error: EncryptionError): void => {
+  console.error('Provider credential encryption error:', error.message);
+  res.status(503).json({
+    error: 'Service Unavailable',
+    message: 'Credential encryption is not configured'
+  });
+};
+
+// GET /providers - List providers
+router.get('/',
+  validateSchema(providerListSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { type, status } = req.query as ProviderSearchParams;
+
+      const providers = await ProviderModel.list({
+        ...(type && { type }),
+        ...(status && { status })
+      });
+
+      res.status(200).json({ data: providers.map(provider => ProviderModel.toPublic(provider)) });
+    } catch (error) {
+      console.error('Provider list error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve providers'
+      });
+    }
+  }
+);
+
+// POST /providers - Configure a new provider
+router.post('/',
+  validateJson,
+  validateSchema(providerCreateSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { name, type, config, defaultRegion, ownedAddresses, status } = req.body;
+
+      const missing = findMissingCredentials(type, config);
+      if (missing.length > 0) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: missing.map(field => ({ field: `config.${field}`, message: 'required' }))
+        });
+        return;
+      }
+
+      const provider = await ProviderModel.create({
+        name,
+        type,
+        config,
+        ...(defaultRegion && { defaultRegion }),
+        ...(ownedAddresses && { ownedAddresses }),
+        ...(status && { status })
+      });
+
+      await recordAudit(req, {
+        action: 'provider.create',
+        resourceType: 'provider',
+        resourceId: provider.id,
+        metadata: {
+          name,
+          type,
+          fields: Object.keys(config),
+          ...(defaultRegion && { defaultRegion }),
+          ...(ownedAddresses && { ownedAddresses: provider.ownedAddresses })
+        }
+      });
+
+      res.status(201).json(ProviderModel.toPublic(provider));
+    } catch (error) {
+      if (error instanceof EncryptionError) {
+        encryptionUnavailable(res, error);
+        return;
+      }
+
+      if (isUniqueViolation(error)) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: 'A provider with this name already exists'
+        });
+        return;
+      }
+
+      console.error('Provider creation error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to create provider'
+      });
+    }
+  }
+);
+
+// POST /providers/reencrypt - Re-encrypt stored credentials with the current key after a rotation
+router.post('/reencrypt',
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const report = await ProviderModel.reencryptCredentials();
+
+      await recordAudit(req, {
+        action: 'provider.reencrypt',
+        resourceType: 'provider',
+        metadata: report
+      });
+
+      res.status(200).json(report);
+    } catch (error) {
+      if (error instanceof EncryptionError) {
+        encryptionUnavailable(res, error);
+        return;
+      }
+
+      console.error('Provider credential re-encryption error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to re-encrypt provider credentials'
+      });
+    }
+  }
+);
+
+// GET /providers/:providerId - Provider details
+router.get('/:providerId',
+  requireUuidParam('providerId'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { providerId } = req.params as { providerId: string };
+
+      const provider = await ProviderModel.findById(providerId);
+      if (!provider) {
+        notFound(res);
+        return;
+      }
+
+      res.status(200).json(ProviderModel.toPublic(provider));
+    } catch (error) {
+      console.error('Provider detail error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve provider'
+      });
+    }
+  }
+);
+
+// PUT /providers/:providerId - Update name, status or credentials
+router.put('/:providerId',
+  requireUuidParam('providerId'),
+  validateJson,
+  validateSchema(providerUpdateSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { providerId } = req.params as { providerId: string };
+      const { name, config, defaultRegion, ownedAddresses, status } = req.body;
+
+      if (!(await ProviderModel.exists(providerId))) {
+        notFound(res);
+        return;
+      }
+
+      const provider = await ProviderModel.update(providerId, {
+        ...(name && { name }),
+        ...(config && { config }),
+        ...(defaultRegion !== undefined && { defaultRegion }),
+        ...(ownedAddresses && { ownedAddresses }),
+        ...(status && { status })
+      });
+
+      // Only field names are audited; credential values never reach the audit log
+      await recordAudit(req, {
+        action: 'provider.update',
+        resourceType: 'provider',
+        resourceId: providerId,
+        metadata: {
+          ...(name && { name }),
+          ...(status && { status }),
+          ...(defaultRegion !== undefined && { defaultRegion }),
+          ...(ownedAddresses && { ownedAddresses: provider.ownedAddresses }),
+          ...(config && { fields: Object.keys(config) })
+        }
+      });
+
+      res.status(200).json(ProviderModel.toPublic(provider));
+    } catch (error) {
+      if (error instanceof EncryptionError) {
+        encryptionUnavailable(res, error);
+        return;
+      }
+
+      if (isUniqueViolation(error)) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: 'A provider with this name already exists'
+        });
+        return;
+      }
+
+      if (error instanceof MissingCredentialsError) {
+        res.status(422).json({
+          error: 'Unprocessable Entity',
+          message: 'Update would leave the provider without required credentials',
+          details: error.fields.map(field => ({ field: `config.${field}`, message: 'required' }))
+        });
+        return;
+      }
+
+      console.error('Provider update error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to update provider'
+      });
+    }
+  }
+);
+
+// DELETE /providers/:providerId - Remove a provider without message history
+router.delete('/:providerId',
+  requireUuidParam('providerId'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { providerId } = req.params as { providerId: string };
+
+      const provider = await ProviderModel.findById(providerId);
+      if (!provider) {
+        notFound(res);
+        return;
+      }
+
+      if (await ProviderModel.hasMessages(providerId)) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: 'Provider has messages; set its status to inactive instead'
+        });
+        return;
+      }
+
+      await ProviderModel.delete(providerId);
+
+      await recordAudit(req, {
+        action: 'provider.delete',
+        resourceType: 'provider',
+        resourceId: providerId,
+        metadata: { name: provider.name, type: provider.type }
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      console.error('Provider deletion error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to delete provider'
+      });
+    }
+  }
+);
+
+// GET /providers/:providerId/health - Last recorded health check
+router.get('/:providerId/health',
+  requireUuidParam('providerId'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { providerId } = req.params as { providerId: string };
+
+      const provider = await ProviderModel.findById(providerId);
+      if (!provider) {
+        notFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        providerId: provider.id,
+        status: provider.status,
+        lastHealthCheck: provider.lastHealthCheck,
+        errorMessage: provider.errorMessage
+      });
+    } catch (error) {
+      console.error('Provider health error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve provider health'
+      });
+    }
+  }
+);
+
+// POST /providers/:providerId/test - Test the connection with the stored credentials
+router.post('/:providerId/test',
+  requireUuidParam('providerId'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { providerId } = req.params as { providerId: string };
+
+      const provider = await ProviderModel.findById(providerId);
+      if (!provider) {
+        notFound(res);
+        return;
+      }
+
+      const result = await ProviderHealthChecker.check(provider.type, ProviderModel.getCredentials(provider));
+
+      // A deactivated provider stays off; the test only records how the check went
+      const updated = await ProviderModel.recordHealthCheck(providerId, {
+        ...(provider.status !== 'inactive' && { status: result.healthy ? 'active' : 'error' }),
+        errorMessage: result.healthy ? null : result.message
+      });
+
+      await recordAudit(req, {
+        action: 'provider.test',
+        resourceType: 'provider',
+        resourceId: providerId,
+        metadata: { healthy: result.healthy, latencyMs: result.latencyMs }
+      });
+
+      res.status(200).json({
+        status: result.healthy ? 'healthy' : 'unhealthy',
+        message: result.message,
+        latencyMs: result.latencyMs,
+        provider: ProviderModel.toPublic(updated)
+      });
+    } catch (error) {
+      if (error instanceof EncryptionError) {
+        encryptionUnavailable(res, error);
+        return;
+      }
+
+      console.error('Provider test error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to test provider connection'
+      });
+    }
+  }
+);
+
+export default router;
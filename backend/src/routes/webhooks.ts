@@ -0,0 +1,194 @@
+import { Router, Response, NextFunction } from 'express';
+import { ProviderType } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { WebhookModel } from '../models/webhook';
+import { ProviderModel } from '../models/provider';
+import { decryptSecret } from '../lib/encryption';
+import { requireUuidParam } from '../middleware/validators';
+import {
+  captureRawBodyMiddleware,
+  createWebhookVerificationMiddleware,
+  WebhookRequest
+} from '../lib/webhook';
+import { queueManager } from '../lib/queue/manager';
+
+const router = Router();
+
+type WebhookParams = {
+  providerType: string;
+  providerId: string;
+};
+
+const TWILIO_PROVIDER_TYPES: string[] = [ProviderType.twilio_sms, ProviderType.twilio_voice];
+const META_PROVIDER_TYPES: string[] = [ProviderType.whatsapp, ProviderType.facebook, ProviderType.instagram];
+
+// Provider webhooks are small; this router runs ahead of the app-wide payload limit
+const WEBHOOK_BODY_LIMIT = 1024 * 1024;
+
+// Twilio expects TwiML back; an empty <Response/> acknowledges without replying
+const EMPTY_TWIML = '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+
+// Resolve the active webhook for the provider and make sure the URL type matches it
+const loadWebhook = async (req: WebhookRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { providerType, providerId } = req.params as WebhookParams;
+
+    if (!Object.values(ProviderType).includes(providerType as ProviderType)) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Unsupported provider type: ${providerType}`
+      });
+      return;
+    }
+
+    const webhook = await WebhookModel.findActiveByProvider(providerId);
+
+    if (!webhook || webhook.provider.type !== providerType) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Webhook not found'
+      });
+      return;
+    }
+
+    res.locals['webhook'] = webhook;
+    next();
+  } catch (error) {
+    console.error('Webhook lookup error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to resolve webhook'
+    });
+  }
+};
+
+// Parse the captured raw body; express.json/urlencoded are not run on this router
+const parseRawBody = (req: WebhookRequest, res: Response, next: NextFunction): void => {
+  const rawBody = req.rawBody ?? '';
+  const contentType = req.headers['content-type'] ?? '';
+
+  try {
+    if (contentType.includes('application/x-www-form-urlencoded')) {
+      req.body = Object.fromEntries(new URLSearchParams(rawBody));
+    } else {
+      req.body = rawBody ? JSON.parse(rawBody) : {};
+    }
+    next();
+  } catch {
+    res.status(400).json({
+      error: 'validation_error',
+      message: 'Invalid webhook payload'
+    });
+  }
+};
+
+const verifySignature = createWebhookVerificationMiddleware({
+  getSecret: async (providerId: string) => {
+    const webhook = await WebhookModel.findActiveByProvider(providerId);
+    return webhook?.secret ? decryptSecret(webhook.secret) : '';
+  }
+});
+
+const collectHeaders = (req: WebhookRequest): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (typeof value === 'string') {
+      headers[name] = value;
+    }
+  }
+  return headers;
+};
+
+const getSignatureHeader = (req: WebhookRequest): string | undefined => {
+  const signature =
+    req.headers['x-twilio-signature'] ||
+    req.headers['x-hub-signature-256'] ||
+    req.headers['x-goog-channel-token'];
+  return typeof signature === 'string' ? signature : undefined;
+};
+
+// GET /webhooks/:providerType/:providerId - Meta subscription verification handshake
+router.get('/:providerType/:providerId',
+  requireUuidParam('providerId'),
+  loadWebhook,
+  async (req: WebhookRequest, res: Response): Promise<void> => {
+    try {
+      const { providerType } = req.params as WebhookParams;
+
+      if (!META_PROVIDER_TYPES.includes(providerType)) {
+        res.status(405).json({
+          error: 'Method Not Allowed',
+          message: `${providerType} webhooks do not support verification requests`
+        });
+        return;
+      }
+
+      const mode = req.query['hub.mode'];
+      const verifyToken = req.query['hub.verify_token'];
+      const challenge = req.query['hub.challenge'];
+      const expectedToken = ProviderModel.getCredentials(res.locals['webhook'].provider)['verifyToken'];
+
+      if (mode !== 'subscribe' || typeof challenge !== 'string' ||
+          !expectedToken || verifyToken !== expectedToken) {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: 'Webhook verification failed'
+        });
+        return;
+      }
+
+      res.status(200).type('text/plain').send(challenge);
+    } catch (error) {
+      console.error('Webhook verification error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to verify webhook subscription'
+      });
+    }
+  }
+);
+
+// POST /webhooks/:providerType/:providerId - Receive provider events
+router.post('/:providerType/:providerId',
+  requireUuidParam('providerId'),
+  loadWebhook,
+  captureRawBodyMiddleware({ limit: WEBHOOK_BODY_LIMIT }),
+  verifySignature,
+  parseRawBody,
+  async (req: WebhookRequest, res: Response): Promise<void> => {
+    try {
+      const { providerType, providerId } = req.params as WebhookParams;
+      const webhook = res.locals['webhook'];
+      const receivedAt = new Date();
+      const signature = getSignatureHeader(req);
+
+      await WebhookModel.markReceived(webhook.id, receivedAt);
+
+      await queueManager.addWebhookJob({
+        webhookId: webhook.id,
+        deliveryId: randomUUID(),
+        providerId,
+        providerType,
+        timestamp: receivedAt.toISOString(),
+        payload: req.body,
+        headers: collectHeaders(req),
+        ...(signature && { signature })
+      });
+
+      if (TWILIO_PROVIDER_TYPES.includes(providerType)) {
+        res.status(200).type('text/xml').send(EMPTY_TWIML);
+        return;
+      }
+
+      res.status(200).json({ received: true });
+    } catch (error) {
+      console.error('Webhook receive error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to accept webhook'
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import jwt from 'jsonwebtoken';
+import app from '../../src/app';
+import { getStorage } from '../../src/lib/storage/index';
+
+const prisma = new PrismaClient();
+
+describe('Attachments - Contract Test', () => {
+  let authToken: string;
+  let testUser: any;
+  let testCustomer: any;
+  let testProvider: any;
+  let storedAttachment: any;
+  let pendingAttachment: any;
+  let storageKey: string;
+
+  beforeAll(async () => {
+    testUser = await prisma.user.upsert({
+      where: { email: 'attachments-test@example.com' },
+      update: {},
+      create: {
+        email: 'attachments-test@example.com',
+        name: 'Attachments Test User',
+        role: 'viewer',
+        metadata: { createdBy: 'contract-test' }
+      }
+    });
+
+    authToken = jwt.sign(
+      { userId: testUser.id, email: testUser.email, role: testUser.role },
+      process.env.JWT_SECRET!,
+      { expiresIn: '1h' }
+    );
+
+    testCustomer = await prisma.customer.create({
+      data: { name: 'Attachments Customer', metadata: { source: 'contract-test' } }
+    });
+
+    testProvider = await prisma.provider.upsert({
+      where: { name: 'Test Provider Contract' },
+      update: {},
+      create: {
+        name: 'Test Provider Contract',
+        type: 'twilio_sms',
+        status: 'active',
+        config: { encrypted: true }
+      }
+    });
+
+    const message = await prisma.message.create({
+      data: {
+        providerMessageId: `attachments-test-${Date.now()}`,
+        providerId: testProvider.id,
+        customerId: testCustomer.id,
+        channel: 'sms',
+        direction: 'inbound',
+        fromIdentifier: '+15551234567',
+        toIdentifier: '+15557654321',
+        body: 'Here is the signed form',
+        timestamp: new Date(),
+        providerMeta: {}
+      }
+    });
+
+    storageKey = `attachments/${message.id}/contract/form.txt`;
+    const stored = await getStorage().put(storageKey, Buffer.from('0123456789'), 'text/plain');
+
+    storedAttachment = await prisma.attachment.create({
+      data: {
+        messageId: message.id,
+        type: 'document',
+        filename: 'signed form.txt',
+        size: stored.size,
+        storageUrl: stored.storageUrl,
+        metadata: { mimeType: 'text/plain', sha256: 'abc123' }
+      }
+    });
+    pendingAttachment = await prisma.attachment.create({
+      data: {
+        messageId: message.id,
+        type: 'image',
+        storageUrl: 'https://api.twilio.com/2010-04-01/Accounts/AC1/Messages/MM1/Media/ME1',
+        metadata: { mimeType: 'image/jpeg' }
+      }
+    });
+  });
+
+  afterAll(async () => {
+    await getStorage().delete(storageKey);
+    await prisma.message.deleteMany({ where: { customerId: testCustomer.id } });
+    await prisma.customer.delete({ where: { id: testCustomer.id } });
+    await prisma.$disconnect();
+  });
+
+  describe('GET /api/v1/attachments/:attachmentId/content', () => {
+    it('should stream stored media with its type and filename', async () => {
+      const response = await request(app)
+        .get(`/api/v1/attachments/${storedAttachment.id}/content`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.text).toBe('0123456789');
+      expect(response.headers['content-type']).toMatch(/^text\/plain/);
+      expect(response.headers['accept-ranges']).toBe('bytes');
+      expect(response.headers['content-disposition']).toBe(
+        `inline; filename="signed form.txt"; filename*=UTF-8''signed%20form.txt`
+      );
+      expect(response.headers['etag']).toBe('"abc123"');
+    });
+
+    it('should serve a requested byte range', async () => {
+      const response = await request(app)
+        .get(`/api/v1/attachments/${storedAttachment.id}/content`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('Range', 'bytes=2-5')
+        .expect(206);
+
+      expect(response.text).toBe('2345');
+      expect(response.headers['content-range']).toBe('bytes 2-5/10');
+    });
+
+    it('should reject ranges past the end', async () => {
+      const response = await request(app)
+        .get(`/api/v1/attachments/${storedAttachment.id}/content`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('Range', 'bytes=50-')
+        .expect(416);
+
+      expect(response.headers['content-range']).toBe('bytes */10');
+    });
+
+    it('should force a download when asked', async () => {
+      const response = await request(app)
+        .get(`/api/v1/attachments/${storedAttachment.id}/content`)
+        .query({ download: 'true' })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.headers['content-disposition']).toMatch(/^attachment;/);
+    });
+
+    it('should report media that has not been fetched yet', async () => {
+      await request(app)
+        .get(`/api/v1/attachments/${pendingAttachment.id}/content`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(409);
+    });
+
+    it('should require authentication', async () => {
+      await request(app)
+        .get(`/api/v1/attachments/${storedAttachment.id}/content`)
+        .expect(401);
+    });
+
+    it('should return 404 for an unknown attachment', async () => {
+      await request(app)
+        .get('/api/v1/attachments/00000000-0000-4000-8000-000000000000/content')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/v1/attachments/:attachmentId/thumbnail', () => {
+    it('should return 404 until a thumbnail exists', async () => {
+      await request(app)
+        .get(`/api/v1/attachments/${storedAttachment.id}/thumbnail`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('POST /api/v1/attachments/:attachmentId/thumbnail', () => {
+    it('should require staff access', async () => {
+      await request(app)
+        .post(`/api/v1/attachments/${storedAttachment.id}/thumbnail`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(403);
+    });
+  });
+});
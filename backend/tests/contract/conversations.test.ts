@@ -0,0 +1,311 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import jwt from 'jsonwebtoken';
+import app from '../../src/app';
+import { queueManager } from '../../src/lib/queue/manager';
+
+vi.mock('../../src/lib/queue/manager', () => ({
+  queueManager: {
+    addOutboundMessageJob: vi.fn().mockResolvedValue('outbound-job-1')
+  }
+}));
+
+const prisma = new PrismaClient();
+
+describe('Conversations - Contract Test', () => {
+  let staffToken: string;
+  let viewerToken: string;
+  let staffUser: any;
+  let viewerUser: any;
+  let testCustomer: any;
+  let testProvider: any;
+  let smsConversation: any;
+  let emailConversation: any;
+
+  beforeAll(async () => {
+    staffUser = await prisma.user.upsert({
+      where: { email: 'conversations-staff-test@example.com' },
+      update: {},
+      create: {
+        email: 'conversations-staff-test@example.com',
+        name: 'Conversations Staff',
+        role: 'staff',
+        metadata: { createdBy: 'contract-test' }
+      }
+    });
+    viewerUser = await prisma.user.upsert({
+      where: { email: 'conversations-viewer-test@example.com' },
+      update: {},
+      create: {
+        email: 'conversations-viewer-test@example.com',
+        name: 'Conversations Viewer',
+        role: 'viewer',
+        metadata: { createdBy: 'contract-test' }
+      }
+    });
+
+    staffToken = jwt.sign(
+      { userId: staffUser.id, email: staffUser.email, role: staffUser.role },
+      process.env.JWT_SECRET!,
+      { expiresIn: '1h' }
+    );
+    viewerToken = jwt.sign(
+      { userId: viewerUser.id, email: viewerUser.email, role: viewerUser.role },
+      process.env.JWT_SECRET!,
+      { expiresIn: '1h' }
+    );
+
+    testCustomer = await prisma.customer.create({
+      data: { name: 'Conversation Customer', metadata: { source: 'contract-test' } }
+    });
+
+    testProvider = await prisma.provider.upsert({
+      where: { name: 'Test Provider Contract' },
+      update: {},
+      create: {
+        name: 'Test Provider Contract',
+        type: 'twilio_sms',
+        status: 'active',
+        config: { encrypted: true }
+      }
+    });
+
+    smsConversation = await prisma.conversation.create({
+      data: {
+        threadKey: `conversations-test-sms-${Date.now()}`,
+        customerId: testCustomer.id,
+        channel: 'sms',
+        tags: ['billing'],
+        lastMessageAt: new Date()
+      }
+    });
+    emailConversation = await prisma.conversation.create({
+      data: {
+        threadKey: `conversations-test-email-${Date.now()}`,
+        customerId: testCustomer.id,
+        channel: 'email',
+        lastMessageAt: new Date(Date.now() - 60000)
+      }
+    });
+
+    for (let i = 0; i < 3; i++) {
+      await prisma.message.create({
+        data: {
+          providerMessageId: `conversations-test-${i}-${Date.now()}`,
+          providerId: testProvider.id,
+          customerId: testCustomer.id,
+          conversationId: smsConversation.id,
+          channel: 'sms',
+          direction: 'inbound',
+          fromIdentifier: '+15551234567',
+          toIdentifier: '+15557654321',
+          body: `Message ${i}`,
+          timestamp: new Date(Date.now() - i * 1000),
+          providerMeta: {}
+        }
+      });
+    }
+  });
+
+  afterAll(async () => {
+    await prisma.auditEvent.deleteMany({
+      where: { resourceId: { in: [smsConversation.id, emailConversation.id] } }
+    });
+    await prisma.message.deleteMany({ where: { customerId: testCustomer.id } });
+    await prisma.customer.delete({ where: { id: testCustomer.id } });
+    await prisma.$disconnect();
+  });
+
+  describe('GET /api/v1/conversations', () => {
+    it('should filter by channel and customer', async () => {
+      const response = await request(app)
+        .get('/api/v1/conversations')
+        .query({ channel: 'email', customer_id: testCustomer.id })
+        .set('Authorization', `Bearer ${viewerToken}`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].id).toBe(emailConversation.id);
+      expect(response.body.pagination).toEqual({
+        page: 1,
+        limit: 50,
+        total: 1,
+        totalPages: 1
+      });
+    });
+
+    it('should filter by tag', async () => {
+      const response = await request(app)
+        .get('/api/v1/conversations')
+        .query({ tag: 'billing', customer_id: testCustomer.id })
+        .set('Authorization', `Bearer ${viewerToken}`)
+        .expect(200);
+
+      expect(response.body.data.map((c: any) => c.id)).toEqual([smsConversation.id]);
+    });
+
+    it('should reject an invalid status filter', async () => {
+      await request(app)
+        .get('/api/v1/conversations')
+        .query({ status: 'open' })
+        .set('Authorization', `Bearer ${viewerToken}`)
+        .expect(400);
+    });
+  });
+
+  describe('GET /api/v1/conversations/:conversationId', () => {
+    it('should return the conversation with paginated messages', async () => {
+      const response = await request(app)
+        .get(`/api/v1/conversations/${smsConversation.id}`)
+        .query({ limit: '2' })
+        .set('Authorization', `Bearer ${viewerToken}`)
+        .expect(200);
+
+      expect(response.body.conversation.id).toBe(smsConversation.id);
+      expect(response.body.messages).toHaveLength(2);
+      expect(response.body.messages[0].body).toBe('Message 0');
+      expect(response.body.pagination).toEqual({ page: 1, limit: 2, total: 3, totalPages: 2 });
+    });
+
+    it('should return 404 for an unknown conversation', async () => {
+      await request(app)
+        .get('/api/v1/conversations/00000000-0000-4000-8000-000000000000')
+        .set('Authorization', `Bearer ${viewerToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('Mutations', () => {
+    it('should forbid viewers from assigning', async () => {
+      await request(app)
+        .post(`/api/v1/conversations/${smsConversation.id}/assign`)
+        .set('Authorization', `Bearer ${viewerToken}`)
+        .send({ userId: staffUser.id })
+        .expect(403);
+    });
+
+    it('should assign and unassign a conversation and audit both', async () => {
+      const assigned = await request(app)
+        .post(`/api/v1/conversations/${smsConversation.id}/assign`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ userId: staffUser.id, notes: 'Billing follow-up' })
+        .expect(200);
+
+      expect(assigned.body).toMatchObject({
+        conversationId: smsConversation.id,
+        userId: staffUser.id,
+        assignedBy: staffUser.id,
+        notes: 'Billing follow-up'
+      });
+
+      const unassigned = await request(app)
+        .delete(`/api/v1/conversations/${smsConversation.id}/assign`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .expect(200);
+
+      expect(unassigned.body.status).toBe('active');
+
+      const events = await prisma.auditEvent.findMany({
+        where: { resourceType: 'conversation', resourceId: smsConversation.id },
+        orderBy: { timestamp: 'asc' }
+      });
+      expect(events.map(e => e.action)).toEqual(['conversation.assign', 'conversation.unassign']);
+      expect(events[0]?.userId).toBe(staffUser.id);
+    });
+
+    it('should add, replace and remove tags', async () => {
+      const added = await request(app)
+        .post(`/api/v1/conversations/${emailConversation.id}/tags`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ tags: ['vip', 'urgent'] })
+        .expect(200);
+      expect(added.body.tags).toEqual(['vip', 'urgent']);
+
+      const removed = await request(app)
+        .delete(`/api/v1/conversations/${emailConversation.id}/tags/urgent`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .expect(200);
+      expect(removed.body.tags).toEqual(['vip']);
+
+      const replaced = await request(app)
+        .put(`/api/v1/conversations/${emailConversation.id}/tags`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ tags: ['renewal'] })
+        .expect(200);
+      expect(replaced.body.tags).toEqual(['renewal']);
+    });
+
+    it('should archive and unarchive a conversation', async () => {
+      const archived = await request(app)
+        .post(`/api/v1/conversations/${emailConversation.id}/archive`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .expect(200);
+      expect(archived.body.status).toBe('archived');
+
+      const restored = await request(app)
+        .post(`/api/v1/conversations/${emailConversation.id}/unarchive`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .expect(200);
+      expect(restored.body.status).toBe('active');
+
+      const count = await prisma.auditEvent.count({
+        where: { resourceId: emailConversation.id, action: { in: ['conversation.archive', 'conversation.unarchive'] } }
+      });
+      expect(count).toBe(2);
+    });
+  });
+
+  describe('POST /api/v1/conversations/:conversationId/messages', () => {
+    it('should queue a reply to the latest customer message', async () => {
+      const response = await request(app)
+        .post(`/api/v1/conversations/${smsConversation.id}/messages`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ body: 'Thanks, we are on it' })
+        .expect(202);
+
+      expect(response.body).toMatchObject({
+        jobId: 'outbound-job-1',
+        status: 'queued',
+        conversationId: smsConversation.id,
+        providerId: testProvider.id,
+        channel: 'sms',
+        to: '+15551234567'
+      });
+
+      expect(queueManager.addOutboundMessageJob).toHaveBeenCalledWith(expect.objectContaining({
+        conversationId: smsConversation.id,
+        customerId: testCustomer.id,
+        providerType: 'twilio_sms',
+        from: '+15557654321',
+        to: '+15551234567',
+        body: 'Thanks, we are on it',
+        requestedBy: staffUser.id
+      }));
+    });
+
+    it('should reject conversations without a reply target', async () => {
+      const response = await request(app)
+        .post(`/api/v1/conversations/${emailConversation.id}/messages`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ body: 'Hello' })
+        .expect(422);
+
+      expect(response.body.code).toBe('NO_REPLY_TARGET');
+    });
+
+    it('should validate the body and forbid viewers', async () => {
+      await request(app)
+        .post(`/api/v1/conversations/${smsConversation.id}/messages`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ body: '   ' })
+        .expect(400);
+
+      await request(app)
+        .post(`/api/v1/conversations/${smsConversation.id}/messages`)
+        .set('Authorization', `Bearer ${viewerToken}`)
+        .send({ body: 'Hello' })
+        .expect(403);
+    });
+  });
+});
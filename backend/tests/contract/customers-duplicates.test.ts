@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import jwt from 'jsonwebtoken';
+import app from '../../src/app';
+import { queueManager } from '../../src/lib/queue/manager';
+
+vi.mock('../../src/lib/queue/manager', () => ({
+  queueManager: {
+    addMaintenanceJob: vi.fn().mockResolvedValue('duplicate-scan-job-1')
+  }
+}));
+
+const prisma = new PrismaClient();
+
+describe('Duplicate customer review queue - Contract Test', () => {
+  let staffToken: string;
+  let olderCustomer: any;
+  let newerCustomer: any;
+  let suggestion: any;
+
+  beforeAll(async () => {
+    const staffUser = await prisma.user.upsert({
+      where: { email: 'customers-duplicates-staff-test@example.com' },
+      update: {},
+      create: {
+        email: 'customers-duplicates-staff-test@example.com',
+        name: 'Duplicates Staff',
+        role: 'staff',
+        metadata: { createdBy: 'contract-test' }
+      }
+    });
+
+    staffToken = jwt.sign(
+      { userId: staffUser.id, email: staffUser.email, role: staffUser.role },
+      process.env.JWT_SECRET!,
+      { expiresIn: '1h' }
+    );
+  });
+
+  beforeEach(async () => {
+    olderCustomer = await prisma.customer.create({
+      data: { name: 'Duplicate Jane Doe', createdAt: new Date(Date.now() - 86400000), metadata: {} }
+    });
+    newerCustomer = await prisma.customer.create({
+      data: { name: 'Duplicate Jane Doe', metadata: {} }
+    });
+
+    suggestion = await prisma.duplicateSuggestion.create({
+      data: {
+        customerId: olderCustomer.id,
+        candidateId: newerCustomer.id,
+        score: 0.9,
+        reasons: [{ type: 'phone_digits', detail: 'Phone numbers ending 4567 match', weight: 0.9 }]
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await prisma.customer.deleteMany({
+      where: { id: { in: [olderCustomer.id, newerCustomer.id] } }
+    });
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it('should list pending suggestions with both customers', async () => {
+    const response = await request(app)
+      .get('/api/v1/customers/duplicates')
+      .query({ customerId: newerCustomer.id })
+      .set('Authorization', `Bearer ${staffToken}`)
+      .expect(200);
+
+    expect(response.body.pagination.total).toBe(1);
+    expect(response.body.data[0]).toMatchObject({
+      id: suggestion.id,
+      score: 0.9,
+      status: 'pending',
+      customer: { id: olderCustomer.id },
+      candidate: { id: newerCustomer.id }
+    });
+  });
+
+  it('should dismiss a suggestion and keep it out of the pending queue', async () => {
+    const response = await request(app)
+      .post(`/api/v1/customers/duplicates/${suggestion.id}/dismiss`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .expect(200);
+
+    expect(response.body.status).toBe('dismissed');
+
+    const pending = await request(app)
+      .get('/api/v1/customers/duplicates')
+      .query({ customerId: newerCustomer.id })
+      .set('Authorization', `Bearer ${staffToken}`)
+      .expect(200);
+    expect(pending.body.pagination.total).toBe(0);
+  });
+
+  it('should merge the newer customer into the older one on accept', async () => {
+    const response = await request(app)
+      .post(`/api/v1/customers/duplicates/${suggestion.id}/accept`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .expect(200);
+
+    expect(response.body.customer.id).toBe(olderCustomer.id);
+    expect(response.body.mergeId).toEqual(expect.any(String));
+    expect(await prisma.customer.findUnique({ where: { id: newerCustomer.id } })).toBeNull();
+    expect(await prisma.duplicateSuggestion.findUnique({ where: { id: suggestion.id } })).toBeNull();
+  });
+
+  it('should reject a target outside the suggested pair', async () => {
+    const response = await request(app)
+      .post(`/api/v1/customers/duplicates/${suggestion.id}/accept`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ targetCustomerId: '00000000-0000-4000-8000-000000000000' })
+      .expect(422);
+
+    expect(response.body.code).toBe('TARGET_NOT_IN_SUGGESTION');
+  });
+
+  it('should queue a duplicate scan', async () => {
+    const response = await request(app)
+      .post('/api/v1/customers/duplicates/scan')
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ minScore: 0.7 })
+      .expect(202);
+
+    expect(response.body).toEqual({ jobId: 'duplicate-scan-job-1', status: 'queued' });
+    expect(queueManager.addMaintenanceJob).toHaveBeenCalledWith('duplicate-scan', {
+      scan: 'duplicate_customers',
+      minScore: 0.7
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from 'vitest';
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import jwt from 'jsonwebtoken';
+import app from '../../src/app';
+
+const prisma = new PrismaClient();
+
+describe('Customer merge and split - Contract Test', () => {
+  let staffToken: string;
+  let viewerToken: string;
+  let testProvider: any;
+  let smsCustomer: any;
+  let emailCustomer: any;
+  let smsConversation: any;
+  const suffix = Date.now();
+  const phone = `+1555${String(suffix).slice(-7)}`;
+  const email = `merge-${suffix}@example.com`;
+
+  beforeAll(async () => {
+    const staffUser = await prisma.user.upsert({
+      where: { email: 'customers-merge-staff-test@example.com' },
+      update: {},
+      create: {
+        email: 'customers-merge-staff-test@example.com',
+        name: 'Merge Staff',
+        role: 'staff',
+        metadata: { createdBy: 'contract-test' }
+      }
+    });
+    const viewerUser = await prisma.user.upsert({
+      where: { email: 'customers-merge-viewer-test@example.com' },
+      update: {},
+      create: {
+        email: 'customers-merge-viewer-test@example.com',
+        name: 'Merge Viewer',
+        role: 'viewer',
+        metadata: { createdBy: 'contract-test' }
+      }
+    });
+
+    staffToken = jwt.sign(
+      { userId: staffUser.id, email: staffUser.email, role: staffUser.role },
+      process.env.JWT_SECRET!,
+      { expiresIn: '1h' }
+    );
+    viewerToken = jwt.sign(
+      { userId: viewerUser.id, email: viewerUser.email, role: viewerUser.role },
+      process.env.JWT_SECRET!,
+      { expiresIn: '1h' }
+    );
+
+    testProvider = await prisma.provider.upsert({
+      where: { name: 'Test Provider Contract' },
+      update: {},
+      create: {
+        name: 'Test Provider Contract',
+        type: 'twilio_sms',
+        status: 'active',
+        config: { encrypted: true }
+      }
+    });
+  });
+
+  // Two customers the resolver created for the same person
+  beforeEach(async () => {
+    smsCustomer = await prisma.customer.create({
+      data: {
+        name: phone,
+        metadata: { source: 'sms', plan: 'basic' },
+        identities: { create: { type: 'phone', value: phone, rawValue: phone, provider: 'twilio' } }
+      }
+    });
+    emailCustomer = await prisma.customer.create({
+      data: {
+        name: 'Jane Merge',
+        displayName: 'Jane',
+        metadata: { source: 'gmail' },
+        identities: { create: { type: 'email', value: email, rawValue: email, provider: 'gmail' } }
+      }
+    });
+
+    smsConversation = await prisma.conversation.create({
+      data: { threadKey: `merge-test-sms-${Date.now()}`, customerId: smsCustomer.id, channel: 'sms' }
+    });
+    const emailConversation = await prisma.conversation.create({
+      data: { threadKey: `merge-test-email-${Date.now()}`, customerId: emailCustomer.id, channel: 'email' }
+    });
+
+    await prisma.message.create({
+      data: {
+        providerMessageId: `merge-test-sms-${Date.now()}`,
+        providerId: testProvider.id,
+        customerId: smsCustomer.id,
+        conversationId: smsConversation.id,
+        channel: 'sms',
+        direction: 'inbound',
+        fromIdentifier: phone,
+        toIdentifier: '+15557654321',
+        body: 'Texting you',
+        timestamp: new Date(),
+        providerMeta: {}
+      }
+    });
+    await prisma.message.create({
+      data: {
+        providerMessageId: `merge-test-email-${Date.now()}`,
+        providerId: testProvider.id,
+        customerId: emailCustomer.id,
+        conversationId: emailConversation.id,
+        channel: 'email',
+        direction: 'inbound',
+        fromIdentifier: email,
+        toIdentifier: 'support@example.com',
+        body: 'Emailing you',
+        timestamp: new Date(),
+        providerMeta: {}
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await prisma.customer.deleteMany({
+      where: { identities: { some: { value: { in: [phone, email] } } } }
+    });
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  describe('POST /api/v1/customers/:customerId/merge', () => {
+    it('should move identities, messages and conversations into the target', async () => {
+      const response = await request(app)
+        .post(`/api/v1/customers/${emailCustomer.id}/merge`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ sourceCustomerId: smsCustomer.id })
+        .expect('Content-Type', /json/)
+        .expect(200);
+
+      expect(response.body.moved).toEqual({ identities: 1, messages: 1, conversations: 1 });
+      expect(response.body.customer.identities.map((identity: any) => identity.value)).toEqual([email, phone]);
+      // Target keeps its own values, the source fills the gaps
+      expect(response.body.customer.metadata).toEqual({ source: 'gmail', plan: 'basic' });
+
+      expect(await prisma.customer.findUnique({ where: { id: smsCustomer.id } })).toBeNull();
+      expect(await prisma.message.count({ where: { customerId: emailCustomer.id } })).toBe(2);
+      expect(await prisma.conversation.count({ where: { customerId: emailCustomer.id } })).toBe(2);
+
+      const audit = await prisma.auditEvent.findUnique({ where: { id: response.body.mergeId } });
+      expect(audit).toMatchObject({ action: 'customer.merge', resourceType: 'customer', resourceId: emailCustomer.id });
+    });
+
+    it('should undo a merge', async () => {
+      const merge = await request(app)
+        .post(`/api/v1/customers/${emailCustomer.id}/merge`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ sourceCustomerId: smsCustomer.id })
+        .expect(200);
+
+      const response = await request(app)
+        .post(`/api/v1/customers/merges/${merge.body.mergeId}/undo`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .expect(200);
+
+      expect(response.body.customer.id).toBe(smsCustomer.id);
+      expect(response.body.customer.identities.map((identity: any) => identity.value)).toEqual([phone]);
+      expect(response.body.restored).toEqual({ identities: 1, messages: 1, conversations: 1 });
+
+      const target = await prisma.customer.findUnique({ where: { id: emailCustomer.id } });
+      expect(target?.metadata).toEqual({ source: 'gmail' });
+      expect(await prisma.message.count({ where: { customerId: smsCustomer.id } })).toBe(1);
+
+      await request(app)
+        .post(`/api/v1/customers/merges/${merge.body.mergeId}/undo`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .expect(409);
+    });
+
+    it('should reject merging a customer into itself', async () => {
+      const response = await request(app)
+        .post(`/api/v1/customers/${emailCustomer.id}/merge`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ sourceCustomerId: emailCustomer.id })
+        .expect(422);
+
+      expect(response.body.code).toBe('SAME_CUSTOMER');
+    });
+
+    it('should return 404 for an unknown source customer', async () => {
+      await request(app)
+        .post(`/api/v1/customers/${emailCustomer.id}/merge`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ sourceCustomerId: '00000000-0000-4000-8000-000000000000' })
+        .expect(404);
+    });
+
+    it('should require staff role', async () => {
+      await request(app)
+        .post(`/api/v1/customers/${emailCustomer.id}/merge`)
+        .set('Authorization', `Bearer ${viewerToken}`)
+        .send({ sourceCustomerId: smsCustomer.id })
+        .expect(403);
+    });
+  });
+
+  describe('POST /api/v1/customers/:customerId/split', () => {
+    it('should move the selected identities and their messages to a new customer', async () => {
+      await request(app)
+        .post(`/api/v1/customers/${emailCustomer.id}/merge`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ sourceCustomerId: smsCustomer.id })
+        .expect(200);
+
+      const phoneIdentity = await prisma.identity.findUniqueOrThrow({
+        where: { type_value: { type: 'phone', value: phone } }
+      });
+
+      const response = await request(app)
+        .post(`/api/v1/customers/${emailCustomer.id}/split`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ identityIds: [phoneIdentity.id], name: 'Phone Person' })
+        .expect(201);
+
+      expect(response.body.customer.name).toBe('Phone Person');
+      expect(response.body.customer.identities.map((identity: any) => identity.value)).toEqual([phone]);
+      expect(response.body.moved).toEqual({ identities: 1, messages: 1, conversations: 1 });
+      expect(response.body.sharedConversationIds).toEqual([]);
+
+      expect(await prisma.message.count({ where: { customerId: response.body.customer.id } })).toBe(1);
+      expect(await prisma.conversation.findUnique({ where: { id: smsConversation.id } }))
+        .toMatchObject({ customerId: response.body.customer.id });
+    });
+
+    it('should reject identities that belong to another customer', async () => {
+      const emailIdentity = await prisma.identity.findUniqueOrThrow({
+        where: { type_value: { type: 'email', value: email } }
+      });
+
+      const response = await request(app)
+        .post(`/api/v1/customers/${smsCustomer.id}/split`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ identityIds: [emailIdentity.id] })
+        .expect(422);
+
+      expect(response.body.code).toBe('IDENTITY_NOT_FOUND');
+    });
+
+    it('should validate the request body', async () => {
+      await request(app)
+        .post(`/api/v1/customers/${smsCustomer.id}/split`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ identityIds: [] })
+        .expect(400);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import jwt from 'jsonwebtoken';
+import app from '../../src/app';
+import { MessageIngestionPipeline } from '../../src/lib/ingestion/pipeline';
+import { queueManager } from '../../src/lib/queue/manager';
+
+vi.mock('../../src/lib/ingestion/pipeline', () => ({
+  MessageIngestionPipeline: {
+    retryFailedMessage: vi.fn()
+  }
+}));
+
+vi.mock('../../src/lib/queue/manager', () => ({
+  queueManager: {
+    addMaintenanceJob: vi.fn().mockResolvedValue('maintenance-job-1')
+  }
+}));
+
+const prisma = new PrismaClient();
+
+describe('Dead-letter console - Contract Test', () => {
+  let adminToken: string;
+  let staffToken: string;
+  let provider: any;
+  let deadLetter: any;
+
+  const rawMessage = (providerMessageId: string) => ({
+    providerId: provider.id,
+    providerMessageId,
+    providerType: 'twilio_sms',
+    channel: 'sms',
+    timestamp: '2026-10-19T09:00:00.000Z',
+    payload: { MessageSid: providerMessageId, From: '+15551234567', To: '+15557654321', Body: 'Hello' }
+  });
+
+  const failure = (providerMessageId: string, errorCode: string, status: 'dead' | 'retrying' = 'dead') => ({
+    providerId: provider.id,
+    providerMessageId,
+    rawMessage: rawMessage(providerMessageId),
+    errorCode,
+    errorMessage: `${errorCode} failure`,
+    failedStage: 'normalization',
+    attempts: [{ at: '2026-10-19T09:00:01.000Z', source: 'queue', errorCode, errorMessage: `${errorCode} failure`, attempt: 1 }],
+    attemptCount: 1,
+    status,
+    lastFailedAt: new Date('2026-10-19T09:00:01.000Z')
+  });
+
+  beforeAll(async () => {
+    const users = await Promise.all([
+      prisma.user.upsert({
+        where: { email: 'dead-letters-admin-test@example.com' },
+        update: {},
+        create: { email: 'dead-letters-admin-test@example.com', name: 'Dead Letter Admin', role: 'admin', metadata: { createdBy: 'contract-test' } }
+      }),
+      prisma.user.upsert({
+        where: { email: 'dead-letters-staff-test@example.com' },
+        update: {},
+        create: { email: 'dead-letters-staff-test@example.com', name: 'Dead Letter Staff', role: 'staff', metadata: { createdBy: 'contract-test' } }
+      })
+    ]);
+
+    [adminToken, staffToken] = users.map(user => jwt.sign(
+      { userId: user.id, email: user.email, role: user.role },
+      process.env.JWT_SECRET!,
+      { expiresIn: '1h' }
+    )) as [string, string];
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    provider = await prisma.provider.create({
+      data: { name: 'Dead Letter Provider', type: 'twilio_sms', status: 'active', config: {} }
+    });
+    deadLetter = await prisma.deadLetter.create({ data: failure('SM-dead-1', 'INVALID_PAYLOAD') });
+    await prisma.deadLetter.create({ data: failure('SM-dead-2', 'UNKNOWN_ERROR') });
+    await prisma.deadLetter.create({ data: failure('SM-retrying', 'INVALID_PAYLOAD', 'retrying') });
+  });
+
+  afterEach(async () => {
+    await prisma.provider.delete({ where: { id: provider.id } });
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it('should be admin-only', async () => {
+    await request(app)
+      .get('/api/v1/dead-letters')
+      .set('Authorization', `Bearer ${staffToken}`)
+      .expect(403);
+  });
+
+  it('should list dead entries filtered by error code', async () => {
+    const response = await request(app)
+      .get('/api/v1/dead-letters')
+      .query({ providerId: provider.id, errorCode: 'INVALID_PAYLOAD' })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body.pagination.total).toBe(1);
+    expect(response.body.data[0]).toMatchObject({
+      id: deadLetter.id,
+      providerMessageId: 'SM-dead-1',
+      errorCode: 'INVALID_PAYLOAD',
+      failedStage: 'normalization',
+      status: 'dead',
+      provider: { id: provider.id, type: 'twilio_sms' }
+    });
+  });
+
+  it('should show the raw message and its attempts', async () => {
+    const response = await request(app)
+      .get(`/api/v1/dead-letters/${deadLetter.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body.rawMessage).toEqual(rawMessage('SM-dead-1'));
+    expect(response.body.attempts).toHaveLength(1);
+  });
+
+  it('should replay an edited payload and close the entry', async () => {
+    vi.mocked(MessageIngestionPipeline.retryFailedMessage).mockResolvedValue({
+      status: 'success',
+      messageId: '00000000-0000-4000-8000-000000000001',
+      processingMetrics: { startTime: new Date(), stagesCompleted: [] }
+    });
+    const payload = { ...rawMessage('SM-dead-1').payload, Body: 'Hello, fixed' };
+
+    const response = await request(app)
+      .post(`/api/v1/dead-letters/${deadLetter.id}/replay`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ payload })
+      .expect(200);
+
+    expect(response.body).toEqual({
+      id: deadLetter.id,
+      status: 'replayed',
+      messageId: '00000000-0000-4000-8000-000000000001'
+    });
+
+    const stored = await prisma.deadLetter.findUnique({ where: { id: deadLetter.id } });
+    expect(stored?.status).toBe('replayed');
+    expect((stored?.rawMessage as any).payload.Body).toBe('Hello, fixed');
+
+    await request(app)
+      .post(`/api/v1/dead-letters/${deadLetter.id}/replay`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(409);
+  });
+
+  it('should queue a bulk replay by error code', async () => {
+    const response = await request(app)
+      .post('/api/v1/dead-letters/replay')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ errorCode: 'INVALID_PAYLOAD', providerId: provider.id })
+      .expect(202);
+
+    expect(response.body).toEqual({ jobId: 'maintenance-job-1', status: 'queued' });
+    expect(queueManager.addMaintenanceJob).toHaveBeenCalledWith('dead-letter-replay', expect.objectContaining({
+      errorCode: 'INVALID_PAYLOAD',
+      providerId: provider.id,
+      limit: 25
+    }));
+    expect(MessageIngestionPipeline.retryFailedMessage).not.toHaveBeenCalled();
+  });
+
+  it('should discard an entry and keep it for the record', async () => {
+    await request(app)
+      .post(`/api/v1/dead-letters/${deadLetter.id}/discard`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    const stored = await prisma.deadLetter.findUnique({ where: { id: deadLetter.id } });
+    expect(stored?.status).toBe('discarded');
+    expect(stored?.resolvedAt).not.toBeNull();
+  });
+
+  it('should return 404 for an unknown entry', async () => {
+    await request(app)
+      .get('/api/v1/dead-letters/00000000-0000-4000-8000-000000000000')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(404);
+  });
+});
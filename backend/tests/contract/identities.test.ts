@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import jwt from 'jsonwebtoken';
+import app from '../../src/app';
+
+const prisma = new PrismaClient();
+
+describe('Identities - Contract Test', () => {
+  let staffToken: string;
+  let viewerToken: string;
+  let owner: any;
+  let other: any;
+  const digits = String(Date.now()).slice(-7);
+  const formattedPhone = `(555) ${digits.slice(0, 3)}-${digits.slice(3)}`;
+  const normalizedPhone = `+1555${digits}`;
+
+  beforeAll(async () => {
+    const staffUser = await prisma.user.upsert({
+      where: { email: 'identities-staff-test@example.com' },
+      update: {},
+      create: {
+        email: 'identities-staff-test@example.com',
+        name: 'Identities Staff',
+        role: 'staff',
+        metadata: { createdBy: 'contract-test' }
+      }
+    });
+    const viewerUser = await prisma.user.upsert({
+      where: { email: 'identities-viewer-test@example.com' },
+      update: {},
+      create: {
+        email: 'identities-viewer-test@example.com',
+        name: 'Identities Viewer',
+        role: 'viewer',
+        metadata: { createdBy: 'contract-test' }
+      }
+    });
+
+    staffToken = jwt.sign(
+      { userId: staffUser.id, email: staffUser.email, role: staffUser.role },
+      process.env.JWT_SECRET!,
+      { expiresIn: '1h' }
+    );
+    viewerToken = jwt.sign(
+      { userId: viewerUser.id, email: viewerUser.email, role: viewerUser.role },
+      process.env.JWT_SECRET!,
+      { expiresIn: '1h' }
+    );
+
+    owner = await prisma.customer.create({ data: { name: 'Identity Owner', metadata: {} } });
+    other = await prisma.customer.create({ data: { name: 'Identity Other', metadata: {} } });
+  });
+
+  afterAll(async () => {
+    await prisma.customer.deleteMany({ where: { id: { in: [owner.id, other.id] } } });
+    await prisma.$disconnect();
+  });
+
+  describe('POST /api/v1/customers/:customerId/identities', () => {
+    it('should link a normalized identity', async () => {
+      const response = await request(app)
+        .post(`/api/v1/customers/${owner.id}/identities`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ type: 'phone', value: formattedPhone, provider: 'manual' })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        customerId: owner.id,
+        type: 'phone',
+        value: normalizedPhone,
+        rawValue: formattedPhone,
+        verified: false
+      });
+    });
+
+    it('should return 409 with the owning customer when already linked', async () => {
+      const response = await request(app)
+        .post(`/api/v1/customers/${other.id}/identities`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ type: 'phone', value: normalizedPhone })
+        .expect(409);
+
+      expect(response.body).toMatchObject({
+        error: 'Conflict',
+        customer: { id: owner.id, name: 'Identity Owner' }
+      });
+    });
+
+    it('should read national numbers in the requested region', async () => {
+      const response = await request(app)
+        .post(`/api/v1/customers/${owner.id}/identities`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ type: 'phone', value: `07700 ${digits.slice(1)}`, region: 'GB' })
+        .expect(201);
+
+      expect(response.body.value).toBe(`+447700${digits.slice(1)}`);
+    });
+
+    it('should reject numbers with the wrong length for their country', async () => {
+      const response = await request(app)
+        .post(`/api/v1/customers/${owner.id}/identities`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ type: 'phone', value: '+44 7700 900' })
+        .expect(400);
+
+      expect(response.body.details).toContainEqual({ field: 'value', message: 'Phone number is not valid for its country' });
+    });
+
+    it('should validate the value for its type', async () => {
+      const response = await request(app)
+        .post(`/api/v1/customers/${owner.id}/identities`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ type: 'email', value: 'not-an-email' })
+        .expect(400);
+
+      expect(response.body.details).toContainEqual({ field: 'value', message: 'valid email' });
+    });
+
+    it('should require staff role', async () => {
+      await request(app)
+        .post(`/api/v1/customers/${owner.id}/identities`)
+        .set('Authorization', `Bearer ${viewerToken}`)
+        .send({ type: 'email', value: 'viewer@example.com' })
+        .expect(403);
+    });
+  });
+
+  describe('GET /api/v1/identities', () => {
+    it('should find an identity however the value is formatted', async () => {
+      const response = await request(app)
+        .get('/api/v1/identities')
+        .query({ type: 'phone', value: formattedPhone })
+        .set('Authorization', `Bearer ${viewerToken}`)
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        value: normalizedPhone,
+        customer: { id: owner.id }
+      });
+    });
+
+    it('should return 404 for an unknown identity', async () => {
+      await request(app)
+        .get('/api/v1/identities')
+        .query({ type: 'email', value: `nobody-${Date.now()}@example.com` })
+        .set('Authorization', `Bearer ${viewerToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('verification and unlinking', () => {
+    it('should verify and unverify an identity', async () => {
+      const identity = await prisma.identity.findUniqueOrThrow({
+        where: { type_value: { type: 'phone', value: normalizedPhone } }
+      });
+
+      const verified = await request(app)
+        .post(`/api/v1/identities/${identity.id}/verify`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .expect(200);
+      expect(verified.body.verified).toBe(true);
+
+      const unverified = await request(app)
+        .delete(`/api/v1/identities/${identity.id}/verify`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .expect(200);
+      expect(unverified.body.verified).toBe(false);
+    });
+
+    it('should only unlink identities from their own customer', async () => {
+      const identity = await prisma.identity.findUniqueOrThrow({
+        where: { type_value: { type: 'phone', value: normalizedPhone } }
+      });
+
+      await request(app)
+        .delete(`/api/v1/customers/${other.id}/identities/${identity.id}`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .expect(404);
+
+      await request(app)
+        .delete(`/api/v1/customers/${owner.id}/identities/${identity.id}`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .expect(204);
+
+      expect(await prisma.identity.findUnique({ where: { id: identity.id } })).toBeNull();
+    });
+  });
+});
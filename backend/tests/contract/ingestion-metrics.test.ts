@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import jwt from 'jsonwebtoken';
+import app from '../../src/app';
+import { MessageIngestionPipeline } from '../../src/lib/ingestion/pipeline';
+
+vi.mock('../../src/lib/ingestion/pipeline', () => ({
+  MessageIngestionPipeline: {
+    getProcessingStats: vi.fn()
+  }
+}));
+
+const prisma = new PrismaClient();
+
+describe('Ingestion metrics - Contract Test', () => {
+  let adminToken: string;
+  let staffToken: string;
+
+  beforeAll(async () => {
+    const users = await Promise.all([
+      prisma.user.upsert({
+        where: { email: 'ingestion-metrics-admin-test@example.com' },
+        update: {},
+        create: { email: 'ingestion-metrics-admin-test@example.com', name: 'Metrics Admin', role: 'admin', metadata: { createdBy: 'contract-test' } }
+      }),
+      prisma.user.upsert({
+        where: { email: 'ingestion-metrics-staff-test@example.com' },
+        update: {},
+        create: { email: 'ingestion-metrics-staff-test@example.com', name: 'Metrics Staff', role: 'staff', metadata: { createdBy: 'contract-test' } }
+      })
+    ]);
+
+    [adminToken, staffToken] = users.map(user => jwt.sign(
+      { userId: user.id, email: user.email, role: user.role },
+      process.env.JWT_SECRET!,
+      { expiresIn: '1h' }
+    )) as [string, string];
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it('should be admin-only', async () => {
+    await request(app)
+      .get('/api/v1/ingestion/metrics')
+      .set('Authorization', `Bearer ${staffToken}`)
+      .expect(403);
+  });
+
+  it('should return the summary for the requested window', async () => {
+    vi.mocked(MessageIngestionPipeline.getProcessingStats).mockResolvedValue({
+      window: '1h',
+      totals: { processed: 4, success: 3, duplicate: 0, failed: 1, successRate: 0.75 },
+      errors: [{ code: 'INVALID_PAYLOAD', count: 1 }]
+    } as any);
+
+    const response = await request(app)
+      .get('/api/v1/ingestion/metrics')
+      .query({ window: '1h' })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(MessageIngestionPipeline.getProcessingStats).toHaveBeenCalledWith('1h');
+    expect(response.body.totals.successRate).toBe(0.75);
+  });
+
+  it('should reject an unknown window', async () => {
+    await request(app)
+      .get('/api/v1/ingestion/metrics')
+      .query({ window: '2w' })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(400);
+  });
+
+  it('should report metrics as unavailable without Redis', async () => {
+    vi.mocked(MessageIngestionPipeline.getProcessingStats).mockRejectedValue(new Error('Redis client not connected'));
+
+    await request(app)
+      .get('/api/v1/ingestion/metrics')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(503);
+  });
+});
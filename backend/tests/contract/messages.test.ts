@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import jwt from 'jsonwebtoken';
+import app from '../../src/app';
+
+const prisma = new PrismaClient();
+
+describe('Messages - Contract Test', () => {
+  let authToken: string;
+  let testUser: any;
+  let testCustomer: any;
+  let testProvider: any;
+  let inboundMessage: any;
+  let outboundMessage: any;
+
+  beforeAll(async () => {
+    testUser = await prisma.user.upsert({
+      where: { email: 'messages-test@example.com' },
+      update: {},
+      create: {
+        email: 'messages-test@example.com',
+        name: 'Messages Test User',
+        role: 'viewer',
+        metadata: { createdBy: 'contract-test' }
+      }
+    });
+
+    authToken = jwt.sign(
+      { userId: testUser.id, email: testUser.email, role: testUser.role },
+      process.env.JWT_SECRET!,
+      { expiresIn: '1h' }
+    );
+
+    testCustomer = await prisma.customer.create({
+      data: { name: 'Messages Customer', metadata: { source: 'contract-test' } }
+    });
+
+    testProvider = await prisma.provider.upsert({
+      where: { name: 'Test Provider Contract' },
+      update: {},
+      create: {
+        name: 'Test Provider Contract',
+        type: 'twilio_sms',
+        status: 'active',
+        config: { encrypted: true }
+      }
+    });
+
+    const now = Date.now();
+    inboundMessage = await prisma.message.create({
+      data: {
+        providerMessageId: `messages-test-in-${now}`,
+        providerId: testProvider.id,
+        customerId: testCustomer.id,
+        channel: 'sms',
+        direction: 'inbound',
+        fromIdentifier: '+15551234567',
+        toIdentifier: '+15557654321',
+        body: 'Where is my invoice?',
+        timestamp: new Date(now - 3600000),
+        providerMeta: {},
+        attachments: {
+          create: { type: 'image', filename: 'invoice.png', storageUrl: 'https://files.example.com/invoice.png' }
+        }
+      }
+    });
+    outboundMessage = await prisma.message.create({
+      data: {
+        providerMessageId: `messages-test-out-${now}`,
+        providerId: testProvider.id,
+        customerId: testCustomer.id,
+        channel: 'sms',
+        direction: 'outbound',
+        fromIdentifier: '+15557654321',
+        toIdentifier: '+15551234567',
+        body: 'Sent it over just now',
+        timestamp: new Date(now),
+        providerMeta: {}
+      }
+    });
+  });
+
+  afterAll(async () => {
+    await prisma.message.deleteMany({ where: { customerId: testCustomer.id } });
+    await prisma.customer.delete({ where: { id: testCustomer.id } });
+    await prisma.$disconnect();
+  });
+
+  describe('GET /api/v1/messages', () => {
+    it('should filter by customer and direction', async () => {
+      const response = await request(app)
+        .get('/api/v1/messages')
+        .query({ customer_id: testCustomer.id, direction: 'outbound' })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.map((m: any) => m.id)).toEqual([outboundMessage.id]);
+      expect(response.body.pagination.total).toBe(1);
+    });
+
+    it('should search message bodies with q', async () => {
+      const response = await request(app)
+        .get('/api/v1/messages')
+        .query({ q: 'invoice', customer_id: testCustomer.id })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.map((m: any) => m.id)).toEqual([inboundMessage.id]);
+    });
+
+    it('should filter by date range', async () => {
+      const response = await request(app)
+        .get('/api/v1/messages')
+        .query({
+          customer_id: testCustomer.id,
+          from: new Date(Date.now() - 7200000).toISOString(),
+          to: new Date(Date.now() - 1800000).toISOString()
+        })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.map((m: any) => m.id)).toEqual([inboundMessage.id]);
+    });
+
+    it('should never expose provider config', async () => {
+      const response = await request(app)
+        .get('/api/v1/messages')
+        .query({ customer_id: testCustomer.id })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      for (const message of response.body.data) {
+        expect(message.provider).not.toHaveProperty('config');
+      }
+    });
+
+    it('should reject an invalid direction', async () => {
+      await request(app)
+        .get('/api/v1/messages')
+        .query({ direction: 'sideways' })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(400);
+    });
+  });
+
+  describe('GET /api/v1/messages/:messageId', () => {
+    it('should include attachments and provider', async () => {
+      const response = await request(app)
+        .get(`/api/v1/messages/${inboundMessage.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.id).toBe(inboundMessage.id);
+      expect(response.body.attachments).toHaveLength(1);
+      expect(response.body.attachments[0].filename).toBe('invoice.png');
+      expect(response.body.provider).toEqual({
+        id: testProvider.id,
+        name: testProvider.name,
+        type: 'twilio_sms',
+        status: 'active'
+      });
+    });
+
+    it('should return 404 for an unknown message', async () => {
+      await request(app)
+        .get('/api/v1/messages/00000000-0000-4000-8000-000000000000')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(404);
+    });
+  });
+});
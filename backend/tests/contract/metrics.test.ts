@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import app from '../../src/app';
+import { config } from '../../src/config/index';
+import { collectSystemMetrics } from '../../src/lib/system-metrics';
+import { httpRequestsTotal } from '../../src/lib/prometheus';
+
+vi.mock('../../src/lib/system-metrics', () => ({
+  collectSystemMetrics: vi.fn()
+}));
+
+describe('Prometheus metrics - Contract Test', () => {
+  const apiKey = 'metrics-scrape-key-for-contract-tests-0001';
+  const original = { ...config.metrics };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(collectSystemMetrics).mockResolvedValue('# HELP crm_database_up Database\n# TYPE crm_database_up gauge\ncrm_database_up 1\n');
+    config.metrics.apiKey = apiKey;
+    config.metrics.allowedIps = ['10.0.0.5'];
+  });
+
+  afterEach(() => {
+    config.metrics.apiKey = original.apiKey;
+    config.metrics.allowedIps = original.allowedIps;
+  });
+
+  it('should serve the text exposition format with the API key', async () => {
+    const response = await request(app)
+      .get('/metrics')
+      .set('X-API-Key', apiKey)
+      .expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^text\/plain;/);
+    expect(response.headers['content-type']).toContain('version=0.0.4');
+    expect(response.text).toContain('crm_database_up 1');
+  });
+
+  it('should accept the key as a bearer token', async () => {
+    await request(app)
+      .get('/metrics')
+      .set('Authorization', `Bearer ${apiKey}`)
+      .expect(200);
+  });
+
+  it('should accept an allowlisted IP without a key', async () => {
+    await request(app)
+      .get('/metrics')
+      .set('X-Forwarded-For', '10.0.0.5')
+      .expect(200);
+  });
+
+  it('should refuse other clients', async () => {
+    await request(app)
+      .get('/metrics')
+      .set('X-Forwarded-For', '10.0.0.6')
+      .expect(401);
+
+    // Only the address our proxy appended counts, not whatever the client put before it
+    await request(app)
+      .get('/metrics')
+      .set('X-Forwarded-For', '10.0.0.5, 10.0.0.6')
+      .expect(401);
+
+    await request(app)
+      .get('/metrics')
+      .set('X-API-Key', 'not-the-metrics-key')
+      .expect(403);
+
+    expect(collectSystemMetrics).not.toHaveBeenCalled();
+  });
+
+  it('should count requests by their route pattern', async () => {
+    httpRequestsTotal.reset();
+
+    await request(app).get('/health').expect(200);
+    await request(app).get('/metrics').set('X-API-Key', apiKey).expect(200);
+
+    expect(httpRequestsTotal.collect().samples).toEqual(expect.arrayContaining([
+      { labels: { method: 'GET', route: '/health', status: '200' }, value: 1 },
+      { labels: { method: 'GET', route: '/metrics', status: '200' }, value: 1 }
+    ]));
+  });
+
+  it('should stay closed when no key or allowlist is configured', async () => {
+    config.metrics.apiKey = undefined;
+    config.metrics.allowedIps = [];
+
+    await request(app)
+      .get('/metrics')
+      .set('X-API-Key', apiKey)
+      .expect(403);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import crypto from 'crypto';
+import twilio from 'twilio';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { queueManager } from '../../src/lib/queue/manager';
+
+vi.mock('../../src/lib/queue/manager', () => ({
+  queueManager: {
+    addWebhookJob: vi.fn().mockResolvedValue('job-1')
+  }
+}));
+
+const prisma = new PrismaClient();
+
+describe('Webhooks - Contract Test', () => {
+  const twilioSecret = 'twilio-webhook-secret';
+  const whatsappSecret = 'whatsapp-app-secret';
+  let twilioProvider: any;
+  let whatsappProvider: any;
+  let twilioWebhook: any;
+
+  beforeAll(async () => {
+    twilioProvider = await prisma.provider.create({
+      data: {
+        name: 'Webhook Contract Twilio',
+        type: 'twilio_sms',
+        config: { createdBy: 'contract-test' }
+      }
+    });
+    twilioWebhook = await prisma.webhook.create({
+      data: {
+        providerId: twilioProvider.id,
+        endpointUrl: `/api/v1/webhooks/twilio_sms/${twilioProvider.id}`,
+        secret: twilioSecret
+      }
+    });
+
+    whatsappProvider = await prisma.provider.create({
+      data: {
+        name: 'Webhook Contract WhatsApp',
+        type: 'whatsapp',
+        config: { createdBy: 'contract-test', verifyToken: 'meta-verify-token' }
+      }
+    });
+    await prisma.webhook.create({
+      data: {
+        providerId: whatsappProvider.id,
+        endpointUrl: `/api/v1/webhooks/whatsapp/${whatsappProvider.id}`,
+        secret: whatsappSecret
+      }
+    });
+  });
+
+  afterAll(async () => {
+    await prisma.provider.deleteMany({
+      where: { id: { in: [twilioProvider.id, whatsappProvider.id] } }
+    });
+    await prisma.$disconnect();
+  });
+
+  beforeEach(() => {
+    vi.mocked(queueManager.addWebhookJob).mockClear();
+  });
+
+  describe('POST /api/v1/webhooks/twilio_sms/:providerId', () => {
+    const form = 'MessageSid=SM123&AccountSid=AC123&From=%2B15551234567&To=%2B15557654321&Body=Hello';
+
+    // Signed the way Twilio signs: URL plus the sorted form parameters
+    const signTwilio = (path: string, body: string) =>
+      twilio.getExpectedTwilioSignature(
+        twilioSecret,
+        `http://webhooks.test${path}`,
+        Object.fromEntries(new URLSearchParams(body))
+      );
+
+    it('should accept a signed Twilio webhook and reply with empty TwiML', async () => {
+      const path = `/api/v1/webhooks/twilio_sms/${twilioProvider.id}`;
+
+      const response = await request(app)
+        .post(path)
+        .set('Host', 'webhooks.test')
+        .set('Content-Type', 'application/x-www-form-urlencoded')
+        .set('X-Twilio-Signature', signTwilio(path, form))
+        .send(form)
+        .expect('Content-Type', /xml/)
+        .expect(200);
+
+      expect(response.text).toContain('<Response></Response>');
+      expect(queueManager.addWebhookJob).toHaveBeenCalledWith(
+        expect.objectContaining({
+          webhookId: twilioWebhook.id,
+          deliveryId: expect.any(String),
+          providerId: twilioProvider.id,
+          providerType: 'twilio_sms',
+          payload: expect.objectContaining({ MessageSid: 'SM123', Body: 'Hello' })
+        })
+      );
+
+      const webhook = await prisma.webhook.findUnique({ where: { id: twilioWebhook.id } });
+      expect(webhook?.lastReceived).toBeInstanceOf(Date);
+    });
+
+    it('should return 401 for an invalid signature', async () => {
+      await request(app)
+        .post(`/api/v1/webhooks/twilio_sms/${twilioProvider.id}`)
+        .set('Content-Type', 'application/x-www-form-urlencoded')
+        .set('X-Twilio-Signature', 'bogus')
+        .send(form)
+        .expect(401);
+
+      expect(queueManager.addWebhookJob).not.toHaveBeenCalled();
+    });
+
+    it('should return 413 for a body over the webhook limit', async () => {
+      const body = `${form}&Padding=${'x'.repeat(1024 * 1024)}`;
+
+      await request(app)
+        .post(`/api/v1/webhooks/twilio_sms/${twilioProvider.id}`)
+        .set('Content-Type', 'application/x-www-form-urlencoded')
+        .set('X-Twilio-Signature', signTwilio(`/api/v1/webhooks/twilio_sms/${twilioProvider.id}`, body))
+        .send(body)
+        .expect(413);
+
+      expect(queueManager.addWebhookJob).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when the provider type does not match', async () => {
+      await request(app)
+        .post(`/api/v1/webhooks/whatsapp/${twilioProvider.id}`)
+        .set('Content-Type', 'application/json')
+        .send('{}')
+        .expect(404);
+    });
+  });
+
+  describe('POST /api/v1/webhooks/whatsapp/:providerId', () => {
+    it('should accept a signed WhatsApp webhook', async () => {
+      const body = JSON.stringify({ object: 'whatsapp_business_account', entry: [] });
+      const signature = 'sha256=' + crypto.createHmac('sha256', whatsappSecret).update(body).digest('hex');
+
+      const response = await request(app)
+        .post(`/api/v1/webhooks/whatsapp/${whatsappProvider.id}`)
+        .set('Content-Type', 'application/json')
+        .set('X-Hub-Signature-256', signature)
+        .send(body)
+        .expect(200);
+
+      expect(response.body).toEqual({ received: true });
+      expect(queueManager.addWebhookJob).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('GET /api/v1/webhooks/whatsapp/:providerId', () => {
+    it('should echo hub.challenge for a valid verify token', async () => {
+      const response = await request(app)
+        .get(`/api/v1/webhooks/whatsapp/${whatsappProvider.id}`)
+        .query({ 'hub.mode': 'subscribe', 'hub.verify_token': 'meta-verify-token', 'hub.challenge': '1158201444' })
+        .expect(200);
+
+      expect(response.text).toBe('1158201444');
+    });
+
+    it('should return 403 for a wrong verify token', async () => {
+      await request(app)
+        .get(`/api/v1/webhooks/whatsapp/${whatsappProvider.id}`)
+        .query({ 'hub.mode': 'subscribe', 'hub.verify_token': 'wrong', 'hub.challenge': '1158201444' })
+        .expect(403);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { renderThumbnail, ThumbnailError } from '../../../src/lib/thumbnails.js';
+import { previewKind, attachmentContentType } from '../../../src/lib/attachment-fetch.js';
+
+const solidImage = (width: number, height: number): Promise<Buffer> =>
+  sharp({ create: { width, height, channels: 3, background: { r: 200, g: 40, b: 40 } } }).png().toBuffer();
+
+describe('attachment thumbnails', () => {
+  it('should only preview images and PDFs', () => {
+    expect(previewKind('image/jpeg')).toBe('image');
+    expect(previewKind('application/pdf')).toBe('pdf');
+    expect(previewKind('audio/ogg')).toBeNull();
+    expect(previewKind('application/octet-stream')).toBeNull();
+  });
+
+  it('should read the media type recorded on the attachment', () => {
+    expect(attachmentContentType({ metadata: { mimeType: 'Image/PNG' } })).toBe('image/png');
+    expect(attachmentContentType({ metadata: {} })).toBe('application/octet-stream');
+  });
+
+  it('should scale images to fit the thumbnail box as WebP', async () => {
+    const thumbnail = await renderThumbnail(await solidImage(1000, 500), 320);
+    const metadata = await sharp(thumbnail).metadata();
+
+    expect(metadata).toMatchObject({ format: 'webp', width: 320, height: 160 });
+  });
+
+  it('should not enlarge images smaller than the thumbnail box', async () => {
+    const thumbnail = await renderThumbnail(await solidImage(100, 80), 320);
+
+    expect(await sharp(thumbnail).metadata()).toMatchObject({ width: 100, height: 80 });
+  });
+
+  it('should reject media that is not a decodable image', async () => {
+    await expect(renderThumbnail(Buffer.from('not an image'), 320)).rejects.toBeInstanceOf(ThumbnailError);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DuplicateDetector,
+  ScanCustomer,
+  phoneDigitsKey,
+  emailLocalPart,
+  normalizeName,
+  nameSimilarity,
+  customerName
+} from '../../../src/lib/duplicate-detection.js';
+
+const customer = (id: string, name: string, identities: ScanCustomer['identities'] = []): ScanCustomer => ({
+  id,
+  name,
+  displayName: null,
+  identities
+});
+
+const phone = (value: string) => ({ type: 'phone' as const, value, rawValue: value });
+const email = (value: string) => ({ type: 'email' as const, value, rawValue: value });
+
+describe('Duplicate customer detection', () => {
+  describe('keys', () => {
+    it('should compare phone numbers on their last ten digits', () => {
+      expect(phoneDigitsKey('+15551234567')).toBe('5551234567');
+      expect(phoneDigitsKey('5551234567')).toBe('5551234567');
+      expect(phoneDigitsKey('12345')).toBeNull();
+    });
+
+    it('should ignore plus-addressing and role accounts', () => {
+      expect(emailLocalPart('Jane.Doe+crm@Example.com')).toEqual({ localPart: 'jane.doe', domain: 'example.com' });
+      expect(emailLocalPart('support@example.com')).toBeNull();
+    });
+
+    it('should normalize names regardless of accents and word order', () => {
+      expect(normalizeName('Doe, José')).toBe('doe jose');
+      expect(normalizeName('José Doe')).toBe('doe jose');
+      expect(nameSimilarity('doe jonathan', 'doe jonathon')).toBeGreaterThan(0.8);
+      expect(nameSimilarity('doe jane', 'smith bob')).toBeLessThan(0.3);
+    });
+
+    it('should fall back to the name the resolver suggests from an email address', () => {
+      expect(customerName(customer('c1', '+15551234567', [email('jane.doe@example.com')]))).toBe('doe jane');
+      expect(customerName(customer('c2', '+15551234567', [phone('+15551234567')]))).toBeNull();
+    });
+  });
+
+  describe('findCandidates', () => {
+    it('should pair customers sharing phone digits', () => {
+      const pairs = DuplicateDetector.findCandidates([
+        customer('a', '+15551234567', [phone('+15551234567')]),
+        customer('b', 'Jane Doe', [phone('5551234567')])
+      ]);
+
+      expect(pairs).toHaveLength(1);
+      expect(pairs[0]).toMatchObject({ customerId: 'a', candidateId: 'b', score: 0.9 });
+      expect(pairs[0]!.reasons.map(reason => reason.type)).toEqual(['phone_digits']);
+    });
+
+    it('should combine an email local part match with a similar name', () => {
+      const pairs = DuplicateDetector.findCandidates([
+        customer('b', 'Jane Doe', [email('jane.doe@work.com')]),
+        customer('a', 'Jane  Doe', [email('jane.doe@gmail.com')])
+      ]);
+
+      expect(pairs).toHaveLength(1);
+      expect(pairs[0]).toMatchObject({ customerId: 'a', candidateId: 'b' });
+      expect(pairs[0]!.reasons.map(reason => reason.type).sort()).toEqual(['email_local_part', 'similar_name']);
+      expect(pairs[0]!.score).toBe(0.8);
+    });
+
+    it('should not pair unrelated customers', () => {
+      const pairs = DuplicateDetector.findCandidates([
+        customer('a', 'Jane Doe', [email('jane@example.com'), phone('+15550000001')]),
+        customer('b', 'Bob Smith', [email('bob@example.com'), phone('+15550000002')])
+      ]);
+
+      expect(pairs).toEqual([]);
+    });
+  });
+});
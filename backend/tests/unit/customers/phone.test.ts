@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parsePhoneNumber,
+  normalizePhoneE164,
+  isValidPhoneNumber,
+  stripPhoneFormatting
+} from '../../../src/lib/phone.js';
+import { renormalizedPhoneValue, renormalizedThreadKey, PhoneIdentityRow } from '../../../src/lib/phone-renormalization.js';
+
+const identity = (value: string, rawValue: string, provider: string | null = null): PhoneIdentityRow => ({
+  id: 'identity-1',
+  customerId: 'customer-1',
+  value,
+  rawValue,
+  provider
+});
+
+describe('Phone number normalization', () => {
+  describe('normalizePhoneE164', () => {
+    it('should read national numbers in the default region', () => {
+      expect(normalizePhoneE164('(555) 123-4567', 'US')).toBe('+15551234567');
+      expect(normalizePhoneE164('1 555 123 4567', 'US')).toBe('+15551234567');
+      expect(normalizePhoneE164('07700 900123', 'GB')).toBe('+447700900123');
+      expect(normalizePhoneE164('55 1234 5678', 'MX')).toBe('+525512345678');
+    });
+
+    it('should keep the country of international numbers regardless of region', () => {
+      expect(normalizePhoneE164('+44 7700 900123', 'US')).toBe('+447700900123');
+      expect(normalizePhoneE164('+44 (0)7700 900123', 'US')).toBe('+447700900123');
+      expect(normalizePhoneE164('00 44 7700 900123', 'GB')).toBe('+447700900123');
+      expect(normalizePhoneE164('011 52 55 1234 5678', 'US')).toBe('+525512345678');
+    });
+
+    it('should drop retired Mexican mobile prefixes', () => {
+      expect(normalizePhoneE164('+52 1 55 1234 5678')).toBe('+525512345678');
+      expect(normalizePhoneE164('044 55 1234 5678', 'MX')).toBe('+525512345678');
+    });
+
+    it('should recognize a country code written without a plus', () => {
+      expect(normalizePhoneE164('447700900123', 'US')).toBe('+447700900123');
+      expect(normalizePhoneE164('5215512345678', null)).toBe('+525512345678');
+      expect(normalizePhoneE164('15551234567', null)).toBe('+15551234567');
+    });
+
+    it('should leave input without digits alone', () => {
+      expect(normalizePhoneE164('  unknown ')).toBe('unknown');
+      expect(parsePhoneNumber('')).toBeNull();
+    });
+  });
+
+  describe('validation', () => {
+    it('should check the national number length for the country', () => {
+      expect(isValidPhoneNumber('+447700900123')).toBe(true);
+      expect(isValidPhoneNumber('+4477009001')).toBe(false);
+      expect(isValidPhoneNumber('555 1234', 'US')).toBe(false);
+      expect(isValidPhoneNumber('+999 1234 5678')).toBe(false);
+    });
+
+    it('should report the region and national number', () => {
+      expect(parsePhoneNumber('07700 900123', 'GB')).toEqual({
+        e164: '+447700900123',
+        callingCode: '44',
+        nationalNumber: '7700900123',
+        region: 'GB',
+        valid: true
+      });
+    });
+  });
+
+  it('should strip formatting for substring search', () => {
+    expect(stripPhoneFormatting('+44 7700-900')).toBe('+447700900');
+    expect(stripPhoneFormatting('(555) 12')).toBe('55512');
+  });
+
+  describe('renormalizedPhoneValue', () => {
+    it('should recover numbers the old normalizer prefixed with +1', () => {
+      expect(renormalizedPhoneValue(identity('+107700900123', '07700 900123'), 'GB')).toBe('+447700900123');
+      expect(renormalizedPhoneValue(identity('+1447700900123', '+447700900123', 'twilio'), 'US')).toBe('+447700900123');
+    });
+
+    it('should read WhatsApp IDs as international', () => {
+      expect(renormalizedPhoneValue(identity('+1447700900123', '447700900123', 'whatsapp'), 'US')).toBe('+447700900123');
+    });
+
+    it('should leave numbers that are already correct unchanged', () => {
+      expect(renormalizedPhoneValue(identity('+15551234567', '(555) 123-4567'), 'US')).toBe('+15551234567');
+    });
+
+    it('should return null when neither form is a valid number', () => {
+      expect(renormalizedPhoneValue(identity('+112345', '12345'), 'US')).toBeNull();
+    });
+  });
+
+  describe('renormalizedThreadKey', () => {
+    it('should replace the number and keep SMS and voice keys sorted', () => {
+      expect(renormalizedThreadKey('sms:+107700900123:+15557654321', '+107700900123', '+447700900123'))
+        .toBe('sms:+15557654321:+447700900123');
+      expect(renormalizedThreadKey('voice:+107700900123:+15557654321', '+107700900123', '+447700900123'))
+        .toBe('voice:+15557654321:+447700900123');
+    });
+
+    it('should keep the business number first and the reply context of WhatsApp keys', () => {
+      expect(renormalizedThreadKey('whatsapp:+15557654321:+1447700900123:wamid.abc', '+1447700900123', '+447700900123'))
+        .toBe('whatsapp:+15557654321:+447700900123:wamid.abc');
+    });
+
+    it('should leave keys that only contain the number as part of another alone', () => {
+      expect(renormalizedThreadKey('sms:+1077009001234:+15557654321', '+107700900123', '+447700900123')).toBeNull();
+      expect(renormalizedThreadKey('email:thread:+107700900123', '+107700900123', '+447700900123')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CallTracker } from '../../../src/lib/ingestion/calls.js';
+import { TwilioVoiceNormalizer } from '../../../src/lib/ingestion/normalizers/index.js';
+import { createRawMessage } from '../../../src/lib/ingestion/index.js';
+import { MessageModel } from '../../../src/models/message.js';
+
+vi.mock('../../../src/models/message.js', () => ({
+  MessageModel: {
+    findByProviderMessageId: vi.fn(),
+    recordCallEvent: vi.fn()
+  }
+}));
+
+const voiceCallback = (payload: Record<string, any>) => createRawMessage({
+  providerId: 'provider-voice',
+  providerMessageId: 'webhook-1',
+  providerType: 'twilio_voice',
+  channel: 'voice',
+  timestamp: '2026-10-19T09:05:00.000Z',
+  payload: { AccountSid: 'AC123', CallSid: 'CA-call-001', ...payload }
+});
+
+describe('Call tracking', () => {
+  const normalizer = new TwilioVoiceNormalizer();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should describe each kind of callback', () => {
+    expect(normalizer.extractCallEvent(voiceCallback({
+      CallStatus: 'completed',
+      CallDuration: '125',
+      Timestamp: 'Mon, 19 Oct 2026 09:04:00 +0000'
+    }))).toEqual({
+      callSid: 'CA-call-001',
+      kind: 'status',
+      timestamp: new Date('2026-10-19T09:04:00Z'),
+      status: 'completed',
+      durationSeconds: 125
+    });
+
+    const recording = normalizer.extractCallEvent(voiceCallback({
+      RecordingSid: 'RE-001',
+      RecordingUrl: 'https://api.twilio.com/2010-04-01/Accounts/AC123/Recordings/RE-001',
+      RecordingStatus: 'completed',
+      RecordingDuration: '42'
+    }));
+    expect(recording).toMatchObject({
+      kind: 'recording',
+      timestamp: new Date('2026-10-19T09:05:00Z'),
+      recording: {
+        type: 'audio/mpeg',
+        url: 'https://api.twilio.com/2010-04-01/Accounts/AC123/Recordings/RE-001.mp3',
+        metadata: { recordingSid: 'RE-001', durationSeconds: 42 }
+      }
+    });
+    expect(recording).not.toHaveProperty('status');
+
+    expect(normalizer.extractCallEvent(voiceCallback({
+      TranscriptionSid: 'TR-001',
+      TranscriptionStatus: 'completed',
+      TranscriptionText: ' Hi, please call me back. ',
+      RecordingSid: 'RE-001',
+      RecordingUrl: 'https://api.twilio.com/2010-04-01/Accounts/AC123/Recordings/RE-001',
+      CallStatus: 'completed'
+    }))).toMatchObject({
+      kind: 'transcription',
+      transcription: { sid: 'TR-001', status: 'completed', text: 'Hi, please call me back.' }
+    });
+  });
+
+  it('should give every callback of a call its own idempotency ID', () => {
+    const ids = [
+      { CallStatus: 'ringing' },
+      { CallStatus: 'completed' },
+      { RecordingSid: 'RE-001' },
+      { TranscriptionSid: 'TR-001', RecordingSid: 'RE-001' }
+    ].map(payload => normalizer.splitPayload(voiceCallback(payload))[0]!.providerMessageId);
+
+    expect(ids).toEqual([
+      'CA-call-001:status:ringing',
+      'CA-call-001:status:completed',
+      'CA-call-001:recording:RE-001',
+      'CA-call-001:transcription:TR-001'
+    ]);
+  });
+
+  it('should fold a recording into the stored call', async () => {
+    vi.mocked(MessageModel.findByProviderMessageId).mockResolvedValue({ id: 'msg-call' } as any);
+    vi.mocked(MessageModel.recordCallEvent).mockResolvedValue([{ id: 'att-1' }] as any);
+
+    const event = normalizer.extractCallEvent(voiceCallback({
+      RecordingSid: 'RE-001',
+      RecordingUrl: 'https://api.twilio.com/2010-04-01/Accounts/AC123/Recordings/RE-001',
+      RecordingStatus: 'completed'
+    }))!;
+    const update = await CallTracker.applyCallEvent('provider-voice', event);
+
+    expect(update).toEqual({ messageId: 'msg-call', attachments: [{ id: 'att-1' }] });
+    expect(MessageModel.findByProviderMessageId).toHaveBeenCalledWith('provider-voice', 'CA-call-001');
+    expect(MessageModel.recordCallEvent).toHaveBeenCalledWith('msg-call', {
+      occurredAt: '2026-10-19T09:05:00.000Z',
+      recording: {
+        recordingSid: 'RE-001',
+        type: 'audio/mpeg',
+        storageUrl: 'https://api.twilio.com/2010-04-01/Accounts/AC123/Recordings/RE-001.mp3',
+        filename: 'RE-001.mp3',
+        metadata: expect.objectContaining({ recordingSid: 'RE-001', mimeType: 'audio/mpeg' })
+      }
+    });
+  });
+
+  it('should leave callbacks for calls it has not stored to normal ingestion', async () => {
+    vi.mocked(MessageModel.findByProviderMessageId).mockResolvedValue(null);
+
+    const event = normalizer.extractCallEvent(voiceCallback({ CallStatus: 'ringing', From: '+15551234567', To: '+15557654321' }))!;
+
+    expect(await CallTracker.applyCallEvent('provider-voice', event)).toBeNull();
+    expect(MessageModel.recordCallEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../../src/models/dead-letter.js', () => ({
+  DeadLetterModel: {
+    recordFailure: vi.fn(),
+    resolve: vi.fn(),
+    findById: vi.fn(),
+    listDeadIds: vi.fn(),
+    updateRawMessage: vi.fn()
+  }
+}));
+
+vi.mock('../../../src/lib/ingestion/pipeline.js', () => ({
+  MessageIngestionPipeline: {
+    retryFailedMessage: vi.fn()
+  }
+}));
+
+import { DeadLetterQueue, DeadLetterError } from '../../../src/lib/ingestion/dead-letters.js';
+import { DeadLetterModel } from '../../../src/models/dead-letter.js';
+import { MessageIngestionPipeline } from '../../../src/lib/ingestion/pipeline.js';
+import { IngestionError, IngestionResult, RawProviderMessage } from '../../../src/lib/ingestion/types.js';
+
+const rawMessage: RawProviderMessage = {
+  providerId: 'provider-1',
+  providerMessageId: 'SM123',
+  providerType: 'twilio_sms',
+  channel: 'sms',
+  timestamp: new Date('2026-10-19T09:00:00Z'),
+  payload: { MessageSid: 'SM123', Body: 'Hello' }
+};
+
+const failedResult = (code: string, message: string, stage: string): IngestionResult => ({
+  status: 'failed',
+  processingMetrics: {
+    startTime: new Date(),
+    stagesCompleted: ['validation', stage],
+    stagesFailed: [stage]
+  },
+  error: { code, message }
+});
+
+const deadLetter = (overrides: Record<string, unknown> = {}) => ({
+  id: 'dead-letter-1',
+  providerId: 'provider-1',
+  providerMessageId: 'SM123',
+  rawMessage: { ...rawMessage, timestamp: '2026-10-19T09:00:00.000Z' },
+  status: 'dead',
+  ...overrides
+});
+
+describe('dead letters', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should record a failed attempt with its code, stage and the raw message', async () => {
+    await DeadLetterQueue.recordFailure(
+      rawMessage,
+      failedResult('IDENTITY_RESOLUTION_FAILED', 'Customer lookup failed', 'identity_resolution'),
+      { jobId: 'job-1', attempt: 3, retrying: false }
+    );
+
+    expect(DeadLetterModel.recordFailure).toHaveBeenCalledWith({
+      providerId: 'provider-1',
+      providerMessageId: 'SM123',
+      rawMessage: { ...rawMessage, timestamp: '2026-10-19T09:00:00.000Z' },
+      errorCode: 'IDENTITY_RESOLUTION_FAILED',
+      errorMessage: 'Customer lookup failed',
+      failedStage: 'identity_resolution',
+      attempt: {
+        at: expect.any(String),
+        source: 'queue',
+        errorCode: 'IDENTITY_RESOLUTION_FAILED',
+        errorMessage: 'Customer lookup failed',
+        stage: 'identity_resolution',
+        jobId: 'job-1',
+        attempt: 3
+      },
+      retrying: false
+    });
+  });
+
+  it('should not let a failure to record break the job', async () => {
+    vi.mocked(DeadLetterModel.recordFailure).mockRejectedValueOnce(new Error('Database unavailable'));
+
+    await expect(DeadLetterQueue.recordFailure(
+      rawMessage,
+      failedResult('UNKNOWN_ERROR', 'Boom', 'persistence'),
+      { attempt: 1, retrying: true }
+    )).resolves.toBeUndefined();
+  });
+
+  it('should replay the edited payload and close the entry', async () => {
+    vi.mocked(DeadLetterModel.findById).mockResolvedValue(deadLetter() as any);
+    vi.mocked(MessageIngestionPipeline.retryFailedMessage).mockResolvedValue({
+      status: 'success',
+      messageId: 'message-1',
+      processingMetrics: { startTime: new Date(), stagesCompleted: [] }
+    });
+
+    const result = await DeadLetterQueue.replay('dead-letter-1', {
+      edit: { payload: { MessageSid: 'SM123', Body: 'Hello, fixed' } },
+      userId: 'admin-1'
+    });
+
+    expect(result).toEqual({ id: 'dead-letter-1', status: 'replayed', messageId: 'message-1' });
+    expect(DeadLetterModel.updateRawMessage).toHaveBeenCalledWith('dead-letter-1', expect.objectContaining({
+      payload: { MessageSid: 'SM123', Body: 'Hello, fixed' }
+    }));
+    expect(MessageIngestionPipeline.retryFailedMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ providerMessageId: 'SM123', payload: { MessageSid: 'SM123', Body: 'Hello, fixed' } }),
+      {}
+    );
+    expect(DeadLetterModel.resolve).toHaveBeenCalledWith('provider-1', 'SM123', { messageId: 'message-1', userId: 'admin-1' });
+  });
+
+  it('should add a failed replay to the attempts with the pipeline\'s own error', async () => {
+    vi.mocked(DeadLetterModel.findById).mockResolvedValue(deadLetter() as any);
+    vi.mocked(MessageIngestionPipeline.retryFailedMessage).mockRejectedValue(new IngestionError(
+      'UNKNOWN_ERROR',
+      'Message processing failed after 3 attempts: Invalid message format',
+      'provider-1',
+      'SM123',
+      { lastResult: failedResult('INVALID_PAYLOAD', 'Invalid message format', 'normalization') }
+    ));
+
+    const result = await DeadLetterQueue.replay('dead-letter-1');
+
+    expect(result).toEqual({
+      id: 'dead-letter-1',
+      status: 'failed',
+      error: { code: 'INVALID_PAYLOAD', message: 'Invalid message format' }
+    });
+    expect(DeadLetterModel.recordFailure).toHaveBeenCalledWith(expect.objectContaining({
+      errorCode: 'INVALID_PAYLOAD',
+      failedStage: 'normalization',
+      attempt: expect.objectContaining({ source: 'replay', stage: 'normalization' }),
+      retrying: false
+    }));
+    expect(DeadLetterModel.resolve).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to replay an entry twice', async () => {
+    vi.mocked(DeadLetterModel.findById).mockResolvedValue(deadLetter({ status: 'replayed' }) as any);
+
+    await expect(DeadLetterQueue.replay('dead-letter-1')).rejects.toBeInstanceOf(DeadLetterError);
+    expect(MessageIngestionPipeline.retryFailedMessage).not.toHaveBeenCalled();
+  });
+
+  it('should replay dead entries with the error code one attempt each', async () => {
+    vi.mocked(DeadLetterModel.listDeadIds).mockResolvedValue(['dead-letter-1', 'dead-letter-2']);
+    vi.mocked(DeadLetterModel.findById).mockImplementation(async id => deadLetter({ id }) as any);
+    vi.mocked(MessageIngestionPipeline.retryFailedMessage).mockResolvedValue({
+      status: 'duplicate',
+      messageId: 'message-1',
+      processingMetrics: { startTime: new Date(), stagesCompleted: [] }
+    });
+
+    const results = await DeadLetterQueue.replayByErrorCode('UNKNOWN_ERROR', { limit: 10 });
+
+    expect(DeadLetterModel.listDeadIds).toHaveBeenCalledWith('UNKNOWN_ERROR', { limit: 10 });
+    expect(results.map(result => result.status)).toEqual(['replayed', 'replayed']);
+    expect(MessageIngestionPipeline.retryFailedMessage).toHaveBeenCalledWith(expect.anything(), { maxRetries: 1 });
+  });
+});
@@ -1,6 +1,12 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import crypto from 'crypto';
 import { PrismaClient } from '@prisma/client';
-import { MessageDeduplicator, IdempotencyManager } from '../../../src/lib/ingestion/deduplication.js';
+import {
+  MessageDeduplicator,
+  IdempotencyManager,
+  contentTrigrams,
+  trigramSimilarity
+} from '../../../src/lib/ingestion/deduplication.js';
 import { createRawMessage } from '../../../src/lib/ingestion/index.js';
 import { NormalizedMessage, RawProviderMessage } from '../../../src/lib/ingestion/types.js';
 
@@ -141,8 +147,9 @@ describe('MessageDeduplicator', () => {
           toIdentifier: '+1555654321',
           timestamp: new Date(),
           body: 'This is a unique message content for testing',
+          messageHash: 'content-hash-456',
           status: 'processed',
-          providerMeta: { messageHash: 'content-hash-456' }
+          providerMeta: {}
         }
       });
 
@@ -262,6 +269,153 @@ describe('MessageDeduplicator', () => {
       expect(result.confidence).toBeGreaterThan(0.85);
     });
 
+    it('should only compare content between the same contacts', async () => {
+      await prisma.message.create({
+        data: {
+          providerMessageId: 'SM-similar-other-contacts',
+          providerId: testProviderId,
+          customerId: testCustomerId,
+          channel: 'sms',
+          direction: 'inbound',
+          fromIdentifier: '+1888123456',
+          toIdentifier: '+1888654321',
+          timestamp: new Date(),
+          body: 'Your appointment is confirmed for Monday',
+          status: 'processed',
+          providerMeta: {}
+        }
+      });
+
+      const normalizedMessage: NormalizedMessage = {
+        providerMessageId: 'SM-similar-new-contacts',
+        providerId: testProviderId,
+        channel: 'sms',
+        direction: 'outbound',
+        from: {
+          identifier: '+1888654321',
+          normalizedValue: '+1888654321',
+          rawValue: '+1888654321',
+          type: 'phone',
+          provider: 'twilio'
+        },
+        to: {
+          identifier: '+1999123456',
+          normalizedValue: '+1999123456',
+          rawValue: '+1999123456',
+          type: 'phone',
+          provider: 'twilio'
+        },
+        timestamp: new Date(),
+        body: 'Your appointment is confirmed for Monday', // Same content, different customer
+        contentType: 'text',
+        threadKey: 'sms:+1888654321:+1999123456',
+        providerMeta: {},
+        messageHash: 'other-contacts-hash'
+      };
+
+      const result = await MessageDeduplicator.checkSimilarContentDuplicate(normalizedMessage, 0.9, 60);
+
+      expect(result.isDuplicate).toBe(false);
+    });
+
+    it('should keep a repeated short reply', async () => {
+      await prisma.message.create({
+        data: {
+          providerMessageId: 'SM-short-reply-first',
+          providerId: testProviderId,
+          customerId: testCustomerId,
+          channel: 'sms',
+          direction: 'inbound',
+          fromIdentifier: '+1777123456',
+          toIdentifier: '+1777654321',
+          timestamp: new Date(),
+          body: 'Ok thanks',
+          status: 'processed',
+          providerMeta: {}
+        }
+      });
+
+      const normalizedMessage: NormalizedMessage = {
+        providerMessageId: 'SM-short-reply-second',
+        providerId: testProviderId,
+        channel: 'sms',
+        direction: 'inbound',
+        from: {
+          identifier: '+1777123456',
+          normalizedValue: '+1777123456',
+          rawValue: '+1777123456',
+          type: 'phone',
+          provider: 'twilio'
+        },
+        to: {
+          identifier: '+1777654321',
+          normalizedValue: '+1777654321',
+          rawValue: '+1777654321',
+          type: 'phone',
+          provider: 'twilio'
+        },
+        timestamp: new Date(),
+        body: 'ok thanks!', // Answering a later question the same way
+        contentType: 'text',
+        threadKey: 'sms:+1777123456:+1777654321',
+        providerMeta: {},
+        messageHash: 'short-reply-hash'
+      };
+
+      const result = await MessageDeduplicator.checkSimilarContentDuplicate(normalizedMessage, 0.8, 60);
+
+      expect(result.isDuplicate).toBe(false);
+    });
+
+    it('should not compare a message with one sent the other way', async () => {
+      await prisma.message.create({
+        data: {
+          providerMessageId: 'SM-echo-original',
+          providerId: testProviderId,
+          customerId: testCustomerId,
+          channel: 'sms',
+          direction: 'outbound',
+          fromIdentifier: '+1555654321',
+          toIdentifier: '+1555123456',
+          timestamp: new Date(),
+          body: 'Can you confirm your delivery address please?',
+          status: 'sent',
+          providerMeta: {}
+        }
+      });
+
+      const normalizedMessage: NormalizedMessage = {
+        providerMessageId: 'SM-echo-reply',
+        providerId: testProviderId,
+        channel: 'sms',
+        direction: 'inbound',
+        from: {
+          identifier: '+1555123456',
+          normalizedValue: '+1555123456',
+          rawValue: '+1555123456',
+          type: 'phone',
+          provider: 'twilio'
+        },
+        to: {
+          identifier: '+1555654321',
+          normalizedValue: '+1555654321',
+          rawValue: '+1555654321',
+          type: 'phone',
+          provider: 'twilio'
+        },
+        timestamp: new Date(),
+        body: 'Can you confirm your delivery address please', // Quoting our question back
+        contentType: 'text',
+        threadKey: 'sms:+1555123456:+1555654321',
+        providerMeta: {},
+        messageHash: 'echo-reply-hash'
+      };
+
+      const result = await MessageDeduplicator.checkSimilarContentDuplicate(normalizedMessage, 0.9, 60);
+
+      expect(result.isDuplicate).toBe(false);
+    });
+
     it('should not detect duplicates outside time window', async () => {
       // Create a message from 2 hours ago
       const oldTimestamp = new Date(Date.now() - (2 * 60 * 60 * 1000));
@@ -492,6 +646,16 @@ describe('MessageDeduplicator', () => {
   });
 });
 
+describe('trigram similarity', () => {
+  it('should score near-identical text close to 1 and unrelated text close to 0', () => {
+    const original = contentTrigrams('Hello, how are you doing today?');
+
+    expect(trigramSimilarity(original, contentTrigrams('hello,   how are you doing TODAY?'))).toBe(1);
+    expect(trigramSimilarity(original, contentTrigrams('Hello, how are you doing today!!'))).toBeGreaterThan(0.9);
+    expect(trigramSimilarity(original, contentTrigrams('Invoice attached'))).toBeLessThan(0.1);
+  });
+});
+
 describe('IdempotencyManager', () => {
   describe('generateIdempotencyKey', () => {
     it('should generate consistent keys for same input', () => {
@@ -534,32 +698,69 @@ describe('IdempotencyManager', () => {
   });
 
   describe('checkIdempotency and markAsProcessed', () => {
-    it('should track processed messages in memory cache', async () => {
-      const idempotencyKey = 'test-key-123';
-      const messageId = 'msg-123';
+    const keys: string[] = [];
+    const testKey = (name: string) => {
+      const key = IdempotencyManager.generateIdempotencyKey('test-provider-idempotency', name, new Date());
+      keys.push(key);
+      return key;
+    };
+
+    afterAll(async () => {
+      await prisma.idempotencyKey.deleteMany({ where: { key: { in: keys } } });
+    });
+
+    it('should track processed messages in the database', async () => {
+      const idempotencyKey = testKey('msg-123');
+      const messageId = crypto.randomUUID();
 
       // Initially should not be found
       const result1 = await IdempotencyManager.checkIdempotency(idempotencyKey);
       expect(result1).toBeNull();
 
       // Mark as processed
-      IdempotencyManager.markAsProcessed(idempotencyKey, messageId);
+      await IdempotencyManager.markAsProcessed(idempotencyKey, messageId);
 
       // Should now be found
       const result2 = await IdempotencyManager.checkIdempotency(idempotencyKey);
       expect(result2).toBe(messageId);
     });
 
-    it('should clear expired entries', () => {
-      const idempotencyKey = 'test-key-456';
-      const messageId = 'msg-456';
+    it('should let one claim at a time process a key', async () => {
+      const idempotencyKey = testKey('msg-789');
+      const messageId = crypto.randomUUID();
+
+      const first = await IdempotencyManager.acquire(idempotencyKey);
+      expect(first.status).toBe('acquired');
+      expect(await IdempotencyManager.acquire(idempotencyKey)).toEqual({ status: 'in_progress' });
+
+      // A released claim can be taken again straight away
+      await IdempotencyManager.release(idempotencyKey, (first as { token: string }).token);
+      const second = await IdempotencyManager.acquire(idempotencyKey);
+      expect(second.status).toBe('acquired');
+
+      await IdempotencyManager.markAsProcessed(idempotencyKey, messageId);
+      expect(await IdempotencyManager.acquire(idempotencyKey)).toEqual({ status: 'completed', messageId });
+    });
+
+    it('should clear only expired entries', async () => {
+      const expiredKey = testKey('msg-456');
+      const liveKey = testKey('msg-457');
+      const liveMessageId = crypto.randomUUID();
 
-      IdempotencyManager.markAsProcessed(idempotencyKey, messageId);
-      IdempotencyManager.clearExpiredEntries();
+      await IdempotencyManager.markAsProcessed(expiredKey, crypto.randomUUID());
+      await IdempotencyManager.markAsProcessed(liveKey, liveMessageId);
+      await prisma.idempotencyKey.update({
+        where: { key: expiredKey },
+        data: { expiresAt: new Date(Date.now() - 1000) }
+      });
+
+      // Past its TTL the key no longer counts, even before it's pruned
+      expect(await IdempotencyManager.checkIdempotency(expiredKey)).toBeNull();
 
-      // After clearing, should not be found
-      const result = IdempotencyManager.checkIdempotency(idempotencyKey);
-      expect(result).resolves.toBeNull();
+      await IdempotencyManager.clearExpiredEntries();
+
+      expect(await prisma.idempotencyKey.findUnique({ where: { key: expiredKey } })).toBeNull();
+      expect(await IdempotencyManager.checkIdempotency(liveKey)).toBe(liveMessageId);
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DeliveryStatusTracker } from '../../../src/lib/ingestion/delivery-status.js';
+import { TwilioSMSNormalizer, WhatsAppNormalizer } from '../../../src/lib/ingestion/normalizers/index.js';
+import { createRawMessage } from '../../../src/lib/ingestion/index.js';
+import { MessageModel } from '../../../src/models/message.js';
+
+vi.mock('../../../src/models/message.js', () => ({
+  MessageModel: {
+    findByProviderMessageId: vi.fn(),
+    hasPendingSend: vi.fn(),
+    recordStatusEvent: vi.fn()
+  }
+}));
+
+const twilioCallback = (payload: Record<string, any>) => createRawMessage({
+  providerId: 'provider-twilio',
+  providerMessageId: payload['MessageSid'],
+  providerType: 'twilio_sms',
+  channel: 'sms',
+  payload
+});
+
+const whatsappWebhook = (value: Record<string, any>) => createRawMessage({
+  providerId: 'provider-whatsapp',
+  providerMessageId: 'wh-entry',
+  providerType: 'whatsapp',
+  channel: 'whatsapp',
+  payload: {
+    object: 'whatsapp_business_account',
+    entry: [{ id: 'waba-1', changes: [{ field: 'messages', value: { messaging_product: 'whatsapp', ...value } }] }]
+  }
+});
+
+describe('Delivery status tracking', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('TwilioSMSNormalizer status callbacks', () => {
+    const normalizer = new TwilioSMSNormalizer();
+
+    it('should map a delivery receipt onto the lifecycle', () => {
+      const raw = twilioCallback({
+        MessageSid: 'SM-status-001',
+        MessageStatus: 'undelivered',
+        To: '+15551234567',
+        ErrorCode: '30003',
+        ErrorMessage: 'Unreachable destination handset',
+        RawDlrDoneDate: '2610190915'
+      });
+
+      expect(normalizer.isStatusOnly(raw)).toBe(true);
+      expect(normalizer.extractStatusUpdates(raw)).toEqual([{
+        providerId: 'provider-twilio',
+        providerMessageId: 'SM-status-001',
+        status: 'failed',
+        providerStatus: 'undelivered',
+        timestamp: new Date(Date.UTC(2026, 9, 19, 9, 15)),
+        recipient: '+15551234567',
+        errorCode: '30003',
+        errorMessage: 'Unreachable destination handset'
+      }]);
+    });
+
+    it('should treat inbound messages as messages', () => {
+      const raw = twilioCallback({
+        MessageSid: 'SM-inbound-001',
+        SmsStatus: 'received',
+        From: '+15551234567',
+        To: '+15557654321',
+        Body: 'Hello'
+      });
+
+      expect(normalizer.isStatusOnly(raw)).toBe(false);
+      expect(normalizer.extractStatusUpdates(raw)).toEqual([]);
+    });
+  });
+
+  describe('WhatsAppNormalizer statuses', () => {
+    const normalizer = new WhatsAppNormalizer();
+
+    it('should extract every status with its error details', () => {
+      const raw = whatsappWebhook({
+        statuses: [
+          { id: 'wamid.1', status: 'delivered', timestamp: '1792400000', recipient_id: '15551234567' },
+          {
+            id: 'wamid.2',
+            status: 'failed',
+            timestamp: '1792400060',
+            recipient_id: '15551234567',
+            errors: [{ code: 131047, title: 'Re-engagement message', error_data: { details: 'More than 24 hours have passed' } }]
+          }
+        ]
+      });
+
+      expect(normalizer.isStatusOnly(raw)).toBe(true);
+
+      const updates = normalizer.extractStatusUpdates(raw);
+      expect(updates).toHaveLength(2);
+      expect(updates[0]).toMatchObject({ providerMessageId: 'wamid.1', status: 'delivered', recipient: '+15551234567' });
+      expect(updates[1]).toMatchObject({
+        providerMessageId: 'wamid.2',
+        status: 'failed',
+        errorCode: '131047',
+        errorMessage: 'More than 24 hours have passed'
+      });
+    });
+  });
+
+  describe('DeliveryStatusTracker', () => {
+    it('should only move a message forward through the lifecycle', () => {
+      expect(DeliveryStatusTracker.shouldApply('queued', 'sent')).toBe(true);
+      expect(DeliveryStatusTracker.shouldApply('sent', 'read')).toBe(true);
+      expect(DeliveryStatusTracker.shouldApply('delivered', 'sent')).toBe(false);
+      expect(DeliveryStatusTracker.shouldApply('read', 'read')).toBe(false);
+      expect(DeliveryStatusTracker.shouldApply('sent', 'failed')).toBe(true);
+      expect(DeliveryStatusTracker.shouldApply('delivered', 'failed')).toBe(false);
+    });
+
+    it('should record late receipts in history without regressing the message', async () => {
+      vi.mocked(MessageModel.findByProviderMessageId).mockResolvedValue({
+        id: 'msg-1',
+        direction: 'outbound',
+        status: 'delivered'
+      } as any);
+
+      const outcome = await DeliveryStatusTracker.applyUpdate({
+        providerId: 'provider-twilio',
+        providerMessageId: 'SM-status-001',
+        status: 'sent',
+        providerStatus: 'sent',
+        timestamp: new Date('2026-10-19T09:00:00Z')
+      });
+
+      expect(outcome).toBe('recorded');
+      expect(MessageModel.recordStatusEvent).toHaveBeenCalledWith('msg-1', {
+        status: 'sent',
+        providerStatus: 'sent',
+        occurredAt: new Date('2026-10-19T09:00:00Z')
+      }, false);
+    });
+
+    it('should fail receipts for messages not stored yet so they are retried', async () => {
+      vi.mocked(MessageModel.findByProviderMessageId).mockResolvedValue(null);
+      vi.mocked(MessageModel.hasPendingSend).mockResolvedValue(true);
+
+      await expect(DeliveryStatusTracker.handleWebhook(twilioCallback({
+        MessageSid: 'SM-not-yet',
+        MessageStatus: 'delivered'
+      }))).rejects.toMatchObject({
+        name: 'IngestionError',
+        code: 'MESSAGE_NOT_FOUND',
+        providerMessageId: 'SM-not-yet'
+      });
+      expect(MessageModel.recordStatusEvent).not.toHaveBeenCalled();
+    });
+
+    it('should apply the receipts it can before failing on a missing message', async () => {
+      vi.mocked(MessageModel.findByProviderMessageId).mockImplementation(async (_providerId, providerMessageId) =>
+        providerMessageId === 'wamid.known'
+          ? { id: 'msg-1', direction: 'outbound', status: 'sent' } as any
+          : null
+      );
+      vi.mocked(MessageModel.hasPendingSend).mockResolvedValue(true);
+
+      await expect(DeliveryStatusTracker.handleWebhook(whatsappWebhook({
+        statuses: [
+          { id: 'wamid.known', status: 'delivered', timestamp: '1792400000', recipient_id: '15551234567' },
+          { id: 'wamid.missing', status: 'delivered', timestamp: '1792400000', recipient_id: '15551234567' }
+        ]
+      }))).rejects.toMatchObject({ code: 'MESSAGE_NOT_FOUND', details: { providerMessageIds: ['wamid.missing'] } });
+      expect(MessageModel.recordStatusEvent).toHaveBeenCalledTimes(1);
+      expect(MessageModel.recordStatusEvent).toHaveBeenCalledWith('msg-1', expect.objectContaining({ status: 'delivered' }), true);
+    });
+
+    it('should count receipts for messages another tool sent without failing', async () => {
+      vi.mocked(MessageModel.findByProviderMessageId).mockResolvedValue(null);
+      vi.mocked(MessageModel.hasPendingSend).mockResolvedValue(false);
+
+      const report = await DeliveryStatusTracker.handleWebhook(whatsappWebhook({
+        statuses: [
+          { id: 'wamid.elsewhere', status: 'read', timestamp: '1792400000', recipient_id: '15551234567' }
+        ]
+      }));
+
+      expect(report).toEqual({ statusOnly: true, applied: 0, recorded: 0, unknown: 1, messageIds: [] });
+      expect(MessageModel.hasPendingSend).toHaveBeenCalledWith('provider-whatsapp', expect.any(Date));
+      expect(MessageModel.recordStatusEvent).not.toHaveBeenCalled();
+    });
+
+    it('should count receipts that name an inbound message without failing', async () => {
+      vi.mocked(MessageModel.findByProviderMessageId).mockResolvedValue({
+        id: 'msg-in',
+        direction: 'inbound',
+        status: 'received'
+      } as any);
+
+      const report = await DeliveryStatusTracker.handleWebhook(twilioCallback({
+        MessageSid: 'SM-inbound',
+        MessageStatus: 'delivered'
+      }));
+
+      expect(report).toEqual({ statusOnly: true, applied: 0, recorded: 0, unknown: 1, messageIds: [] });
+      expect(MessageModel.recordStatusEvent).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { parseAddressList } from '../../../src/lib/ingestion/email-addresses.js';
+
+describe('email address lists', () => {
+  it('should keep display names, including quoted ones with commas', () => {
+    expect(parseAddressList('"Doe, Jane" <jane@customer.com>, Bob Roe <bob@customer.com>, sales@example.com')).toEqual([
+      { address: 'jane@customer.com', name: 'Doe, Jane' },
+      { address: 'bob@customer.com', name: 'Bob Roe' },
+      { address: 'sales@example.com' }
+    ]);
+  });
+
+  it('should read comment names and escaped quotes', () => {
+    expect(parseAddressList('jane@customer.com (Jane Doe), "Bob \\"B\\" Roe" <bob@customer.com>')).toEqual([
+      { address: 'jane@customer.com', name: 'Jane Doe' },
+      { address: 'bob@customer.com', name: 'Bob "B" Roe' }
+    ]);
+  });
+
+  it('should expand groups and drop empty ones', () => {
+    expect(parseAddressList('Team: a@example.com, B <b@example.com>;, c@customer.com')).toEqual([
+      { address: 'a@example.com' },
+      { address: 'b@example.com', name: 'B' },
+      { address: 'c@customer.com' }
+    ]);
+    expect(parseAddressList('undisclosed-recipients:;')).toEqual([]);
+    expect(parseAddressList(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../../src/models/email-message-ref.js', () => ({
+  EmailMessageRefModel: {
+    findConversationId: vi.fn(),
+    findConversationIdBySubject: vi.fn(),
+    record: vi.fn()
+  }
+}));
+
+import {
+  EmailThreadResolver,
+  emailThreadHeaders,
+  emailThreadRoot,
+  normalizeSubject,
+  stripSubjectPrefixes
+} from '../../../src/lib/ingestion/email-threading.js';
+import { EmailMessageRefModel } from '../../../src/models/email-message-ref.js';
+import { NormalizedMessage } from '../../../src/lib/ingestion/types.js';
+
+const emailMessage = (subject: string, headers: Record<string, string>): NormalizedMessage => ({
+  providerMessageId: headers['message-id'] ?? 'msg-1',
+  providerId: 'provider-imap',
+  channel: 'email',
+  direction: 'inbound',
+  from: { identifier: 'jane@customer.com', normalizedValue: 'jane@customer.com', rawValue: 'jane@customer.com', type: 'email', provider: 'imap' },
+  to: { identifier: 'support@example.com', normalizedValue: 'support@example.com', rawValue: 'support@example.com', type: 'email', provider: 'imap' },
+  timestamp: new Date('2026-10-19T09:00:00Z'),
+  body: 'Hello',
+  contentType: 'text',
+  threadKey: 'email:whatever',
+  providerMeta: { subject, headers },
+  messageHash: 'hash'
+});
+
+describe('email threading', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should strip stacked and localized reply prefixes from subjects', () => {
+    expect(stripSubjectPrefixes('Re: Fwd: RE[2]: Order 1234')).toBe('Order 1234');
+    expect(stripSubjectPrefixes('AW: WG: Rechnung')).toBe('Rechnung');
+    expect(stripSubjectPrefixes('SV:Tilbud')).toBe('Tilbud');
+    expect(stripSubjectPrefixes('Regarding: the order')).toBe('Regarding: the order');
+    expect(normalizeSubject('  FW:   Order   1234 ')).toBe('order 1234');
+    expect(normalizeSubject(undefined)).toBe('');
+  });
+
+  it('should read reply headers and the thread root', () => {
+    const headers = emailThreadHeaders({
+      'message-id': '<c@customer.com>',
+      'in-reply-to': '<b@example.com>',
+      references: '<a@customer.com>\r\n <b@example.com>'
+    });
+
+    expect(headers).toEqual({
+      messageId: '<c@customer.com>',
+      inReplyTo: ['<b@example.com>'],
+      references: ['<a@customer.com>', '<b@example.com>']
+    });
+    expect(emailThreadRoot(headers)).toBe('<a@customer.com>');
+    expect(emailThreadRoot(emailThreadHeaders({ 'message-id': '<solo@customer.com>' }))).toBe('<solo@customer.com>');
+    expect(emailThreadRoot(emailThreadHeaders(undefined))).toBeUndefined();
+  });
+
+  it('should find the conversation of any message a reply names, nearest first', async () => {
+    vi.mocked(EmailMessageRefModel.findConversationId).mockResolvedValue('conversation-1');
+
+    const match = await EmailThreadResolver.findConversation(
+      emailMessage('Re: Order 1234', {
+        'message-id': '<c@customer.com>',
+        'in-reply-to': '<b@example.com>',
+        references: '<a@customer.com> <b@example.com>'
+      }),
+      'customer-1',
+      168
+    );
+
+    expect(match).toEqual({ conversationId: 'conversation-1', reason: 'references' });
+    expect(EmailMessageRefModel.findConversationId).toHaveBeenCalledWith('customer-1', [
+      '<b@example.com>',
+      '<a@customer.com>',
+      '<c@customer.com>'
+    ]);
+    expect(EmailMessageRefModel.findConversationIdBySubject).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the subject only for replies', async () => {
+    vi.mocked(EmailMessageRefModel.findConversationId).mockResolvedValue(null);
+    vi.mocked(EmailMessageRefModel.findConversationIdBySubject).mockResolvedValue('conversation-2');
+
+    const reply = await EmailThreadResolver.findConversation(
+      emailMessage('AW: Order 1234', { 'message-id': '<d@customer.com>' }),
+      'customer-1',
+      168
+    );
+    expect(reply).toEqual({ conversationId: 'conversation-2', reason: 'subject' });
+    expect(EmailMessageRefModel.findConversationIdBySubject).toHaveBeenCalledWith('customer-1', 'order 1234', expect.any(Date));
+
+    vi.mocked(EmailMessageRefModel.findConversationIdBySubject).mockClear();
+    const fresh = await EmailThreadResolver.findConversation(
+      emailMessage('Order 1234', { 'message-id': '<e@customer.com>' }),
+      'customer-1',
+      168
+    );
+    expect(fresh).toBeNull();
+    expect(EmailMessageRefModel.findConversationIdBySubject).not.toHaveBeenCalled();
+  });
+
+  it('should record the message and its ancestors against the conversation', async () => {
+    await EmailThreadResolver.record(
+      emailMessage('Re: Order 1234', {
+        'message-id': '<c@customer.com>',
+        'in-reply-to': '<b@example.com>',
+        references: '<a@customer.com> <b@example.com>'
+      }),
+      'conversation-1'
+    );
+
+    expect(EmailMessageRefModel.record).toHaveBeenCalledWith({
+      conversationId: 'conversation-1',
+      messageIds: ['<c@customer.com>', '<b@example.com>', '<a@customer.com>', '<b@example.com>'],
+      normalizedSubject: 'order 1234'
+    });
+  });
+});
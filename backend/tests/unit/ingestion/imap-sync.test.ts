@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ImapFlow } from 'imapflow';
+
+vi.mock('../../../src/config/index.js', () => ({
+  config: {
+    logging: { level: 'silent', format: 'json' },
+    providers: { requestTimeoutMs: 2000 },
+    imap: { pollIntervalMs: 60000, batchSize: 2, initialSyncDays: 30 }
+  }
+}));
+
+vi.mock('../../../src/models/mailbox-sync-state.js', () => ({
+  MailboxSyncStateModel: {
+    find: vi.fn(),
+    saveCheckpoint: vi.fn()
+  }
+}));
+
+vi.mock('../../../src/models/provider.js', () => ({
+  ProviderModel: {
+    list: vi.fn(),
+    getCredentials: vi.fn()
+  }
+}));
+
+vi.mock('../../../src/lib/queue/manager.js', () => ({
+  queueManager: {
+    addMessageIngestionJob: vi.fn()
+  }
+}));
+
+import { MailboxSyncer } from '../../../src/lib/imap-sync.js';
+import { MailboxSyncStateModel } from '../../../src/models/mailbox-sync-state.js';
+import { queueManager } from '../../../src/lib/queue/manager.js';
+
+const UID_VALIDITY = 1700000000n;
+
+type StoredMessage = { uid: number; messageId?: string };
+
+/**
+ * Stands in for an ImapFlow connection to a mailbox holding the given messages
+ */
+const fakeMailbox = (messages: StoredMessage[], uidValidity = UID_VALIDITY) => {
+  const uids = messages.map(message => message.uid);
+  const client = {
+    mailbox: false as false | Record<string, unknown>,
+    getMailboxLock: vi.fn(async (path: string) => {
+      client.mailbox = { path, uidValidity, uidNext: Math.max(0, ...uids) + 1, exists: uids.length };
+      return { path, release: vi.fn() };
+    }),
+    search: vi.fn(async (query: { uid?: string; since?: Date }) => {
+      if (query.uid) {
+        const from = Number(query.uid.split(':')[0]);
+        const matched = uids.filter(uid => uid >= from);
+        // Like real servers, "n:*" past the last UID still matches the newest message
+        return matched.length > 0 ? matched : uids.slice(-1);
+      }
+      return [...uids].reverse();
+    }),
+    fetchAll: vi.fn(async (batch: number[]) => batch.map(uid => {
+      const stored = messages.find(message => message.uid === uid)!;
+      return {
+        uid,
+        seq: uid,
+        source: Buffer.from(`Subject: Message ${uid}\r\n\r\nBody ${uid}\r\n`),
+        envelope: stored.messageId ? { messageId: stored.messageId } : {},
+        internalDate: new Date(Date.UTC(2026, 9, 19, 9, uid)),
+        flags: new Set(['\\Seen'])
+      };
+    }).reverse())
+  };
+  return client;
+};
+
+const enqueued = () => vi.mocked(queueManager.addMessageIngestionJob).mock.calls.map(([data]) => data);
+const checkpoints = () => vi.mocked(MailboxSyncStateModel.saveCheckpoint).mock.calls.map(([, , checkpoint]) => Number(checkpoint.lastUid));
+
+describe('IMAP mailbox sync', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should enqueue a first sync in UID order, checkpointing each batch', async () => {
+    vi.mocked(MailboxSyncStateModel.find).mockResolvedValue(null);
+    const client = fakeMailbox([
+      { uid: 3, messageId: '<a@customer.com>' },
+      { uid: 7, messageId: '<b@customer.com>' },
+      { uid: 9 }
+    ]);
+
+    const result = await MailboxSyncer.syncMailbox(client as unknown as ImapFlow, 'provider-imap', 'INBOX');
+
+    expect(result).toEqual({ mailbox: 'INBOX', uidValidity: '1700000000', enqueued: 3, lastUid: 9, fullResync: true });
+    expect(client.search).toHaveBeenCalledWith({ since: expect.any(Date) }, { uid: true });
+    expect(client.fetchAll).toHaveBeenCalledTimes(2);
+    expect(checkpoints()).toEqual([7, 9, 9]);
+
+    const jobs = enqueued();
+    expect(jobs.map(job => job.providerMessageId)).toEqual(['<a@customer.com>', '<b@customer.com>', 'INBOX:1700000000:9']);
+    expect(jobs[0]).toMatchObject({
+      providerId: 'provider-imap',
+      providerType: 'imap',
+      channel: 'email',
+      timestamp: '2026-10-19T09:03:00.000Z',
+      payload: {
+        mailbox: 'INBOX',
+        uid: 3,
+        uidValidity: '1700000000',
+        internalDate: '2026-10-19T09:03:00.000Z',
+        flags: ['\\Seen']
+      }
+    });
+    expect(Buffer.from(jobs[0]!.payload['raw'], 'base64').toString('utf8')).toContain('Subject: Message 3');
+    expect(jobs[0]!.payload).not.toHaveProperty('sent');
+  });
+
+  it('should only read past the checkpoint', async () => {
+    vi.mocked(MailboxSyncStateModel.find).mockResolvedValue({ uidValidity: UID_VALIDITY, lastUid: 7n } as any);
+    const client = fakeMailbox([{ uid: 3 }, { uid: 7 }, { uid: 8, messageId: '<c@example.com>' }]);
+
+    const result = await MailboxSyncer.syncMailbox(client as unknown as ImapFlow, 'provider-imap', 'Sent', { sent: true });
+
+    expect(client.search).toHaveBeenCalledWith({ uid: '8:*' }, { uid: true });
+    expect(result).toMatchObject({ enqueued: 1, lastUid: 8, fullResync: false });
+    expect(enqueued()).toHaveLength(1);
+    expect(enqueued()[0]!.payload).toMatchObject({ uid: 8, mailbox: 'Sent', sent: true });
+    expect(checkpoints()).toEqual([8]);
+  });
+
+  it('should not re-read the newest message when nothing is new', async () => {
+    vi.mocked(MailboxSyncStateModel.find).mockResolvedValue({ uidValidity: UID_VALIDITY, lastUid: 8n } as any);
+    const client = fakeMailbox([{ uid: 3 }, { uid: 8 }]);
+
+    const result = await MailboxSyncer.syncMailbox(client as unknown as ImapFlow, 'provider-imap', 'INBOX');
+
+    expect(result).toMatchObject({ enqueued: 0, lastUid: 8 });
+    expect(client.fetchAll).not.toHaveBeenCalled();
+    expect(MailboxSyncStateModel.saveCheckpoint).not.toHaveBeenCalled();
+  });
+
+  it('should resync from the initial window when UIDVALIDITY changes', async () => {
+    vi.mocked(MailboxSyncStateModel.find).mockResolvedValue({ uidValidity: 1600000000n, lastUid: 500n } as any);
+    const client = fakeMailbox([{ uid: 1 }, { uid: 2 }]);
+
+    const result = await MailboxSyncer.syncMailbox(client as unknown as ImapFlow, 'provider-imap', 'INBOX');
+
+    expect(client.search).toHaveBeenCalledWith({ since: expect.any(Date) }, { uid: true });
+    expect(result).toMatchObject({ enqueued: 2, lastUid: 2, fullResync: true });
+    expect(vi.mocked(MailboxSyncStateModel.saveCheckpoint).mock.calls.at(-1)).toEqual([
+      'provider-imap',
+      'INBOX',
+      { uidValidity: UID_VALIDITY, lastUid: 2n }
+    ]);
+  });
+});
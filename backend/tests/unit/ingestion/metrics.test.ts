@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// An in-memory stand-in for the hashes the metrics pipeline writes and reads
+const hashes = new Map<string, Map<string, number>>();
+const readHash = (key: string) => Object.fromEntries(
+  [...(hashes.get(key) ?? new Map()).entries()].map(([field, value]) => [field, String(value)])
+);
+const redisPipeline = () => {
+  const reads: string[] = [];
+  const pipeline = {
+    hincrby: (key: string, field: string, increment: number) => {
+      const hash = hashes.get(key) ?? new Map<string, number>();
+      hash.set(field, (hash.get(field) ?? 0) + increment);
+      hashes.set(key, hash);
+      return pipeline;
+    },
+    expire: () => pipeline,
+    hgetall: (key: string) => {
+      reads.push(key);
+      return pipeline;
+    },
+    exec: async () => reads.map(key => [null, readHash(key)])
+  };
+  return pipeline;
+};
+
+vi.mock('../../../src/lib/redis.js', () => ({
+  redisManager: {
+    getClient: vi.fn(() => ({ pipeline: redisPipeline, hgetall: async (key: string) => readHash(key) }))
+  }
+}));
+
+import { IngestionMetrics, StageTimer, histogramPercentile } from '../../../src/lib/ingestion/metrics.js';
+import { redisManager } from '../../../src/lib/redis.js';
+import { IngestionResult } from '../../../src/lib/ingestion/types.js';
+
+const result = (
+  status: IngestionResult['status'],
+  stageDurations: Record<string, number>,
+  error?: { code: string; failedStage: string }
+): IngestionResult => ({
+  status,
+  processingMetrics: {
+    startTime: new Date(),
+    durationMs: Object.values(stageDurations).reduce((sum, ms) => sum + ms, 0),
+    stagesCompleted: Object.keys(stageDurations),
+    ...(error && { stagesFailed: [error.failedStage] }),
+    stageDurations
+  },
+  ...(error && { error: { code: error.code, message: 'Failed' } })
+});
+
+const now = new Date('2026-10-19T12:30:00Z');
+
+describe('ingestion metrics', () => {
+  beforeEach(() => {
+    hashes.clear();
+    vi.clearAllMocks();
+  });
+
+  it('should time each stage, adding up a stage entered twice', () => {
+    vi.useFakeTimers({ now: 0 });
+    const processingMetrics: IngestionResult['processingMetrics'] = { startTime: new Date(), stagesCompleted: [] };
+    const stages = new StageTimer(processingMetrics);
+
+    stages.enter('validation');
+    vi.advanceTimersByTime(5);
+    stages.enter('persistence');
+    vi.advanceTimersByTime(20);
+    stages.enter('validation');
+    vi.advanceTimersByTime(3);
+    stages.finish();
+    vi.useRealTimers();
+
+    expect(processingMetrics.stagesCompleted).toEqual(['validation', 'persistence', 'validation']);
+    expect(processingMetrics.stageDurations).toEqual({ validation: 8, persistence: 20 });
+    expect(processingMetrics.durationMs).toBe(28);
+  });
+
+  it('should interpolate percentiles inside the histogram bucket', () => {
+    expect(histogramPercentile({ '10': 50, '100': 50 }, 0.5)).toBe(10);
+    expect(histogramPercentile({ '10': 50, '100': 50 }, 0.75)).toBe(75);
+    expect(histogramPercentile({ '30000': 1, inf: 99 }, 0.99)).toBe(30000);
+    expect(histogramPercentile({}, 0.95)).toBe(0);
+  });
+
+  it('should summarize outcomes, stages, errors and providers over the window', async () => {
+    const recordedAt = new Date('2026-10-19T12:20:00Z');
+    await IngestionMetrics.record('provider-1', result('success', { validation: 2, persistence: 40 }), recordedAt);
+    await IngestionMetrics.record('provider-1', result('success', { validation: 3, persistence: 60 }), recordedAt);
+    await IngestionMetrics.record('provider-2', result('duplicate', { validation: 2, duplicate_check: 8 }), recordedAt);
+    await IngestionMetrics.record(
+      'provider-2',
+      result('failed', { validation: 2, normalization: 1 }, { code: 'INVALID_PAYLOAD', failedStage: 'normalization' }),
+      recordedAt
+    );
+
+    const summary = await IngestionMetrics.getSummary('15m', now);
+
+    expect(summary.totals).toEqual({ processed: 4, success: 2, duplicate: 1, failed: 1, successRate: 0.75 });
+    expect(summary.errors).toEqual([{ code: 'INVALID_PAYLOAD', count: 1 }]);
+    expect(summary.providers).toEqual([
+      { providerId: 'provider-1', processed: 2, failed: 0, perMinute: expect.any(Number) },
+      { providerId: 'provider-2', processed: 2, failed: 1, perMinute: expect.any(Number) }
+    ]);
+    expect(summary.stages.find(stage => stage.stage === 'persistence')).toMatchObject({
+      count: 2,
+      failed: 0,
+      avgMs: 50,
+      p50Ms: 50,
+      p99Ms: 99
+    });
+    expect(summary.stages.find(stage => stage.stage === 'normalization')).toMatchObject({ count: 1, failed: 1 });
+    expect(summary.latency.count).toBe(4);
+  });
+
+  it('should leave messages older than the window out', async () => {
+    await IngestionMetrics.record('provider-1', result('success', { validation: 2 }), new Date('2026-10-19T12:00:00Z'));
+
+    expect((await IngestionMetrics.getSummary('15m', now)).totals.processed).toBe(0);
+    expect((await IngestionMetrics.getSummary('1h', now)).totals.processed).toBe(1);
+    expect((await IngestionMetrics.getSummary('24h', now)).totals.processed).toBe(1);
+  });
+
+  it('should keep running totals with duplicate hits by check', async () => {
+    await IngestionMetrics.record('provider-1', result('success', { idempotency_check: 1, duplicate_check: 4, persistence: 40 }));
+    await IngestionMetrics.record('provider-1', {
+      ...result('duplicate', { idempotency_check: 1 }),
+      error: { code: 'DUPLICATE_MESSAGE', message: 'Message already processed', details: { idempotencyKey: 'key' } }
+    });
+    await IngestionMetrics.record('provider-1', {
+      ...result('duplicate', { idempotency_check: 1, duplicate_check: 6 }),
+      error: { code: 'DUPLICATE_MESSAGE', message: 'Duplicate', details: { duplicateType: 'content_hash', confidence: 1 } }
+    });
+
+    const totals = await IngestionMetrics.getTotals();
+
+    expect(totals.statuses).toEqual({ success: 1, duplicate: 2 });
+    expect(totals.dedup.checks).toEqual({ idempotency_check: 3, duplicate_check: 2 });
+    expect(totals.dedup.hits).toEqual(expect.arrayContaining([
+      { check: 'idempotency_check', type: 'processed', count: 1 },
+      { check: 'duplicate_check', type: 'content_hash', count: 1 }
+    ]));
+    expect(totals.stages['persistence']).toMatchObject({ sumMs: 40, failed: 0 });
+    expect(totals.stages['persistence']?.buckets.find(bucket => bucket.le === 50)?.count).toBe(1);
+  });
+
+  it('should not let an unavailable Redis fail ingestion', async () => {
+    vi.mocked(redisManager.getClient).mockImplementationOnce(() => {
+      throw new Error('Redis client not connected');
+    });
+
+    await expect(IngestionMetrics.record('provider-1', result('success', { validation: 2 }))).resolves.toBeUndefined();
+  });
+});
@@ -1,6 +1,14 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { PrismaClient } from '@prisma/client';
-import { TwilioSMSNormalizer, WhatsAppNormalizer, GmailNormalizer } from '../../../src/lib/ingestion/normalizers/index.js';
+import {
+  TwilioSMSNormalizer,
+  TwilioVoiceNormalizer,
+  WhatsAppNormalizer,
+  GmailNormalizer,
+  FacebookMessengerNormalizer,
+  InstagramNormalizer,
+  ImapNormalizer
+} from '../../../src/lib/ingestion/normalizers/index.js';
 import { createRawMessage } from '../../../src/lib/ingestion/index.js';
 import { RawProviderMessage } from '../../../src/lib/ingestion/types.js';
 
@@ -159,6 +167,27 @@ describe('Message Normalizers', () => {
       expect(normalized1.threadKey).toContain('sms:+0987654321:+1234567890');
     });
 
+    it('should take direction from the provider\'s owned numbers', async () => {
+      const message = (From: string, To: string) => createRawMessage({
+        providerId: testProviderId,
+        providerMessageId: 'SM-owned-001',
+        providerType: 'twilio_sms',
+        channel: 'sms',
+        payload: { MessageSid: 'SM-owned-001', AccountSid: 'AC123', From, To, Body: 'Hello' }
+      });
+      const ownedAddresses = ['+14155550100'];
+
+      const inbound = await normalizer.normalize({ ...message('+15551234567', '+14155550100'), ownedAddresses });
+      const outbound = await normalizer.normalize({ ...message('+14155550100', '+15551234567'), ownedAddresses });
+      const unowned = await normalizer.normalize({ ...message('+15551234567', '+15557654321'), ownedAddresses });
+
+      expect(inbound.direction).toBe('inbound');
+      expect(inbound.addressOwnership).toBe('to');
+      expect(outbound.direction).toBe('outbound');
+      expect(outbound.addressOwnership).toBe('from');
+      expect(unowned.addressOwnership).toBe('neither');
+    });
+
     it('should handle missing or empty body', async () => {
       const rawMessage: RawProviderMessage = createRawMessage({
         providerId: testProviderId,
@@ -182,6 +211,113 @@ describe('Message Normalizers', () => {
       expect(normalized.body).toBeUndefined();
       expect(normalized.contentType).toBe('text');
     });
+
+    it('should name each webhook after its MessageSid and status callbacks after their status', () => {
+      const webhook = (payload: Record<string, any>) => createRawMessage({
+        providerId: testProviderId,
+        providerMessageId: 'delivery-1',
+        providerType: 'twilio_sms',
+        channel: 'sms',
+        payload
+      });
+
+      expect(normalizer.splitPayload(webhook({ MessageSid: 'SM-in-001', From: '+1234567890', Body: 'Hi' })))
+        .toEqual([expect.objectContaining({ providerMessageId: 'SM-in-001' })]);
+      expect(normalizer.splitPayload(webhook({ MessageSid: 'SM-out-001', MessageStatus: 'delivered' })))
+        .toEqual([expect.objectContaining({ providerMessageId: 'SM-out-001:status:delivered' })]);
+      expect(normalizer.splitPayload(webhook({ From: '+1234567890', Body: 'Hi' })))
+        .toEqual([expect.objectContaining({ providerMessageId: 'delivery-1' })]);
+    });
+  });
+
+  describe('TwilioVoiceNormalizer', () => {
+    const normalizer = new TwilioVoiceNormalizer();
+
+    const voiceCallback = (payload: Record<string, any>): RawProviderMessage => createRawMessage({
+      providerId: testProviderId,
+      providerMessageId: 'CA-voice-001',
+      providerType: 'twilio_voice',
+      channel: 'voice',
+      payload: {
+        AccountSid: 'AC123',
+        CallSid: 'CA-voice-001',
+        From: '+15551234567',
+        To: '+15557654321',
+        ...payload
+      }
+    });
+
+    it('should normalize a call status callback', async () => {
+      const normalized = await normalizer.normalize(voiceCallback({
+        CallStatus: 'completed',
+        Direction: 'inbound',
+        CallDuration: '65',
+        Timestamp: 'Mon, 19 Oct 2026 09:04:00 +0000'
+      }));
+
+      expect(normalized.providerMessageId).toBe('CA-voice-001');
+      expect(normalized.channel).toBe('voice');
+      expect(normalized.direction).toBe('inbound');
+      expect(normalized.from.normalizedValue).toBe('+15551234567');
+      expect(normalized.body).toBeUndefined();
+      expect(normalized.timestamp).toEqual(new Date('2026-10-19T09:04:00Z'));
+      expect(normalized.providerMeta['call']).toMatchObject({
+        status: 'completed',
+        direction: 'inbound',
+        durationSeconds: 65,
+        events: [{ status: 'completed', occurredAt: '2026-10-19T09:04:00.000Z' }]
+      });
+    });
+
+    it('should thread calls by the caller and callee pair', async () => {
+      const inbound = await normalizer.normalize(voiceCallback({ CallStatus: 'ringing' }));
+      const outbound = await normalizer.normalize({
+        ...voiceCallback({ CallStatus: 'ringing', Direction: 'outbound-api' }),
+        payload: { AccountSid: 'AC123', CallSid: 'CA-voice-002', From: '+15557654321', To: '+15551234567', CallStatus: 'ringing', Direction: 'outbound-api' }
+      });
+
+      expect(outbound.direction).toBe('outbound');
+      expect(inbound.threadKey).toBe('voice:+15551234567:+15557654321');
+      expect(outbound.threadKey).toBe(inbound.threadKey);
+    });
+
+    it('should store the recording as audio and the transcription as the body', async () => {
+      const normalized = await normalizer.normalize(voiceCallback({
+        CallStatus: 'completed',
+        TranscriptionSid: 'TR-001',
+        TranscriptionStatus: 'completed',
+        TranscriptionText: 'Hi, it is Jane. Please call me back.',
+        RecordingSid: 'RE-001',
+        RecordingUrl: 'https://api.twilio.com/2010-04-01/Accounts/AC123/Recordings/RE-001'
+      }));
+
+      expect(normalized.body).toBe('Hi, it is Jane. Please call me back.');
+      expect(normalized.contentType).toBe('audio');
+      expect(normalized.attachments).toEqual([expect.objectContaining({
+        type: 'audio/mpeg',
+        url: 'https://api.twilio.com/2010-04-01/Accounts/AC123/Recordings/RE-001.mp3',
+        metadata: expect.objectContaining({ recordingSid: 'RE-001' })
+      })]);
+      expect(normalized.providerMeta['call']).toMatchObject({
+        recordings: ['RE-001'],
+        transcription: { sid: 'TR-001', status: 'completed' }
+      });
+    });
+
+    it('should refuse a recording callback for a call that is not stored yet', async () => {
+      await expect(normalizer.normalize(createRawMessage({
+        providerId: testProviderId,
+        providerMessageId: 'CA-voice-003',
+        providerType: 'twilio_voice',
+        channel: 'voice',
+        payload: {
+          AccountSid: 'AC123',
+          CallSid: 'CA-voice-003',
+          RecordingSid: 'RE-003',
+          RecordingUrl: 'https://api.twilio.com/2010-04-01/Accounts/AC123/Recordings/RE-003'
+        }
+      }))).rejects.toMatchObject({ code: 'CALL_NOT_FOUND' });
+    });
   });
 
   describe('WhatsAppNormalizer', () => {
@@ -314,6 +450,12 @@ describe('Message Normalizers', () => {
       expect(normalized.contentType).toBe('location');
       expect(normalized.body).toContain('Location: -23.5505, -46.6333');
       expect(normalized.body).toContain('São Paulo, SP');
+      expect(normalized.providerMeta['location']).toEqual({
+        latitude: -23.5505,
+        longitude: -46.6333,
+        name: 'São Paulo, SP',
+        address: 'São Paulo, State of São Paulo, Brazil'
+      });
     });
 
     it('should handle context for replies', async () => {
@@ -355,6 +497,171 @@ describe('Message Normalizers', () => {
       expect(normalized.threadKey).toContain('WA-original-001');
       expect(normalized.providerMeta.context).toBeDefined();
     });
+
+    it('should split a batched webhook into one item per message and status', async () => {
+      const metadata = { display_phone_number: '+1234567890', phone_number_id: 'phone-id-001' };
+      const rawMessage: RawProviderMessage = createRawMessage({
+        providerId: testProviderId,
+        providerMessageId: 'webhook-001',
+        providerType: 'whatsapp',
+        channel: 'whatsapp',
+        payload: {
+          entry: [{
+            id: 'entry-id-001',
+            changes: [{
+              value: {
+                messaging_product: 'whatsapp',
+                metadata,
+                messages: [
+                  { id: 'WA-batch-001', from: '+0987654321', timestamp: '1696147200', type: 'text', text: { body: 'First' } },
+                  { id: 'WA-batch-002', from: '+0987654321', timestamp: '1696147201', type: 'text', text: { body: 'Second' } }
+                ],
+                statuses: [
+                  { id: 'WA-sent-001', status: 'read', timestamp: '1696147202', recipient_id: '0987654321' }
+                ]
+              },
+              field: 'messages'
+            }]
+          }, {
+            id: 'entry-id-002',
+            changes: [{
+              value: {
+                messaging_product: 'whatsapp',
+                metadata,
+                messages: [
+                  { id: 'WA-batch-003', from: '+0987654322', timestamp: '1696147203', type: 'text', text: { body: 'Third' } }
+                ]
+              },
+              field: 'messages'
+            }]
+          }]
+        }
+      });
+
+      const items = normalizer.splitPayload(rawMessage);
+
+      expect(items.map(item => item.providerMessageId)).toEqual([
+        'WA-batch-001', 'WA-batch-002', 'WA-sent-001:read', 'WA-batch-003'
+      ]);
+      expect(items[1]!.timestamp).toEqual(new Date(1696147201000));
+      expect(normalizer.isStatusOnly(items[0]!)).toBe(false);
+      expect(normalizer.isStatusOnly(items[2]!)).toBe(true);
+
+      const normalized = await Promise.all(
+        items.filter(item => !normalizer.isStatusOnly(item)).map(item => normalizer.normalize(item))
+      );
+      expect(normalized.map(message => message.body)).toEqual(['First', 'Second', 'Third']);
+      expect(normalized[2]!.providerMeta['entryId']).toBe('entry-id-002');
+    });
+
+    const whatsappMessage = (message: Record<string, any>): RawProviderMessage => createRawMessage({
+      providerId: testProviderId,
+      providerMessageId: message['id'],
+      providerType: 'whatsapp',
+      channel: 'whatsapp',
+      payload: {
+        entry: [{
+          id: 'entry-id-001',
+          changes: [{
+            value: {
+              messaging_product: 'whatsapp',
+              metadata: { display_phone_number: '+1234567890', phone_number_id: 'phone-id-001' },
+              messages: [{ from: '+0987654321', timestamp: '1696147200', ...message }]
+            },
+            field: 'messages'
+          }]
+        }]
+      }
+    });
+
+    it('should point reactions at the message they react to', async () => {
+      const normalized = await normalizer.normalize(whatsappMessage({
+        id: 'WA-reaction-001',
+        type: 'reaction',
+        reaction: { message_id: 'WA-outbound-001', emoji: '👍' }
+      }));
+
+      expect(normalized.contentType).toBe('reaction');
+      expect(normalized.body).toBe('Reacted 👍');
+      expect(normalized.providerMeta['reaction']).toEqual({ messageId: 'WA-outbound-001', emoji: '👍' });
+    });
+
+    it('should render contact cards into a body and structured metadata', async () => {
+      const normalized = await normalizer.normalize(whatsappMessage({
+        id: 'WA-contacts-001',
+        type: 'contacts',
+        contacts: [{
+          name: { formatted_name: 'Jane Doe', first_name: 'Jane', last_name: 'Doe' },
+          phones: [{ phone: '+1 (555) 987-6543', wa_id: '15559876543', type: 'CELL' }],
+          emails: [{ email: 'Jane@Example.com', type: 'WORK' }],
+          org: { company: 'Acme' }
+        }]
+      }));
+
+      expect(normalized.contentType).toBe('contacts');
+      expect(normalized.body).toBe('Contact: Jane Doe (+1 (555) 987-6543, Jane@Example.com)');
+      expect(normalized.providerMeta['contacts']).toEqual([{
+        name: 'Jane Doe',
+        firstName: 'Jane',
+        lastName: 'Doe',
+        phones: [{ number: '+15559876543', display: '+1 (555) 987-6543', type: 'CELL', onWhatsApp: true }],
+        emails: [{ address: 'jane@example.com', type: 'WORK' }],
+        organization: { company: 'Acme' }
+      }]);
+    });
+
+    it('should read button and list replies as text', async () => {
+      const list = await normalizer.normalize(whatsappMessage({
+        id: 'WA-list-001',
+        type: 'interactive',
+        interactive: { type: 'list_reply', list_reply: { id: 'slot-2', title: 'Tuesday', description: 'Afternoon' } }
+      }));
+      const button = await normalizer.normalize(whatsappMessage({
+        id: 'WA-button-001',
+        type: 'button',
+        button: { payload: 'STOP', text: 'Stop promotions' }
+      }));
+
+      expect(list.contentType).toBe('text');
+      expect(list.body).toBe('Tuesday');
+      expect(list.providerMeta['reply']).toEqual({ type: 'list', id: 'slot-2', title: 'Tuesday', description: 'Afternoon' });
+      expect(button.body).toBe('Stop promotions');
+      expect(button.providerMeta['reply']).toEqual({ type: 'quick_reply', id: 'STOP', title: 'Stop promotions' });
+    });
+
+    it('should keep stickers as attachments', async () => {
+      const normalized = await normalizer.normalize(whatsappMessage({
+        id: 'WA-sticker-001',
+        type: 'sticker',
+        sticker: { id: 'sticker-media-001', mime_type: 'image/webp', sha256: 'abc123', animated: true }
+      }));
+
+      expect(normalized.contentType).toBe('sticker');
+      expect(normalized.attachments?.[0]).toMatchObject({
+        mimeType: 'image/webp',
+        url: 'whatsapp://media/sticker-media-001',
+        metadata: { whatsappId: 'sticker-media-001', animated: true }
+      });
+    });
+
+    it('should flag unsupported and unknown types instead of rejecting them', async () => {
+      const unsupported = await normalizer.normalize(whatsappMessage({
+        id: 'WA-unsupported-001',
+        type: 'unsupported',
+        errors: [{ code: 131051, title: 'Message type unknown', error_data: { details: 'Message type is currently not supported.' } }]
+      }));
+      const unknown = await normalizer.normalize(whatsappMessage({
+        id: 'WA-order-001',
+        type: 'order',
+        order: { catalog_id: 'catalog-1', product_items: [] }
+      }));
+
+      expect(unsupported.contentType).toBe('unsupported');
+      expect(unsupported.error?.code).toBe('UNSUPPORTED_MESSAGE_TYPE');
+      expect(unsupported.providerMeta['whatsappErrors']).toHaveLength(1);
+      expect(unknown.error?.message).toContain("'order'");
+      expect(unknown.providerMeta['originalPayload'].order).toEqual({ catalog_id: 'catalog-1', product_items: [] });
+    });
   });
 
   describe('GmailNormalizer', () => {
@@ -404,6 +711,100 @@ describe('Message Normalizers', () => {
       expect(normalized.providerMeta.subject).toBe('Test Email Subject');
     });
 
+    it('should pick the customer from recipients on mail sent by an owned mailbox', async () => {
+      const rawMessage: RawProviderMessage = createRawMessage({
+        providerId: testProviderId,
+        providerMessageId: 'gmail-sent-001',
+        providerType: 'gmail',
+        channel: 'email',
+        payload: {
+          id: 'gmail-sent-001',
+          threadId: 'gmail-thread-sent',
+          labelIds: ['INBOX'],
+          snippet: 'Following up',
+          historyId: '12347',
+          internalDate: '1696147200000',
+          payload: {
+            partId: '',
+            mimeType: 'text/plain',
+            filename: '',
+            headers: [
+              { name: 'From', value: 'Sales <Sales@Example.com>' },
+              { name: 'To', value: 'team@example.com, "Jane Doe" <jane@customer.com>' },
+              { name: 'Subject', value: 'Following up' }
+            ],
+            body: {
+              size: 12,
+              data: Buffer.from('Following up').toString('base64url')
+            }
+          },
+          sizeEstimate: 512
+        }
+      });
+
+      const normalized = await normalizer.normalize({
+        ...rawMessage,
+        ownedAddresses: ['sales@example.com', 'team@example.com']
+      });
+
+      expect(normalized.direction).toBe('outbound');
+      expect(normalized.addressOwnership).toBe('from');
+      expect(normalized.to.normalizedValue).toBe('jane@customer.com');
+    });
+
+    it('should list every participant by role with display names', async () => {
+      const rawMessage: RawProviderMessage = createRawMessage({
+        providerId: testProviderId,
+        providerMessageId: 'gmail-group-001',
+        providerType: 'gmail',
+        channel: 'email',
+        payload: {
+          id: 'gmail-group-001',
+          threadId: 'gmail-thread-group',
+          labelIds: ['INBOX'],
+          snippet: 'Adding my colleague',
+          historyId: '12348',
+          internalDate: '1696147200000',
+          payload: {
+            partId: '',
+            mimeType: 'text/plain',
+            filename: '',
+            headers: [
+              { name: 'From', value: '"Doe, Jane" <Jane@Customer.com>' },
+              { name: 'To', value: 'Support <support@example.com>' },
+              { name: 'Cc', value: 'Bob Roe <bob@customer.com>, sales@example.com' },
+              { name: 'Reply-To', value: 'jane@customer.com (Jane Doe)' },
+              { name: 'Subject', value: 'Adding my colleague' }
+            ],
+            body: {
+              size: 19,
+              data: Buffer.from('Adding my colleague').toString('base64url')
+            }
+          },
+          sizeEstimate: 512
+        }
+      });
+
+      const normalized = await normalizer.normalize({
+        ...rawMessage,
+        ownedAddresses: ['support@example.com', 'sales@example.com']
+      });
+
+      expect(normalized.from.normalizedValue).toBe('jane@customer.com');
+      expect(normalized.participants?.map(participant => ({
+        role: participant.role,
+        address: participant.contact.normalizedValue,
+        displayName: participant.displayName,
+        external: participant.external
+      }))).toEqual([
+        { role: 'from', address: 'jane@customer.com', displayName: 'Doe, Jane', external: true },
+        { role: 'to', address: 'support@example.com', displayName: 'Support', external: false },
+        { role: 'cc', address: 'bob@customer.com', displayName: 'Bob Roe', external: true },
+        { role: 'cc', address: 'sales@example.com', displayName: undefined, external: false },
+        { role: 'reply_to', address: 'jane@customer.com', displayName: 'Jane Doe', external: true }
+      ]);
+    });
+
     it('should handle Gmail messages with attachments', async () => {
       const rawMessage: RawProviderMessage = createRawMessage({
         providerId: testProviderId,
@@ -534,4 +935,402 @@ describe('Message Normalizers', () => {
       expect(normalized.body).toBe('This is the email snippet fallback');
     });
   });
-});
\ No newline at end of file
+  describe('FacebookMessengerNormalizer', () => {
+    const normalizer = new FacebookMessengerNormalizer();
+    const PAGE_ID = '104512345678901';
+    const PSID = '6123456789012345';
+
+    const messengerWebhook = (...messaging: Record<string, any>[]): RawProviderMessage => createRawMessage({
+      providerId: testProviderId,
+      providerMessageId: 'messenger-webhook',
+      providerType: 'facebook',
+      channel: 'facebook',
+      payload: {
+        object: 'page',
+        entry: [{ id: PAGE_ID, time: 1792400000000, messaging }]
+      }
+    });
+
+    it('should normalize a text message from a PSID', async () => {
+      const normalized = await normalizer.normalize(messengerWebhook({
+        sender: { id: PSID },
+        recipient: { id: PAGE_ID },
+        timestamp: 1792400000000,
+        message: { mid: 'm_text_001', text: 'Is this still available?' }
+      }));
+
+      expect(normalized.providerMessageId).toBe('m_text_001');
+      expect(normalized.channel).toBe('facebook');
+      expect(normalized.direction).toBe('inbound');
+      expect(normalized.from).toMatchObject({ type: 'social', normalizedValue: PSID, provider: 'facebook' });
+      expect(normalized.to.normalizedValue).toBe(PAGE_ID);
+      expect(normalized.body).toBe('Is this still available?');
+      expect(normalized.contentType).toBe('text');
+      expect(normalized.timestamp).toEqual(new Date(1792400000000));
+      expect(normalized.threadKey).toBe(`facebook:${PAGE_ID}:${PSID}`);
+    });
+
+    it('should treat echoes as outbound messages in the same conversation', async () => {
+      const normalized = await normalizer.normalize(messengerWebhook({
+        sender: { id: PAGE_ID },
+        recipient: { id: PSID },
+        timestamp: 1792400060000,
+        message: { mid: 'm_echo_001', text: 'Yes, it is!', is_echo: true, app_id: 263902037430900 }
+      }));
+
+      expect(normalized.direction).toBe('outbound');
+      expect(normalized.to.normalizedValue).toBe(PSID);
+      expect(normalized.threadKey).toBe(`facebook:${PAGE_ID}:${PSID}`);
+      expect(normalized.providerMeta).toMatchObject({ isEcho: true, appId: 263902037430900 });
+    });
+
+    it('should keep media attachments and record shared links', async () => {
+      const normalized = await normalizer.normalize(messengerWebhook({
+        sender: { id: PSID },
+        recipient: { id: PAGE_ID },
+        timestamp: 1792400000000,
+        message: {
+          mid: 'm_media_001',
+          attachments: [
+            { type: 'image', payload: { url: 'https://scontent.xx.fbcdn.net/v/photo.jpg' } },
+            { type: 'fallback', payload: { url: 'https://example.com/listing', title: 'Listing' } }
+          ]
+        }
+      }));
+
+      expect(normalized.contentType).toBe('image');
+      expect(normalized.body).toBeUndefined();
+      expect(normalized.attachments).toEqual([{
+        type: 'image',
+        url: 'https://scontent.xx.fbcdn.net/v/photo.jpg',
+        metadata: { metaType: 'image' }
+      }]);
+      expect(normalized.providerMeta['links']).toEqual([
+        { type: 'fallback', url: 'https://example.com/listing', title: 'Listing' }
+      ]);
+    });
+
+    it('should recognise stickers', async () => {
+      const normalized = await normalizer.normalize(messengerWebhook({
+        sender: { id: PSID },
+        recipient: { id: PAGE_ID },
+        timestamp: 1792400000000,
+        message: {
+          mid: 'm_sticker_001',
+          attachments: [{ type: 'image', payload: { url: 'https://scontent.xx.fbcdn.net/v/like.png', sticker_id: 369239263222822 } }]
+        }
+      }));
+
+      expect(normalized.contentType).toBe('sticker');
+      expect(normalized.attachments?.[0]).toMatchObject({ type: 'sticker', metadata: { stickerId: 369239263222822 } });
+    });
+
+    it('should normalize postbacks and quick replies as replies', async () => {
+      const postback = await normalizer.normalize(messengerWebhook({
+        sender: { id: PSID },
+        recipient: { id: PAGE_ID },
+        timestamp: 1792400000000,
+        postback: { mid: 'm_postback_001', title: 'Get Started', payload: 'GET_STARTED' }
+      }));
+      const quickReply = await normalizer.normalize(messengerWebhook({
+        sender: { id: PSID },
+        recipient: { id: PAGE_ID },
+        timestamp: 1792400000000,
+        message: { mid: 'm_quick_001', text: 'Red', quick_reply: { payload: 'COLOR_RED' } }
+      }));
+
+      expect(postback.providerMessageId).toBe('m_postback_001');
+      expect(postback.body).toBe('Get Started');
+      expect(postback.providerMeta['postback']).toEqual({ title: 'Get Started', payload: 'GET_STARTED' });
+      expect(quickReply.providerMeta['reply']).toEqual({ type: 'quick_reply', id: 'COLOR_RED', title: 'Red' });
+    });
+
+    it('should flag unsupported messages', async () => {
+      const normalized = await normalizer.normalize(messengerWebhook({
+        sender: { id: PSID },
+        recipient: { id: PAGE_ID },
+        timestamp: 1792400000000,
+        message: { mid: 'm_unsupported_001', is_unsupported: true }
+      }));
+
+      expect(normalized.contentType).toBe('unsupported');
+      expect(normalized.error?.code).toBe('UNSUPPORTED_MESSAGE_TYPE');
+    });
+
+    it('should split batched events and treat receipts as statuses', () => {
+      const raw = messengerWebhook(
+        { sender: { id: PSID }, recipient: { id: PAGE_ID }, timestamp: 1792400000000, message: { mid: 'm_1', text: 'One' } },
+        { sender: { id: PSID }, recipient: { id: PAGE_ID }, timestamp: 1792400001000, postback: { title: 'Menu', payload: 'MENU' } },
+        { sender: { id: PSID }, recipient: { id: PAGE_ID }, timestamp: 1792400002000, delivery: { mids: ['m_out_1', 'm_out_2'], watermark: 1792400002000 } }
+      );
+
+      const items = normalizer.splitPayload(raw);
+      expect(items.map(item => item.providerMessageId)).toEqual([
+        'm_1',
+        `postback:${PSID}:1792400001000`,
+        'm_out_1:delivered',
+        'm_out_2:delivered'
+      ]);
+      expect(items[0]!.payload['entry'][0].messaging).toHaveLength(1);
+
+      const receipt = items[2]!;
+      expect(normalizer.isStatusOnly(receipt)).toBe(true);
+      expect(normalizer.extractStatusUpdates(receipt)).toEqual([
+        expect.objectContaining({ providerMessageId: 'm_out_1', status: 'delivered', recipient: PSID }),
+        expect.objectContaining({ providerMessageId: 'm_out_2', status: 'delivered', recipient: PSID })
+      ]);
+      expect(normalizer.isStatusOnly(items[0]!)).toBe(false);
+    });
+  });
+
+  describe('InstagramNormalizer', () => {
+    const normalizer = new InstagramNormalizer();
+    const ACCOUNT_ID = '17841400000000001';
+    const IGSID = '1122334455667788';
+
+    const instagramWebhook = (event: Record<string, any>): RawProviderMessage => createRawMessage({
+      providerId: testProviderId,
+      providerMessageId: 'instagram-webhook',
+      providerType: 'instagram',
+      channel: 'instagram',
+      payload: {
+        object: 'instagram',
+        entry: [{ id: ACCOUNT_ID, time: 1792400000000, messaging: [event] }]
+      }
+    });
+
+    it('should normalize a story reply', async () => {
+      const normalized = await normalizer.normalize(instagramWebhook({
+        sender: { id: IGSID },
+        recipient: { id: ACCOUNT_ID },
+        timestamp: 1792400000000,
+        message: {
+          mid: 'aWdfZAG1faXRlbTox',
+          text: 'Love this!',
+          reply_to: { story: { id: '17900000000000001', url: 'https://lookaside.fbsbx.com/ig_messaging_cdn/story' } }
+        }
+      }));
+
+      expect(normalized.channel).toBe('instagram');
+      expect(normalized.from).toMatchObject({ type: 'social', normalizedValue: IGSID, provider: 'instagram' });
+      expect(normalized.body).toBe('Love this!');
+      expect(normalized.threadKey).toBe(`instagram:${ACCOUNT_ID}:${IGSID}`);
+      expect(normalized.providerMeta['storyReply']).toEqual({
+        storyId: '17900000000000001',
+        url: 'https://lookaside.fbsbx.com/ig_messaging_cdn/story'
+      });
+    });
+
+    it('should keep story mentions and reels as attachments', async () => {
+      const mention = await normalizer.normalize(instagramWebhook({
+        sender: { id: IGSID },
+        recipient: { id: ACCOUNT_ID },
+        timestamp: 1792400000000,
+        message: {
+          mid: 'aWdfZAG1faXRlbToy',
+          attachments: [{ type: 'story_mention', payload: { url: 'https://lookaside.fbsbx.com/ig_messaging_cdn/mention' } }]
+        }
+      }));
+      const reel = await normalizer.normalize(instagramWebhook({
+        sender: { id: IGSID },
+        recipient: { id: ACCOUNT_ID },
+        timestamp: 1792400000000,
+        message: {
+          mid: 'aWdfZAG1faXRlbToz',
+          attachments: [{ type: 'ig_reel', payload: { url: 'https://lookaside.fbsbx.com/reel', title: 'Our launch', reel_video_id: '18000000000000001' } }]
+        }
+      }));
+
+      expect(mention.body).toBe('Mentioned you in their story');
+      expect(mention.attachments?.[0]).toMatchObject({ type: 'story', metadata: { metaType: 'story_mention' } });
+      expect(mention.providerMeta['storyMention']).toEqual({ url: 'https://lookaside.fbsbx.com/ig_messaging_cdn/mention' });
+      expect(reel.contentType).toBe('video');
+      expect(reel.attachments?.[0]?.metadata).toEqual({ metaType: 'ig_reel', title: 'Our launch', reelVideoId: '18000000000000001' });
+    });
+
+    it('should take direction from the owned account ID', async () => {
+      const normalized = await normalizer.normalize({
+        ...instagramWebhook({
+          sender: { id: ACCOUNT_ID },
+          recipient: { id: IGSID },
+          timestamp: 1792400000000,
+          message: { mid: 'aWdfZAG1faXRlbTo0', text: 'Thanks for reaching out' }
+        }),
+        ownedAddresses: [ACCOUNT_ID]
+      });
+
+      expect(normalized.direction).toBe('outbound');
+      expect(normalized.addressOwnership).toBe('from');
+      expect(normalized.threadKey).toBe(`instagram:${ACCOUNT_ID}:${IGSID}`);
+    });
+  });
+
+  describe('ImapNormalizer', () => {
+    const normalizer = new ImapNormalizer();
+
+    const mime = (lines: string[]): string => Buffer.from(lines.join('\r\n'), 'utf8').toString('base64');
+
+    const imapMessage = (raw: string, overrides: Record<string, any> = {}): RawProviderMessage => createRawMessage({
+      providerId: testProviderId,
+      providerMessageId: '<fallback@mail.example.com>',
+      providerType: 'imap',
+      channel: 'email',
+      payload: {
+        raw,
+        mailbox: 'INBOX',
+        uid: 42,
+        uidValidity: '1700000000',
+        internalDate: '2026-10-19T09:30:00.000Z',
+        flags: ['\\Seen'],
+        ...overrides
+      }
+    });
+
+    it('should parse a multipart message with an attachment', async () => {
+      const raw = mime([
+        'From: "Jane Doe" <Jane@Customer.com>',
+        'To: Support <support@example.com>',
+        'Subject: =?UTF-8?B?UmVjaG51bmcgZsO8ciBPa3RvYmVy?=',
+        'Date: Mon, 19 Oct 2026 09:29:00 +0000',
+        'Message-ID: <invoice-1@customer.com>',
+        'MIME-Version: 1.0',
+        'Content-Type: multipart/mixed; boundary="outer"',
+        '',
+        '--outer',
+        'Content-Type: multipart/alternative; boundary="inner"',
+        '',
+        '--inner',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: quoted-printable',
+        '',
+        'Hello, the invoice is attached. Gr=C3=BC=C3=9Fe',
+        '--inner',
+        'Content-Type: text/html; charset=utf-8',
+        '',
+        '<p>Hello, the invoice is attached.</p>',
+        '--inner--',
+        '--outer',
+        'Content-Type: application/pdf; name="invoice.pdf"',
+        'Content-Disposition: attachment; filename="invoice.pdf"',
+        'Content-Transfer-Encoding: base64',
+        '',
+        Buffer.from('%PDF-1.4 test').toString('base64'),
+        '--outer--',
+        ''
+      ]);
+
+      const normalized = await normalizer.normalize(imapMessage(raw));
+
+      expect(normalized.providerMessageId).toBe('<invoice-1@customer.com>');
+      expect(normalized.channel).toBe('email');
+      expect(normalized.direction).toBe('inbound');
+      expect(normalized.from.normalizedValue).toBe('jane@customer.com');
+      expect(normalized.to.normalizedValue).toBe('support@example.com');
+      expect(normalized.body).toBe('Hello, the invoice is attached. Grüße');
+      expect(normalized.timestamp.toISOString()).toBe('2026-10-19T09:30:00.000Z');
+      expect(normalized.contentType).toBe('document');
+      expect(normalized.threadKey).toBe('email:invoice-1@customer.com');
+      expect(normalized.providerMeta['subject']).toBe('Rechnung für Oktober');
+      expect(normalized.providerMeta['headers']['message-id']).toBe('<invoice-1@customer.com>');
+      expect(normalized.attachments).toHaveLength(1);
+      expect(normalized.attachments?.[0]).toMatchObject({
+        mimeType: 'application/pdf',
+        filename: 'invoice.pdf',
+        size: 13,
+        url: 'imap://INBOX/1700000000/42/0',
+        metadata: { mailbox: 'INBOX', uid: 42, uidValidity: '1700000000', index: 0, inline: false }
+      });
+    });
+
+    it('should thread replies under the first message their References name', async () => {
+      const reply = await normalizer.normalize(imapMessage(mime([
+        'From: jane@customer.com',
+        'To: support@example.com',
+        'Subject: Re: Re: Order 1234',
+        'Message-ID: <reply-2@customer.com>',
+        'In-Reply-To: <reply-1@example.com>',
+        'References: <order-1234@customer.com>',
+        '  <reply-1@example.com>',
+        '',
+        'Still waiting on this',
+        ''
+      ])));
+      const answer = await normalizer.normalize(imapMessage(mime([
+        'From: jane@customer.com',
+        'To: support@example.com',
+        'Subject: Re: Order 1234',
+        'Message-ID: <reply-3@customer.com>',
+        'In-Reply-To: <order-1234@customer.com>',
+        '',
+        'One more thing',
+        ''
+      ])));
+
+      expect(reply.threadKey).toBe('email:order-1234@customer.com');
+      expect(answer.threadKey).toBe('email:order-1234@customer.com');
+      expect(reply.providerMeta['headers']['references']).toBe('<order-1234@customer.com> <reply-1@example.com>');
+    });
+
+    it('should treat mail from the sent mailbox as outbound to the customer', async () => {
+      const raw = mime([
+        'From: Support <support@example.com>',
+        'To: team@example.com, "Jane Doe" <jane@customer.com>',
+        'Subject: Your order',
+        'Message-ID: <sent-1@example.com>',
+        '',
+        'It shipped today',
+        ''
+      ]);
+
+      const fromSentMailbox = await normalizer.normalize(imapMessage(raw, { mailbox: 'Sent', sent: true }));
+      const withOwnedAddresses = await normalizer.normalize({
+        ...imapMessage(raw),
+        ownedAddresses: ['support@example.com', 'team@example.com']
+      });
+
+      expect(fromSentMailbox.direction).toBe('outbound');
+      expect(fromSentMailbox.addressOwnership).toBe('unconfigured');
+      expect(withOwnedAddresses.direction).toBe('outbound');
+      expect(withOwnedAddresses.addressOwnership).toBe('from');
+      expect(withOwnedAddresses.to.normalizedValue).toBe('jane@customer.com');
+
+      // Without owned addresses only the customer the message is attributed to counts as external
+      expect(fromSentMailbox.participants?.filter(participant => participant.external).map(participant => participant.contact.normalizedValue))
+        .toEqual(['team@example.com']);
+      expect(withOwnedAddresses.participants?.map(participant => [participant.role, participant.contact.normalizedValue, participant.external]))
+        .toEqual([
+          ['from', 'support@example.com', false],
+          ['to', 'team@example.com', false],
+          ['to', 'jane@customer.com', true]
+        ]);
+      expect(withOwnedAddresses.participants?.[2]?.displayName).toBe('Jane Doe');
+    });
+
+    it('should use the envelope recipient for Bcc mail', async () => {
+      const normalized = await normalizer.normalize(imapMessage(mime([
+        'Delivered-To: support@example.com',
+        'From: jane@customer.com',
+        'To: undisclosed-recipients:;',
+        'Subject: Quick question',
+        '',
+        'Do you ship abroad?',
+        ''
+      ])));
+
+      expect(normalized.to.normalizedValue).toBe('support@example.com');
+      // No Message-ID: the message starts a thread of its own
+      expect(normalized.providerMessageId).toBe('<fallback@mail.example.com>');
+      expect(normalized.threadKey).toBe(`email:${testProviderId}:<fallback@mail.example.com>`);
+    });
+
+    it('should reject messages without a sender', async () => {
+      await expect(normalizer.normalize(imapMessage(mime([
+        'To: support@example.com',
+        'Subject: No sender',
+        '',
+        'Body',
+        ''
+      ])))).rejects.toMatchObject({ code: 'INVALID_PAYLOAD' });
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { OwnedAddressMatcher, addressKeys, normalizeOwnedAddresses } from '../../../src/lib/ingestion/ownership.js';
+
+describe('owned addresses', () => {
+  it('should compare numbers in E.164 and emails case-insensitively', () => {
+    expect(addressKeys('(415) 555-0100', 'US')).toContain('+14155550100');
+    expect(addressKeys(' Support@Example.com ')).toEqual(['support@example.com']);
+    expect(addressKeys('   ')).toEqual([]);
+  });
+
+  it('should tidy owned address lists for storage', () => {
+    expect(normalizeOwnedAddresses([' +14155550100', 'Sales@Example.com', 'sales@example.com', ''])).toEqual([
+      '+14155550100',
+      'sales@example.com'
+    ]);
+  });
+
+  it('should tell which side of a message is ours', () => {
+    const matcher = new OwnedAddressMatcher(['(415) 555-0100', '106540352242922', 'help@example.com'], 'US');
+
+    expect(matcher.ownership(['+14155550100'], ['+15551234567'])).toBe('from');
+    expect(matcher.ownership(['+15551234567'], ['+19999999999', '106540352242922'])).toBe('to');
+    expect(matcher.ownership(['help@example.com'], ['HELP@example.com'])).toBe('both');
+    expect(matcher.ownership(['+15551234567'], ['+15557654321'])).toBe('neither');
+  });
+
+  it('should report providers without owned addresses as unconfigured', () => {
+    expect(new OwnedAddressMatcher([]).ownership(['+15551234567'], ['+14155550100'])).toBe('unconfigured');
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeAll, afterAll, vi, beforeEach } from 'vites
 import { PrismaClient } from '@prisma/client';
 import { MessageIngestionPipeline } from '../../../src/lib/ingestion/pipeline.js';
 import { createRawMessage } from '../../../src/lib/ingestion/index.js';
+import { IngestionMetrics, IngestionMetricsSummary } from '../../../src/lib/ingestion/metrics.js';
 import { RawProviderMessage } from '../../../src/lib/ingestion/types.js';
 
 const prisma = new PrismaClient();
@@ -85,6 +86,7 @@ describe('MessageIngestionPipeline', () => {
       expect(result.processingMetrics.stagesCompleted).toContain('normalization');
       expect(result.processingMetrics.stagesCompleted).toContain('identity_resolution');
       expect(result.processingMetrics.stagesCompleted).toContain('persistence');
+      expect(Object.keys(result.processingMetrics.stageDurations!)).toEqual(result.processingMetrics.stagesCompleted);
 
       // Verify the message was persisted correctly
       const persistedMessage = await prisma.message.findUnique({
@@ -236,6 +238,78 @@ describe('MessageIngestionPipeline', () => {
       });
     });
 
+    it('should put email on the timeline of every customer on it', async () => {
+      const gmailProvider = await prisma.provider.create({
+        data: {
+          name: 'Test Gmail Provider for Participants',
+          type: 'gmail',
+          status: 'active',
+          config: { encrypted: true },
+          ownedAddresses: ['support@example.com']
+        }
+      });
+
+      const rawMessage: RawProviderMessage = createRawMessage({
+        providerId: gmailProvider.id,
+        providerMessageId: 'gmail-participants-001',
+        providerType: 'gmail',
+        channel: 'email',
+        payload: {
+          id: 'gmail-participants-001',
+          threadId: 'gmail-thread-participants',
+          labelIds: ['INBOX'],
+          snippet: 'Looping in Bob',
+          historyId: '1',
+          internalDate: String(Date.now()),
+          payload: {
+            partId: '',
+            mimeType: 'text/plain',
+            filename: '',
+            headers: [
+              { name: 'From', value: 'Jane Participant <jane.participant@customer.com>' },
+              { name: 'To', value: 'support@example.com' },
+              { name: 'Cc', value: 'Bob Participant <bob.participant@customer.com>' },
+              { name: 'Subject', value: 'Looping in Bob' }
+            ],
+            body: { size: 14, data: Buffer.from('Looping in Bob').toString('base64url') }
+          },
+          sizeEstimate: 256
+        }
+      });
+
+      const result = await MessageIngestionPipeline.processMessage(rawMessage, { skipThreading: true });
+
+      expect(result.status).toBe('success');
+      expect(result.processingMetrics.stagesCompleted).toContain('participant_resolution');
+
+      const participants = await prisma.messageParticipant.findMany({
+        where: { messageId: result.messageId! },
+        include: { customer: true }
+      });
+      const bob = participants.find(participant => participant.address === 'bob.participant@customer.com');
+      const jane = participants.find(participant => participant.address === 'jane.participant@customer.com');
+      const support = participants.find(participant => participant.address === 'support@example.com');
+
+      expect(participants).toHaveLength(3);
+      expect(jane?.customerId).toBe(result.identityResolution!.customerId);
+      expect(bob?.role).toBe('cc');
+      expect(bob?.customer?.name).toBe('Bob Participant');
+      expect(support?.customerId).toBeNull();
+
+      // Bob's timeline shows the message although Jane is its customer
+      const bobsMessages = await prisma.message.count({
+        where: { OR: [{ customerId: bob!.customerId! }, { participants: { some: { customerId: bob!.customerId! } } }] }
+      });
+      expect(bobsMessages).toBe(1);
+
+      // Clean up
+      const customerIds = [jane!.customerId!, bob!.customerId!];
+      await prisma.message.deleteMany({ where: { providerId: gmailProvider.id } });
+      await prisma.identity.deleteMany({ where: { customerId: { in: customerIds } } });
+      await prisma.customer.deleteMany({ where: { id: { in: customerIds } } });
+      await prisma.provider.delete({ where: { id: gmailProvider.id } });
+    });
+
     it('should group messages into conversations', async () => {
       const phoneNumber = '+1666777888';
       
@@ -452,14 +526,25 @@ describe('MessageIngestionPipeline', () => {
   });
 
   describe('getProcessingStats', () => {
-    it('should return processing statistics', () => {
-      const stats = MessageIngestionPipeline.getProcessingStats();
-
-      expect(stats).toHaveProperty('totalProcessed');
-      expect(stats).toHaveProperty('successRate');
-      expect(stats).toHaveProperty('averageProcessingTime');
-      expect(stats).toHaveProperty('commonErrors');
-      expect(Array.isArray(stats.commonErrors)).toBe(true);
+    it('should summarize the recorded metrics for the window', async () => {
+      const summary: IngestionMetricsSummary = {
+        window: '1h',
+        from: new Date('2026-10-19T08:00:00Z'),
+        to: new Date('2026-10-19T09:00:00Z'),
+        totals: { processed: 4, success: 3, duplicate: 0, failed: 1, successRate: 0.75 },
+        latency: { count: 4, avgMs: 120, p50Ms: 100, p95Ms: 250, p99Ms: 250 },
+        stages: [{ stage: 'normalization', count: 4, avgMs: 10, p50Ms: 10, p95Ms: 25, p99Ms: 25, failed: 1 }],
+        errors: [{ code: 'INVALID_PAYLOAD', count: 1 }],
+        providers: [{ providerId: 'provider-twilio', processed: 4, failed: 1, perMinute: 0.07 }]
+      };
+      const getSummary = vi.spyOn(IngestionMetrics, 'getSummary').mockResolvedValue(summary);
+
+      const stats = await MessageIngestionPipeline.getProcessingStats('1h');
+
+      expect(getSummary).toHaveBeenCalledWith('1h');
+      expect(stats).toBe(summary);
+
+      getSummary.mockRestore();
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ReactionTracker } from '../../../src/lib/ingestion/reactions.js';
+import { MessageModel } from '../../../src/models/message.js';
+import { NormalizedMessage } from '../../../src/lib/ingestion/types.js';
+
+vi.mock('../../../src/models/message.js', () => ({
+  MessageModel: {
+    findByProviderMessageId: vi.fn(),
+    recordReaction: vi.fn()
+  }
+}));
+
+const reaction = (meta: Record<string, any>): NormalizedMessage => ({
+  providerMessageId: 'wamid.reaction',
+  providerId: 'provider-whatsapp',
+  channel: 'whatsapp',
+  direction: 'inbound',
+  from: { identifier: '+15551234567', normalizedValue: '+15551234567', rawValue: '15551234567', type: 'phone' },
+  to: { identifier: '+15550001111', normalizedValue: '+15550001111', rawValue: '15550001111', type: 'phone' },
+  timestamp: new Date('2026-10-19T09:00:00Z'),
+  contentType: 'reaction',
+  providerMeta: { reaction: meta },
+  messageHash: 'hash'
+});
+
+describe('ReactionTracker', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should record the reaction on the referenced message', async () => {
+    vi.mocked(MessageModel.findByProviderMessageId).mockResolvedValue({ id: 'msg-1' } as any);
+
+    const messageId = await ReactionTracker.applyReaction(reaction({ messageId: 'wamid.outbound', emoji: '❤️' }));
+
+    expect(messageId).toBe('msg-1');
+    expect(MessageModel.findByProviderMessageId).toHaveBeenCalledWith('provider-whatsapp', 'wamid.outbound');
+    expect(MessageModel.recordReaction).toHaveBeenCalledWith('msg-1', {
+      from: '+15551234567',
+      emoji: '❤️',
+      providerMessageId: 'wamid.reaction',
+      reactedAt: '2026-10-19T09:00:00.000Z'
+    });
+  });
+
+  it('should pass withdrawn reactions through as a null emoji', async () => {
+    vi.mocked(MessageModel.findByProviderMessageId).mockResolvedValue({ id: 'msg-1' } as any);
+
+    await ReactionTracker.applyReaction(reaction({ messageId: 'wamid.outbound', emoji: null }));
+
+    expect(MessageModel.recordReaction).toHaveBeenCalledWith('msg-1', expect.objectContaining({ emoji: null }));
+  });
+
+  it('should leave reactions to unknown messages for the pipeline to store', async () => {
+    vi.mocked(MessageModel.findByProviderMessageId).mockResolvedValue(null);
+
+    expect(await ReactionTracker.applyReaction(reaction({ messageId: 'wamid.elsewhere', emoji: '👍' }))).toBeNull();
+    expect(await ReactionTracker.applyReaction(reaction({ emoji: '👍' }))).toBeNull();
+    expect(MessageModel.recordReaction).not.toHaveBeenCalled();
+  });
+});
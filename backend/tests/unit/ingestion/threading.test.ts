@@ -335,6 +335,23 @@ describe('ConversationGrouper', () => {
       expect(keyWithoutContext).toBe('email:support@company.com:user@example.com');
     });
 
+    it('should key email by thread root, or by subject between the same pair', () => {
+      expect(ConversationGrouper.generateThreadKey(
+        'email',
+        'user@example.com',
+        'support@company.com',
+        '<root-1@example.com>'
+      )).toBe('email:root-1@example.com');
+
+      const invoice = ConversationGrouper.generateThreadKey('email', 'user@example.com', 'support@company.com', undefined, 'Invoice 42');
+      const reply = ConversationGrouper.generateThreadKey('email', 'support@company.com', 'user@example.com', undefined, 'AW: Invoice 42');
+      const other = ConversationGrouper.generateThreadKey('email', 'user@example.com', 'support@company.com', undefined, 'Password reset');
+
+      expect(invoice).toMatch(/^email:support@company\.com:user@example\.com:subj:[a-f0-9]{8}$/);
+      expect(reply).toBe(invoice);
+      expect(other).not.toBe(invoice);
+    });
+
     it('should use additional context for social channels', () => {
       const keyWithContext = ConversationGrouper.generateThreadKey(
         'facebook',
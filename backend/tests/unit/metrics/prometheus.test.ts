@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../../src/lib/db-utils.js', () => ({
+  checkDatabaseHealth: vi.fn()
+}));
+
+vi.mock('../../../src/lib/redis.js', () => ({
+  redisManager: {
+    healthCheck: vi.fn()
+  }
+}));
+
+vi.mock('../../../src/lib/queue/manager.js', () => ({
+  queueManager: {
+    getJobCounts: vi.fn()
+  }
+}));
+
+vi.mock('../../../src/lib/ingestion/metrics.js', () => ({
+  IngestionMetrics: {
+    getTotals: vi.fn()
+  }
+}));
+
+import { Counter, Histogram, renderFamilies, httpRequestsTotal, queueJobsTotal } from '../../../src/lib/prometheus.js';
+import { collectSystemMetrics } from '../../../src/lib/system-metrics.js';
+import { checkDatabaseHealth } from '../../../src/lib/db-utils.js';
+import { redisManager } from '../../../src/lib/redis.js';
+import { queueManager } from '../../../src/lib/queue/manager.js';
+import { IngestionMetrics } from '../../../src/lib/ingestion/metrics.js';
+
+const latency = (counts: number[], sumMs: number) => ({
+  buckets: [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, Infinity]
+    .map((le, index) => ({ le, count: counts[index] ?? 0 })),
+  sumMs
+});
+
+describe('prometheus metrics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    httpRequestsTotal.reset();
+    queueJobsTotal.reset();
+  });
+
+  it('should render counters with escaped labels', () => {
+    const counter = new Counter('test_events_total', 'Events seen');
+    counter.inc({ kind: 'say "hi"' });
+    counter.inc({ kind: 'say "hi"' }, 2);
+
+    expect(renderFamilies([counter.collect()])).toBe(
+      '# HELP test_events_total Events seen\n' +
+      '# TYPE test_events_total counter\n' +
+      'test_events_total{kind="say \\"hi\\""} 3\n'
+    );
+  });
+
+  it('should render histograms with cumulative buckets, sum and count', () => {
+    const histogram = new Histogram('test_duration_seconds', 'Durations', [0.1, 1]);
+    histogram.observe({ route: '/a' }, 0.05);
+    histogram.observe({ route: '/a' }, 0.5);
+    histogram.observe({ route: '/a' }, 3);
+
+    expect(renderFamilies([histogram.collect()]).split('\n')).toEqual([
+      '# HELP test_duration_seconds Durations',
+      '# TYPE test_duration_seconds histogram',
+      'test_duration_seconds_bucket{route="/a",le="0.1"} 1',
+      'test_duration_seconds_bucket{route="/a",le="1"} 2',
+      'test_duration_seconds_bucket{route="/a",le="+Inf"} 3',
+      'test_duration_seconds_sum{route="/a"} 3.55',
+      'test_duration_seconds_count{route="/a"} 3',
+      ''
+    ]);
+  });
+
+  it('should expose queues, ingestion and health in one scrape', async () => {
+    vi.mocked(checkDatabaseHealth).mockResolvedValue({ connected: true, latency: 4 });
+    vi.mocked(redisManager.healthCheck).mockResolvedValue({ status: 'healthy', latency: 2 });
+    vi.mocked(queueManager.getJobCounts).mockResolvedValue({ waiting: 7, active: 1, failed: 2 });
+    vi.mocked(IngestionMetrics.getTotals).mockResolvedValue({
+      statuses: { success: 10, duplicate: 2 },
+      errors: { INVALID_PAYLOAD: 1 },
+      latency: latency([0, 0, 0, 0, 12], 600),
+      stages: { persistence: { ...latency([0, 0, 4, 8], 400), failed: 1 } },
+      dedup: {
+        checks: { idempotency_check: 12, duplicate_check: 11 },
+        hits: [{ check: 'duplicate_check', type: 'content_hash', count: 2 }]
+      }
+    });
+    queueJobsTotal.inc({ queue: 'webhook-ingestion', outcome: 'completed' });
+
+    const body = await collectSystemMetrics();
+
+    expect(body).toContain('crm_queue_jobs{queue="webhook-ingestion",state="waiting"} 7');
+    expect(body).toContain('crm_queue_jobs_total{queue="webhook-ingestion",outcome="completed"} 1');
+    expect(body).toContain('crm_ingestion_messages_total{status="success"} 10');
+    expect(body).toContain('crm_ingestion_stage_duration_seconds_bucket{stage="persistence",le="0.05"} 12');
+    expect(body).toContain('crm_ingestion_stage_duration_seconds_sum{stage="persistence"} 0.4');
+    expect(body).toContain('crm_ingestion_dedup_hits_total{check="duplicate_check",type="content_hash"} 2');
+    expect(body).toContain('crm_database_up 1');
+    expect(body).toContain('crm_redis_latency_seconds 0.002');
+  });
+
+  it('should report a source it cannot reach instead of failing the scrape', async () => {
+    vi.mocked(checkDatabaseHealth).mockResolvedValue({ connected: false, latency: 5000, error: 'timeout' });
+    vi.mocked(redisManager.healthCheck).mockResolvedValue({ status: 'unhealthy', latency: -1 });
+    vi.mocked(queueManager.getJobCounts).mockRejectedValue(new Error('Queue webhook-ingestion not initialized'));
+    vi.mocked(IngestionMetrics.getTotals).mockRejectedValue(new Error('Redis client not connected'));
+
+    const body = await collectSystemMetrics();
+
+    expect(body).toContain('crm_database_up 0');
+    expect(body).toContain('crm_redis_up 0');
+    expect(body).not.toMatch(/^crm_redis_latency_seconds /m);
+    expect(body).not.toContain('crm_queue_jobs{');
+    expect(body).not.toContain('crm_ingestion_messages_total');
+  });
+});
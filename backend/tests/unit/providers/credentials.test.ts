@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../../src/config/index.js', () => ({
+  config: {
+    audit: {
+      piiEncryptionKey: 'current-test-key-0123456789abcdefghij',
+      piiEncryptionKeyVersion: 2,
+      previousPiiEncryptionKeys: {
+        1: 'retired-test-key-0123456789abcdefghij'
+      }
+    }
+  }
+}));
+
+import crypto from 'crypto';
+import {
+  encryptSecret,
+  decryptSecret,
+  isEncrypted,
+  needsReencryption,
+  reencryptSecret,
+  EncryptionError
+} from '../../../src/lib/encryption.js';
+import {
+  encryptProviderConfig,
+  decryptProviderConfig,
+  mergeProviderConfig,
+  reencryptProviderConfig,
+  toPublicProviderConfig,
+  findMissingCredentials,
+  assertCompleteCredentials,
+  MissingCredentialsError
+} from '../../../src/lib/providers/credentials.js';
+
+// Encrypt the way a previous key version would have
+const encryptWithRetiredKey = (plaintext: string): string => {
+  const key = crypto.createHash('sha256').update('retired-test-key-0123456789abcdefghij').digest();
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return ['enc', 'v1', iv.toString('base64'), cipher.getAuthTag().toString('base64'), data.toString('base64')].join(':');
+};
+
+describe('encryption', () => {
+  it('should round-trip secrets with the current key version', () => {
+    const encrypted = encryptSecret('auth-token-123');
+
+    expect(encrypted).toMatch(/^enc:v2:/);
+    expect(encrypted).not.toContain('auth-token-123');
+    expect(decryptSecret(encrypted)).toBe('auth-token-123');
+  });
+
+  it('should use a fresh IV for every encryption', () => {
+    expect(encryptSecret('same')).not.toBe(encryptSecret('same'));
+  });
+
+  it('should decrypt values written with a retired key', () => {
+    const legacy = encryptWithRetiredKey('old-secret');
+
+    expect(decryptSecret(legacy)).toBe('old-secret');
+    expect(needsReencryption(legacy)).toBe(true);
+    expect(needsReencryption(encryptSecret('old-secret'))).toBe(false);
+  });
+
+  it('should move retired-key and plaintext values to the current key', () => {
+    const reencrypted = reencryptSecret(encryptWithRetiredKey('old-secret'));
+
+    expect(reencrypted).toMatch(/^enc:v2:/);
+    expect(decryptSecret(reencrypted)).toBe('old-secret');
+    expect(decryptSecret(reencryptSecret('plain-value'))).toBe('plain-value');
+
+    const current = encryptSecret('current-secret');
+    expect(reencryptSecret(current)).toBe(current);
+  });
+
+  it('should pass through legacy plaintext values', () => {
+    expect(isEncrypted('plain-value')).toBe(false);
+    expect(decryptSecret('plain-value')).toBe('plain-value');
+  });
+
+  it('should reject tampered ciphertext', () => {
+    const parts = encryptSecret('auth-token-123').split(':');
+    parts[4] = Buffer.from('tampered').toString('base64');
+
+    expect(() => decryptSecret(parts.join(':'))).toThrow(EncryptionError);
+  });
+
+  it('should reject unknown key versions', () => {
+    const encrypted = encryptSecret('secret').replace('enc:v2:', 'enc:v9:');
+
+    expect(() => decryptSecret(encrypted)).toThrow('No PII encryption key configured for version 9');
+  });
+});
+
+describe('provider credentials', () => {
+  const twilioConfig = {
+    accountSid: 'AC123',
+    authToken: 'twilio-auth-token',
+    phoneNumbers: ['+15557654321']
+  };
+
+  it('should encrypt only secret fields', () => {
+    const stored = encryptProviderConfig('twilio_sms', twilioConfig);
+
+    expect(stored['accountSid']).toBe('AC123');
+    expect(stored['phoneNumbers']).toEqual(['+15557654321']);
+    expect(isEncrypted(stored['authToken'] as string)).toBe(true);
+    expect(decryptProviderConfig('twilio_sms', stored)).toEqual(twilioConfig);
+  });
+
+  it('should strip secrets from the public config', () => {
+    const stored = encryptProviderConfig('whatsapp', {
+      phoneNumberId: '1234567890',
+      accessToken: 'EAAG...',
+      appSecret: 'app-secret'
+    });
+
+    expect(toPublicProviderConfig('whatsapp', stored)).toEqual({
+      config: { phoneNumberId: '1234567890' },
+      configuredSecrets: ['accessToken', 'appSecret']
+    });
+  });
+
+  it('should keep existing secrets when an update omits them', () => {
+    const stored = encryptProviderConfig('twilio_sms', twilioConfig);
+    const merged = mergeProviderConfig('twilio_sms', stored, { phoneNumbers: ['+15550000000'], accountSid: null });
+
+    expect(merged['authToken']).toBe(stored['authToken']);
+    expect(merged['phoneNumbers']).toEqual(['+15550000000']);
+    expect(merged).not.toHaveProperty('accountSid');
+  });
+
+  it('should refuse a merged config that lost a required credential', () => {
+    const stored = encryptProviderConfig('twilio_sms', twilioConfig);
+
+    expect(() => assertCompleteCredentials('twilio_sms', mergeProviderConfig('twilio_sms', stored, { authToken: '' })))
+      .toThrow(new MissingCredentialsError(['authToken']));
+    expect(() => assertCompleteCredentials('twilio_sms', mergeProviderConfig('twilio_sms', stored, { accountSid: null })))
+      .toThrow(MissingCredentialsError);
+    expect(() => assertCompleteCredentials('twilio_sms', mergeProviderConfig('twilio_sms', stored, { phoneNumbers: [] })))
+      .not.toThrow();
+  });
+
+  it('should re-encrypt only the secrets that are not under the current key', () => {
+    const current = encryptSecret('app-secret');
+    const reencrypted = reencryptProviderConfig('whatsapp', {
+      phoneNumberId: '1234567890',
+      accessToken: encryptWithRetiredKey('EAAG...'),
+      appSecret: current
+    });
+
+    expect(reencrypted?.['phoneNumberId']).toBe('1234567890');
+    expect(reencrypted?.['accessToken']).toMatch(/^enc:v2:/);
+    expect(reencrypted?.['appSecret']).toBe(current);
+    expect(decryptProviderConfig('whatsapp', reencrypted)).toMatchObject({ accessToken: 'EAAG...', appSecret: 'app-secret' });
+
+    expect(reencryptProviderConfig('twilio_sms', encryptProviderConfig('twilio_sms', twilioConfig))).toBeNull();
+  });
+
+  it('should report missing required credentials', () => {
+    expect(findMissingCredentials('gmail', { clientId: 'id', refreshToken: '' })).toEqual([
+      'clientSecret',
+      'refreshToken'
+    ]);
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import net from 'net';
+import { AddressInfo } from 'net';
+
+vi.mock('../../../src/config/index.js', () => ({
+  config: {
+    providers: {
+      requestTimeoutMs: 2000
+    }
+  }
+}));
+
+import { mailServerSettings } from '../../../src/lib/providers/imap.js';
+import { getSender, SendRejectedError } from '../../../src/lib/providers/senders.js';
+import { ProviderRequestError } from '../../../src/lib/providers/http.js';
+
+type ReceivedMail = { auth: string; from: string; to: string[]; data: string };
+
+/**
+ * Minimal SMTP server: enough of the protocol for nodemailer to log in and deliver
+ */
+const startSmtpServer = (onMail: (mail: ReceivedMail) => void, rcptReply: () => string): Promise<net.Server> => {
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    let mail: ReceivedMail = { auth: '', from: '', to: [], data: '' };
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    reply('220 localhost ESMTP test');
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            onMail(mail);
+            mail = { auth: mail.auth, from: '', to: [], data: '' };
+            reply('250 2.0.0 Ok: queued');
+          } else {
+            mail.data += `${line.replace(/^\./, '')}\r\n`;
+          }
+          continue;
+        }
+
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === 'EHLO') {
+          reply('250-localhost');
+          reply('250 AUTH PLAIN LOGIN');
+        } else if (command === 'AUTH') {
+          mail.auth = Buffer.from(line.split(' ')[2] ?? '', 'base64').toString('utf8');
+          reply('235 2.7.0 Authentication successful');
+        } else if (command === 'MAIL') {
+          mail.from = line;
+          reply('250 2.1.0 Ok');
+        } else if (command === 'RCPT') {
+          mail.to.push(line);
+          reply(rcptReply());
+        } else if (command === 'DATA') {
+          inData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (command === 'QUIT') {
+          reply('221 2.0.0 Bye');
+          socket.end();
+        } else {
+          reply('250 Ok');
+        }
+      }
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+};
+
+describe('IMAP provider', () => {
+  it('should default ports and the SMTP login from the IMAP settings', () => {
+    const settings = mailServerSettings({
+      host: 'imap.example.com',
+      username: 'support@example.com',
+      password: 'secret',
+      smtpHost: 'smtp.example.com',
+      mailboxes: 'INBOX, Support',
+      sentMailbox: 'Sent'
+    });
+
+    expect(settings.imap).toEqual({
+      host: 'imap.example.com',
+      port: 993,
+      secure: true,
+      username: 'support@example.com',
+      password: 'secret'
+    });
+    expect(settings.smtp).toEqual({
+      host: 'smtp.example.com',
+      port: 465,
+      secure: true,
+      username: 'support@example.com',
+      password: 'secret'
+    });
+    expect(settings.mailboxes).toEqual(['INBOX', 'Support']);
+    expect(settings.sentMailbox).toBe('Sent');
+  });
+
+  it('should read plain-text connections for local test servers', () => {
+    const settings = mailServerSettings({
+      host: 'localhost',
+      port: '3143',
+      secure: 'false',
+      username: 'crm@crm.local',
+      password: 'password',
+      smtpHost: 'localhost',
+      smtpPort: 3025,
+      smtpUsername: 'relay',
+      smtpPassword: 'relay-secret'
+    });
+
+    expect(settings.imap).toMatchObject({ port: 3143, secure: false });
+    expect(settings.smtp).toEqual({ host: 'localhost', port: 3025, secure: false, username: 'relay', password: 'relay-secret' });
+    expect(settings.mailboxes).toEqual(['INBOX']);
+    expect(settings).not.toHaveProperty('sentMailbox');
+  });
+
+  describe('SMTP sender', () => {
+    let server: net.Server;
+    let received: ReceivedMail[];
+    let rcptReply: () => string;
+    let credentials: Record<string, unknown>;
+
+    beforeAll(async () => {
+      server = await startSmtpServer(mail => received.push(mail), () => rcptReply());
+      credentials = {
+        host: '127.0.0.1',
+        username: 'support@example.com',
+        password: 'secret',
+        smtpHost: '127.0.0.1',
+        smtpPort: (server.address() as AddressInfo).port,
+        smtpSecure: false
+      };
+    });
+
+    beforeEach(() => {
+      received = [];
+      rcptReply = () => '250 2.1.5 Ok';
+    });
+
+    afterAll(async () => {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    it('should send replies in thread and return the Message-ID', async () => {
+      const result = await getSender('imap')!(credentials, {
+        to: 'jane@customer.com',
+        from: 'support@example.com',
+        subject: 'Re: Order 1234',
+        body: 'It shipped today',
+        replyTo: { messageIdHeader: '<reply-2@customer.com>', references: '<order-1234@customer.com>' }
+      });
+
+      expect(result.providerMessageId).toMatch(/^<.+@.+>$/);
+      expect(result).toMatchObject({
+        deliveryStatus: 'sent',
+        providerMeta: {
+          subject: 'Re: Order 1234',
+          headers: {
+            'message-id': result.providerMessageId,
+            references: '<order-1234@customer.com> <reply-2@customer.com>'
+          }
+        }
+      });
+
+      expect(received).toHaveLength(1);
+      const mail = received[0]!;
+      expect(mail.auth).toBe('\0support@example.com\0secret');
+      expect(mail.to).toEqual(['RCPT TO:<jane@customer.com>']);
+      expect(mail.data).toContain('In-Reply-To: <reply-2@customer.com>');
+      expect(mail.data).toContain('References: <order-1234@customer.com> <reply-2@customer.com>');
+      expect(mail.data).toContain(`Message-ID: ${result.providerMessageId}`);
+      expect(mail.data).toContain('It shipped today');
+    });
+
+    it('should mark refused recipients as permanent and deferrals as retryable', async () => {
+      const sender = getSender('imap')!;
+      const message = { to: 'nobody@customer.com', from: 'support@example.com', subject: 'Hello', body: 'Hello' };
+
+      rcptReply = () => '550 5.1.1 No such user';
+      await expect(sender(credentials, message)).rejects.toBeInstanceOf(SendRejectedError);
+
+      rcptReply = () => '451 4.3.0 Try again later';
+      const error = await sender(credentials, message).catch(err => err);
+      expect(error).toBeInstanceOf(ProviderRequestError);
+      expect(error).not.toBeInstanceOf(SendRejectedError);
+    });
+  });
+});
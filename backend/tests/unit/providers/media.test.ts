@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+
+// Every provider base URL points at the local fake server started below
+const fakeProvider = vi.hoisted(() => ({ baseUrl: '' }));
+
+vi.mock('../../../src/config/index.js', () => ({
+  config: {
+    providers: {
+      get twilioApiBaseUrl() { return fakeProvider.baseUrl; },
+      get metaGraphApiBaseUrl() { return fakeProvider.baseUrl; },
+      get gmailApiBaseUrl() { return fakeProvider.baseUrl; },
+      get googleOAuthTokenUrl() { return `${fakeProvider.baseUrl}/token`; },
+      requestTimeoutMs: 2000,
+      metaMediaHosts: ['127.0.0.1', 'fbcdn.net']
+    }
+  }
+}));
+
+import { getMediaFetcher, mediaFilename, MediaRejectedError, MediaIntegrityError } from '../../../src/lib/providers/media.js';
+
+type RecordedRequest = { method: string; url: string; headers: http.IncomingHttpHeaders };
+// `chunked` streams a binary body without a Content-Length; `open` then never finishes it
+type Reply = { status: number; body: unknown; contentType?: string; chunked?: boolean; open?: boolean };
+
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46]);
+
+describe('provider media fetchers', () => {
+  let server: http.Server;
+  let requests: RecordedRequest[];
+  let respond: (req: RecordedRequest) => Reply;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        const recorded = { method: req.method || '', url: req.url || '', headers: req.headers };
+        requests.push(recorded);
+        const reply = respond(recorded);
+        const binary = Buffer.isBuffer(reply.body);
+        res.writeHead(reply.status, { 'Content-Type': reply.contentType ?? 'application/json' });
+        if (reply.chunked && Buffer.isBuffer(reply.body)) {
+          for (let offset = 0; offset < reply.body.length; offset += 4) {
+            res.write(reply.body.subarray(offset, offset + 4));
+          }
+          if (!reply.open) res.end();
+          return;
+        }
+        res.end(binary ? reply.body : JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    fakeProvider.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it('should only offer fetchers for providers that host media', () => {
+    expect(getMediaFetcher('twilio_sms')).toBeDefined();
+    expect(getMediaFetcher('whatsapp')).toBeDefined();
+    expect(getMediaFetcher('gmail')).toBeDefined();
+    expect(getMediaFetcher('twilio_voice')).toBeDefined();
+    expect(getMediaFetcher('imap')).toBeDefined();
+    expect(getMediaFetcher('facebook')).toBeDefined();
+    expect(getMediaFetcher('instagram')).toBeDefined();
+  });
+
+  it('should name media after the provider ID when no filename is given', () => {
+    expect(mediaFilename('ME123', 'image/jpeg; charset=binary')).toBe('ME123.jpg');
+    expect(mediaFilename('ME123', 'application/x-unknown')).toBe('ME123.bin');
+    expect(mediaFilename('ME123', 'image/jpeg', undefined, ' invoice.pdf ')).toBe('invoice.pdf');
+  });
+
+  it('should download Twilio media with basic auth', async () => {
+    respond = () => ({ status: 200, body: JPEG, contentType: 'image/jpeg' });
+
+    const media = await getMediaFetcher('twilio_sms')!(
+      { accountSid: 'AC123', authToken: 'token' },
+      { url: `${fakeProvider.baseUrl}/2010-04-01/Accounts/AC123/Messages/MM1/Media/ME1`, metadata: {}, providerMessageId: 'MM1' },
+      1024
+    );
+
+    expect(media).toMatchObject({ contentType: 'image/jpeg', filename: 'ME1.jpg' });
+    expect(media.data.equals(JPEG)).toBe(true);
+    expect(media.sha256).toBe(crypto.createHash('sha256').update(JPEG).digest('hex'));
+    expect(requests[0]!.headers.authorization).toBe(`Basic ${Buffer.from('AC123:token').toString('base64')}`);
+  });
+
+  it('should not send Twilio credentials to other hosts', async () => {
+    await expect(getMediaFetcher('twilio_sms')!(
+      { accountSid: 'AC123', authToken: 'token' },
+      { url: 'https://media.example.com/ME1', metadata: {}, providerMessageId: 'MM1' },
+      1024
+    )).rejects.toBeInstanceOf(MediaRejectedError);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should download Messenger and Instagram media from the Meta CDN without credentials', async () => {
+    respond = () => ({ status: 200, body: JPEG, contentType: 'image/jpeg' });
+
+    const media = await getMediaFetcher('instagram')!(
+      { accountId: '1789', accessToken: 'token', appSecret: 'secret' },
+      { url: `${fakeProvider.baseUrl}/v/t51.2885-15/photo.jpg?_nc_sid=abc`, metadata: { metaType: 'image' }, providerMessageId: 'mid.1' },
+      1024
+    );
+
+    expect(media).toMatchObject({ contentType: 'image/jpeg', filename: `${media.sha256.slice(0, 16)}.jpg` });
+    expect(media.data.equals(JPEG)).toBe(true);
+    expect(requests[0]!.url).toBe('/v/t51.2885-15/photo.jpg?_nc_sid=abc');
+    expect(requests[0]!.headers.authorization).toBeUndefined();
+  });
+
+  it('should refuse Meta media URLs off the allowed hosts', async () => {
+    for (const url of ['https://internal.example.com/photo.jpg', 'https://fbcdn.net.example.com/photo.jpg', 'not a url']) {
+      await expect(getMediaFetcher('facebook')!(
+        { pageId: '1', pageAccessToken: 'token', appSecret: 'secret' },
+        { url, metadata: {}, providerMessageId: 'mid.1' },
+        1024
+      )).rejects.toBeInstanceOf(MediaRejectedError);
+    }
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should reject media over the size limit', async () => {
+    respond = () => ({ status: 200, body: JPEG, contentType: 'image/jpeg' });
+
+    await expect(getMediaFetcher('twilio_sms')!(
+      { accountSid: 'AC123', authToken: 'token' },
+      { url: `${fakeProvider.baseUrl}/2010-04-01/Accounts/AC123/Messages/MM1/Media/ME1`, metadata: {}, providerMessageId: 'MM1' },
+      4
+    )).rejects.toBeInstanceOf(MediaRejectedError);
+  });
+
+  it('should stop reading streamed media once it passes the size limit', async () => {
+    respond = () => ({ status: 200, body: Buffer.concat([JPEG, JPEG]), contentType: 'image/jpeg', chunked: true, open: true });
+
+    await expect(getMediaFetcher('twilio_sms')!(
+      { accountSid: 'AC123', authToken: 'token' },
+      { url: `${fakeProvider.baseUrl}/2010-04-01/Accounts/AC123/Messages/MM1/Media/ME1`, metadata: {}, providerMessageId: 'MM1' },
+      12
+    )).rejects.toBeInstanceOf(MediaRejectedError);
+  });
+
+  it('should download streamed media within the size limit', async () => {
+    respond = () => ({ status: 200, body: JPEG, contentType: 'image/jpeg', chunked: true });
+
+    const media = await getMediaFetcher('twilio_sms')!(
+      { accountSid: 'AC123', authToken: 'token' },
+      { url: `${fakeProvider.baseUrl}/2010-04-01/Accounts/AC123/Messages/MM1/Media/ME1`, metadata: {}, providerMessageId: 'MM1' },
+      JPEG.length
+    );
+
+    expect(media.data.equals(JPEG)).toBe(true);
+  });
+
+  it('should resolve WhatsApp media IDs and verify the webhook hash', async () => {
+    const sha256 = crypto.createHash('sha256').update(JPEG).digest('base64');
+    respond = req => req.url === '/media.1'
+      ? { status: 200, body: { url: `${fakeProvider.baseUrl}/download/media.1`, mime_type: 'image/jpeg', file_size: JPEG.length } }
+      : { status: 200, body: JPEG, contentType: 'application/octet-stream' };
+
+    const media = await getMediaFetcher('whatsapp')!(
+      { phoneNumberId: '1234567890', accessToken: 'EAAG' },
+      { url: 'whatsapp://media/media.1', metadata: { whatsappId: 'media.1', sha256 }, providerMessageId: 'wamid.IN' },
+      1024
+    );
+
+    expect(media).toMatchObject({ contentType: 'image/jpeg', filename: 'media.1.jpg' });
+    expect(requests.map(req => req.url)).toEqual(['/media.1', '/download/media.1']);
+    expect(requests.every(req => req.headers.authorization === 'Bearer EAAG')).toBe(true);
+  });
+
+  it('should refuse WhatsApp media that fails its hash check', async () => {
+    respond = req => req.url === '/media.1'
+      ? { status: 200, body: { url: `${fakeProvider.baseUrl}/download/media.1`, mime_type: 'image/jpeg', sha256: 'deadbeef' } }
+      : { status: 200, body: JPEG, contentType: 'image/jpeg' };
+
+    await expect(getMediaFetcher('whatsapp')!(
+      { phoneNumberId: '1234567890', accessToken: 'EAAG' },
+      { url: 'whatsapp://media/media.1', metadata: {}, providerMessageId: 'wamid.IN' },
+      1024
+    )).rejects.toBeInstanceOf(MediaIntegrityError);
+  });
+
+  it('should treat expired WhatsApp media as rejected', async () => {
+    respond = () => ({ status: 404, body: { error: { message: 'Unsupported get request', code: 100 } } });
+
+    await expect(getMediaFetcher('whatsapp')!(
+      { phoneNumberId: '1234567890', accessToken: 'EAAG' },
+      { url: 'whatsapp://media/media.1', metadata: {}, providerMessageId: 'wamid.IN' },
+      1024
+    )).rejects.toBeInstanceOf(MediaRejectedError);
+  });
+
+  it('should decode Gmail attachments from the attachments API', async () => {
+    respond = req => req.url === '/token'
+      ? { status: 200, body: { access_token: 'ya29.token', expires_in: 3599 } }
+      : { status: 200, body: { size: JPEG.length, data: JPEG.toString('base64url') } };
+
+    const media = await getMediaFetcher('gmail')!(
+      { clientId: 'id', clientSecret: 'secret', refreshToken: 'refresh' },
+      {
+        url: 'gmail://attachment/ANGjdJ8',
+        metadata: { attachmentId: 'ANGjdJ8', partId: '1' },
+        providerMessageId: '18c1f2',
+        mimeType: 'image/jpeg',
+        filename: 'scan.jpg'
+      },
+      1024
+    );
+
+    expect(media).toMatchObject({ contentType: 'image/jpeg', filename: 'scan.jpg' });
+    expect(media.data.equals(JPEG)).toBe(true);
+    expect(requests[1]!.url).toBe('/users/me/messages/18c1f2/attachments/ANGjdJ8');
+    expect(requests[1]!.headers.authorization).toBe('Bearer ya29.token');
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+
+// Every provider base URL points at the local fake server started below
+const fakeProvider = vi.hoisted(() => ({ baseUrl: '' }));
+
+vi.mock('../../../src/config/index.js', () => ({
+  config: {
+    providers: {
+      get twilioApiBaseUrl() { return fakeProvider.baseUrl; },
+      get metaGraphApiBaseUrl() { return fakeProvider.baseUrl; },
+      get gmailApiBaseUrl() { return fakeProvider.baseUrl; },
+      get googleOAuthTokenUrl() { return `${fakeProvider.baseUrl}/token`; },
+      requestTimeoutMs: 2000
+    }
+  }
+}));
+
+import { getSender, supportsOutbound, buildMimeMessage, SendRejectedError } from '../../../src/lib/providers/senders.js';
+import { ProviderRequestError } from '../../../src/lib/providers/http.js';
+
+type RecordedRequest = { method: string; url: string; headers: http.IncomingHttpHeaders; body: string };
+
+describe('provider senders', () => {
+  let server: http.Server;
+  let requests: RecordedRequest[];
+  let respond: (req: RecordedRequest) => { status: number; body: unknown };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const recorded = { method: req.method || '', url: req.url || '', headers: req.headers, body };
+        requests.push(recorded);
+        const reply = respond(recorded);
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    fakeProvider.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it('should only offer senders for channels that can reply', () => {
+    expect(supportsOutbound('twilio_sms')).toBe(true);
+    expect(supportsOutbound('whatsapp')).toBe(true);
+    expect(supportsOutbound('gmail')).toBe(true);
+    expect(supportsOutbound('imap')).toBe(true);
+    expect(supportsOutbound('twilio_voice')).toBe(false);
+  });
+
+  it('should send SMS through the Twilio Messages API', async () => {
+    respond = () => ({ status: 201, body: { sid: 'SM123', status: 'queued', num_segments: '1' } });
+
+    const result = await getSender('twilio_sms')!(
+      { accountSid: 'AC123', authToken: 'token' },
+      { to: '+15551234567', from: '+15557654321', body: 'Hello there' }
+    );
+
+    expect(result).toMatchObject({ providerMessageId: 'SM123', providerStatus: 'queued' });
+    expect(requests[0]!.url).toBe('/2010-04-01/Accounts/AC123/Messages.json');
+    expect(requests[0]!.headers.authorization).toBe(`Basic ${Buffer.from('AC123:token').toString('base64')}`);
+    expect(Object.fromEntries(new URLSearchParams(requests[0]!.body))).toEqual({
+      To: '+15551234567',
+      From: '+15557654321',
+      Body: 'Hello there'
+    });
+  });
+
+  it('should reply in context through the WhatsApp Cloud API', async () => {
+    respond = () => ({ status: 200, body: { messages: [{ id: 'wamid.OUT' }], contacts: [{ wa_id: '15551234567' }] } });
+
+    const result = await getSender('whatsapp')!(
+      { phoneNumberId: '1234567890', accessToken: 'EAAG' },
+      { to: '+15551234567', from: '+15557654321', body: 'On our way', replyTo: { providerMessageId: 'wamid.IN' } }
+    );
+
+    expect(result.providerMessageId).toBe('wamid.OUT');
+    expect(requests[0]!.url).toBe('/1234567890/messages');
+    expect(requests[0]!.headers.authorization).toBe('Bearer EAAG');
+    expect(JSON.parse(requests[0]!.body)).toMatchObject({
+      messaging_product: 'whatsapp',
+      to: '15551234567',
+      text: { body: 'On our way' },
+      context: { message_id: 'wamid.IN' }
+    });
+  });
+
+  it('should send Gmail replies in the original thread', async () => {
+    respond = (req) => req.url === '/token'
+      ? { status: 200, body: { access_token: 'ya29.token' } }
+      : { status: 200, body: { id: 'gmail-out-1', threadId: 'thread-1' } };
+
+    const result = await getSender('gmail')!(
+      { clientId: 'id', clientSecret: 'secret', refreshToken: 'refresh' },
+      {
+        to: 'customer@example.com',
+        from: 'support@example.com',
+        subject: 'Re: Invoice',
+        body: 'Attached is the corrected invoice',
+        replyTo: { threadId: 'thread-1', messageIdHeader: '<abc@mail.example.com>' }
+      }
+    );
+
+    expect(result).toMatchObject({ providerMessageId: 'gmail-out-1', providerMeta: { gmailThreadId: 'thread-1' } });
+
+    const send = requests.find(req => req.url === '/users/me/messages/send')!;
+    expect(send.headers.authorization).toBe('Bearer ya29.token');
+
+    const payload = JSON.parse(send.body);
+    expect(payload.threadId).toBe('thread-1');
+    const mime = Buffer.from(payload.raw, 'base64url').toString('utf8');
+    expect(mime).toContain('In-Reply-To: <abc@mail.example.com>');
+    expect(mime).toContain('Subject: Re: Invoice');
+  });
+
+  it('should mark provider rejections as permanent and server errors as retryable', async () => {
+    const sender = getSender('twilio_sms')!;
+    const message = { to: '+15551234567', from: '+15557654321', body: 'Hello' };
+
+    respond = () => ({ status: 400, body: { message: 'Invalid To number' } });
+    await expect(sender({ accountSid: 'AC123', authToken: 'token' }, message)).rejects.toBeInstanceOf(SendRejectedError);
+
+    respond = () => ({ status: 503, body: { message: 'Service unavailable' } });
+    const error = await sender({ accountSid: 'AC123', authToken: 'token' }, message).catch(err => err);
+    expect(error).toBeInstanceOf(ProviderRequestError);
+    expect(error).not.toBeInstanceOf(SendRejectedError);
+  });
+
+  it('should encode non-ASCII subjects', () => {
+    const mime = buildMimeMessage({ to: 'a@example.com', from: 'b@example.com', subject: 'Grüße', body: 'Hallo' });
+    expect(mime).toContain(`Subject: =?UTF-8?B?${Buffer.from('Grüße').toString('base64')}?=`);
+  });
+});
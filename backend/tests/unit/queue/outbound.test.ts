@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OutboundMessenger } from '../../../src/lib/outbound.js';
+import { MessageModel } from '../../../src/models/message.js';
+import { ProviderModel } from '../../../src/models/provider.js';
+import { getSender } from '../../../src/lib/providers/senders.js';
+import { OutboundMessageJobData } from '../../../src/lib/queue/types.js';
+
+vi.mock('../../../src/models/message.js', () => ({
+  PENDING_SEND_PREFIX: 'outbound:',
+  MessageModel: {
+    create: vi.fn(),
+    update: vi.fn(),
+    findOutboundByJobId: vi.fn(),
+    recordStatusEvent: vi.fn()
+  }
+}));
+
+vi.mock('../../../src/models/conversation.js', () => ({
+  ConversationModel: {
+    updateLastMessageAt: vi.fn()
+  }
+}));
+
+vi.mock('../../../src/models/provider.js', () => ({
+  ProviderModel: {
+    findById: vi.fn(),
+    getCredentials: vi.fn(() => ({}))
+  }
+}));
+
+vi.mock('../../../src/lib/providers/senders.js', () => ({
+  getSender: vi.fn()
+}));
+
+describe('OutboundMessenger', () => {
+  const data: OutboundMessageJobData = {
+    conversationId: 'conv_101',
+    customerId: 'cust_789',
+    providerId: 'provider_1',
+    providerType: 'twilio_sms',
+    channel: 'sms',
+    to: '+15551234567',
+    from: '+15557654321',
+    body: 'Thanks, we are on it',
+    requestedBy: 'user_1',
+    requestedAt: new Date().toISOString()
+  };
+
+  const send = vi.fn();
+
+  const storedRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'msg_out_1',
+    providerMessageId: 'outbound:job_1',
+    status: 'queued',
+    providerMeta: { sentBy: 'user_1', outboundJobId: 'job_1' },
+    ...overrides
+  }) as any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(ProviderModel.findById).mockResolvedValue({ id: 'provider_1', type: 'twilio_sms', webhooks: [] } as any);
+    vi.mocked(getSender).mockReturnValue(send);
+    send.mockResolvedValue({ providerMessageId: 'SM123', deliveryStatus: 'queued', providerStatus: 'queued', providerMeta: {} });
+    vi.mocked(MessageModel.update).mockImplementation(async (id, update) => storedRow({ id, ...update }));
+  });
+
+  describe('deliver', () => {
+    it('should store the message as queued before sending it', async () => {
+      vi.mocked(MessageModel.findOutboundByJobId).mockResolvedValue(null);
+      vi.mocked(MessageModel.create).mockResolvedValue(storedRow());
+      send.mockImplementation(async () => {
+        expect(MessageModel.create).toHaveBeenCalledWith(expect.objectContaining({
+          providerMessageId: 'outbound:job_1',
+          status: 'queued',
+          providerMeta: { sentBy: 'user_1', outboundJobId: 'job_1' }
+        }));
+        return { providerMessageId: 'SM123', deliveryStatus: 'queued', providerMeta: {} };
+      });
+
+      const { message, result } = await OutboundMessenger.deliver(data, 'job_1');
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(MessageModel.update).toHaveBeenCalledWith('msg_out_1', expect.objectContaining({
+        providerMessageId: 'SM123',
+        status: 'queued',
+        providerMeta: { sentBy: 'user_1', outboundJobId: 'job_1' }
+      }));
+      expect(message.providerMessageId).toBe('SM123');
+      expect(result.providerMessageId).toBe('SM123');
+    });
+
+    it('should send again when an earlier attempt stored the row but never got an answer', async () => {
+      vi.mocked(MessageModel.findOutboundByJobId).mockResolvedValue(storedRow());
+
+      await OutboundMessenger.deliver(data, 'job_1');
+
+      expect(MessageModel.create).not.toHaveBeenCalled();
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(MessageModel.update).toHaveBeenCalledWith('msg_out_1', expect.objectContaining({ providerMessageId: 'SM123' }));
+    });
+
+    it('should not send twice when an earlier attempt already got through', async () => {
+      vi.mocked(MessageModel.findOutboundByJobId).mockResolvedValue(storedRow({
+        providerMessageId: 'SM123',
+        status: 'sent',
+        providerMeta: { providerStatus: 'sent', sentBy: 'user_1', outboundJobId: 'job_1' }
+      }));
+
+      const { message, result } = await OutboundMessenger.deliver(data, 'job_1');
+
+      expect(send).not.toHaveBeenCalled();
+      expect(MessageModel.update).not.toHaveBeenCalled();
+      expect(MessageModel.recordStatusEvent).not.toHaveBeenCalled();
+      expect(message.id).toBe('msg_out_1');
+      expect(result).toMatchObject({ providerMessageId: 'SM123', deliveryStatus: 'sent', providerStatus: 'sent' });
+    });
+  });
+
+  describe('recordFailure', () => {
+    const error = { code: 'SendRejectedError', message: 'Invalid To number' };
+
+    it('should mark the stored row failed instead of adding another', async () => {
+      vi.mocked(MessageModel.findOutboundByJobId).mockResolvedValue(storedRow());
+
+      await OutboundMessenger.recordFailure(data, 'job_1', error);
+
+      expect(MessageModel.create).not.toHaveBeenCalled();
+      expect(MessageModel.update).toHaveBeenCalledWith('msg_out_1', expect.objectContaining({
+        providerMessageId: 'failed:job_1',
+        status: 'failed',
+        errorCode: 'SendRejectedError'
+      }));
+      expect(MessageModel.recordStatusEvent).toHaveBeenCalledWith(
+        'msg_out_1',
+        expect.objectContaining({ status: 'failed', errorMessage: 'Invalid To number' }),
+        false
+      );
+    });
+
+    it('should store a failed row when the job never got as far as storing one', async () => {
+      vi.mocked(MessageModel.findOutboundByJobId).mockResolvedValue(null);
+      vi.mocked(MessageModel.create).mockResolvedValue(storedRow({ providerMessageId: 'failed:job_1', status: 'failed' }));
+
+      await OutboundMessenger.recordFailure(data, 'job_1', error);
+
+      expect(MessageModel.create).toHaveBeenCalledWith(expect.objectContaining({
+        providerMessageId: 'failed:job_1',
+        direction: 'outbound',
+        status: 'failed'
+      }));
+    });
+
+    it('should leave a message the provider already accepted alone', async () => {
+      vi.mocked(MessageModel.findOutboundByJobId).mockResolvedValue(storedRow({ providerMessageId: 'SM123', status: 'sent' }));
+
+      await OutboundMessenger.recordFailure(data, 'job_1', error);
+
+      expect(MessageModel.update).not.toHaveBeenCalled();
+      expect(MessageModel.create).not.toHaveBeenCalled();
+      expect(MessageModel.recordStatusEvent).not.toHaveBeenCalled();
+    });
+  });
+});
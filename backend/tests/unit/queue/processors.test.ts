@@ -4,22 +4,120 @@ import {
   WebhookProcessor,
   MessageProcessor,
   NotificationProcessor,
+  OutboundMessageProcessor,
+  AttachmentProcessor,
   MaintenanceProcessor,
   HealthCheckProcessor
 } from '../../../src/lib/queue/processors.js';
-import { IngestionPipeline } from '../../../src/lib/ingestion/pipeline.js';
+import { MessageIngestionPipeline } from '../../../src/lib/ingestion/pipeline.js';
+import { IdempotencyManager } from '../../../src/lib/ingestion/deduplication.js';
+import { DeadLetterQueue } from '../../../src/lib/ingestion/dead-letters.js';
+import { DuplicateDetector } from '../../../src/lib/duplicate-detection.js';
+import { PhoneRenormalizer } from '../../../src/lib/phone-renormalization.js';
+import { OutboundMessenger, OutboundError } from '../../../src/lib/outbound.js';
+import { SendRejectedError } from '../../../src/lib/providers/senders.js';
+import { AttachmentFetcher } from '../../../src/lib/attachment-fetch.js';
+import { MediaRejectedError } from '../../../src/lib/providers/media.js';
+import { ThumbnailGenerator, ThumbnailError } from '../../../src/lib/thumbnails.js';
 import {
   WebhookJobData,
   MessageIngestionJobData,
   NotificationJobData,
+  OutboundMessageJobData,
+  AttachmentFetchJobData,
+  AttachmentThumbnailJobData,
   ArchiveJobData,
+  DuplicateScanJobData,
+  PhoneRenormalizationJobData,
+  DeadLetterReplayJobData,
   HealthCheckJobData
 } from '../../../src/lib/queue/types.js';
+import { IngestionResult } from '../../../src/lib/ingestion/types.js';
+import { TwilioSMSNormalizer } from '../../../src/lib/ingestion/normalizers/index.js';
 
-// Mock the ingestion pipeline
+// Mock the ingestion pipeline; by default a webhook carries a single item
 vi.mock('../../../src/lib/ingestion/pipeline.js', () => ({
-  IngestionPipeline: {
-    processMessage: vi.fn()
+  MessageIngestionPipeline: {
+    processMessage: vi.fn(),
+    processMessageBatch: vi.fn(),
+    splitWebhook: vi.fn()
+  }
+}));
+
+// Mock the idempotency store
+vi.mock('../../../src/lib/ingestion/deduplication.js', () => ({
+  IdempotencyManager: {
+    clearExpiredEntries: vi.fn()
+  }
+}));
+
+// Mock the dead-letter store
+vi.mock('../../../src/lib/ingestion/dead-letters.js', () => ({
+  DeadLetterQueue: {
+    recordFailure: vi.fn(),
+    recordSuccess: vi.fn(),
+    replayByErrorCode: vi.fn()
+  }
+}));
+
+// Mock the duplicate customer scan
+vi.mock('../../../src/lib/duplicate-detection.js', () => ({
+  DuplicateDetector: {
+    scan: vi.fn()
+  }
+}));
+
+// Mock the phone identity re-normalization
+vi.mock('../../../src/lib/phone-renormalization.js', () => ({
+  PhoneRenormalizer: {
+    run: vi.fn()
+  }
+}));
+
+// Mock outbound delivery
+vi.mock('../../../src/lib/outbound.js', () => ({
+  OutboundMessenger: {
+    deliver: vi.fn(),
+    recordFailure: vi.fn()
+  },
+  OutboundError: class OutboundError extends Error {
+    constructor(public code: string, message: string) {
+      super(message);
+    }
+  }
+}));
+
+vi.mock('../../../src/lib/providers/senders.js', () => ({
+  SendRejectedError: class SendRejectedError extends Error {}
+}));
+
+// Mock attachment media fetching
+vi.mock('../../../src/lib/attachment-fetch.js', () => ({
+  AttachmentFetcher: {
+    fetch: vi.fn(),
+    recordFailure: vi.fn()
+  },
+  AttachmentFetchError: class AttachmentFetchError extends Error {
+    constructor(public code: string, message: string) {
+      super(message);
+    }
+  }
+}));
+
+vi.mock('../../../src/lib/providers/media.js', () => ({
+  MediaRejectedError: class MediaRejectedError extends Error {}
+}));
+
+// Mock thumbnail rendering
+vi.mock('../../../src/lib/thumbnails.js', () => ({
+  ThumbnailGenerator: {
+    generate: vi.fn(),
+    recordFailure: vi.fn()
+  },
+  ThumbnailError: class ThumbnailError extends Error {
+    constructor(public code: string, message: string) {
+      super(message);
+    }
   }
 }));
 
@@ -49,6 +147,16 @@ describe('Queue Processors', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(MessageIngestionPipeline.splitWebhook).mockImplementation(raw => [raw]);
+  });
+
+  const ingested = (overrides: Partial<IngestionResult> = {}): IngestionResult => ({
+    status: 'success',
+    processingMetrics: {
+      startTime: new Date(),
+      stagesCompleted: ['validation', 'normalization', 'identity_resolution']
+    },
+    ...overrides
   });
 
   describe('WebhookProcessor', () => {
@@ -56,34 +164,44 @@ describe('Queue Processors', () => {
       it('should process webhook successfully', async () => {
         const webhookData: WebhookJobData = {
           webhookId: 'wh_123',
+          deliveryId: 'delivery_123',
           providerId: 'twilio_test',
           providerType: 'twilio-sms',
-          timestamp: new Date().toISOString(),
+          timestamp: '2026-10-19T09:00:00.000Z',
           payload: { From: '+1234567890', Body: 'Test message' },
-          headers: { 'X-Twilio-Signature': 'test-signature' }
+          headers: { 'X-Twilio-Signature': 'test-signature' },
+          signature: 'test-signature'
         };
 
         const mockJob = createMockJob(webhookData);
 
         // Mock successful ingestion
-        vi.mocked(IngestionPipeline.processMessage).mockResolvedValue({
-          success: true,
+        vi.mocked(MessageIngestionPipeline.processMessageBatch).mockResolvedValue([ingested({
           messageId: 'msg_456',
-          customerId: 'cust_789',
-          conversationId: 'conv_101',
-          metrics: {
-            processingTime: 150,
-            stagesCompleted: ['validation', 'normalization', 'identity_resolution']
-          }
-        });
+          identityResolution: { customerId: 'cust_789', isNewCustomer: false, confidence: 1, matchedIdentities: [] },
+          threadingContext: { threadKey: 'sms:1', conversationId: 'conv_101', isNewConversation: true, relatedMessages: [] }
+        })]);
 
         const result = await WebhookProcessor.processWebhook(mockJob);
 
         expect(result.success).toBe(true);
         expect(result.messageId).toBe('msg_456');
-        expect(result.processingTime).toBeGreaterThan(0);
+        expect(result.processingTime).toBeGreaterThanOrEqual(0);
         expect(result.metrics?.identityResolved).toBe(true);
         expect(result.metrics?.conversationCreated).toBe(true);
+        expect(result.items).toEqual([{ providerMessageId: 'delivery_123', status: 'success', messageId: 'msg_456' }]);
+
+        // The webhook's receipt time keeps idempotency keys stable across retries
+        expect(MessageIngestionPipeline.splitWebhook).toHaveBeenCalledWith({
+          providerId: 'twilio_test',
+          providerMessageId: 'delivery_123',
+          providerType: 'twilio-sms',
+          channel: 'sms',
+          payload: webhookData.payload,
+          rawHeaders: webhookData.headers,
+          timestamp: '2026-10-19T09:00:00.000Z',
+          webhookSignature: 'test-signature'
+        });
 
         // Verify progress updates
         expect(mockJob.updateProgress).toHaveBeenCalledWith(10);
@@ -92,31 +210,123 @@ describe('Queue Processors', () => {
         expect(mockJob.updateProgress).toHaveBeenCalledWith(100);
       });
 
-      it('should handle ingestion failure', async () => {
+      it('should ingest every item of a batched webhook and report each one', async () => {
+        const webhookData: WebhookJobData = {
+          webhookId: 'wh_127',
+          providerId: 'whatsapp_test',
+          providerType: 'whatsapp',
+          timestamp: new Date().toISOString(),
+          payload: { entry: [] },
+          headers: {}
+        };
+
+        vi.mocked(MessageIngestionPipeline.splitWebhook).mockImplementation(raw => [
+          { ...raw, providerMessageId: 'wamid.1' },
+          { ...raw, providerMessageId: 'wamid.2' },
+          { ...raw, providerMessageId: 'wamid.0:delivered' }
+        ]);
+        vi.mocked(MessageIngestionPipeline.processMessageBatch).mockResolvedValue([
+          ingested({ messageId: 'msg_1' }),
+          ingested({ status: 'duplicate', messageId: 'msg_2' }),
+          ingested({ processingMetrics: { startTime: new Date(), stagesCompleted: ['delivery_status'] } })
+        ]);
+
+        const result = await WebhookProcessor.processWebhook(createMockJob(webhookData));
+
+        expect(MessageIngestionPipeline.processMessageBatch).toHaveBeenCalledWith(
+          [
+            expect.objectContaining({ providerMessageId: 'wamid.1' }),
+            expect.objectContaining({ providerMessageId: 'wamid.2' }),
+            expect.objectContaining({ providerMessageId: 'wamid.0:delivered' })
+          ],
+          expect.any(Object)
+        );
+        expect(result.messageId).toBe('msg_1');
+        expect(result.items).toEqual([
+          { providerMessageId: 'wamid.1', status: 'success', messageId: 'msg_1' },
+          { providerMessageId: 'wamid.2', status: 'duplicate', messageId: 'msg_2' },
+          { providerMessageId: 'wamid.0:delivered', status: 'success' }
+        ]);
+        expect(result.metrics?.stagesCompleted).toContain('delivery_status');
+      });
+
+      it('should fail the job when any item fails so it is retried', async () => {
         const webhookData: WebhookJobData = {
           webhookId: 'wh_124',
           providerId: 'whatsapp_test',
           providerType: 'whatsapp',
           timestamp: new Date().toISOString(),
-          payload: { messages: [{ text: { body: 'Test' } }] },
+          payload: { entry: [] },
           headers: {}
         };
 
-        const mockJob = createMockJob(webhookData);
+        vi.mocked(MessageIngestionPipeline.splitWebhook).mockImplementation(raw => [
+          { ...raw, providerMessageId: 'wamid.1' },
+          { ...raw, providerMessageId: 'wamid.2' }
+        ]);
+        vi.mocked(MessageIngestionPipeline.processMessageBatch).mockResolvedValue([
+          ingested({ messageId: 'msg_1' }),
+          ingested({
+            status: 'failed',
+            error: { code: 'INVALID_PAYLOAD', message: 'Invalid message format' }
+          })
+        ]);
+
+        await expect(WebhookProcessor.processWebhook(createMockJob(webhookData)))
+          .rejects.toThrow('Ingestion failed for 1 of 2 webhook items: wamid.2 (Invalid message format)');
+
+        // Only the failed item is kept, under its own message ID
+        expect(DeadLetterQueue.recordFailure).toHaveBeenCalledTimes(1);
+        expect(DeadLetterQueue.recordFailure).toHaveBeenCalledWith(
+          expect.objectContaining({ providerMessageId: 'wamid.2' }),
+          expect.objectContaining({ status: 'failed' }),
+          { jobId: 'test-job-123', attempt: 1, retrying: true }
+        );
+      });
 
-        // Mock ingestion failure
-        vi.mocked(IngestionPipeline.processMessage).mockResolvedValue({
-          success: false,
-          error: {
-            code: 'VALIDATION_ERROR',
-            message: 'Invalid message format',
-            stage: 'validation'
-          },
-          metrics: { processingTime: 50 }
-        });
+      it('should keep failures of different Twilio messages as separate dead letters', async () => {
+        const normalizer = new TwilioSMSNormalizer();
+        vi.mocked(MessageIngestionPipeline.splitWebhook).mockImplementation(raw => normalizer.splitPayload(raw));
+        vi.mocked(MessageIngestionPipeline.processMessageBatch).mockResolvedValue([ingested({
+          status: 'failed',
+          error: { code: 'INVALID_PAYLOAD', message: 'Invalid message format' }
+        })]);
+
+        // Both arrive through the provider's one Webhook row
+        for (const [deliveryId, messageSid] of [['delivery_1', 'SM-fail-1'], ['delivery_2', 'SM-fail-2']] as const) {
+          const webhookData: WebhookJobData = {
+            webhookId: 'wh_twilio',
+            deliveryId,
+            providerId: 'twilio_test',
+            providerType: 'twilio_sms',
+            timestamp: '2026-10-19T09:00:00.000Z',
+            payload: { MessageSid: messageSid, From: '+1234567890', To: '+0987654321', Body: 'Hello' },
+            headers: {}
+          };
+          await expect(WebhookProcessor.processWebhook(createMockJob(webhookData, deliveryId))).rejects.toThrow();
+        }
 
-        await expect(WebhookProcessor.processWebhook(mockJob))
-          .rejects.toThrow('Ingestion failed: Invalid message format');
+        const deadLetterIds = vi.mocked(DeadLetterQueue.recordFailure).mock.calls.map(([item]) => item.providerMessageId);
+        expect(deadLetterIds).toEqual(['SM-fail-1', 'SM-fail-2']);
+      });
+
+      it('should name unsplit items after the delivery rather than the webhook', async () => {
+        const webhookData: WebhookJobData = {
+          webhookId: 'wh_gmail',
+          deliveryId: 'delivery_gmail_1',
+          providerId: 'gmail_test',
+          providerType: 'gmail',
+          timestamp: '2026-10-19T09:00:00.000Z',
+          payload: { message: { data: 'e30=' } },
+          headers: {}
+        };
+        vi.mocked(MessageIngestionPipeline.processMessageBatch).mockResolvedValue([ingested({ messageId: 'msg_1' })]);
+
+        await WebhookProcessor.processWebhook(createMockJob(webhookData));
+
+        expect(MessageIngestionPipeline.splitWebhook).toHaveBeenCalledWith(
+          expect.objectContaining({ providerMessageId: 'delivery_gmail_1' })
+        );
       });
 
       it('should handle processing errors', async () => {
@@ -132,7 +342,7 @@ describe('Queue Processors', () => {
         const mockJob = createMockJob(webhookData);
 
         // Mock ingestion throwing error
-        vi.mocked(IngestionPipeline.processMessage).mockRejectedValue(
+        vi.mocked(MessageIngestionPipeline.processMessageBatch).mockRejectedValue(
           new Error('Database connection failed')
         );
 
@@ -158,7 +368,7 @@ describe('Queue Processors', () => {
         const mockJob = createMockJob(webhookData);
         mockJob.attemptsMade = 2;
 
-        vi.mocked(IngestionPipeline.processMessage).mockRejectedValue(
+        vi.mocked(MessageIngestionPipeline.processMessageBatch).mockRejectedValue(
           new Error('Still failing')
         );
 
@@ -187,12 +397,11 @@ describe('Queue Processors', () => {
 
         const mockJob = createMockJob(messageData);
 
-        vi.mocked(IngestionPipeline.processMessage).mockResolvedValue({
-          success: true,
+        vi.mocked(MessageIngestionPipeline.processMessage).mockResolvedValue(ingested({
           messageId: 'processed_msg_456',
-          customerId: 'cust_789',
-          conversationId: 'conv_101'
-        });
+          identityResolution: { customerId: 'cust_789', isNewCustomer: false, confidence: 1, matchedIdentities: [] },
+          threadingContext: { threadKey: 'email:1', conversationId: 'conv_101', isNewConversation: false, relatedMessages: [] }
+        }));
 
         const result = await MessageProcessor.processMessage(mockJob);
 
@@ -202,9 +411,9 @@ describe('Queue Processors', () => {
         expect(result.conversationId).toBe('conv_101');
 
         // Verify ingestion was called with correct options
-        expect(IngestionPipeline.processMessage).toHaveBeenCalledWith(
+        expect(MessageIngestionPipeline.processMessage).toHaveBeenCalledWith(
           expect.objectContaining({
-            id: 'msg_123',
+            providerMessageId: 'msg_123',
             providerId: 'gmail_test',
             providerType: 'gmail'
           }),
@@ -236,17 +445,16 @@ describe('Queue Processors', () => {
 
         const mockJob = createMockJob(messageData);
 
-        vi.mocked(IngestionPipeline.processMessage).mockResolvedValue({
-          success: true,
+        vi.mocked(MessageIngestionPipeline.processMessage).mockResolvedValue(ingested({
           messageId: 'processed_sms_789'
-        });
+        }));
 
         const result = await MessageProcessor.processMessage(mockJob);
 
         expect(result.success).toBe(true);
 
         // Verify custom options were used
-        expect(IngestionPipeline.processMessage).toHaveBeenCalledWith(
+        expect(MessageIngestionPipeline.processMessage).toHaveBeenCalledWith(
           expect.any(Object),
           {
             skipDuplicateCheck: true,
@@ -269,16 +477,69 @@ describe('Queue Processors', () => {
 
         const mockJob = createMockJob(messageData);
 
-        vi.mocked(IngestionPipeline.processMessage).mockResolvedValue({
-          success: false,
+        vi.mocked(MessageIngestionPipeline.processMessage).mockResolvedValue(ingested({
+          status: 'failed',
           error: {
-            code: 'DUPLICATE_MESSAGE',
-            message: 'Message already processed'
+            code: 'PROVIDER_NOT_SUPPORTED',
+            message: "Provider type 'test' is not supported"
           }
-        });
+        }));
 
         await expect(MessageProcessor.processMessage(mockJob))
-          .rejects.toThrow('Message processing failed: Message already processed');
+          .rejects.toThrow("Message processing failed: Provider type 'test' is not supported");
+      });
+
+      it('should keep a failed message as a dead letter, retrying until the last attempt', async () => {
+        const messageData: MessageIngestionJobData = {
+          providerId: 'sms_test',
+          providerMessageId: 'sms_dead',
+          providerType: 'twilio-sms',
+          channel: 'sms',
+          payload: { From: '+1234567890', Body: 'Test' },
+          timestamp: '2026-10-19T09:00:00.000Z'
+        };
+        const failed = ingested({
+          status: 'failed',
+          error: { code: 'UNKNOWN_ERROR', message: 'Database unavailable' }
+        });
+        vi.mocked(MessageIngestionPipeline.processMessage).mockResolvedValue(failed);
+
+        await expect(MessageProcessor.processMessage(createMockJob(messageData))).rejects.toThrow();
+        expect(DeadLetterQueue.recordFailure).toHaveBeenLastCalledWith(
+          expect.objectContaining({ providerMessageId: 'sms_dead' }),
+          failed,
+          { jobId: 'test-job-123', attempt: 1, retrying: true }
+        );
+
+        const lastAttempt = { ...createMockJob(messageData), attemptsMade: 2 } as Job<MessageIngestionJobData>;
+        await expect(MessageProcessor.processMessage(lastAttempt)).rejects.toThrow();
+        expect(DeadLetterQueue.recordFailure).toHaveBeenLastCalledWith(
+          expect.objectContaining({ providerMessageId: 'sms_dead' }),
+          failed,
+          { jobId: 'test-job-123', attempt: 3, retrying: false }
+        );
+      });
+
+      it('should close the dead letter when a retry goes through', async () => {
+        const messageData: MessageIngestionJobData = {
+          providerId: 'sms_test',
+          providerMessageId: 'sms_recovered',
+          providerType: 'twilio-sms',
+          channel: 'sms',
+          payload: { From: '+1234567890', Body: 'Test' },
+          timestamp: '2026-10-19T09:00:00.000Z'
+        };
+        vi.mocked(MessageIngestionPipeline.processMessage).mockResolvedValue(ingested({ messageId: 'msg_recovered' }));
+
+        await MessageProcessor.processMessage(createMockJob(messageData));
+        expect(DeadLetterQueue.recordSuccess).not.toHaveBeenCalled();
+
+        const retry = { ...createMockJob(messageData), attemptsMade: 1 } as Job<MessageIngestionJobData>;
+        await MessageProcessor.processMessage(retry);
+        expect(DeadLetterQueue.recordSuccess).toHaveBeenCalledWith(
+          expect.objectContaining({ providerMessageId: 'sms_recovered' }),
+          'msg_recovered'
+        );
       });
     });
   });
@@ -366,6 +627,174 @@ describe('Queue Processors', () => {
     });
   });
 
+  describe('OutboundMessageProcessor', () => {
+    describe('processOutbound', () => {
+      const outboundData: OutboundMessageJobData = {
+        conversationId: 'conv_101',
+        customerId: 'cust_789',
+        providerId: 'provider_1',
+        providerType: 'twilio_sms',
+        channel: 'sms',
+        to: '+15551234567',
+        from: '+15557654321',
+        body: 'Thanks, we are on it',
+        requestedBy: 'user_1',
+        requestedAt: new Date().toISOString()
+      };
+
+      it('should deliver the message and report the stored message', async () => {
+        const mockJob = createMockJob(outboundData);
+
+        vi.mocked(OutboundMessenger.deliver).mockResolvedValue({
+          message: { id: 'msg_out_1' },
+          result: { providerMessageId: 'SM123', providerMeta: {} }
+        } as any);
+
+        const result = await OutboundMessageProcessor.processOutbound(mockJob);
+
+        expect(result).toMatchObject({ success: true, messageId: 'msg_out_1', providerMessageId: 'SM123' });
+        expect(OutboundMessenger.deliver).toHaveBeenCalledWith(outboundData, 'test-job-123');
+        expect(OutboundMessenger.recordFailure).not.toHaveBeenCalled();
+      });
+
+      it('should retry transient failures without recording them', async () => {
+        const mockJob = createMockJob(outboundData);
+
+        vi.mocked(OutboundMessenger.deliver).mockRejectedValue(new Error('Request timed out'));
+
+        await expect(OutboundMessageProcessor.processOutbound(mockJob)).rejects.toThrow('Request timed out');
+        expect(OutboundMessenger.recordFailure).not.toHaveBeenCalled();
+      });
+
+      it('should record provider rejections and stop retrying', async () => {
+        const mockJob = createMockJob(outboundData);
+
+        vi.mocked(OutboundMessenger.deliver).mockRejectedValue(new SendRejectedError('Invalid To number'));
+
+        await expect(OutboundMessageProcessor.processOutbound(mockJob)).rejects.toMatchObject({
+          name: 'UnrecoverableError',
+          message: 'Invalid To number'
+        });
+        expect(OutboundMessenger.recordFailure).toHaveBeenCalledWith(
+          outboundData,
+          'test-job-123',
+          expect.objectContaining({ message: 'Invalid To number' })
+        );
+      });
+
+      it('should record the failure on the last attempt', async () => {
+        const mockJob = createMockJob(outboundData);
+        (mockJob as any).attemptsMade = 2;
+
+        vi.mocked(OutboundMessenger.deliver).mockRejectedValue(new OutboundError('PROVIDER_UNAVAILABLE' as any, 'Provider gone'));
+
+        await expect(OutboundMessageProcessor.processOutbound(mockJob)).rejects.toThrow('Provider gone');
+        expect(OutboundMessenger.recordFailure).toHaveBeenCalledWith(
+          outboundData,
+          'test-job-123',
+          { code: 'PROVIDER_UNAVAILABLE', message: 'Provider gone' }
+        );
+      });
+    });
+  });
+
+  describe('AttachmentProcessor', () => {
+    describe('processFetch', () => {
+      const fetchData: AttachmentFetchJobData = {
+        attachmentId: 'att_1',
+        messageId: 'msg_1',
+        providerId: 'provider_1'
+      };
+
+      it('should store the media and report where it went', async () => {
+        const mockJob = createMockJob(fetchData);
+
+        vi.mocked(AttachmentFetcher.fetch).mockResolvedValue({
+          attachment: { id: 'att_1', storageUrl: 'local://attachments/msg_1/att_1/photo.jpg', size: 2048 },
+          skipped: false
+        } as any);
+
+        const result = await AttachmentProcessor.processFetch(mockJob);
+
+        expect(result).toMatchObject({
+          success: true,
+          attachmentId: 'att_1',
+          storageUrl: 'local://attachments/msg_1/att_1/photo.jpg',
+          size: 2048,
+          skipped: false
+        });
+        expect(AttachmentFetcher.fetch).toHaveBeenCalledWith('att_1');
+      });
+
+      it('should retry transient failures without recording them', async () => {
+        const mockJob = createMockJob(fetchData);
+
+        vi.mocked(AttachmentFetcher.fetch).mockRejectedValue(new Error('Request timed out'));
+
+        await expect(AttachmentProcessor.processFetch(mockJob)).rejects.toThrow('Request timed out');
+        expect(AttachmentFetcher.recordFailure).not.toHaveBeenCalled();
+      });
+
+      it('should record refused downloads and stop retrying', async () => {
+        const mockJob = createMockJob(fetchData);
+
+        vi.mocked(AttachmentFetcher.fetch).mockRejectedValue(new MediaRejectedError('Media expired'));
+
+        await expect(AttachmentProcessor.processFetch(mockJob)).rejects.toMatchObject({
+          name: 'UnrecoverableError',
+          message: 'Media expired'
+        });
+        expect(AttachmentFetcher.recordFailure).toHaveBeenCalledWith(
+          'att_1',
+          expect.objectContaining({ message: 'Media expired' })
+        );
+      });
+    });
+  });
+
+  describe('AttachmentProcessor', () => {
+    describe('processThumbnail', () => {
+      const thumbnailData: AttachmentThumbnailJobData = {
+        attachmentId: 'att_1',
+        messageId: 'msg_1'
+      };
+
+      it('should report the stored thumbnail', async () => {
+        const mockJob = createMockJob(thumbnailData);
+
+        vi.mocked(ThumbnailGenerator.generate).mockResolvedValue({
+          id: 'att_1',
+          thumbnailUrl: 'local://thumbnails/msg_1/att_1/thumbnail.webp'
+        } as any);
+
+        const result = await AttachmentProcessor.processThumbnail(mockJob);
+
+        expect(result).toMatchObject({
+          success: true,
+          attachmentId: 'att_1',
+          thumbnailUrl: 'local://thumbnails/msg_1/att_1/thumbnail.webp'
+        });
+        expect(ThumbnailGenerator.recordFailure).not.toHaveBeenCalled();
+      });
+
+      it('should record media that cannot be previewed and stop retrying', async () => {
+        const mockJob = createMockJob(thumbnailData);
+
+        vi.mocked(ThumbnailGenerator.generate).mockRejectedValue(
+          new ThumbnailError('RENDER_FAILED' as any, 'Image could not be decoded')
+        );
+
+        await expect(AttachmentProcessor.processThumbnail(mockJob)).rejects.toMatchObject({
+          name: 'UnrecoverableError'
+        });
+        expect(ThumbnailGenerator.recordFailure).toHaveBeenCalledWith('att_1', {
+          code: 'RENDER_FAILED',
+          message: 'Image could not be decoded'
+        });
+      });
+    });
+  });
+
   describe('MaintenanceProcessor', () => {
     describe('processArchive', () => {
       it('should process conversation archive job', async () => {
@@ -411,6 +840,19 @@ describe('Queue Processors', () => {
           .resolves.not.toThrow();
       });
 
+      it('should prune expired idempotency keys', async () => {
+        vi.mocked(IdempotencyManager.clearExpiredEntries).mockResolvedValue(12);
+
+        const archiveData: ArchiveJobData = {
+          type: 'idempotency_keys',
+          olderThan: new Date().toISOString()
+        };
+
+        await MaintenanceProcessor.processArchive(createMockJob(archiveData));
+
+        expect(IdempotencyManager.clearExpiredEntries).toHaveBeenCalled();
+      });
+
       it('should handle unsupported archive type', async () => {
         const archiveData = {
           type: 'unsupported',
@@ -423,6 +865,73 @@ describe('Queue Processors', () => {
           .rejects.toThrow('Unsupported archive type: unsupported');
       });
     });
+
+    describe('processDuplicateScan', () => {
+      it('should run the scan with the job options and return its report', async () => {
+        const report = {
+          customersScanned: 120,
+          candidates: 3,
+          created: 2,
+          updated: 1,
+          skippedDismissed: 0,
+          removed: 1
+        };
+        vi.mocked(DuplicateDetector.scan).mockResolvedValue(report);
+
+        const scanData: DuplicateScanJobData = { scan: 'duplicate_customers', minScore: 0.7 };
+        const result = await MaintenanceProcessor.processDuplicateScan(createMockJob(scanData));
+
+        expect(DuplicateDetector.scan).toHaveBeenCalledWith({ minScore: 0.7 });
+        expect(result).toEqual(report);
+      });
+    });
+
+    describe('processPhoneRenormalization', () => {
+      it('should run the migration with the job options and return its report', async () => {
+        const report = {
+          dryRun: true,
+          scanned: 40,
+          unchanged: 35,
+          updated: 3,
+          invalid: 1,
+          messagesUpdated: 0,
+          threadKeysUpdated: 0,
+          threadKeyCollisions: [],
+          collisions: [{
+            identityId: 'identity-1',
+            customerId: 'customer-1',
+            value: '+1447700900123',
+            normalizedValue: '+447700900123',
+            conflictingIdentityId: 'identity-2',
+            conflictingCustomerId: 'customer-2',
+            sameCustomer: false
+          }]
+        };
+        vi.mocked(PhoneRenormalizer.run).mockResolvedValue(report);
+
+        const migrationData: PhoneRenormalizationJobData = { migration: 'phone_e164', dryRun: true };
+        const result = await MaintenanceProcessor.processPhoneRenormalization(createMockJob(migrationData));
+
+        expect(PhoneRenormalizer.run).toHaveBeenCalledWith({ dryRun: true });
+        expect(result).toEqual(report);
+      });
+    });
+
+    describe('processDeadLetterReplay', () => {
+      it('should replay the dead letters and report how many went through', async () => {
+        vi.mocked(DeadLetterQueue.replayByErrorCode).mockResolvedValue([
+          { id: 'dead-letter-1', status: 'replayed', messageId: 'message-1' },
+          { id: 'dead-letter-2', status: 'failed', error: { code: 'INVALID_PAYLOAD', message: 'Still invalid' } }
+        ]);
+
+        const replayData: DeadLetterReplayJobData = { errorCode: 'INVALID_PAYLOAD', limit: 25, requestedBy: 'user_1' };
+        const result = await MaintenanceProcessor.processDeadLetterReplay(createMockJob(replayData));
+
+        expect(DeadLetterQueue.replayByErrorCode).toHaveBeenCalledWith('INVALID_PAYLOAD', { limit: 25, userId: 'user_1' });
+        expect(result).toMatchObject({ errorCode: 'INVALID_PAYLOAD', replayed: 1, failed: 1 });
+        expect(result.results).toHaveLength(2);
+      });
+    });
   });
 
   describe('HealthCheckProcessor', () => {
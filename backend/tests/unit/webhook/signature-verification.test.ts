@@ -14,20 +14,18 @@ describe('WebhookSignatureVerifier', () => {
   const testSecret = 'test-secret-key-12345';
   const testPayload = '{"message": "Hello, World!", "timestamp": 1234567890}';
   const testUrl = 'https://example.com/webhook/twilio';
+  // The worked example from Twilio's webhook security docs
+  const twilioDocsUrl = 'https://mycompany.com/myapp.php?foo=1&bar=2';
+  const twilioDocsForm = 'CallSid=CA1234567890ABCDE&Caller=%2B12349013030&Digits=1234&From=%2B12349013030&To=%2B18005551212';
+  const twilioDocsSignature = '0/KCTR6DLpKmkAf8muzZqo1nDgQ=';
 
   describe('verifyTwilioSignature', () => {
     it('should verify valid Twilio signature', () => {
-      // Generate expected Twilio signature
-      const expectedSignature = crypto
-        .createHmac('sha1', testSecret)
-        .update(testUrl + testPayload, 'utf8')
-        .digest('base64');
-
-      const config: VerificationConfig = { secret: testSecret };
+      const config: VerificationConfig = { secret: '12345' };
       const result = WebhookSignatureVerifier.verifyTwilioSignature(
-        testUrl,
-        testPayload,
-        expectedSignature,
+        twilioDocsUrl,
+        twilioDocsForm,
+        twilioDocsSignature,
         config
       );
 
@@ -36,6 +34,30 @@ describe('WebhookSignatureVerifier', () => {
       expect(result.providerId).toBe('twilio');
     });
 
+    it('should sign the sorted parameters, not the body as sent', () => {
+      const reordered = 'To=%2B18005551212&Digits=1234&CallSid=CA1234567890ABCDE&From=%2B12349013030&Caller=%2B12349013030';
+
+      const result = WebhookSignatureVerifier.verifyTwilioSignature(
+        twilioDocsUrl,
+        reordered,
+        twilioDocsSignature,
+        { secret: '12345' }
+      );
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject a signature over a tampered parameter', () => {
+      const result = WebhookSignatureVerifier.verifyTwilioSignature(
+        twilioDocsUrl,
+        twilioDocsForm.replace('Digits=1234', 'Digits=9999'),
+        twilioDocsSignature,
+        { secret: '12345' }
+      );
+
+      expect(result.valid).toBe(false);
+    });
+
     it('should reject invalid Twilio signature', () => {
       const invalidSignature = 'invalid-signature';
       const config: VerificationConfig = { secret: testSecret };
@@ -284,20 +306,15 @@ describe('WebhookSignatureVerifier', () => {
 
   describe('verifyWebhookSignature', () => {
     it('should route Twilio verification correctly', () => {
-      const expectedSignature = crypto
-        .createHmac('sha1', testSecret)
-        .update(testUrl + testPayload, 'utf8')
-        .digest('base64');
-
-      const config: VerificationConfig = { secret: testSecret };
-      const headers = { 'x-twilio-signature': expectedSignature };
+      const config: VerificationConfig = { secret: '12345' };
+      const headers = { 'x-twilio-signature': twilioDocsSignature };
 
       const result = WebhookSignatureVerifier.verifyWebhookSignature(
-        'twilio',
-        testPayload,
+        'twilio_voice',
+        twilioDocsForm,
         headers,
         config,
-        testUrl
+        twilioDocsUrl
       );
 
       expect(result.valid).toBe(true);
@@ -365,17 +382,12 @@ describe('WebhookSignatureVerifier', () => {
     it('should generate Twilio signature', () => {
       const signature = WebhookSignatureVerifier.generateSignature(
         'twilio',
-        testPayload,
-        testSecret,
-        { url: testUrl }
+        twilioDocsForm,
+        '12345',
+        { url: twilioDocsUrl }
       );
 
-      const expectedSignature = crypto
-        .createHmac('sha1', testSecret)
-        .update(testUrl + testPayload, 'utf8')
-        .digest('base64');
-
-      expect(signature).toBe(expectedSignature);
+      expect(signature).toBe(twilioDocsSignature);
     });
 
     it('should generate WhatsApp signature', () => {
@@ -1,4 +1,4 @@
-import { ApiResponse, User, Customer, Message, Provider } from '@/types/api'
+import { ApiResponse, User, Customer, CustomerIdentity, Message, Provider } from '@/types/api'
 
 class ApiClient {
   private baseUrl: string
@@ -142,6 +142,124 @@ class ApiClient {
     })
   }
 
+  async linkIdentity(customerId: string, identityData: {
+    type: CustomerIdentity['type']
+    value: string
+    provider?: string
+    verified?: boolean
+    region?: string
+  }): Promise<ApiResponse<CustomerIdentity>> {
+    return this.request(`/customers/${customerId}/identities`, {
+      method: 'POST',
+      body: JSON.stringify(identityData),
+    })
+  }
+
+  async unlinkIdentity(customerId: string, identityId: string): Promise<ApiResponse<null>> {
+    return this.request(`/customers/${customerId}/identities/${identityId}`, {
+      method: 'DELETE',
+    })
+  }
+
+  async findIdentity(type: CustomerIdentity['type'], value: string, region?: string): Promise<ApiResponse<CustomerIdentity & { customer: Customer }>> {
+    const searchParams = new URLSearchParams({ type, value })
+    if (region) searchParams.append('region', region)
+    return this.request(`/identities?${searchParams.toString()}`)
+  }
+
+  async renormalizePhoneIdentities(dryRun?: boolean): Promise<ApiResponse<{ jobId: string; status: 'queued' }>> {
+    return this.request('/identities/phone/renormalize', {
+      method: 'POST',
+      body: JSON.stringify(dryRun !== undefined ? { dryRun } : {}),
+    })
+  }
+
+  async setIdentityVerified(identityId: string, verified: boolean): Promise<ApiResponse<CustomerIdentity>> {
+    return this.request(`/identities/${identityId}/verify`, {
+      method: verified ? 'POST' : 'DELETE',
+    })
+  }
+
+  async mergeCustomer(customerId: string, sourceCustomerId: string): Promise<ApiResponse<{
+    mergeId: string
+    customer: Customer
+    moved: { identities: number; messages: number; conversations: number }
+  }>> {
+    return this.request(`/customers/${customerId}/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ sourceCustomerId }),
+    })
+  }
+
+  async undoCustomerMerge(mergeId: string): Promise<ApiResponse<{
+    customer: Customer
+    targetCustomerId: string
+    restored: { identities: number; messages: number; conversations: number }
+  }>> {
+    return this.request(`/customers/merges/${mergeId}/undo`, {
+      method: 'POST',
+    })
+  }
+
+  async splitCustomer(customerId: string, splitData: {
+    identityIds: string[]
+    name?: string
+    displayName?: string
+  }): Promise<ApiResponse<{
+    customer: Customer
+    sourceCustomerId: string
+    moved: { identities: number; messages: number; conversations: number }
+    sharedConversationIds: string[]
+  }>> {
+    return this.request(`/customers/${customerId}/split`, {
+      method: 'POST',
+      body: JSON.stringify(splitData),
+    })
+  }
+
+  async getDuplicateSuggestions(params?: {
+    status?: 'pending' | 'dismissed'
+    customerId?: string
+    page?: number
+    limit?: number
+  }): Promise<ApiResponse<{
+    data: Array<{
+      id: string
+      score: number
+      status: 'pending' | 'dismissed'
+      reasons: Array<{ type: string; detail: string; weight: number }>
+      customer: Customer
+      candidate: Customer
+    }>
+    pagination: { page: number; limit: number; total: number; totalPages: number }
+  }>> {
+    const searchParams = new URLSearchParams()
+    if (params?.status) searchParams.append('status', params.status)
+    if (params?.customerId) searchParams.append('customerId', params.customerId)
+    if (params?.page) searchParams.append('page', params.page.toString())
+    if (params?.limit) searchParams.append('limit', params.limit.toString())
+
+    const queryString = searchParams.toString()
+    return this.request(`/customers/duplicates${queryString ? `?${queryString}` : ''}`)
+  }
+
+  async acceptDuplicateSuggestion(suggestionId: string, targetCustomerId?: string): Promise<ApiResponse<{
+    mergeId: string
+    customer: Customer
+    moved: { identities: number; messages: number; conversations: number }
+  }>> {
+    return this.request(`/customers/duplicates/${suggestionId}/accept`, {
+      method: 'POST',
+      body: JSON.stringify(targetCustomerId ? { targetCustomerId } : {}),
+    })
+  }
+
+  async dismissDuplicateSuggestion(suggestionId: string): Promise<ApiResponse<{ id: string; status: 'dismissed' }>> {
+    return this.request(`/customers/duplicates/${suggestionId}/dismiss`, {
+      method: 'POST',
+    })
+  }
+
   // Messages
   async getMessages(params?: {
     page?: number
@@ -165,13 +283,48 @@ class ApiClient {
     return this.request(`/messages/${messageId}`)
   }
 
-  async sendMessage(messageData: {
-    customerId: string
-    content: string
-    channel: string
-    metadata?: Record<string, any>
-  }): Promise<ApiResponse<Message>> {
-    return this.request('/messages', {
+  // Media needs the bearer token, so it comes back as a Blob for URL.createObjectURL
+  async getAttachmentContent(
+    attachmentId: string,
+    variant: 'content' | 'thumbnail' = 'content'
+  ): Promise<ApiResponse<Blob>> {
+    const headers: Record<string, string> = {}
+    if (this.authToken) {
+      headers['Authorization'] = `Bearer ${this.authToken}`
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}/attachments/${attachmentId}/${variant}`, { headers })
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
+
+      return {
+        success: true,
+        data: await response.blob(),
+        error: null
+      }
+    } catch (error) {
+      return {
+        success: false,
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      }
+    }
+  }
+
+  async generateAttachmentThumbnail(attachmentId: string): Promise<ApiResponse<{ jobId: string; status: 'queued' }>> {
+    return this.request(`/attachments/${attachmentId}/thumbnail`, {
+      method: 'POST'
+    })
+  }
+
+  async sendMessage(conversationId: string, messageData: {
+    body: string
+    subject?: string
+  }): Promise<ApiResponse<{ jobId: string; status: 'queued'; conversationId: string; providerId: string; channel: string; to: string }>> {
+    return this.request(`/conversations/${conversationId}/messages`, {
       method: 'POST',
       body: JSON.stringify(messageData),
     })
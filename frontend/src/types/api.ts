@@ -44,6 +44,17 @@ export interface Customer {
   updatedAt: string
 }
 
+export interface CustomerIdentity {
+  id: string
+  customerId: string
+  type: 'phone' | 'email' | 'social'
+  value: string
+  rawValue: string
+  provider?: string | null
+  verified: boolean
+  linkedAt: string
+}
+
 // Message types
 export interface Message {
   id: string
@@ -104,6 +115,10 @@ export interface Provider {
     accountId?: string
     [key: string]: any
   }
+  // ISO region for phone numbers that arrive without a country code
+  defaultRegion?: string | null
+  // Our numbers, WhatsApp phone_number_ids and mailboxes; decide message direction
+  ownedAddresses?: string[]
   capabilities: {
     sendMessages: boolean
     receiveMessages: boolean
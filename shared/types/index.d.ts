@@ -1,4 +1,4 @@
-export type ChannelType = 'sms' | 'email' | 'voice' | 'whatsapp' | 'facebook' | 'instagram';
+export type ChannelType = 'sms' | 'email' | 'voice' | 'whatsapp' | 'facebook' | 'instagram' | 'imap';
 export type MessageDirection = 'inbound' | 'outbound';
 export type MessageStatus = 'received' | 'processed' | 'failed';
 export type ConversationStatus = 'active' | 'archived' | 'assigned';
@@ -39,9 +39,20 @@ export interface Message extends BaseEntity {
     timestamp: Date;
     body: string | null;
     attachments: Attachment[];
+    participants?: MessageParticipant[];
     providerMeta: Record<string, any>;
     status: MessageStatus;
 }
+export type ParticipantRole = 'from' | 'to' | 'cc' | 'bcc' | 'reply_to';
+export interface MessageParticipant {
+    id: string;
+    messageId: string;
+    role: ParticipantRole;
+    address: string;
+    displayName: string | null;
+    customerId: string | null;
+    createdAt: Date;
+}
 export interface Attachment extends BaseEntity {
     messageId: string;
     type: string;